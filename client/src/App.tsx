@@ -11,6 +11,8 @@ import CreateRoom from "./pages/CreateRoom";
 import Room from "./pages/Room";
 import Debate from "./pages/Debate";
 import Review from "./pages/Review";
+import FormatBuilder from "./pages/FormatBuilder";
+import ImportDebate from "./pages/ImportDebate";
 
 function Router() {
   return (
@@ -19,9 +21,11 @@ function Router() {
       <Route path="/profile" component={Profile} />
       <Route path="/lobby" component={Lobby} />
       <Route path="/room/create" component={CreateRoom} />
+      <Route path="/import" component={ImportDebate} />
       <Route path="/room/:code" component={Room} />
       <Route path="/debate/:code" component={Debate} />
       <Route path="/review/:code" component={Review} />
+      <Route path="/formats/new" component={FormatBuilder} />
       <Route path="/404" component={NotFound} />
       <Route component={NotFound} />
     </Switch>
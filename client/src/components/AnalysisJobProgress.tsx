@@ -0,0 +1,68 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { trpc } from "@/lib/trpc";
+import { AlertTriangle, Loader2, RefreshCw } from "lucide-react";
+
+const LABELS = {
+  mindmap: "Argument map",
+  feedback: "Feedback",
+} as const;
+
+/**
+ * How the room's latest argument map or feedback job is getting on: queued,
+ * running or failed. Nothing once it's done; the results show instead.
+ */
+export function AnalysisJobProgress({
+  roomId,
+  kind,
+  onRetry,
+  isRetrying,
+}: {
+  roomId: number;
+  kind: keyof typeof LABELS;
+  onRetry: () => void;
+  isRetrying?: boolean;
+}) {
+  const { data: jobs } = trpc.analysis.jobs.useQuery({ roomId });
+  const job = jobs?.[kind];
+  const label = LABELS[kind];
+
+  if (!job || job.status === "completed") return null;
+
+  if (job.status === "failed") {
+    return (
+      <Card className="border-destructive">
+        <CardContent className="pt-6 flex flex-wrap items-center gap-3 text-sm">
+          <AlertTriangle className="w-4 h-4 text-destructive" />
+          <span className="mr-auto text-destructive">
+            {label} generation failed: {job.error || "unknown error"}
+          </span>
+          <Button size="sm" variant="outline" onClick={onRetry} disabled={isRetrying}>
+            {isRetrying ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+            Try Again
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-2">
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <span className="flex items-center gap-2 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            {job.status === "running"
+              ? `${label}: ${job.step ?? "Starting"}...`
+              : job.error
+                ? `${label} hit a problem and will be retried shortly`
+                : `${label} is queued`}
+          </span>
+          <span className="font-mono text-xs text-muted-foreground">{job.progress}%</span>
+        </div>
+        <Progress value={job.progress} />
+      </CardContent>
+    </Card>
+  );
+}
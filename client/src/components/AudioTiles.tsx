@@ -0,0 +1,79 @@
+import { Badge } from "@/components/ui/badge";
+import { useEffect, useRef } from "react";
+import { Mic, MicOff, Wifi, WifiOff } from "lucide-react";
+import type { AudioPeerState } from "@/hooks/useRoomAudio";
+
+export type AudioTileParticipant = {
+  userId: number;
+  name: string;
+  roleLabel: string;
+  isSelf: boolean;
+};
+
+// Hidden player for one remote stream
+function PeerAudio({ stream }: { stream: MediaStream }) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.srcObject = stream;
+  }, [stream]);
+
+  return <audio ref={audioRef} autoPlay playsInline />;
+}
+
+/**
+ * One tile per room participant showing whether they are connected to room
+ * audio and whether their mic is muted. Remote streams play from here.
+ */
+export function AudioTiles({
+  participants,
+  peers,
+  joined,
+  selfMuted,
+}: {
+  participants: AudioTileParticipant[];
+  peers: AudioPeerState[];
+  joined: boolean;
+  selfMuted: boolean;
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {participants.map((participant) => {
+        const peer = peers.find(p => p.userId === participant.userId);
+        const connected = participant.isSelf ? joined : !!peer;
+        const muted = participant.isSelf ? selfMuted : peer?.muted ?? false;
+
+        return (
+          <div
+            key={participant.userId}
+            className={`p-2 rounded-lg border text-xs ${connected ? "" : "opacity-50"}`}
+          >
+            <div className="flex items-center justify-between gap-1">
+              <span className="font-medium truncate">
+                {participant.name}{participant.isSelf && " (you)"}
+              </span>
+              {connected ? (
+                muted ? (
+                  <MicOff className="w-3 h-3 shrink-0 text-red-500" />
+                ) : (
+                  <Mic className="w-3 h-3 shrink-0 text-green-500" />
+                )
+              ) : (
+                <WifiOff className="w-3 h-3 shrink-0 text-muted-foreground" />
+              )}
+            </div>
+            <div className="flex items-center justify-between gap-1 mt-1">
+              <span className="text-muted-foreground truncate">{participant.roleLabel}</span>
+              {connected && peer?.stream && (
+                <Badge variant="outline" className="gap-1 text-[10px] px-1 py-0">
+                  <Wifi className="w-2.5 h-2.5" /> Live
+                </Badge>
+              )}
+            </div>
+            {!participant.isSelf && peer?.stream && <PeerAudio stream={peer.stream} />}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
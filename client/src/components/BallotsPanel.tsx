@@ -0,0 +1,367 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { useEffect, useState } from "react";
+import {
+  BALLOT_MARGINS,
+  formatRank,
+  getActiveSpeakingOrder,
+  getSpeakerPointRange,
+  getSpeakingRoles,
+  type BallotMargin,
+  type DebateFormat,
+} from "@shared/debate";
+import { AlertCircle, Bot, CheckCircle2, Gavel, Loader2, Scale } from "lucide-react";
+
+type PanelParticipant = {
+  id: number;
+  userId: number;
+  role: string;
+  speakerRole: string | null;
+};
+
+/**
+ * Human adjudication for a finished round: the ballot form for adjudicators,
+ * the aggregated panel decision, each ballot, and where the panel and the
+ * AI verdict disagree.
+ */
+export function BallotsPanel({
+  roomId,
+  format,
+  participants,
+  aiOpponent,
+  userId,
+}: {
+  roomId: number;
+  format: DebateFormat;
+  participants: PanelParticipant[];
+  aiOpponent: boolean;
+  userId: number;
+}) {
+  const { data } = trpc.ballot.list.useQuery({ roomId });
+  const me = participants.find(p => p.userId === userId);
+  const isAdjudicator = me?.role === "adjudicator";
+  const myBallot = data?.ballots.find(b => b.participantId === me?.id);
+
+  const teamLabel = (team: string | null) => format.teams.find(t => t.id === team)?.shortLabel ?? team ?? "—";
+  const slots = getActiveSpeakingOrder(format, getSpeakingRoles(format, participants.map(p => p.speakerRole), aiOpponent));
+  const decision = data?.decision;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid md:grid-cols-2 gap-6">
+        {/* Panel decision */}
+        <Card className="border-2">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Scale className="w-5 h-5" />
+              Panel Decision
+            </CardTitle>
+            {decision && (
+              <CardDescription>
+                {decision.ballotCount} ballot{decision.ballotCount === 1 ? "" : "s"}
+                {format.resultType === "winner" && ` • ${decision.split}${decision.unanimous ? " (unanimous)" : ""}`}
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {!decision ? (
+              <p className="text-muted-foreground">No adjudicator ballots have been submitted yet.</p>
+            ) : format.resultType === "ranking" ? (
+              decision.ranking.map((team, index) => (
+                <div key={team} className="flex items-center gap-4">
+                  <span className="text-xl font-bold w-12">{formatRank(index + 1)}</span>
+                  <span className="font-medium">{teamLabel(team)}</span>
+                </div>
+              ))
+            ) : (
+              <p className="text-2xl font-bold">
+                {decision.winner ? `${teamLabel(decision.winner)} win` : "Split panel — no majority"}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* AI verdict for comparison */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Bot className="w-5 h-5" />
+              AI Verdict
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {!data?.aiVerdict ? (
+              <p className="text-muted-foreground">Generate AI feedback to compare it with the panel.</p>
+            ) : data.aiVerdict.teamRankings?.length ? (
+              data.aiVerdict.teamRankings.map(entry => (
+                <div key={entry.team} className="flex items-center gap-4">
+                  <span className="text-xl font-bold w-12">{formatRank(entry.rank)}</span>
+                  <span className="font-medium">{teamLabel(entry.team)}</span>
+                </div>
+              ))
+            ) : (
+              <p className="text-2xl font-bold">{teamLabel(data.aiVerdict.suggestedWinner)} win</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Panel vs AI */}
+      {decision && data && (
+        data.aiDisagreements.length > 0 ? (
+          <Card className="border-yellow-500">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-yellow-600">
+                <AlertCircle className="w-5 h-5" />
+                Panel and AI Disagree
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ul className="space-y-2">
+                {data.aiDisagreements.map((note, i) => (
+                  <li key={i} className="text-sm">{note}</li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        ) : (
+          data.aiVerdict && (
+            <p className="flex items-center gap-2 text-sm text-muted-foreground">
+              <CheckCircle2 className="w-4 h-4 text-green-500" />
+              The panel and the AI reached the same result.
+            </p>
+          )
+        )
+      )}
+
+      {isAdjudicator && (
+        <BallotForm
+          roomId={roomId}
+          format={format}
+          slots={slots}
+          existing={myBallot}
+        />
+      )}
+
+      {/* Individual ballots */}
+      {data?.ballots.map(ballot => (
+        <Card key={ballot.id}>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <Gavel className="w-4 h-4" />
+              {ballot.adjudicatorName}
+              {ballot.adjudicatorPosition && (
+                <Badge variant="outline" className="capitalize">{ballot.adjudicatorPosition}</Badge>
+              )}
+              <Badge className="ml-auto capitalize">{ballot.margin}</Badge>
+            </CardTitle>
+            <CardDescription>
+              {ballot.teamRanking
+                ? ballot.teamRanking.map((team, i) => `${formatRank(i + 1)} ${teamLabel(team)}`).join(" • ")
+                : `Winner: ${teamLabel(ballot.winner)}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm leading-relaxed whitespace-pre-wrap">{ballot.reasonForDecision}</p>
+            <div className="grid sm:grid-cols-2 gap-2">
+              {slots.map(slot => (
+                <div key={slot.role} className="flex items-center justify-between text-sm p-2 rounded border">
+                  <span>{slot.label}</span>
+                  <span className="font-mono font-semibold">
+                    {ballot.speakerPoints[slot.role] ?? "—"}
+                    {decision?.speakerPoints[slot.role] !== undefined && decision.ballotCount > 1 && (
+                      <span className="text-muted-foreground font-normal"> / avg {decision.speakerPoints[slot.role]}</span>
+                    )}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
+
+function BallotForm({
+  roomId,
+  format,
+  slots,
+  existing,
+}: {
+  roomId: number;
+  format: DebateFormat;
+  slots: ReturnType<typeof getActiveSpeakingOrder>;
+  existing?: {
+    winner: string;
+    teamRanking: string[] | null;
+    speakerPoints: Record<string, number>;
+    margin: BallotMargin;
+    reasonForDecision: string;
+  };
+}) {
+  const utils = trpc.useUtils();
+  const [winner, setWinner] = useState<string>("");
+  const [ranking, setRanking] = useState<string[]>(format.teams.map(t => t.id));
+  const [points, setPoints] = useState<Record<string, string>>({});
+  const [margin, setMargin] = useState<BallotMargin>("clear");
+  const [reason, setReason] = useState("");
+
+  // Start from the adjudicator's previous ballot when they come back to revise it
+  useEffect(() => {
+    if (!existing) return;
+    setWinner(existing.winner);
+    if (existing.teamRanking) setRanking(existing.teamRanking);
+    setPoints(Object.fromEntries(Object.entries(existing.speakerPoints).map(([role, value]) => [role, String(value)])));
+    setMargin(existing.margin);
+    setReason(existing.reasonForDecision);
+  }, [existing]);
+
+  const submitBallot = trpc.ballot.submit.useMutation({
+    onSuccess: () => {
+      toast.success("Ballot submitted");
+      utils.ballot.list.invalidate({ roomId });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to submit ballot");
+    },
+  });
+
+  const isRanking = format.resultType === "ranking";
+
+  const setRankAt = (index: number, team: string) => {
+    // Swap so every team keeps exactly one position
+    setRanking(prev => {
+      const next = [...prev];
+      const from = next.indexOf(team);
+      [next[index], next[from]] = [next[from], next[index]];
+      return next;
+    });
+  };
+
+  const handleSubmit = () => {
+    submitBallot.mutate({
+      roomId,
+      winner: isRanking ? ranking[0] : winner,
+      teamRanking: isRanking ? ranking : undefined,
+      speakerPoints: Object.fromEntries(
+        Object.entries(points).filter(([, value]) => value !== "").map(([role, value]) => [role, Number(value)])
+      ),
+      margin,
+      reasonForDecision: reason,
+    });
+  };
+
+  return (
+    <Card className="border-primary">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gavel className="w-5 h-5" />
+          {existing ? "Revise Your Ballot" : "Your Ballot"}
+        </CardTitle>
+        <CardDescription>
+          Speaker points {format.speakerPoints.min}–{format.speakerPoints.max}; replies on half the scale
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isRanking ? (
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Team Ranking</label>
+            {ranking.map((team, index) => (
+              <div key={index} className="flex items-center gap-3">
+                <span className="font-bold w-10">{formatRank(index + 1)}</span>
+                <Select value={team} onValueChange={(v) => setRankAt(index, v)}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {format.teams.map(t => (
+                      <SelectItem key={t.id} value={t.id}>{t.shortLabel}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Winner</label>
+            <Select value={winner} onValueChange={setWinner}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose the winning team" />
+              </SelectTrigger>
+              <SelectContent>
+                {format.teams.map(t => (
+                  <SelectItem key={t.id} value={t.id}>{t.shortLabel}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Speaker Points</label>
+          <div className="grid sm:grid-cols-2 gap-3">
+            {slots.map(slot => {
+              const { min, max } = getSpeakerPointRange(format, slot);
+              return (
+                <div key={slot.role} className="flex items-center justify-between gap-3">
+                  <span className="text-sm">{slot.label}</span>
+                  <Input
+                    type="number"
+                    min={min}
+                    max={max}
+                    step={0.5}
+                    placeholder={`${min}-${max}`}
+                    value={points[slot.role] ?? ""}
+                    onChange={(e) => setPoints(prev => ({ ...prev, [slot.role]: e.target.value }))}
+                    className="w-24"
+                  />
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Margin</label>
+          <Select value={margin} onValueChange={(v) => setMargin(v as BallotMargin)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BALLOT_MARGINS.map(m => (
+                <SelectItem key={m.id} value={m.id}>{m.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Reason for Decision</label>
+          <Textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Where the debate was won and lost..."
+            maxLength={5000}
+            rows={5}
+          />
+        </div>
+
+        <Button
+          onClick={handleSubmit}
+          disabled={(!isRanking && !winner) || !reason.trim() || submitBallot.isPending}
+          className="w-full"
+        >
+          {submitBallot.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : existing ? "Update Ballot" : "Submit Ballot"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
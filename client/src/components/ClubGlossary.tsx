@@ -0,0 +1,103 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { useState } from "react";
+import { BookText, Loader2, X } from "lucide-react";
+
+/**
+ * The club's glossary of names, jargon and motion terms that transcription is
+ * primed with in rooms its members create. Any member can add or remove terms.
+ */
+export function ClubGlossary() {
+  const [draft, setDraft] = useState("");
+  const utils = trpc.useUtils();
+
+  const { data } = trpc.glossary.list.useQuery();
+
+  const addTerm = trpc.glossary.add.useMutation({
+    onSuccess: () => {
+      setDraft("");
+      utils.glossary.list.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to add term");
+    },
+  });
+
+  const removeTerm = trpc.glossary.remove.useMutation({
+    onSuccess: () => {
+      utils.glossary.list.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to remove term");
+    },
+  });
+
+  const handleAdd = () => {
+    if (!draft.trim()) return;
+    addTerm.mutate({ term: draft.trim() });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BookText className="w-5 h-5" />
+          Club Glossary
+        </CardTitle>
+        <CardDescription>
+          {data?.club
+            ? `Names and terms transcription should recognise in rounds created by ${data.club} members`
+            : "Set your club above to keep a glossary for transcription"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {data?.club && (
+          <>
+            <div className="flex gap-2">
+              <Input
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    handleAdd();
+                  }
+                }}
+                placeholder="e.g. a speaker's name or a local institution"
+                maxLength={100}
+              />
+              <Button type="button" onClick={handleAdd} disabled={!draft.trim() || addTerm.isPending}>
+                {addTerm.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : "Add"}
+              </Button>
+            </div>
+            {data.terms.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {data.terms.map(term => (
+                  <Badge key={term.id} variant="secondary" className="gap-1">
+                    {term.term}
+                    <button
+                      type="button"
+                      onClick={() => removeTerm.mutate({ id: term.id })}
+                      aria-label={`Remove ${term.term}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+        {data && (
+          <p className="text-xs text-muted-foreground">
+            Always included: {data.defaults.join(", ")}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
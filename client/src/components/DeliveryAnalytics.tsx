@@ -0,0 +1,146 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { formatTime, getRoleLabel, type DebateFormat } from "@shared/debate";
+import { Activity, Loader2, RefreshCw } from "lucide-react";
+
+const paceChartConfig = {
+  wordsPerMinute: { label: "Words per minute", color: "var(--chart-1)" },
+} satisfies ChartConfig;
+
+const fillerChartConfig = {
+  count: { label: "Times said", color: "var(--chart-2)" },
+} satisfies ChartConfig;
+
+/**
+ * Delivery of each speech in a round: pace over the speech, filler words,
+ * long pauses, how much of the allotted time was used and phrases the speaker
+ * kept coming back to.
+ */
+export function DeliveryAnalytics({ roomId, format }: { roomId: number; format: DebateFormat }) {
+  const utils = trpc.useUtils();
+  const { data: deliveries } = trpc.delivery.get.useQuery({ roomId });
+
+  const analyze = trpc.delivery.analyze.useMutation({
+    onSuccess: ({ analyzed }) => {
+      toast.success(`Analysed ${analyzed} speech${analyzed === 1 ? "" : "es"}`);
+      utils.delivery.get.invalidate({ roomId });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to analyse delivery");
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Worked out from the transcript and its timings; correct the transcript and re-analyse for exact counts.
+        </p>
+        <Button onClick={() => analyze.mutate({ roomId })} disabled={analyze.isPending} className="gap-2 shrink-0">
+          {analyze.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          {deliveries?.length ? "Re-analyse Delivery" : "Analyse Delivery"}
+        </Button>
+      </div>
+
+      {!deliveries?.length ? (
+        <p className="text-center text-muted-foreground py-8">No delivery analysis yet.</p>
+      ) : (
+        deliveries.map(({ id, speakerRole, metrics }) => {
+          const timeShare = metrics.timeAllotted > 0 ? metrics.timeUsed / metrics.timeAllotted : 0;
+          const fillersPerMinute = metrics.timeUsed > 0 ? (metrics.fillerCount / metrics.timeUsed) * 60 : 0;
+          return (
+            <Card key={id}>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <Activity className="w-4 h-4" />
+                  {getRoleLabel(format, speakerRole)}
+                </CardTitle>
+                <CardDescription>{metrics.wordCount} words</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="p-3 rounded-lg bg-muted/50">
+                    <div className="text-2xl font-bold font-mono">{metrics.wordsPerMinute}</div>
+                    <div className="text-xs text-muted-foreground">Words per minute</div>
+                  </div>
+                  <div className="p-3 rounded-lg bg-muted/50">
+                    <div className="text-2xl font-bold font-mono">{metrics.fillerCount}</div>
+                    <div className="text-xs text-muted-foreground">Fillers ({fillersPerMinute.toFixed(1)}/min)</div>
+                  </div>
+                  <div className="p-3 rounded-lg bg-muted/50">
+                    <div className="text-2xl font-bold font-mono">{metrics.longPauses.length}</div>
+                    <div className="text-xs text-muted-foreground">Long pauses</div>
+                  </div>
+                  <div className="p-3 rounded-lg bg-muted/50 space-y-1">
+                    <div className="text-2xl font-bold font-mono">
+                      {formatTime(metrics.timeUsed)}
+                      <span className="text-sm text-muted-foreground"> / {formatTime(metrics.timeAllotted)}</span>
+                    </div>
+                    <Progress value={Math.min(100, timeShare * 100)} className="h-1.5" />
+                    <div className="text-xs text-muted-foreground">{Math.round(timeShare * 100)}% of time used</div>
+                  </div>
+                </div>
+
+                {metrics.pace.length > 1 && (
+                  <div>
+                    <p className="text-sm font-medium mb-2">Pace</p>
+                    <ChartContainer config={paceChartConfig} className="h-48 w-full aspect-auto">
+                      <LineChart data={metrics.pace.map(p => ({ ...p, time: formatTime(p.start) }))}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="time" tickLine={false} axisLine={false} />
+                        <YAxis width={32} tickLine={false} axisLine={false} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <Line dataKey="wordsPerMinute" type="monotone" stroke="var(--color-wordsPerMinute)" strokeWidth={2} dot={false} />
+                      </LineChart>
+                    </ChartContainer>
+                  </div>
+                )}
+
+                {metrics.fillers.length > 0 && (
+                  <div>
+                    <p className="text-sm font-medium mb-2">Filler words</p>
+                    <ChartContainer config={fillerChartConfig} className="h-40 w-full aspect-auto">
+                      <BarChart data={metrics.fillers}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="filler" tickLine={false} axisLine={false} />
+                        <YAxis width={24} allowDecimals={false} tickLine={false} axisLine={false} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                      </BarChart>
+                    </ChartContainer>
+                  </div>
+                )}
+
+                {metrics.longPauses.length > 0 && (
+                  <div className="text-sm">
+                    <span className="font-medium">Pauses: </span>
+                    <span className="text-muted-foreground">
+                      {metrics.longPauses.map(p => `${formatTime(Math.floor(p.start))} (${p.duration}s)`).join(", ")}
+                    </span>
+                  </div>
+                )}
+
+                {metrics.repeatedPhrases.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">Repeated phrases</p>
+                    <div className="flex flex-wrap gap-2">
+                      {metrics.repeatedPhrases.map(p => (
+                        <Badge key={p.phrase} variant="secondary">"{p.phrase}" ×{p.count}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+}
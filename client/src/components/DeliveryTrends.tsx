@@ -0,0 +1,54 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { trpc } from "@/lib/trpc";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+
+const trendChartConfig = {
+  wordsPerMinute: { label: "Words per minute", color: "var(--chart-1)" },
+  fillersPerMinute: { label: "Fillers per minute", color: "var(--chart-2)" },
+  timeUsed: { label: "% of time used", color: "var(--chart-3)" },
+} satisfies ChartConfig;
+
+/**
+ * How the user's delivery has changed across their recent speeches, oldest
+ * first. Hidden until at least two speeches have been analysed.
+ */
+export function DeliveryTrends() {
+  const { data: history } = trpc.delivery.myHistory.useQuery();
+
+  if (!history || history.length < 2) return null;
+
+  const points = [...history].reverse().map(({ delivery, roomCode }) => {
+    const { metrics } = delivery;
+    return {
+      room: roomCode,
+      wordsPerMinute: metrics.wordsPerMinute,
+      fillersPerMinute: metrics.timeUsed > 0 ? Math.round((metrics.fillerCount / metrics.timeUsed) * 600) / 10 : 0,
+      timeUsed: metrics.timeAllotted > 0 ? Math.round((metrics.timeUsed / metrics.timeAllotted) * 100) : 0,
+    };
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Delivery Trends</CardTitle>
+        <CardDescription>Pace, fillers and time use across your last {points.length} analysed speeches</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={trendChartConfig} className="h-56 w-full aspect-auto">
+          <LineChart data={points}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="room" tickLine={false} axisLine={false} />
+            <YAxis yAxisId="left" width={32} tickLine={false} axisLine={false} />
+            <YAxis yAxisId="right" orientation="right" width={32} tickLine={false} axisLine={false} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Line yAxisId="left" dataKey="wordsPerMinute" type="monotone" stroke="var(--color-wordsPerMinute)" strokeWidth={2} />
+            <Line yAxisId="right" dataKey="fillersPerMinute" type="monotone" stroke="var(--color-fillersPerMinute)" strokeWidth={2} />
+            <Line yAxisId="left" dataKey="timeUsed" type="monotone" stroke="var(--color-timeUsed)" strokeWidth={2} />
+          </LineChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+}
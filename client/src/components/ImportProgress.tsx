@@ -0,0 +1,44 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { trpc } from "@/lib/trpc";
+import { AlertTriangle, CheckCircle2, FileUp, Loader2 } from "lucide-react";
+
+/** How an imported round is getting on: transcribing, done or failed. */
+export function ImportProgress({ roomId }: { roomId: number }) {
+  const { data: debateImport } = trpc.import.get.useQuery({ roomId });
+
+  if (!debateImport) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm flex items-center gap-2">
+          <FileUp className="w-4 h-4" />
+          Imported Round
+        </CardTitle>
+        <CardDescription>
+          {debateImport.speechCount} speech{debateImport.speechCount === 1 ? "" : "es"} imported from recordings or transcripts
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {debateImport.status === "transcribing" && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Transcribing the speeches...
+          </div>
+        )}
+        {debateImport.status === "processed" && (
+          <div className="flex items-center gap-2 text-sm text-green-600">
+            <CheckCircle2 className="w-4 h-4" />
+            Transcribed; the argument map and feedback follow
+          </div>
+        )}
+        {debateImport.status === "failed" && (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <AlertTriangle className="w-4 h-4" />
+            Import failed: {debateImport.error || "unknown error"}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
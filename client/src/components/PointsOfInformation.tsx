@@ -0,0 +1,189 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { trpc } from "@/lib/trpc";
+import { blobToBase64 } from "@/lib/audio";
+import { toast } from "sonner";
+import { useEffect, useRef, useState } from "react";
+import { getPOIRemaining, getTeamLabel, type DebateFormat } from "@shared/debate";
+import { Check, Hand, Mic, X } from "lucide-react";
+
+type POIParticipant = {
+  id: number;
+  team: string | null;
+  user?: { name: string | null } | null;
+};
+
+/**
+ * Points of information for the speech in progress. The speaker accepts or
+ * declines offers as they arrive; an accepted point runs on its own capped
+ * timer, and the member making it is recorded so the point is transcribed
+ * as a segment of its own.
+ */
+export function PointsOfInformation({
+  speechId,
+  format,
+  participants,
+  myParticipantId,
+  isSpeaker,
+}: {
+  speechId: number;
+  format: DebateFormat;
+  participants: POIParticipant[];
+  myParticipantId: number | undefined;
+  isSpeaker: boolean;
+}) {
+  const [now, setNow] = useState(() => Date.now());
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const recordingPoiRef = useRef<number | null>(null);
+  const utils = trpc.useUtils();
+
+  const { data, dataUpdatedAt } = trpc.poi.list.useQuery({ speechId });
+  const serverNow = data ? now + (data.serverTime - dataUpdatedAt) : now;
+  const pois = data?.pois ?? [];
+  const offered = pois.filter(p => p.status === "offered");
+  const active = pois.find(p => getPOIRemaining(p, format.poi, serverNow) > 0);
+  const activeRemaining = active ? getPOIRemaining(active, format.poi, serverNow) : 0;
+  const isMyPoint = !!active && active.offeredById === myParticipantId;
+
+  const invalidate = () => utils.poi.list.invalidate({ speechId });
+  const respond = trpc.poi.respond.useMutation({
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast.error(error.message || "Failed to respond to the point of information");
+    },
+  });
+  const endPOI = trpc.poi.end.useMutation({ onSuccess: invalidate });
+  const transcribePOI = trpc.poi.transcribe.useMutation();
+
+  // Tick the sub-timer while a point is being made
+  useEffect(() => {
+    if (!active) return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [active?.id]);
+
+  // Record the member making the point until it is ended or its time runs out
+  useEffect(() => {
+    if (!isMyPoint || !active) {
+      if (recorderRef.current?.state === "recording") recorderRef.current.stop();
+      return;
+    }
+    if (recordingPoiRef.current === active.id) return;
+    recordingPoiRef.current = active.id;
+    const poiId = active.id;
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+
+    (async () => {
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+        });
+        const mimeType = MediaRecorder.isTypeSupported("audio/webm;codecs=opus") ? "audio/webm;codecs=opus" : "audio/webm";
+        const recorder = new MediaRecorder(stream, { mimeType });
+        const chunks: Blob[] = [];
+        recorder.ondataavailable = (event) => {
+          if (event.data.size > 0) chunks.push(event.data);
+        };
+        recorder.onstop = async () => {
+          stream.getTracks().forEach(track => track.stop());
+          recorderRef.current = null;
+          const audioData = await blobToBase64(new Blob(chunks, { type: "audio/webm" }));
+          transcribePOI.mutate({ poiId, audioData });
+        };
+        recorderRef.current = recorder;
+        recorder.start();
+        timeout = setTimeout(() => {
+          if (recorder.state === "recording") recorder.stop();
+        }, activeRemaining * 1000);
+      } catch (err) {
+        console.error("[POI] Failed to record point of information:", err);
+        toast.error("Could not access microphone to record your point");
+      }
+    })();
+
+    return () => {
+      if (timeout) clearTimeout(timeout);
+    };
+  }, [isMyPoint, active?.id]);
+
+  // Stop recording if we leave mid-point
+  useEffect(() => {
+    return () => {
+      if (recorderRef.current?.state === "recording") recorderRef.current.stop();
+    };
+  }, []);
+
+  const offererName = (participantId: number) => {
+    const participant = participants.find(p => p.id === participantId);
+    const name = participant?.user?.name || "A debater";
+    return participant?.team ? `${name} (${getTeamLabel(participant.team, format)})` : name;
+  };
+
+  if (!active && (!isSpeaker || offered.length === 0)) return null;
+
+  return (
+    <Card className={active ? "border-primary" : "border-yellow-500"}>
+      <CardHeader>
+        <CardTitle className="text-sm flex items-center gap-2">
+          <Hand className="w-4 h-4" />
+          Point of Information
+          {active && (
+            <Badge variant="default" className="ml-auto font-mono">
+              0:{String(activeRemaining).padStart(2, "0")}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {active ? (
+          <>
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium flex items-center gap-2">
+                {isMyPoint && <Mic className="w-4 h-4 text-red-500 animate-pulse" />}
+                {isMyPoint ? "Make your point" : `${offererName(active.offeredById)} has the floor`}
+              </span>
+              {(isSpeaker || isMyPoint) && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => endPOI.mutate({ poiId: active.id })}
+                  disabled={endPOI.isPending}
+                >
+                  {isSpeaker ? "Take Back the Floor" : "Done"}
+                </Button>
+              )}
+            </div>
+            <Progress value={(activeRemaining / format.poi.maxDuration) * 100} className="h-2" />
+          </>
+        ) : (
+          offered.map(poi => (
+            <div key={poi.id} className="flex items-center justify-between gap-2 text-sm">
+              <span className="font-medium">{offererName(poi.offeredById)}</span>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => respond.mutate({ poiId: poi.id, accepted: true })}
+                  disabled={respond.isPending}
+                  className="gap-1"
+                >
+                  <Check className="w-4 h-4" /> Accept
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => respond.mutate({ poiId: poi.id, accepted: false })}
+                  disabled={respond.isPending}
+                  className="gap-1"
+                >
+                  <X className="w-4 h-4" /> Decline
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,146 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { useState } from "react";
+import { Bot, Loader2, NotebookPen, Sparkles, Trash2 } from "lucide-react";
+
+type BoardMember = { userId: number; name: string };
+
+/**
+ * A team's shared prep board. Only members of the team can read or add to it;
+ * the AI assistant's suggestions land on the board as notes of their own.
+ */
+export function PrepBoard({
+  roomId,
+  teamLabel,
+  members,
+}: {
+  roomId: number;
+  teamLabel: string;
+  members: BoardMember[];
+}) {
+  const [draft, setDraft] = useState("");
+  const [focus, setFocus] = useState("");
+  const utils = trpc.useUtils();
+
+  const { data: notes } = trpc.prep.notes.useQuery({ roomId });
+
+  const addNote = trpc.prep.addNote.useMutation({
+    onSuccess: () => {
+      setDraft("");
+      utils.prep.notes.invalidate({ roomId });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to save note");
+    },
+  });
+
+  const deleteNote = trpc.prep.deleteNote.useMutation({
+    onSuccess: () => {
+      utils.prep.notes.invalidate({ roomId });
+    },
+  });
+
+  const assist = trpc.prep.assist.useMutation({
+    onSuccess: () => {
+      setFocus("");
+      utils.prep.notes.invalidate({ roomId });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to generate prep suggestions");
+    },
+  });
+
+  const handleAdd = () => {
+    if (!draft.trim()) return;
+    addNote.mutate({ roomId, content: draft.trim() });
+  };
+
+  const authorName = (userId: number) => members.find(m => m.userId === userId)?.name ?? "Teammate";
+
+  return (
+    <div className="brutalist-border brutalist-shadow p-6 space-y-4">
+      <h3 className="text-xl font-black uppercase tracking-tight flex items-center gap-2">
+        <NotebookPen className="w-5 h-5" />
+        {teamLabel} Prep Board
+      </h3>
+      <p className="text-xs text-muted-foreground uppercase">Only your team can see this board</p>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) handleAdd();
+            }}
+            placeholder="Case line, mechanism, examples, who takes what..."
+            maxLength={2000}
+            rows={3}
+            className="brutalist-border"
+          />
+          <Button
+            onClick={handleAdd}
+            disabled={!draft.trim() || addNote.isPending}
+            className="w-full brutalist-border uppercase font-black"
+          >
+            {addNote.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : "Add to Board"}
+          </Button>
+        </div>
+        <div className="space-y-2">
+          <Input
+            value={focus}
+            onChange={(e) => setFocus(e.target.value)}
+            placeholder="Optional focus, e.g. economic harms"
+            maxLength={500}
+            className="brutalist-border"
+          />
+          <Button
+            variant="outline"
+            onClick={() => assist.mutate({ roomId, focus: focus.trim() || undefined })}
+            disabled={assist.isPending}
+            className="w-full brutalist-border uppercase font-black gap-2"
+          >
+            {assist.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+            Suggest Arguments &amp; Responses
+          </Button>
+        </div>
+      </div>
+
+      {notes && notes.length > 0 && (
+        <ScrollArea className="h-80">
+          <div className="space-y-3 pr-3">
+            {notes.map((note) => (
+              <div key={note.id} className="border-l-4 border-foreground pl-3 group">
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span className="flex items-center gap-2">
+                    {note.source === "ai" ? (
+                      <Badge variant="outline" className="gap-1 text-[10px]">
+                        <Bot className="w-3 h-3" /> AI assistant
+                      </Badge>
+                    ) : (
+                      <span className="font-bold">{authorName(note.userId)}</span>
+                    )}
+                    {new Date(note.createdAt).toLocaleTimeString()}
+                  </span>
+                  <button
+                    onClick={() => deleteNote.mutate({ roomId, noteId: note.id })}
+                    className="opacity-0 group-hover:opacity-100 transition-opacity"
+                    aria-label="Delete note"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+                <p className="text-sm whitespace-pre-wrap">{note.content}</p>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
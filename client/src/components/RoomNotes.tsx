@@ -0,0 +1,92 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { useState } from "react";
+import { Loader2, NotebookPen, Trash2 } from "lucide-react";
+
+/**
+ * Notes only their author can see, taken while watching or judging a round.
+ * Each note is tied to the speech that was running when it was written.
+ */
+export function RoomNotes({ roomId }: { roomId: number }) {
+  const [draft, setDraft] = useState("");
+  const utils = trpc.useUtils();
+
+  const { data: notes } = trpc.notes.list.useQuery({ roomId });
+
+  const addNote = trpc.notes.add.useMutation({
+    onSuccess: () => {
+      setDraft("");
+      utils.notes.list.invalidate({ roomId });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to save note");
+    },
+  });
+
+  const deleteNote = trpc.notes.delete.useMutation({
+    onSuccess: () => {
+      utils.notes.list.invalidate({ roomId });
+    },
+  });
+
+  const handleAdd = () => {
+    if (!draft.trim()) return;
+    addNote.mutate({ roomId, content: draft.trim() });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm flex items-center gap-2">
+          <NotebookPen className="w-4 h-4" />
+          My Notes
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) handleAdd();
+          }}
+          placeholder="Clash, responses, speaker notes..."
+          maxLength={2000}
+          rows={3}
+        />
+        <Button
+          size="sm"
+          onClick={handleAdd}
+          disabled={!draft.trim() || addNote.isPending}
+          className="w-full"
+        >
+          {addNote.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : "Add Note"}
+        </Button>
+        {notes && notes.length > 0 && (
+          <ScrollArea className="h-48">
+            <div className="space-y-2">
+              {notes.map((note) => (
+                <div key={note.id} className="border-l-2 border-primary pl-3 group">
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>{new Date(note.createdAt).toLocaleTimeString()}</span>
+                    <button
+                      onClick={() => deleteNote.mutate({ noteId: note.id })}
+                      className="opacity-0 group-hover:opacity-100 transition-opacity"
+                      aria-label="Delete note"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                  <p className="text-sm whitespace-pre-wrap">{note.content}</p>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,162 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { blobToBase64 } from "@/lib/audio";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { useEffect, useRef, useState } from "react";
+import { formatTime } from "@shared/debate";
+import { AlertTriangle, CheckCircle2, Loader2, Mic, Square, Upload } from "lucide-react";
+
+// Low enough for an hour-long round to fit one upload, plenty for voices
+const ROUND_BITS_PER_SECOND = 48000;
+
+/**
+ * Records a shared-device round from start to finish on the creator's device
+ * and uploads it to be split into speeches by voice. Everyone else sees how
+ * processing is getting on.
+ */
+export function RoundRecorder({ roomId, canRecord }: { roomId: number; canRecord: boolean }) {
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  // Kept until the upload succeeds so a failed one can be retried
+  const [pending, setPending] = useState<{ blob: Blob; startedAt: number } | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const startedAtRef = useRef(0);
+  const utils = trpc.useUtils();
+
+  const { data: recording } = trpc.recording.get.useQuery({ roomId });
+
+  const upload = trpc.recording.upload.useMutation({
+    onSuccess: () => {
+      setPending(null);
+      toast.success("Round uploaded; it will be split into speeches shortly");
+      utils.recording.get.invalidate({ roomId });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to upload the round recording");
+    },
+  });
+
+  useEffect(() => {
+    if (!isRecording) return;
+    const interval = setInterval(() => setElapsed(Math.floor((Date.now() - startedAtRef.current) / 1000)), 1000);
+    return () => clearInterval(interval);
+  }, [isRecording]);
+
+  // Leaving the page ends the recording rather than leaving the mic open
+  useEffect(() => {
+    return () => {
+      if (recorderRef.current?.state === "recording") recorderRef.current.stop();
+    };
+  }, []);
+
+  const sendRecording = async (blob: Blob, startedAt: number) => {
+    upload.mutate({ roomId, audioData: await blobToBase64(blob), mimeType: blob.type, startedAt });
+  };
+
+  const startRecording = async () => {
+    try {
+      // The room's sound is the point here, so leave the voices unprocessed
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: true },
+      });
+      const mimeType = MediaRecorder.isTypeSupported("audio/webm;codecs=opus")
+        ? "audio/webm;codecs=opus"
+        : MediaRecorder.isTypeSupported("audio/webm")
+          ? "audio/webm"
+          : "audio/mp4";
+      const recorder = new MediaRecorder(stream, { mimeType, audioBitsPerSecond: ROUND_BITS_PER_SECOND });
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        recorderRef.current = null;
+        setIsRecording(false);
+        const blob = new Blob(chunks, { type: mimeType });
+        setPending({ blob, startedAt: startedAtRef.current });
+        sendRecording(blob, startedAtRef.current).catch(err => {
+          console.error("[RoundRecorder] Failed to read recording:", err);
+          toast.error("Could not read the round recording");
+        });
+      };
+      recorderRef.current = recorder;
+      startedAtRef.current = Date.now();
+      setElapsed(0);
+      // Regular chunks so a long round never has to be flushed in one go
+      recorder.start(60_000);
+      setIsRecording(true);
+    } catch (err) {
+      console.error("[RoundRecorder] Failed to start recording:", err);
+      toast.error("Could not access microphone. Please check permissions.");
+    }
+  };
+
+  const stopRecording = () => {
+    if (recorderRef.current?.state === "recording") recorderRef.current.stop();
+  };
+
+  if (!canRecord && !recording) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm flex items-center gap-2">
+          <Mic className="w-4 h-4" />
+          Round Recording
+          {isRecording && (
+            <Badge variant="destructive" className="ml-auto font-mono">{formatTime(elapsed)}</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          This device records the whole round; speeches are found by voice and the speaking order once it ends.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {recording?.status === "processing" && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Splitting the round into speeches...
+          </div>
+        )}
+        {recording?.status === "processed" && (
+          <div className="flex items-center gap-2 text-sm text-green-600">
+            <CheckCircle2 className="w-4 h-4" />
+            Found {recording.speechCount ?? 0} speech{recording.speechCount === 1 ? "" : "es"}
+          </div>
+        )}
+        {recording?.status === "failed" && (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <AlertTriangle className="w-4 h-4" />
+            Processing failed: {recording.error || "unknown error"}
+          </div>
+        )}
+
+        {canRecord && recording?.status !== "processing" && recording?.status !== "processed" && (
+          isRecording ? (
+            <Button variant="destructive" onClick={stopRecording} className="gap-2">
+              <Square className="w-4 h-4" />
+              Stop &amp; Upload
+            </Button>
+          ) : pending ? (
+            <Button
+              onClick={() => sendRecording(pending.blob, pending.startedAt)}
+              disabled={upload.isPending}
+              className="gap-2"
+            >
+              {upload.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+              {upload.isPending ? "Uploading..." : "Retry Upload"}
+            </Button>
+          ) : (
+            <Button onClick={startRecording} className="gap-2">
+              <Mic className="w-4 h-4" />
+              Start Recording Round
+            </Button>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
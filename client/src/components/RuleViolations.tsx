@@ -0,0 +1,98 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { trpc } from "@/lib/trpc";
+import { formatTime, getRoleLabel, RULE_VIOLATION_TYPES, type DebateFormat } from "@shared/debate";
+import { ShieldAlert } from "lucide-react";
+
+type ViolationParticipant = {
+  id: number;
+  speakerRole: string | null;
+  user?: { name: string | null } | null;
+};
+
+/**
+ * Rule violations flagged in a round, most of them detected by the server as
+ * they happen. With `summary` the list is headed by a count for each type.
+ */
+export function RuleViolations({
+  roomId,
+  format,
+  participants,
+  summary = false,
+}: {
+  roomId: number;
+  format: DebateFormat;
+  participants: ViolationParticipant[];
+  summary?: boolean;
+}) {
+  const { data: violations } = trpc.violation.getAll.useQuery({ roomId });
+
+  if (!violations?.length) {
+    return summary ? (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldAlert className="w-5 h-5" />
+            Rule Violations
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground">No rule violations were flagged in this round.</p>
+        </CardContent>
+      </Card>
+    ) : null;
+  }
+
+  const typeLabel = (type: string) => RULE_VIOLATION_TYPES.find(t => t.id === type)?.label ?? type;
+  const speakerLabel = (participantId: number) => {
+    const participant = participants.find(p => p.id === participantId);
+    if (!participant) return "Unknown";
+    const name = participant.user?.name || "Unknown";
+    return participant.speakerRole ? `${name} (${getRoleLabel(format, participant.speakerRole)})` : name;
+  };
+
+  return (
+    <Card className={summary ? "" : "border-yellow-500"}>
+      <CardHeader>
+        <CardTitle className={`flex items-center gap-2 ${summary ? "" : "text-sm"}`}>
+          <ShieldAlert className={summary ? "w-5 h-5" : "w-4 h-4"} />
+          Rule Violations
+          <Badge variant="outline" className="ml-auto text-xs">{violations.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {summary && (
+          <div className="flex flex-wrap gap-2">
+            {RULE_VIOLATION_TYPES.map(type => {
+              const count = violations.filter(v => v.violationType === type.id).length;
+              return count > 0 && (
+                <Badge key={type.id} variant="secondary">{type.label}: {count}</Badge>
+              );
+            })}
+          </div>
+        )}
+        <ScrollArea className={summary ? "max-h-96" : "h-40"}>
+          <div className="space-y-3 pr-3">
+            {violations.map(violation => (
+              <div key={violation.id} className="border-l-2 border-yellow-500 pl-3 text-sm">
+                <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
+                  <span className="font-medium text-foreground">{typeLabel(violation.violationType)}</span>
+                  <span>•</span>
+                  <span>{speakerLabel(violation.participantId)}</span>
+                  {violation.timestamp !== null && (
+                    <>
+                      <span>•</span>
+                      <span>{formatTime(violation.timestamp)}</span>
+                    </>
+                  )}
+                </div>
+                {violation.description && <p>{violation.description}</p>}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
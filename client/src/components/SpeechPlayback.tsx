@@ -0,0 +1,151 @@
+import { Badge } from "@/components/ui/badge";
+import { formatTime, type TranscriptTimings } from "@shared/debate";
+import { Fragment, useEffect, useRef, useState } from "react";
+import { Pencil } from "lucide-react";
+
+type PlaybackSegment = {
+  id: number;
+  speechId: number;
+  speakerRole: string;
+  text: string;
+  timestamp: number;
+  speakerName: string | null;
+  poiId: number | null;
+  timings: TranscriptTimings | null;
+  editedAt: Date | null;
+};
+
+// Where a line starts on the speech clock, to the word when the transcriber timed it
+const lineStart = (segment: PlaybackSegment) => segment.timings?.phrases[0]?.start ?? segment.timestamp;
+
+/**
+ * A speech's archived recording with its transcript. Clicking a line seeks
+ * the recording to it, and the line and word being spoken are highlighted as it plays.
+ * Segment timestamps are on the speech clock; `audioOffset` is where on that
+ * clock the recording starts. Lines the viewer may correct get an edit button.
+ * With `translations` (by segment id) each line shows its translation beside it.
+ */
+export function SpeechPlayback({
+  audioUrl,
+  audioOffset,
+  segments,
+  transcript,
+  canEdit,
+  onEdit,
+  translations,
+}: {
+  audioUrl: string | null;
+  audioOffset: number;
+  segments: PlaybackSegment[];
+  transcript: string | null;
+  canEdit?: (segment: PlaybackSegment) => boolean;
+  onEdit?: (segment: PlaybackSegment) => void;
+  translations?: Map<number, string>;
+}) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const lineRefs = useRef(new Map<number, HTMLButtonElement>());
+  const [position, setPosition] = useState<number | null>(null);
+
+  const lines = [...segments].sort((a, b) => lineStart(a) - lineStart(b));
+  const current = position === null
+    ? undefined
+    : lines.filter(s => lineStart(s) - audioOffset <= position).pop();
+  const currentWord = position === null
+    ? undefined
+    : current?.timings?.words.filter(w => w.start - audioOffset <= position).pop();
+
+  // Keep the highlighted line in view while the recording plays
+  useEffect(() => {
+    if (current) lineRefs.current.get(current.id)?.scrollIntoView({ block: "nearest" });
+  }, [current?.id]);
+
+  const seek = (segment: PlaybackSegment) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = Math.max(0, lineStart(segment) - audioOffset);
+    setPosition(audio.currentTime);
+    audio.play().catch(() => undefined);
+  };
+
+  const renderLine = (segment: PlaybackSegment) => (
+    <>
+      <span className="font-mono text-xs mr-2">{formatTime(segment.timestamp)}</span>
+      {segment.poiId !== null && (
+        <Badge variant="outline" className="text-[10px] mr-2">
+          POI{segment.speakerName ? ` · ${segment.speakerName}` : ""}
+        </Badge>
+      )}
+      {current?.id === segment.id && segment.timings?.words.length
+        ? segment.timings.words.map((word, i) => (
+            <Fragment key={i}>
+              {i > 0 && " "}
+              <span className={word === currentWord ? "bg-primary/20 rounded" : ""}>{word.word}</span>
+            </Fragment>
+          ))
+        : segment.text}
+      {segment.editedAt && <span className="text-[10px] text-muted-foreground ml-2">(corrected)</span>}
+    </>
+  );
+
+  if (lines.length === 0) {
+    return (
+      <div className="space-y-2">
+        {audioUrl && <audio src={audioUrl} controls preload="metadata" className="w-full" />}
+        {transcript ? (
+          <p className="text-sm text-muted-foreground whitespace-pre-wrap">{transcript}</p>
+        ) : (
+          <p className="text-sm text-muted-foreground italic">No transcript available</p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {audioUrl && (
+        <audio
+          ref={audioRef}
+          src={audioUrl}
+          controls
+          preload="metadata"
+          className="w-full"
+          onTimeUpdate={(e) => setPosition(e.currentTarget.currentTime)}
+          onEnded={() => setPosition(null)}
+        />
+      )}
+      <div className="space-y-1">
+        {lines.map(segment => (
+          <div key={segment.id} className="flex items-start gap-1 group">
+            <button
+              ref={(el) => {
+                if (el) lineRefs.current.set(segment.id, el);
+                else lineRefs.current.delete(segment.id);
+              }}
+              onClick={() => seek(segment)}
+              disabled={!audioUrl}
+              className={`w-full text-left rounded px-2 py-1 text-sm transition-colors ${
+                current?.id === segment.id ? "bg-primary/10 text-foreground" : "text-muted-foreground"
+              } ${audioUrl ? "hover:bg-muted cursor-pointer" : "cursor-default"}`}
+            >
+              {translations ? (
+                <span className="grid grid-cols-2 gap-3">
+                  <span>{renderLine(segment)}</span>
+                  <span className="italic">{translations.get(segment.id) ?? "…"}</span>
+                </span>
+              ) : renderLine(segment)}
+            </button>
+            {onEdit && canEdit?.(segment) && (
+              <button
+                onClick={() => onEdit(segment)}
+                className="p-1 mt-0.5 text-muted-foreground hover:text-foreground opacity-0 group-hover:opacity-100 transition-opacity"
+                aria-label="Correct transcript"
+              >
+                <Pencil className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
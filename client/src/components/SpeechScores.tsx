@@ -0,0 +1,126 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { useEffect, useState } from "react";
+import {
+  DEFAULT_RUBRIC_WEIGHTS,
+  getRoleLabel,
+  RUBRIC_CRITERIA,
+  RUBRIC_SCORE_MAX,
+  type DebateFormat,
+  type RubricWeights,
+} from "@shared/debate";
+import { Loader2, RefreshCw, Sparkles } from "lucide-react";
+
+/**
+ * AI rubric scores for each speech: the per-criterion marks with their
+ * justifications and the speaker points they roll up to. The weights can be
+ * changed and the round rescored.
+ */
+export function SpeechScores({ roomId, format }: { roomId: number; format: DebateFormat }) {
+  const utils = trpc.useUtils();
+  const { data: scores } = trpc.scoring.get.useQuery({ roomId });
+  const [weights, setWeights] = useState<RubricWeights>(DEFAULT_RUBRIC_WEIGHTS);
+
+  // Show the weights the current scores were produced with
+  useEffect(() => {
+    const first = scores?.[0];
+    if (!first) return;
+    setWeights(Object.fromEntries(first.criteria.map(c => [c.criterion, c.weight])) as RubricWeights);
+  }, [scores]);
+
+  const generateScores = trpc.scoring.generate.useMutation({
+    onSuccess: ({ scored }) => {
+      toast.success(`Scored ${scored} speech${scored === 1 ? "" : "es"}`);
+      utils.scoring.get.invalidate({ roomId });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to score speeches");
+    },
+  });
+
+  const totalWeight = RUBRIC_CRITERIA.reduce((sum, c) => sum + weights[c.id], 0);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Sparkles className="w-5 h-5" />
+            Rubric Weights
+          </CardTitle>
+          <CardDescription>
+            Each criterion is marked out of {RUBRIC_SCORE_MAX}; the weighted average maps onto
+            {" "}{format.speakerPoints.min}–{format.speakerPoints.max} speaker points
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            {RUBRIC_CRITERIA.map(criterion => (
+              <div key={criterion.id} className="space-y-1">
+                <label className="text-sm font-medium">{criterion.label}</label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={weights[criterion.id]}
+                  onChange={(e) => setWeights(prev => ({ ...prev, [criterion.id]: Number(e.target.value) || 0 }))}
+                />
+                <p className="text-xs text-muted-foreground">{criterion.description}</p>
+              </div>
+            ))}
+          </div>
+          <Button
+            onClick={() => generateScores.mutate({ roomId, weights })}
+            disabled={totalWeight <= 0 || generateScores.isPending}
+            className="gap-2"
+          >
+            {generateScores.isPending ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <RefreshCw className="w-4 h-4" />
+            )}
+            {scores?.length ? "Rescore Speeches" : "Score Speeches"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {!scores?.length ? (
+        <p className="text-center text-muted-foreground py-8">No speeches have been scored yet.</p>
+      ) : (
+        scores.map(score => (
+          <Card key={score.id}>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center justify-between">
+                {getRoleLabel(format, score.speakerRole)}
+                <Badge className="font-mono text-sm">{score.speakerPoints}</Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {score.criteria.map(c => {
+                const criterion = RUBRIC_CRITERIA.find(r => r.id === c.criterion);
+                return (
+                  <div key={c.criterion} className="space-y-1">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="font-medium">
+                        {criterion?.label ?? c.criterion}
+                        <span className="text-muted-foreground font-normal"> ({c.weight}%)</span>
+                      </span>
+                      <span className="font-mono">{c.score}/{RUBRIC_SCORE_MAX}</span>
+                    </div>
+                    <Progress value={(c.score / RUBRIC_SCORE_MAX) * 100} className="h-2" />
+                    <p className="text-sm text-muted-foreground">{c.justification}</p>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
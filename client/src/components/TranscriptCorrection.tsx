@@ -0,0 +1,105 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+
+/**
+ * Correct one transcript segment. The transcriber's original text and every
+ * earlier correction are listed under the editor.
+ */
+export function TranscriptCorrection({
+  roomId,
+  segment,
+  onClose,
+}: {
+  roomId: number;
+  segment: { id: number; text: string } | null;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState("");
+  const utils = trpc.useUtils();
+
+  useEffect(() => {
+    setDraft(segment?.text ?? "");
+  }, [segment?.id]);
+
+  const { data: history } = trpc.transcript.history.useQuery(
+    { segmentId: segment?.id ?? 0 },
+    { enabled: !!segment }
+  );
+
+  const edit = trpc.transcript.edit.useMutation({
+    onSuccess: () => {
+      toast.success("Transcript corrected");
+      utils.transcript.getAll.invalidate({ roomId });
+      utils.transcript.history.invalidate({ segmentId: segment?.id ?? 0 });
+      utils.speech.getAll.invalidate({ roomId });
+      onClose();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to correct transcript");
+    },
+  });
+
+  const handleSave = () => {
+    if (!segment || !draft.trim()) return;
+    edit.mutate({ segmentId: segment.id, text: draft.trim() });
+  };
+
+  return (
+    <Dialog open={!!segment} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Correct Transcript</DialogTitle>
+          <DialogDescription>
+            Fix names, jargon and motion terms the transcriber got wrong.
+          </DialogDescription>
+        </DialogHeader>
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          maxLength={5000}
+          rows={5}
+        />
+        {history && (
+          <ScrollArea className="max-h-48">
+            <div className="space-y-2 text-xs">
+              <div className="border-l-2 border-muted pl-3">
+                <p className="text-muted-foreground mb-1">Original transcription</p>
+                <p>{history.originalText}</p>
+              </div>
+              {history.edits.map(entry => (
+                <div key={entry.id} className="border-l-2 border-primary pl-3">
+                  <p className="text-muted-foreground mb-1">
+                    {entry.editorName || "Unknown"} • {new Date(entry.createdAt).toLocaleString()}
+                  </p>
+                  <p>{entry.text}</p>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={handleSave}
+            disabled={!draft.trim() || draft.trim() === segment?.text || edit.isPending}
+          >
+            {edit.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : "Save Correction"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
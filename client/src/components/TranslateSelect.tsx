@@ -0,0 +1,38 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TRANSCRIPTION_LANGUAGES, type TranscriptionLanguage } from "@shared/debate";
+import { Languages, Loader2 } from "lucide-react";
+
+/** Picks the language to show a transcript's translation in, or none. */
+export function TranslateSelect({
+  language,
+  onChange,
+  isTranslating,
+}: {
+  language: TranscriptionLanguage | null;
+  onChange: (language: TranscriptionLanguage | null) => void;
+  isTranslating?: boolean;
+}) {
+  return (
+    <div className="flex items-center gap-1">
+      {isTranslating ? (
+        <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+      ) : (
+        <Languages className="w-4 h-4 text-muted-foreground" />
+      )}
+      <Select
+        value={language ?? "off"}
+        onValueChange={(value) => onChange(value === "off" ? null : value as TranscriptionLanguage)}
+      >
+        <SelectTrigger size="sm" className="w-36 text-xs" aria-label="Translate transcript">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="off">No translation</SelectItem>
+          {TRANSCRIPTION_LANGUAGES.map((l) => (
+            <SelectItem key={l.id} value={l.id}>{l.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { trpc } from "@/lib/trpc";
+import { PeerMesh, type AudioTransport } from "@/lib/peerMesh";
+import { toast } from "sonner";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export type AudioPeerState = {
+  userId: number;
+  muted: boolean;
+  stream: MediaStream | null;
+};
+
+/**
+ * Room voice chat. Nothing is captured until `join` is called; after that the
+ * hook holds the mic stream, keeps the signaling subscription open and
+ * exposes every other connected participant with their mute state and
+ * remote audio stream for the tiles to play.
+ */
+export function useRoomAudio(roomId: number | undefined, selfId: number | undefined) {
+  const [joined, setJoined] = useState(false);
+  const [joining, setJoining] = useState(false);
+  const [muted, setMuted] = useState(false);
+  const [peerMuted, setPeerMuted] = useState<Map<number, boolean>>(new Map());
+  const [streams, setStreams] = useState<Map<number, MediaStream>>(new Map());
+
+  const transportRef = useRef<AudioTransport | null>(null);
+  const localStreamRef = useRef<MediaStream | null>(null);
+  const mutedRef = useRef(muted);
+  mutedRef.current = muted;
+
+  const { data: iceServers } = trpc.rtc.iceServers.useQuery(undefined, {
+    enabled: !!roomId,
+    staleTime: Infinity,
+  });
+  const sendSignal = trpc.rtc.signal.useMutation();
+  const setMutedMutation = trpc.rtc.setMuted.useMutation();
+  const sendSignalRef = useRef(sendSignal.mutate);
+  sendSignalRef.current = sendSignal.mutate;
+
+  trpc.rtc.signals.useSubscription(
+    { roomId: roomId ?? 0 },
+    {
+      enabled: !!roomId && joined,
+      onData: (event) => {
+        const transport = transportRef.current;
+        if (!transport) return;
+        switch (event.type) {
+          case "peers":
+            // (Re)connected: rebuild every connection from the current list
+            setPeerMuted(new Map(event.peers.map(p => [p.userId, p.muted])));
+            event.peers.forEach(p => transport.addPeer(p.userId));
+            if (mutedRef.current && roomId) {
+              setMutedMutation.mutate({ roomId, muted: true });
+            }
+            break;
+          case "peer_joined":
+            setPeerMuted(prev => new Map(prev).set(event.peer.userId, event.peer.muted));
+            transport.addPeer(event.peer.userId);
+            break;
+          case "peer_left":
+            setPeerMuted(prev => {
+              const next = new Map(prev);
+              next.delete(event.userId);
+              return next;
+            });
+            transport.removePeer(event.userId);
+            break;
+          case "muted":
+            setPeerMuted(prev => new Map(prev).set(event.userId, event.muted));
+            break;
+          case "signal":
+            transport.handleSignal(event.from, event);
+            break;
+        }
+      },
+      onError: (error) => {
+        console.error("[RoomAudio] Signaling error:", error);
+      },
+    }
+  );
+
+  const teardown = useCallback(() => {
+    transportRef.current?.close();
+    transportRef.current = null;
+    localStreamRef.current?.getTracks().forEach(track => track.stop());
+    localStreamRef.current = null;
+    setPeerMuted(new Map());
+    setStreams(new Map());
+  }, []);
+
+  const join = useCallback(async () => {
+    if (!roomId || !selfId || !iceServers || transportRef.current) return;
+    setJoining(true);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          echoCancellation: true,
+          noiseSuppression: true,
+          autoGainControl: true,
+        },
+      });
+      localStreamRef.current = stream;
+      stream.getAudioTracks().forEach(track => { track.enabled = !mutedRef.current; });
+
+      const transport = new PeerMesh({
+        selfId,
+        iceServers,
+        sendSignal: (signal) => sendSignalRef.current({ roomId, ...signal }),
+        onRemoteStreams: setStreams,
+      });
+      transport.setLocalStream(stream);
+      transportRef.current = transport;
+      setJoined(true);
+    } catch (error) {
+      console.error("[RoomAudio] Failed to join:", error);
+      toast.error("Could not access microphone for room audio");
+      teardown();
+    } finally {
+      setJoining(false);
+    }
+  }, [roomId, selfId, iceServers, teardown]);
+
+  const leave = useCallback(() => {
+    teardown();
+    setJoined(false);
+  }, [teardown]);
+
+  const toggleMute = useCallback(() => {
+    const next = !mutedRef.current;
+    setMuted(next);
+    localStreamRef.current?.getAudioTracks().forEach(track => { track.enabled = !next; });
+    if (joined && roomId) {
+      setMutedMutation.mutate({ roomId, muted: next });
+    }
+  }, [joined, roomId, setMutedMutation]);
+
+  // Release the mic and connections when leaving the page
+  useEffect(() => teardown, [teardown]);
+
+  const peers: AudioPeerState[] = Array.from(peerMuted, ([userId, isMuted]) => ({
+    userId,
+    muted: isMuted,
+    stream: streams.get(userId) ?? null,
+  }));
+
+  return { joined, joining, muted, peers, join, leave, toggleMute, ready: !!iceServers };
+}
@@ -0,0 +1,89 @@
+import { trpc } from "@/lib/trpc";
+import { useRef } from "react";
+import type { RoomEvent } from "../../../server/roomEvents";
+
+/**
+ * Subscribe to a room's live event stream and keep the room queries fresh.
+ * Room, speaker and status changes refetch `room.get`; clock events replace
+ * the cached `room.getClock` snapshot, prep board changes refetch
+ * `prep.notes`, point of information changes refetch `poi.list`, new rule
+ * violations refetch `violation.getAll`, round recording progress refetches
+ * `recording.get` (plus speeches and transcript once processed) and an
+ * imported round's progress refetches `import.get` and whatever the import
+ * has just produced. Transcript corrections refetch `transcript.getAll`.
+ * Argument map and feedback jobs refetch `analysis.jobs`, and their results
+ * once done. Pages pass `onEvent` for anything else (e.g. appending
+ * transcript segments).
+ */
+export function useRoomEvents(roomId: number | undefined, onEvent?: (event: RoomEvent) => void) {
+  const utils = trpc.useUtils();
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  trpc.room.events.useSubscription(
+    { roomId: roomId ?? 0 },
+    {
+      enabled: !!roomId,
+      onData: ({ data: event }) => {
+        switch (event.type) {
+          case "sync":
+            utils.room.get.invalidate();
+            utils.room.getClock.invalidate();
+            utils.analysis.jobs.invalidate();
+            break;
+          case "room":
+          case "status":
+          case "speaker":
+            utils.room.get.invalidate();
+            break;
+          case "clock":
+            utils.room.getClock.setData({ roomId: roomId ?? 0 }, event.clock);
+            break;
+          case "prep":
+            // Only that team's members can load the board; for everyone else this is a no-op
+            utils.prep.notes.invalidate({ roomId: roomId ?? 0 });
+            break;
+          case "poi":
+            utils.poi.list.invalidate({ speechId: event.speechId });
+            break;
+          case "violation":
+            utils.violation.getAll.invalidate({ roomId: roomId ?? 0 });
+            break;
+          case "recording":
+            utils.recording.get.invalidate({ roomId: roomId ?? 0 });
+            if (event.status === "processed") {
+              utils.speech.getAll.invalidate({ roomId: roomId ?? 0 });
+              utils.transcript.getAll.invalidate({ roomId: roomId ?? 0 });
+            }
+            break;
+          case "transcript_edit":
+            utils.transcript.getAll.invalidate({ roomId: roomId ?? 0 });
+            break;
+          case "import":
+            utils.import.get.invalidate({ roomId: roomId ?? 0 });
+            if (event.status === "processed") {
+              utils.speech.getAll.invalidate({ roomId: roomId ?? 0 });
+              utils.transcript.getAll.invalidate({ roomId: roomId ?? 0 });
+              utils.analysis.jobs.invalidate({ roomId: roomId ?? 0 });
+            }
+            break;
+          case "job":
+            utils.analysis.jobs.invalidate({ roomId: roomId ?? 0 });
+            if (event.status === "completed" && event.kind === "mindmap") {
+              utils.analysis.getArgumentNodes.invalidate({ roomId: roomId ?? 0 });
+            } else if (event.status === "completed") {
+              utils.feedback.get.invalidate({ roomId: roomId ?? 0 });
+              utils.scoring.get.invalidate({ roomId: roomId ?? 0 });
+              utils.delivery.get.invalidate({ roomId: roomId ?? 0 });
+              utils.room.get.invalidate();
+            }
+            break;
+        }
+        onEventRef.current?.(event);
+      },
+      onError: (error) => {
+        console.error("[RoomEvents] Stream error:", error);
+      },
+    }
+  );
+}
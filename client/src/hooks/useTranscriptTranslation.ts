@@ -0,0 +1,61 @@
+import { trpc } from "@/lib/trpc";
+import { useEffect, useMemo, useState } from "react";
+import type { TranscriptionLanguage } from "@shared/debate";
+
+const TRANSLATION_LANGUAGE_KEY = "transcript-translation-language";
+
+/**
+ * The transcript translated into the viewer's chosen language, keyed by
+ * segment id. The choice is remembered on this device; translation is off
+ * until one is picked. Pass the segments on show so new and corrected ones
+ * are translated as they arrive.
+ */
+export function useTranscriptTranslation(
+  roomId: number | undefined,
+  segments: Array<{ id: number; text: string }>
+) {
+  const [language, setLanguage] = useState<TranscriptionLanguage | null>(
+    () => localStorage.getItem(TRANSLATION_LANGUAGE_KEY) as TranscriptionLanguage | null
+  );
+  const utils = trpc.useUtils();
+
+  useEffect(() => {
+    if (language) {
+      localStorage.setItem(TRANSLATION_LANGUAGE_KEY, language);
+    } else {
+      localStorage.removeItem(TRANSLATION_LANGUAGE_KEY);
+    }
+  }, [language]);
+
+  const { data, isFetching } = trpc.transcript.translations.useQuery(
+    { roomId: roomId ?? 0, language: language ?? "en" },
+    {
+      enabled: !!roomId && !!language,
+      // Keep showing what's translated while the newest segments catch up
+      placeholderData: (previous) => previous,
+    }
+  );
+
+  // Changes whenever a segment arrives or is corrected, even to text of the same length
+  const signature = useMemo(() => {
+    let hash = 0;
+    for (const segment of segments) {
+      for (let i = 0; i < segment.text.length; i++) {
+        hash = (hash * 31 + segment.text.charCodeAt(i)) | 0;
+      }
+    }
+    return `${segments.length}:${hash}`;
+  }, [segments]);
+  useEffect(() => {
+    if (roomId && language) {
+      utils.transcript.translations.invalidate({ roomId, language });
+    }
+  }, [signature, roomId, language, utils]);
+
+  const translations = useMemo(
+    () => new Map((language ? data?.translations ?? [] : []).map(t => [t.segmentId, t.text])),
+    [data, language]
+  );
+
+  return { language, setLanguage, translations, isTranslating: isFetching };
+}
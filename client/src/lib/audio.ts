@@ -0,0 +1,16 @@
+// Read a recorded blob as base64 (without the data: URL prefix) for sending over tRPC
+export function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const result = reader.result as string;
+      if (result) {
+        resolve(result.split(",")[1]);
+      } else {
+        reject(new Error("Failed to read audio"));
+      }
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
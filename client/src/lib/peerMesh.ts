@@ -0,0 +1,161 @@
+import type { IceCandidate, SessionDescription } from "../../../server/rtcSignaling";
+
+export type OutgoingSignal = {
+  to: number;
+  description?: SessionDescription;
+  candidate?: IceCandidate;
+};
+
+/**
+ * What the room audio hook needs from a media transport. PeerMesh connects
+ * every participant to every other one, which is fine for a debate room;
+ * an SFU client can implement the same interface and be swapped in without
+ * touching the hook or the tiles.
+ */
+export interface AudioTransport {
+  setLocalStream(stream: MediaStream | null): void;
+  addPeer(userId: number): void;
+  removePeer(userId: number): void;
+  handleSignal(from: number, signal: { description?: SessionDescription; candidate?: IceCandidate }): Promise<void>;
+  close(): void;
+}
+
+type PeerEntry = {
+  pc: RTCPeerConnection;
+  // Candidates that arrive before the remote description is set
+  pendingCandidates: RTCIceCandidateInit[];
+};
+
+type PeerMeshOptions = {
+  selfId: number;
+  iceServers: RTCIceServer[];
+  sendSignal: (signal: OutgoingSignal) => void;
+  onRemoteStreams: (streams: Map<number, MediaStream>) => void;
+};
+
+// Full-mesh WebRTC audio. For each pair of peers the lower user id makes the
+// offer, so there is never glare. Every connection carries one sendrecv audio
+// transceiver from the start, and the mic is attached with replaceTrack, so
+// joining, leaving or muting never requires renegotiation.
+export class PeerMesh implements AudioTransport {
+  private peers = new Map<number, PeerEntry>();
+  private remoteStreams = new Map<number, MediaStream>();
+  private localTrack: MediaStreamTrack | null = null;
+  private closed = false;
+
+  constructor(private options: PeerMeshOptions) {}
+
+  setLocalStream(stream: MediaStream | null) {
+    this.localTrack = stream?.getAudioTracks()[0] ?? null;
+    this.peers.forEach(({ pc }) => {
+      const sender = pc.getTransceivers().find(t => t.receiver.track.kind === "audio")?.sender;
+      sender?.replaceTrack(this.localTrack).catch(error => {
+        console.error("[PeerMesh] Failed to replace track:", error);
+      });
+    });
+  }
+
+  addPeer(userId: number) {
+    if (this.closed || userId === this.options.selfId) return;
+    // A peer that rejoins (reload, new tab) starts from a clean connection
+    this.removePeer(userId);
+    const entry = this.createPeer(userId);
+    if (this.isInitiator(userId)) {
+      const transceiver = entry.pc.addTransceiver("audio", { direction: "sendrecv" });
+      transceiver.sender.replaceTrack(this.localTrack);
+    }
+  }
+
+  removePeer(userId: number) {
+    const entry = this.peers.get(userId);
+    if (!entry) return;
+    entry.pc.close();
+    this.peers.delete(userId);
+    if (this.remoteStreams.delete(userId)) this.emitStreams();
+  }
+
+  async handleSignal(from: number, { description, candidate }: { description?: SessionDescription; candidate?: IceCandidate }) {
+    if (this.closed) return;
+    const entry = this.peers.get(from) ?? this.createPeer(from);
+    const { pc } = entry;
+
+    try {
+      if (description) {
+        await pc.setRemoteDescription(description);
+        for (const pending of entry.pendingCandidates.splice(0)) {
+          await pc.addIceCandidate(pending);
+        }
+        if (description.type === "offer") {
+          // Answer with our mic on the transceiver the offer created
+          for (const transceiver of pc.getTransceivers()) {
+            transceiver.direction = "sendrecv";
+            await transceiver.sender.replaceTrack(this.localTrack);
+          }
+          await pc.setLocalDescription();
+          this.sendDescription(from, pc);
+        }
+      } else if (candidate) {
+        if (pc.remoteDescription) {
+          await pc.addIceCandidate(candidate);
+        } else {
+          entry.pendingCandidates.push(candidate);
+        }
+      }
+    } catch (error) {
+      console.error("[PeerMesh] Failed to handle signal from", from, error);
+    }
+  }
+
+  close() {
+    this.closed = true;
+    Array.from(this.peers.keys()).forEach(userId => this.removePeer(userId));
+  }
+
+  private isInitiator(userId: number) {
+    return this.options.selfId < userId;
+  }
+
+  private createPeer(userId: number): PeerEntry {
+    const pc = new RTCPeerConnection({ iceServers: this.options.iceServers });
+    const entry: PeerEntry = { pc, pendingCandidates: [] };
+    this.peers.set(userId, entry);
+
+    pc.onicecandidate = ({ candidate }) => {
+      if (candidate) this.options.sendSignal({ to: userId, candidate: candidate.toJSON() });
+    };
+
+    pc.onnegotiationneeded = async () => {
+      // Only the initiator offers; the other side answers in handleSignal
+      if (!this.isInitiator(userId)) return;
+      try {
+        await pc.setLocalDescription();
+        this.sendDescription(userId, pc);
+      } catch (error) {
+        console.error("[PeerMesh] Failed to create offer for", userId, error);
+      }
+    };
+
+    pc.ontrack = ({ track, streams }) => {
+      this.remoteStreams.set(userId, streams[0] ?? new MediaStream([track]));
+      this.emitStreams();
+    };
+
+    pc.onconnectionstatechange = () => {
+      if (pc.connectionState === "failed" && this.isInitiator(userId)) {
+        pc.restartIce();
+      }
+    };
+
+    return entry;
+  }
+
+  private sendDescription(to: number, pc: RTCPeerConnection) {
+    const local = pc.localDescription;
+    if (!local) return;
+    this.options.sendSignal({ to, description: { type: local.type, sdp: local.sdp } });
+  }
+
+  private emitStreams() {
+    this.options.onRemoteStreams(new Map(this.remoteStreams));
+  }
+}
@@ -1,11 +1,22 @@
 import { useAuth } from "@/_core/hooks/useAuth";
 import { Button } from "@/components/ui/button";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
 import { useState } from "react";
 import { useLocation, Link } from "wouter";
+import {
+  MOTION_TYPES,
+  TRANSCRIPTION_LANGUAGES,
+  TRANSCRIPTION_PROVIDERS,
+  type DebateFormat,
+  type DebateFormatId,
+  type MotionType,
+  type TranscriptionLanguage,
+  type TranscriptionProviderId,
+} from "@shared/debate";
 import { 
   ArrowLeft, 
   Sparkles, 
@@ -32,12 +43,34 @@ const DIFFICULTY_LEVELS = [
   { id: "advanced", label: "Advanced" },
 ];
 
+// Short bullet points describing a format
+function getFormatSummary(format: DebateFormat): string[] {
+  const substantives = format.speakingOrder.filter(s => s.type === "substantive");
+  const replies = format.speakingOrder.filter(s => s.type === "reply");
+  const minutes = Math.round((substantives[0]?.time ?? 0) / 60);
+  return [
+    `${format.teamsCount} teams of ${format.speakersPerTeam} debaters`,
+    `${substantives.length} substantive speeches`,
+    `${minutes} minutes per speech`,
+    replies.length > 0 ? `${replies.length} reply speeches` : "No reply speeches",
+    format.poi.allowed ? "POIs allowed" : "No POIs",
+    ...(format.reservesPerTeam > 0 ? [`Up to ${format.reservesPerTeam} reserves per team`] : []),
+  ];
+}
+
 export default function CreateRoom() {
   const { user, loading: authLoading } = useAuth();
   const [, navigate] = useLocation();
   
+  const [formatId, setFormatId] = useState<string>("asian_parliamentary");
   const [topicArea, setTopicArea] = useState<string>("");
   const [difficulty, setDifficulty] = useState<string>("intermediate");
+  const [motionType, setMotionType] = useState<MotionType>("impromptu");
+  const [aiOpponent, setAiOpponent] = useState(false);
+  const [sharedDevice, setSharedDevice] = useState(false);
+  // "default" leaves the choice to the deployment
+  const [transcriptionProvider, setTranscriptionProvider] = useState<TranscriptionProviderId | "default">("default");
+  const [transcriptionLanguage, setTranscriptionLanguage] = useState<TranscriptionLanguage | "default">("default");
   const [roomCode, setRoomCode] = useState<string | null>(null);
   const [roomId, setRoomId] = useState<number | null>(null);
   const [motion, setMotion] = useState<{
@@ -47,6 +80,12 @@ export default function CreateRoom() {
   } | null>(null);
   const [copied, setCopied] = useState(false);
 
+  const { data: formats } = trpc.constants.getDebateFormats.useQuery();
+  const { data: transcriptionDefaults } = trpc.constants.getTranscriptionDefaults.useQuery();
+  const { data: customFormats } = trpc.format.list.useQuery(undefined, { enabled: !!user });
+  const selectedCustomFormat = customFormats?.find(c => c.format.id === formatId);
+  const selectedFormat = selectedCustomFormat?.format ?? formats?.find(f => f.id === formatId);
+
   const createRoom = trpc.room.create.useMutation({
     onSuccess: (data) => {
       setRoomCode(data.roomCode);
@@ -86,9 +125,22 @@ export default function CreateRoom() {
   }
 
   const handleCreateRoom = () => {
-    createRoom.mutate({ format: "asian_parliamentary" });
+    const settings = {
+      aiOpponent,
+      sharedDevice,
+      transcriptionProvider: transcriptionProvider === "default" ? undefined : transcriptionProvider,
+      transcriptionLanguage: transcriptionLanguage === "default" ? undefined : transcriptionLanguage,
+    };
+    if (selectedCustomFormat) {
+      createRoom.mutate({ customFormatId: selectedCustomFormat.id, ...settings });
+    } else {
+      createRoom.mutate({ format: formatId as DebateFormatId, ...settings });
+    }
   };
 
+  const providerLabel = (id: string | undefined) => TRANSCRIPTION_PROVIDERS.find(p => p.id === id)?.label ?? id;
+  const languageLabel = (id: string | undefined) => TRANSCRIPTION_LANGUAGES.find(l => l.id === id)?.label ?? id;
+
   const handleGenerateMotion = () => {
     if (!roomId || !topicArea) {
       toast.error("Please select a topic area first");
@@ -98,6 +150,7 @@ export default function CreateRoom() {
       roomId,
       topicArea: topicArea as any,
       difficulty: difficulty as any,
+      motionType,
     });
   };
 
@@ -148,13 +201,119 @@ export default function CreateRoom() {
             
             {!roomCode ? (
               <div className="space-y-6">
-                <div className="brutalist-border p-6">
-                  <p className="font-black uppercase mb-4">Asian Parliamentary Format</p>
-                  <div className="grid grid-cols-2 gap-4 text-sm">
-                    <div>• 2 teams of 3 debaters</div>
-                    <div>• 6 substantive speeches</div>
-                    <div>• 7 minutes per speech</div>
-                    <div>• POIs allowed</div>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <label className="text-sm font-black uppercase">Format</label>
+                    <Link href="/formats/new" className="text-xs font-black uppercase underline">
+                      + Build Custom Format
+                    </Link>
+                  </div>
+                  <Select value={formatId} onValueChange={setFormatId}>
+                    <SelectTrigger className="brutalist-border h-14 font-bold">
+                      <SelectValue placeholder="Select format" />
+                    </SelectTrigger>
+                    <SelectContent className="brutalist-border">
+                      {formats?.map((format) => (
+                        <SelectItem key={format.id} value={format.id} className="font-medium">
+                          {format.name}
+                        </SelectItem>
+                      ))}
+                      {customFormats && customFormats.length > 0 && (
+                        <SelectGroup>
+                          <SelectLabel className="uppercase font-black">Custom</SelectLabel>
+                          {customFormats.map(({ format, clubName }) => (
+                            <SelectItem key={format.id} value={format.id} className="font-medium">
+                              {format.name}{clubName ? ` (${clubName})` : ""}
+                            </SelectItem>
+                          ))}
+                        </SelectGroup>
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {selectedFormat && (
+                  <div className="brutalist-border p-6">
+                    <p className="font-black uppercase mb-4">{selectedFormat.name} Format</p>
+                    <div className="grid grid-cols-2 gap-4 text-sm">
+                      {getFormatSummary(selectedFormat).map((line) => (
+                        <div key={line}>• {line}</div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                <div className="brutalist-border p-6 flex items-center justify-between gap-4">
+                  <div>
+                    <label htmlFor="ai-opponent" className="font-black uppercase">AI Opponent</label>
+                    <p className="text-sm text-muted-foreground">
+                      An AI debater speaks in every role nobody takes, answering the round so far
+                    </p>
+                  </div>
+                  <Switch
+                    id="ai-opponent"
+                    checked={aiOpponent}
+                    onCheckedChange={(checked) => {
+                      setAiOpponent(checked);
+                      if (checked) setSharedDevice(false);
+                    }}
+                  />
+                </div>
+                <div className="brutalist-border p-6 flex items-center justify-between gap-4">
+                  <div>
+                    <label htmlFor="shared-device" className="font-black uppercase">Shared Device</label>
+                    <p className="text-sm text-muted-foreground">
+                      Record the whole round on one device; it is split into speeches by voice afterwards
+                    </p>
+                  </div>
+                  <Switch
+                    id="shared-device"
+                    checked={sharedDevice}
+                    onCheckedChange={(checked) => {
+                      setSharedDevice(checked);
+                      if (checked) setAiOpponent(false);
+                    }}
+                  />
+                </div>
+                <div className="brutalist-border p-6 space-y-4">
+                  <div>
+                    <p className="font-black uppercase">Transcription &amp; Language</p>
+                    <p className="text-sm text-muted-foreground">
+                      Use the local engine where the hosted service is blocked. The round's language
+                      also sets the moderator's voice, generated motions and feedback
+                    </p>
+                  </div>
+                  <div className="grid sm:grid-cols-2 gap-4">
+                    <Select
+                      value={transcriptionProvider}
+                      onValueChange={(value) => setTranscriptionProvider(value as TranscriptionProviderId | "default")}
+                    >
+                      <SelectTrigger className="brutalist-border font-bold">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="brutalist-border">
+                        <SelectItem value="default">
+                          Default ({providerLabel(transcriptionDefaults?.provider) ?? "server setting"})
+                        </SelectItem>
+                        {TRANSCRIPTION_PROVIDERS.map((provider) => (
+                          <SelectItem key={provider.id} value={provider.id}>{provider.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={transcriptionLanguage}
+                      onValueChange={(value) => setTranscriptionLanguage(value as TranscriptionLanguage | "default")}
+                    >
+                      <SelectTrigger className="brutalist-border font-bold">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="brutalist-border">
+                        <SelectItem value="default">
+                          Default ({languageLabel(transcriptionDefaults?.language) ?? "server setting"})
+                        </SelectItem>
+                        {TRANSCRIPTION_LANGUAGES.map((language) => (
+                          <SelectItem key={language.id} value={language.id}>{language.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                   </div>
                 </div>
                 <Button 
@@ -232,6 +391,24 @@ export default function CreateRoom() {
                 </div>
               </div>
 
+              {selectedFormat?.motionPrep && (
+                <div className="space-y-2">
+                  <label className="text-sm font-black uppercase">Motion Type</label>
+                  <Select value={motionType} onValueChange={(v) => setMotionType(v as MotionType)}>
+                    <SelectTrigger className="brutalist-border h-14 font-bold">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="brutalist-border">
+                      {MOTION_TYPES.map((type) => (
+                        <SelectItem key={type.id} value={type.id} className="font-medium">
+                          {type.label} ({Math.round(selectedFormat.motionPrep![type.id] / 3600)}h prep)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               <Button 
                 onClick={handleGenerateMotion}
                 disabled={!topicArea || generateMotion.isPending}
@@ -290,9 +467,9 @@ export default function CreateRoom() {
               <div className="brutalist-border p-6 bg-muted/30">
                 <p className="font-black uppercase mb-4">Next Steps:</p>
                 <ol className="list-decimal list-inside space-y-2 text-muted-foreground">
-                  <li>Share code <span className="font-mono font-black text-foreground">{roomCode}</span> with 5 debaters</li>
+                  <li>Share code <span className="font-mono font-black text-foreground">{roomCode}</span> with your debaters</li>
                   <li>Each debater selects team and speaker role</li>
-                  <li>Start when ready (can start with fewer than 6)</li>
+                  <li>Start when ready ({aiOpponent ? "the AI opponent speaks in empty positions" : "empty positions are skipped"})</li>
                 </ol>
               </div>
 
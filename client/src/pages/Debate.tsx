@@ -8,6 +8,35 @@ import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
 import { useState, useEffect, useRef, useCallback } from "react";
 import { useLocation, useParams } from "wouter";
+import { useRoomEvents } from "@/hooks/useRoomEvents";
+import { useRoomAudio } from "@/hooks/useRoomAudio";
+import { blobToBase64 } from "@/lib/audio";
+import { AudioTiles } from "@/components/AudioTiles";
+import { RoomNotes } from "@/components/RoomNotes";
+import { PointsOfInformation } from "@/components/PointsOfInformation";
+import { RuleViolations } from "@/components/RuleViolations";
+import { RoundRecorder } from "@/components/RoundRecorder";
+import { TranslateSelect } from "@/components/TranslateSelect";
+import { useTranscriptTranslation } from "@/hooks/useTranscriptTranslation";
+import {
+  AI_SPEAKER_NAME,
+  formatTime,
+  getActiveSpeakingOrder,
+  getClockElapsed,
+  fillModeratorLine,
+  getDebateFormat,
+  getLanguage,
+  getParticipantLabel,
+  getPOIOfferError,
+  getRoleLabel,
+  getSlotSpeakerRole,
+  getSpeakingRoles,
+  getTeamSide as getFormatTeamSide,
+  isDebater,
+  MODERATOR_LINES,
+  RULE_VIOLATION_TYPES,
+  type TimeWarning,
+} from "@shared/debate";
 import { 
   Mic, 
   MicOff, 
@@ -19,36 +48,14 @@ import {
   Volume2,
   Play,
   Pause,
-  Loader2
+  Loader2,
+  Headphones,
+  PhoneOff,
+  Bot
 } from "lucide-react";
 
-const SPEAKING_ORDER = [
-  { role: "prime_minister", team: "government", label: "Prime Minister", time: 420 },
-  { role: "leader_of_opposition", team: "opposition", label: "Leader of Opposition", time: 420 },
-  { role: "deputy_prime_minister", team: "government", label: "Deputy Prime Minister", time: 420 },
-  { role: "deputy_leader_of_opposition", team: "opposition", label: "Deputy Leader of Opposition", time: 420 },
-  { role: "government_whip", team: "government", label: "Government Whip", time: 420 },
-  { role: "opposition_whip", team: "opposition", label: "Opposition Whip", time: 420 },
-  { role: "opposition_reply", team: "opposition", label: "Opposition Reply", time: 240 },
-  { role: "government_reply", team: "government", label: "Government Reply", time: 240 },
-];
-
-const ROLE_LABELS: Record<string, string> = {
-  prime_minister: "Prime Minister",
-  leader_of_opposition: "Leader of Opposition",
-  deputy_prime_minister: "Deputy Prime Minister",
-  deputy_leader_of_opposition: "Deputy Leader of Opposition",
-  government_whip: "Government Whip",
-  opposition_whip: "Opposition Whip",
-  opposition_reply: "Opposition Reply",
-  government_reply: "Government Reply",
-};
-
-function formatTime(seconds: number): string {
-  const mins = Math.floor(seconds / 60);
-  const secs = seconds % 60;
-  return `${mins}:${secs.toString().padStart(2, "0")}`;
-}
+// Length of each recorded audio chunk; transcript segments are timed from chunk boundaries
+const RECORDING_TIMESLICE_SECONDS = 10;
 
 export default function Debate() {
   const params = useParams<{ code: string }>();
@@ -57,13 +64,12 @@ export default function Debate() {
   const { user, loading: authLoading } = useAuth();
   const [, navigate] = useLocation();
   
-  // Timer state
-  const [timeRemaining, setTimeRemaining] = useState(420);
-  const [isTimerRunning, setIsTimerRunning] = useState(false);
-  const timerIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Timer state - the clock itself lives on the server; we only tick the display locally
+  const [now, setNow] = useState(() => Date.now());
   const [currentSpeechId, setCurrentSpeechId] = useState<number | null>(null);
   const currentSpeechIdRef = useRef<number | null>(null); // Ref to avoid stale closure
-  const timeRemainingRef = useRef(420); // Ref for accurate timestamp in transcription
+  const clockElapsedRef = useRef(0); // Seconds the speech clock has run, for timestamps in transcription
+  const lastWarningRef = useRef<{ speechId: number | null; warning: TimeWarning | null } | null>(null);
   
   // Audio state
   const [isMicActive, setIsMicActive] = useState(false);
@@ -76,6 +82,10 @@ export default function Debate() {
   const streamRef = useRef<MediaStream | null>(null);
   const transcriptionIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const isProcessingRef = useRef(false); // Prevent concurrent transcription calls
+  const recordingOffsetRef = useRef(0); // Seconds into the speech when recording began
+  const chunkStartsRef = useRef<number[]>([]); // Seconds into the speech where each chunk begins
+  const lastChunkEndRef = useRef(0); // Seconds into the speech when the latest chunk was emitted
+  const recordingMimeTypeRef = useRef("audio/webm");
   
   // Transcript state - now synced from server
   const [liveTranscript, setLiveTranscript] = useState<Array<{
@@ -84,90 +94,83 @@ export default function Debate() {
     text: string;
     timestamp: number;
     sequenceNumber: number;
+    isPOI: boolean;
   }>>([]);
-  const [lastSequence, setLastSequence] = useState(0);
   
   // AI Moderator state
   const [isSpeaking, setIsSpeaking] = useState(false);
   const speechSynthRef = useRef<SpeechSynthesisUtterance | null>(null);
   const isSpeakingRef = useRef(false); // Ref to track speaking state for async callbacks
   
+  // AI opponent state: the slot whose speech we're writing or reading aloud
+  const [aiStatus, setAiStatus] = useState<"idle" | "writing" | "speaking">("idle");
+  const aiTurnRef = useRef<string | null>(null);
+  
   const utils = trpc.useUtils();
 
   const { data: roomData, isLoading } = trpc.room.get.useQuery(
     { roomCode },
-    { 
-      enabled: !!roomCode,
-      refetchInterval: 5000,
-    }
+    { enabled: !!roomCode }
   );
+  const format = roomData?.format ?? getDebateFormat(roomData?.room.format);
+  // The moderator speaks the round's language
+  const roomLanguage = getLanguage(roomData?.language);
+  const moderator = MODERATOR_LINES[roomLanguage.id] ?? MODERATOR_LINES.en;
+  const translation = useTranscriptTranslation(roomData?.room.id, liveTranscript);
 
-  // Poll for transcript updates every 2 seconds
-  const { data: transcriptData } = trpc.transcript.poll.useQuery(
-    { 
-      roomId: roomData?.room.id || 0, 
-      afterSequence: lastSequence 
-    },
-    { 
-      enabled: !!roomData?.room.id && roomData.room.status === "in_progress",
-      refetchInterval: 2000,
-    }
+  // Server-owned speech clock, shared by every participant including late joiners.
+  // Updates are pushed through the room event stream.
+  const { data: clock, dataUpdatedAt: clockUpdatedAt } = trpc.room.getClock.useQuery(
+    { roomId: roomData?.room.id || 0 },
+    { enabled: !!roomData?.room.id && roomData.room.status === "in_progress" }
   );
 
-  // Update local transcript when new segments arrive from server
-  useEffect(() => {
-    if (transcriptData?.segments && transcriptData.segments.length > 0) {
-      const newSegments = transcriptData.segments.map(seg => ({
-        id: seg.id,
-        speaker: ROLE_LABELS[seg.speakerRole] || seg.speakerRole,
-        text: seg.text,
-        timestamp: seg.timestamp,
-        sequenceNumber: seg.sequenceNumber,
-      }));
-      
-      setLiveTranscript(prev => {
-        // Merge new segments, avoiding duplicates
-        const existingIds = new Set(prev.map(s => s.id));
-        const uniqueNew = newSegments.filter(s => !existingIds.has(s.id));
-        return [...prev, ...uniqueNew].sort((a, b) => a.sequenceNumber - b.sequenceNumber);
-      });
-      
-      // Update last sequence
-      const maxSeq = Math.max(...newSegments.map(s => s.sequenceNumber));
-      setLastSequence(prev => Math.max(prev, maxSeq));
+  // Live room events: transcript segments are appended as they arrive. On
+  // (re)connect the server replays every segment after the last one we saw.
+  useRoomEvents(roomData?.room.id, (event) => {
+    if (event.type === "poi") {
+      if (event.status === "offered" && isMyTurn) {
+        toast.info("Point of information offered");
+      } else if (event.status === "accepted" || event.status === "declined") {
+        toast.info(`POI ${event.status}`);
+      }
+      return;
     }
-  }, [transcriptData]);
-
-  // Load full transcript on mount / reconnect (rehydration)
-  const { data: fullTranscript } = trpc.transcript.getAll.useQuery(
-    { roomId: roomData?.room.id || 0 },
-    { 
-      enabled: !!roomData?.room.id && roomData.room.status === "in_progress" && lastSequence === 0,
+    if (event.type === "violation") {
+      const label = RULE_VIOLATION_TYPES.find(t => t.id === event.violation.violationType)?.label;
+      toast.warning(`Rule violation flagged: ${label ?? event.violation.violationType}`);
+      return;
     }
-  );
-
-  useEffect(() => {
-    if (fullTranscript?.segments && fullTranscript.segments.length > 0 && lastSequence === 0) {
-      const segments = fullTranscript.segments.map(seg => ({
-        id: seg.id,
-        speaker: ROLE_LABELS[seg.speakerRole] || seg.speakerRole,
-        text: seg.text,
-        timestamp: seg.timestamp,
-        sequenceNumber: seg.sequenceNumber,
-      }));
-      setLiveTranscript(segments);
-      const maxSeq = Math.max(...segments.map(s => s.sequenceNumber));
-      setLastSequence(maxSeq);
+    if (event.type === "transcript_edit") {
+      // A corrected segment replaces the text already shown
+      const { segment } = event;
+      setLiveTranscript(prev => prev.map(s => s.id === segment.id ? { ...s, text: segment.text } : s));
+      return;
     }
-  }, [fullTranscript, lastSequence]);
+    if (event.type !== "transcript") return;
+    const { segment } = event;
+    setLiveTranscript(prev => {
+      if (prev.some(s => s.id === segment.id)) return prev;
+      return [...prev, {
+        id: segment.id,
+        speaker: getRoleLabel(format, segment.speakerRole),
+        text: segment.text,
+        timestamp: segment.timestamp,
+        sequenceNumber: segment.sequenceNumber,
+        isPOI: segment.poiId !== null,
+      }].sort((a, b) => a.sequenceNumber - b.sequenceNumber);
+    });
+  });
 
   const createSpeech = trpc.speech.create.useMutation();
   const endSpeech = trpc.speech.end.useMutation();
   const transcribeSpeech = trpc.speech.transcribe.useMutation();
+  const uploadSpeechAudio = trpc.speech.uploadAudio.useMutation();
+  const giveAISpeech = trpc.speech.giveAI.useMutation();
   const advanceSpeaker = trpc.room.advanceSpeaker.useMutation({
     onSuccess: (data) => {
       if (data.completed) {
-        speakAnnouncement("The debate has concluded. Thank you all for participating. Generating feedback now.");
+        speakAnnouncement(moderator.concluded);
         setTimeout(() => {
           navigate(`/review/${roomCode}`);
         }, 3000);
@@ -177,40 +180,62 @@ export default function Debate() {
     },
   });
 
+  const clockControlOptions = {
+    onSuccess: () => utils.room.getClock.invalidate(),
+    onError: (error: { message: string }) => {
+      toast.error(error.message || "Failed to update the clock");
+    },
+  };
+  const pauseClock = trpc.room.pauseClock.useMutation(clockControlOptions);
+  const resumeClock = trpc.room.resumeClock.useMutation(clockControlOptions);
+
   const offerPOI = trpc.poi.offer.useMutation({
     onSuccess: () => {
       toast.success("POI offered!");
-      speakAnnouncement("Point of information!");
+      speakAnnouncement(moderator.pointOfInformation);
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to offer a point of information");
     },
   });
 
   const currentSpeakerIndex = roomData?.room.currentSpeakerIndex || 0;
-  const currentSpeaker = SPEAKING_ORDER[currentSpeakerIndex];
+  const currentSpeaker = format.speakingOrder[currentSpeakerIndex];
   
-  // Build active speaking order based on who joined
-  const participantRoles = new Set(roomData?.participants.map(p => p.speakerRole) || []);
-  const activeSpeakingOrder = SPEAKING_ORDER.filter(speaker => {
-    if (speaker.role === "opposition_reply") {
-      return participantRoles.has("leader_of_opposition");
-    }
-    if (speaker.role === "government_reply") {
-      return participantRoles.has("prime_minister");
-    }
-    return participantRoles.has(speaker.role as any);
-  });
+  // Derive the countdown from the server's timestamps, corrected for local clock skew
+  const clockStatus = clock?.status ?? "idle";
+  const isTimerRunning = clockStatus === "running";
+  const serverNow = clock ? Math.max(now, clockUpdatedAt) + (clock.serverTime - clockUpdatedAt) : now;
+  const speakerTime = currentSpeaker?.time || 420;
+  const clockElapsed = clock && clockStatus !== "idle" ? getClockElapsed(clock, serverNow) : 0;
+  const timeRemaining = Math.max(0, speakerTime - clockElapsed);
+  // Unlike the countdown this keeps going in overtime, so late chunks get their own offsets
+  clockElapsedRef.current = clockElapsed;
+  const liveSpeechId = currentSpeechId ?? clock?.speechId ?? null;
+  
+  // Build active speaking order based on who joined (the AI opponent fills empty roles)
+  const activeSpeakingOrder = getActiveSpeakingOrder(
+    format,
+    getSpeakingRoles(format, roomData?.participants.map(p => p.speakerRole) || [], !!roomData?.room.aiOpponent)
+  );
   
-  const currentParticipant = roomData?.participants.find(
-    p => p.speakerRole === currentSpeaker?.role || 
-         (currentSpeaker?.role === "opposition_reply" && p.speakerRole === "leader_of_opposition") ||
-         (currentSpeaker?.role === "government_reply" && p.speakerRole === "prime_minister")
+  const currentParticipant = currentSpeaker && roomData?.participants.find(
+    p => p.speakerRole === getSlotSpeakerRole(currentSpeaker)
   );
+  const isAITurn = !!roomData?.room.aiOpponent && roomData.room.status === "in_progress" &&
+    !!currentSpeaker && !currentParticipant;
   
   const myParticipant = roomData?.participants.find(p => p.userId === user?.id);
+  const roomAudio = useRoomAudio(roomData?.room.id, user?.id);
   const isMyTurn = currentParticipant?.userId === user?.id;
-  const canOfferPOI = myParticipant && 
-    myParticipant.team !== currentSpeaker?.team &&
-    timeRemaining < (currentSpeaker?.time || 420) - 60 &&
-    timeRemaining > 60;
+  const isCreator = roomData?.room.creatorId === user?.id;
+  // One device records the whole round, so speeches are started from it rather than by each speaker
+  const sharedDevice = roomData?.room.recordingMode === "shared_device";
+  const runsFloor = isMyTurn || (sharedDevice && isCreator);
+  const isAdjudicator = myParticipant?.role === "adjudicator";
+  // Same rules the server enforces: the other side of the house, outside protected time
+  const canOfferPOI = myParticipant && isDebater(myParticipant) && currentSpeaker && isTimerRunning &&
+    !getPOIOfferError(format, currentSpeaker, myParticipant.team, currentSpeaker.time - timeRemaining);
 
   // AI Moderator speech function - returns a promise that resolves when speech ends
   const speakAnnouncement = useCallback((text: string): Promise<void> => {
@@ -220,17 +245,18 @@ export default function Debate() {
         window.speechSynthesis.cancel();
         
         const utterance = new SpeechSynthesisUtterance(text);
+        utterance.lang = roomLanguage.voice;
         utterance.rate = 0.9;
         utterance.pitch = 1;
         utterance.volume = 1;
         
-        // Try to get a good voice
-        const voices = window.speechSynthesis.getVoices();
+        // Try to get a good voice in the room's language
+        const voices = window.speechSynthesis.getVoices()
+          .filter(v => v.lang.replace("_", "-").toLowerCase().startsWith(roomLanguage.id));
         const preferredVoice = voices.find(v => 
           v.name.includes('Google') || 
-          v.name.includes('Microsoft') || 
-          v.lang.startsWith('en')
-        );
+          v.name.includes('Microsoft')
+        ) ?? voices.find(v => v.lang.replace("_", "-") === roomLanguage.voice) ?? voices[0];
         if (preferredVoice) {
           utterance.voice = preferredVoice;
         }
@@ -256,55 +282,97 @@ export default function Debate() {
         resolve();
       }
     });
-  }, []);
+  }, [roomLanguage.id, roomLanguage.voice]);
+
+  // Read a long text aloud a sentence at a time (browsers cut off very long
+  // utterances). Stops early once the AI's turn is over or skipped.
+  const speakText = useCallback(async (text: string, turn: string) => {
+    const sentences = text.match(/[^.!?。！？]+[.!?。！？]+["')\]」』]*|[^.!?。！？]+$/g) ?? [text];
+    for (const sentence of sentences) {
+      if (aiTurnRef.current !== turn) return;
+      await speakAnnouncement(sentence.trim());
+    }
+  }, [speakAnnouncement]);
 
-  // Timer effect - runs independently when started
+  // Tick the display while the clock runs
   useEffect(() => {
-    if (isTimerRunning && timeRemaining > 0) {
-      timerIntervalRef.current = setInterval(() => {
-        setTimeRemaining(prev => {
-          const newTime = prev - 1;
-          timeRemainingRef.current = newTime; // Keep ref in sync
-          
-          // Time warnings - don't await these, just fire and forget
-          if (newTime === 60) {
-            speakAnnouncement("One minute remaining.");
-          } else if (newTime === 30) {
-            speakAnnouncement("Thirty seconds remaining.");
-          } else if (newTime === 10) {
-            speakAnnouncement("Ten seconds.");
-          } else if (newTime === 0) {
-            speakAnnouncement("Time is up. Please conclude your speech.");
-            setIsTimerRunning(false);
-          }
-          
-          return newTime;
-        });
-      }, 1000);
-      
-      return () => {
-        if (timerIntervalRef.current) {
-          clearInterval(timerIntervalRef.current);
-          timerIntervalRef.current = null;
-        }
-      };
+    if (!isTimerRunning) return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [isTimerRunning]);
+
+  // Announce time warnings as the server reports them. The first reading is only
+  // recorded so late joiners don't hear a warning that was already given.
+  useEffect(() => {
+    if (!clock) return;
+    const previous = lastWarningRef.current;
+    lastWarningRef.current = { speechId: clock.speechId, warning: clock.warning };
+    if (!previous || !clock.warning) return;
+    if (previous.speechId === clock.speechId && previous.warning === clock.warning) return;
+    speakAnnouncement(moderator[clock.warning]);
+  }, [clock?.speechId, clock?.warning, speakAnnouncement]);
+
+  // Pick the running speech back up after a refresh so POIs and transcription attach to it
+  useEffect(() => {
+    if (clock?.speechId && !currentSpeechIdRef.current) {
+      setCurrentSpeechId(clock.speechId);
+      currentSpeechIdRef.current = clock.speechId;
     }
-  }, [isTimerRunning, speakAnnouncement]);
+  }, [clock?.speechId]);
 
-  // Reset timer when speaker changes (but don't clear transcript - it's synced from server)
+  // Announce the speaker when it changes (transcript is synced from server, so it is kept)
   useEffect(() => {
     if (currentSpeaker) {
-      setTimeRemaining(currentSpeaker.time);
-      setIsTimerRunning(false);
-      
       // Announce new speaker
       if (roomData?.room.status === "in_progress") {
-        const speakerName = currentParticipant?.user?.name || "the next speaker";
-        speakAnnouncement(`${currentSpeaker.label}, ${speakerName}, you have ${Math.floor(currentSpeaker.time / 60)} minutes. Please begin when ready.`);
+        if (isAITurn) {
+          speakAnnouncement(fillModeratorLine(moderator.callAISpeaker, { role: currentSpeaker.label, name: AI_SPEAKER_NAME }));
+          return;
+        }
+        speakAnnouncement(fillModeratorLine(moderator.callSpeaker, {
+          role: currentSpeaker.label,
+          name: currentParticipant?.user?.name || moderator.nextSpeakerName,
+          minutes: Math.floor(currentSpeaker.time / 60),
+        }));
       }
     }
   }, [currentSpeakerIndex, currentSpeaker?.role]);
 
+  // The AI opponent's turn: fetch its speech (the server writes it once for the
+  // whole room) and read it aloud. The room creator moves the round on after.
+  useEffect(() => {
+    if (!isAITurn || !myParticipant || !roomData?.room.id || !currentSpeaker) return;
+    const turn = currentSpeaker.role;
+    if (aiTurnRef.current === turn) return;
+    aiTurnRef.current = turn;
+    const roomId = roomData.room.id;
+    
+    (async () => {
+      setAiStatus("writing");
+      try {
+        const { transcript } = await giveAISpeech.mutateAsync({ roomId });
+        if (aiTurnRef.current !== turn) return;
+        setAiStatus("speaking");
+        await speakText(transcript, turn);
+        if (aiTurnRef.current === turn && isCreator) {
+          advanceSpeaker.mutate({ roomId });
+        }
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "The AI opponent could not give its speech");
+      } finally {
+        if (aiTurnRef.current === turn) setAiStatus("idle");
+      }
+    })();
+  }, [isAITurn, currentSpeaker?.role, myParticipant?.id, roomData?.room.id]);
+
+  const skipAISpeech = () => {
+    if (!roomData?.room.id) return;
+    aiTurnRef.current = null;
+    window.speechSynthesis.cancel();
+    setAiStatus("idle");
+    advanceSpeaker.mutate({ roomId: roomData.room.id });
+  };
+
   // Redirect if room not in progress
   useEffect(() => {
     if (roomData?.room.status === "waiting") {
@@ -318,9 +386,6 @@ export default function Debate() {
   // Cleanup on unmount
   useEffect(() => {
     return () => {
-      if (timerIntervalRef.current) {
-        clearInterval(timerIntervalRef.current);
-      }
       if (transcriptionIntervalRef.current) {
         clearInterval(transcriptionIntervalRef.current);
       }
@@ -330,6 +395,7 @@ export default function Debate() {
       if (streamRef.current) {
         streamRef.current.getTracks().forEach(track => track.stop());
       }
+      aiTurnRef.current = null;
       window.speechSynthesis.cancel();
     };
   }, []);
@@ -378,26 +444,11 @@ export default function Debate() {
     setIsTranscribing(true);
     
     try {
-      // Convert blob to base64
-      const reader = new FileReader();
-      const base64Promise = new Promise<string>((resolve, reject) => {
-        reader.onloadend = () => {
-          const result = reader.result as string;
-          if (result) {
-            const base64 = result.split(',')[1];
-            resolve(base64);
-          } else {
-            reject(new Error("Failed to read audio"));
-          }
-        };
-        reader.onerror = () => reject(reader.error);
-      });
-      reader.readAsDataURL(audioBlob);
-      const base64Audio = await base64Promise;
+      const base64Audio = await blobToBase64(audioBlob);
       
-      // Calculate timestamp using ref for accuracy
-      const speakerTime = currentSpeaker?.time || 420;
-      const timestamp = speakerTime - timeRemainingRef.current;
+      // The segment starts where its first chunk began on the speech clock;
+      // chunks vary in length, so counting timeslices would drift
+      const timestamp = chunkStartsRef.current[processedCount] ?? recordingOffsetRef.current;
       
       console.log("[Transcription] Sending to server, timestamp:", timestamp);
       
@@ -418,7 +469,7 @@ export default function Debate() {
       setIsTranscribing(false);
       isProcessingRef.current = false;
     }
-  }, [currentSpeaker, transcribeSpeech]);
+  }, [transcribeSpeech]);
 
   const startSpeech = useCallback(async () => {
     if (!roomData?.room.id || !currentSpeaker) return;
@@ -428,26 +479,26 @@ export default function Debate() {
       const result = await createSpeech.mutateAsync({
         roomId: roomData.room.id,
         speakerRole: currentSpeaker.role,
-        speechType: currentSpeaker.role.includes("reply") ? "reply" : "substantive",
+        speechType: currentSpeaker.type,
       });
       
       // Update both state and ref for the speech ID
       setCurrentSpeechId(result.speechId);
       currentSpeechIdRef.current = result.speechId;
       
-      // Initialize time ref
-      timeRemainingRef.current = currentSpeaker.time;
-      
       // Reset audio tracking refs
       audioChunksRef.current = [];
+      chunkStartsRef.current = [];
       processedIndexRef.current = 0;
       isProcessingRef.current = false;
       
-      // Start timer
-      setIsTimerRunning(true);
+      // The server started the clock with the speech; refresh so the countdown shows now
+      utils.room.getClock.invalidate({ roomId: roomData.room.id });
       
       // First announce, THEN start recording (wait for AI to finish speaking)
-      await speakAnnouncement("Your time begins now.");
+      await speakAnnouncement(moderator.timeBegins);
+      // The round recorder is already capturing the room
+      if (sharedDevice) return;
       
       // Now start microphone recording AFTER AI has finished speaking
       try {
@@ -468,6 +519,7 @@ export default function Debate() {
             : 'audio/mp4';
         
         console.log("[Recording] Using mime type:", mimeType);
+        recordingMimeTypeRef.current = mimeType;
         
         const mediaRecorder = new MediaRecorder(stream, { 
           mimeType,
@@ -475,11 +527,17 @@ export default function Debate() {
         });
         mediaRecorderRef.current = mediaRecorder;
         
+        const speechClockTime = () => clockElapsedRef.current;
+        
         mediaRecorder.ondataavailable = (event) => {
           console.log("[Recording] Data available:", event.data.size, "bytes, state:", mediaRecorder.state);
+          // Each chunk runs from when the one before it was emitted until now
+          const chunkStart = lastChunkEndRef.current;
+          lastChunkEndRef.current = speechClockTime();
           if (event.data.size > 0) {
             // Always collect audio - we'll filter AI speech during transcription
             audioChunksRef.current.push(event.data);
+            chunkStartsRef.current.push(chunkStart);
             console.log("[Recording] Chunk added, total chunks:", audioChunksRef.current.length);
           }
         };
@@ -495,7 +553,9 @@ export default function Debate() {
         
         // Start recording with 10 second timeslice for substantial audio chunks
         // Longer chunks = better transcription quality
-        mediaRecorder.start(10000);
+        mediaRecorder.start(RECORDING_TIMESLICE_SECONDS * 1000);
+        recordingOffsetRef.current = speechClockTime();
+        lastChunkEndRef.current = recordingOffsetRef.current;
         console.log("[Recording] Started with 10s timeslice");
         setIsRecording(true);
         setIsMicActive(true);
@@ -518,20 +578,13 @@ export default function Debate() {
     } catch (err) {
       toast.error("Failed to start speech");
     }
-  }, [roomData?.room.id, currentSpeaker, createSpeech, processAudioChunk, speakAnnouncement]);
+  }, [roomData?.room.id, currentSpeaker, sharedDevice, createSpeech, processAudioChunk, speakAnnouncement, utils]);
 
   const stopSpeech = useCallback(async () => {
     console.log("[Recording] Stopping speech...");
     console.log("[Recording] Total chunks collected:", audioChunksRef.current.length);
     console.log("[Recording] Processed so far:", processedIndexRef.current);
     
-    // Stop timer
-    setIsTimerRunning(false);
-    if (timerIntervalRef.current) {
-      clearInterval(timerIntervalRef.current);
-      timerIntervalRef.current = null;
-    }
-    
     // Clear transcription interval first
     if (transcriptionIntervalRef.current) {
       clearInterval(transcriptionIntervalRef.current);
@@ -571,24 +624,44 @@ export default function Debate() {
       setIsRecording(false);
       setIsMicActive(false);
       mediaRecorderRef.current = null;
+      
+      // Archive the whole recording for playback; the round moves on without waiting
+      const speechId = currentSpeechIdRef.current;
+      const fullAudio = new Blob(audioChunksRef.current, { type: recordingMimeTypeRef.current });
+      if (speechId && fullAudio.size > 0) {
+        blobToBase64(fullAudio)
+          .then(audioData => uploadSpeechAudio.mutateAsync({
+            speechId,
+            audioData,
+            mimeType: recordingMimeTypeRef.current,
+            offset: recordingOffsetRef.current,
+          }))
+          .catch(err => {
+            console.error("[Recording] Failed to archive speech audio:", err);
+            toast.warning("Your speech recording could not be saved for playback");
+          });
+      }
     }
     
-    // End speech record using ref for accurate values
+    // End speech record; the server measures the duration from its own clock
     const speechId = currentSpeechIdRef.current;
     if (speechId && currentSpeaker) {
-      const duration = currentSpeaker.time - timeRemainingRef.current;
-      console.log("[Recording] Ending speech, duration:", duration, "seconds");
-      await endSpeech.mutateAsync({
-        speechId,
-        duration,
-      });
+      const result = await endSpeech.mutateAsync({ speechId });
+      console.log("[Recording] Ended speech, duration:", result.duration, "seconds");
+      if (result.timeExceeded) {
+        toast.warning("Speech ran over time and was flagged");
+      }
+      if (roomData?.room.id) {
+        utils.room.getClock.invalidate({ roomId: roomData.room.id });
+      }
     }
     
     // Clear audio refs
     audioChunksRef.current = [];
+    chunkStartsRef.current = [];
     processedIndexRef.current = 0;
     
-    speakAnnouncement("Thank you. Moving to the next speaker.");
+    speakAnnouncement(moderator.nextSpeaker);
     
     // Advance to next speaker
     if (roomData?.room.id) {
@@ -600,7 +673,7 @@ export default function Debate() {
     // Clear refs
     setCurrentSpeechId(null);
     currentSpeechIdRef.current = null;
-  }, [currentSpeaker, roomData?.room.id, isRecording, endSpeech, advanceSpeaker, processAudioChunk, speakAnnouncement]);
+  }, [currentSpeaker, roomData?.room.id, isRecording, endSpeech, advanceSpeaker, uploadSpeechAudio, processAudioChunk, speakAnnouncement, utils]);
 
   const toggleMic = useCallback(() => {
     if (streamRef.current) {
@@ -613,14 +686,18 @@ export default function Debate() {
     }
   }, []);
 
+  const handleToggleClock = () => {
+    if (!roomData?.room.id) return;
+    if (clockStatus === "running") {
+      pauseClock.mutate({ roomId: roomData.room.id });
+    } else if (clockStatus === "paused") {
+      resumeClock.mutate({ roomId: roomData.room.id });
+    }
+  };
+
   const handlePOI = () => {
-    if (!roomData?.room.id || !currentSpeechId) return;
-    
-    offerPOI.mutate({
-      roomId: roomData.room.id,
-      speechId: currentSpeechId,
-      timestamp: (currentSpeaker?.time || 420) - timeRemaining,
-    });
+    if (!roomData?.room.id || !liveSpeechId) return;
+    offerPOI.mutate({ roomId: roomData.room.id, speechId: liveSpeechId });
   };
 
   if (authLoading || isLoading) {
@@ -636,7 +713,9 @@ export default function Debate() {
     return null;
   }
 
-  const { room, participants, motion } = roomData;
+  const { participants, motion } = roomData;
+  const { protectedTimeStart, protectedTimeEnd } = format.poi;
+  const getTeamSide = (team?: string) => team ? getFormatTeamSide(team, format) : undefined;
   const progress = ((currentSpeaker?.time || 420) - timeRemaining) / (currentSpeaker?.time || 420) * 100;
   const isWarning = timeRemaining <= 60 && timeRemaining > 30;
   const isDanger = timeRemaining <= 30;
@@ -648,21 +727,24 @@ export default function Debate() {
         <div className="container flex h-14 items-center justify-between">
           <div className="flex items-center gap-3">
             <Badge variant="outline" className="font-mono">{roomCode}</Badge>
+            {myParticipant && !isDebater(myParticipant) && (
+              <Badge variant="secondary">{getParticipantLabel(format, myParticipant)}</Badge>
+            )}
             <span className="text-sm text-muted-foreground">
               Speech {activeSpeakingOrder.findIndex(s => s.role === currentSpeaker?.role) + 1} of {activeSpeakingOrder.length}
             </span>
             {isSpeaking && (
               <Badge variant="secondary" className="gap-1">
                 <Volume2 className="w-3 h-3 animate-pulse" />
-                AI Moderator
+                {aiStatus === "speaking" ? AI_SPEAKER_NAME : "AI Moderator"}
               </Badge>
             )}
           </div>
           <Badge 
-            variant={currentSpeaker?.team === "government" ? "default" : "destructive"}
+            variant={getTeamSide(currentSpeaker?.team) === "proposition" ? "default" : "destructive"}
             className="text-sm"
           >
-            {currentSpeaker?.team === "government" ? "Government" : "Opposition"}
+            {format.teams.find(t => t.id === currentSpeaker?.team)?.shortLabel}
           </Badge>
         </div>
       </header>
@@ -678,6 +760,10 @@ export default function Debate() {
               </CardContent>
             </Card>
 
+            {sharedDevice && roomData && (
+              <RoundRecorder roomId={roomData.room.id} canRecord={isCreator} />
+            )}
+
             {/* Timer and Current Speaker */}
             <Card className={`
               ${isWarning ? "border-yellow-500 timer-warning" : ""}
@@ -688,7 +774,7 @@ export default function Debate() {
                   <p className="text-sm text-muted-foreground mb-2">Current Speaker</p>
                   <h2 className="text-2xl font-bold mb-1">{currentSpeaker?.label}</h2>
                   <p className="text-sm">
-                    {currentParticipant?.user?.name || "Unknown"}
+                    {isAITurn ? AI_SPEAKER_NAME : currentParticipant?.user?.name || "Unknown"}
                   </p>
                 </div>
 
@@ -708,10 +794,14 @@ export default function Debate() {
                       <Badge variant="default" className="gap-1">
                         <Play className="w-3 h-3" /> Running
                       </Badge>
-                    ) : (
+                    ) : clockStatus === "paused" ? (
                       <Badge variant="secondary" className="gap-1">
                         <Pause className="w-3 h-3" /> Paused
                       </Badge>
+                    ) : (
+                      <Badge variant="outline" className="gap-1">
+                        <Clock className="w-3 h-3" /> Not started
+                      </Badge>
                     )}
                     {isRecording && (
                       <Badge variant="destructive" className="gap-1">
@@ -729,9 +819,9 @@ export default function Debate() {
                 {/* POI Window Indicator */}
                 <div className="flex justify-center gap-4 text-sm">
                   <div className={`flex items-center gap-1 ${
-                    timeRemaining > (currentSpeaker?.time || 420) - 60 ? "text-muted-foreground" : "text-green-500"
+                    timeRemaining > (currentSpeaker?.time || 420) - protectedTimeStart ? "text-muted-foreground" : "text-green-500"
                   }`}>
-                    {timeRemaining > (currentSpeaker?.time || 420) - 60 ? (
+                    {timeRemaining > (currentSpeaker?.time || 420) - protectedTimeStart ? (
                       <Clock className="w-4 h-4" />
                     ) : (
                       <CheckCircle2 className="w-4 h-4" />
@@ -739,9 +829,9 @@ export default function Debate() {
                     Protected time (start)
                   </div>
                   <div className={`flex items-center gap-1 ${
-                    timeRemaining <= 60 ? "text-muted-foreground" : "text-green-500"
+                    timeRemaining <= protectedTimeEnd ? "text-muted-foreground" : "text-green-500"
                   }`}>
-                    {timeRemaining <= 60 ? (
+                    {timeRemaining <= protectedTimeEnd ? (
                       <Clock className="w-4 h-4" />
                     ) : (
                       <CheckCircle2 className="w-4 h-4" />
@@ -752,9 +842,36 @@ export default function Debate() {
 
                 {/* Controls */}
                 <div className="flex justify-center gap-4 mt-6">
-                  {isMyTurn ? (
+                  {isAITurn ? (
+                    <>
+                      <div className="flex items-center gap-2 text-muted-foreground">
+                        {aiStatus === "writing" ? (
+                          <Loader2 className="w-5 h-5 animate-spin" />
+                        ) : (
+                          <Bot className="w-5 h-5" />
+                        )}
+                        <span>
+                          {aiStatus === "writing"
+                            ? `${AI_SPEAKER_NAME} is preparing a response...`
+                            : `${AI_SPEAKER_NAME} is speaking...`}
+                        </span>
+                      </div>
+                      {isCreator && (
+                        <Button
+                          size="lg"
+                          variant="outline"
+                          onClick={skipAISpeech}
+                          className="gap-2"
+                          disabled={aiStatus === "writing" || advanceSpeaker.isPending}
+                        >
+                          <SkipForward className="w-5 h-5" />
+                          Skip
+                        </Button>
+                      )}
+                    </>
+                  ) : runsFloor ? (
                     <>
-                      {!isTimerRunning ? (
+                      {clockStatus === "idle" ? (
                         <Button 
                           size="lg" 
                           onClick={startSpeech} 
@@ -766,22 +883,34 @@ export default function Debate() {
                           ) : (
                             <Mic className="w-5 h-5" />
                           )}
-                          Start Speaking
+                          {isMyTurn ? "Start Speaking" : "Start Speech"}
                         </Button>
                       ) : (
                         <>
+                          {!sharedDevice && (
+                            <Button 
+                              size="lg" 
+                              variant={isMicActive ? "default" : "outline"}
+                              onClick={toggleMic}
+                              className="gap-2"
+                            >
+                              {isMicActive ? (
+                                <Mic className="w-5 h-5" />
+                              ) : (
+                                <MicOff className="w-5 h-5" />
+                              )}
+                              {isMicActive ? "Mute" : "Unmute"}
+                            </Button>
+                          )}
                           <Button 
                             size="lg" 
-                            variant={isMicActive ? "default" : "outline"}
-                            onClick={toggleMic}
+                            variant="outline"
+                            onClick={handleToggleClock}
                             className="gap-2"
+                            disabled={pauseClock.isPending || resumeClock.isPending}
                           >
-                            {isMicActive ? (
-                              <Mic className="w-5 h-5" />
-                            ) : (
-                              <MicOff className="w-5 h-5" />
-                            )}
-                            {isMicActive ? "Mute" : "Unmute"}
+                            {isTimerRunning ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+                            {isTimerRunning ? "Pause" : "Resume"}
                           </Button>
                           <Button 
                             size="lg" 
@@ -814,6 +943,18 @@ export default function Debate() {
                           Offer POI
                         </Button>
                       )}
+                      {(isCreator || isAdjudicator) && clockStatus !== "idle" && (
+                        <Button 
+                          size="lg" 
+                          variant="outline"
+                          onClick={handleToggleClock}
+                          className="gap-2"
+                          disabled={pauseClock.isPending || resumeClock.isPending}
+                        >
+                          {isTimerRunning ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+                          {isTimerRunning ? "Pause Clock" : "Resume Clock"}
+                        </Button>
+                      )}
                       <div className="flex items-center gap-2 text-muted-foreground">
                         <Volume2 className="w-5 h-5" />
                         <span>{isTimerRunning ? "Listening to speaker..." : "Waiting for speaker to begin..."}</span>
@@ -831,6 +972,16 @@ export default function Debate() {
               </CardContent>
             </Card>
 
+            {liveSpeechId && (
+              <PointsOfInformation
+                speechId={liveSpeechId}
+                format={format}
+                participants={participants}
+                myParticipantId={myParticipant?.id}
+                isSpeaker={isMyTurn}
+              />
+            )}
+
             {/* Live Transcript - Now synced from server */}
             <Card>
               <CardHeader>
@@ -840,6 +991,11 @@ export default function Debate() {
                   <Badge variant="outline" className="ml-auto text-xs">
                     {liveTranscript.length} segments
                   </Badge>
+                  <TranslateSelect
+                    language={translation.language}
+                    onChange={translation.setLanguage}
+                    isTranslating={translation.isTranslating}
+                  />
                 </CardTitle>
               </CardHeader>
               <CardContent>
@@ -850,10 +1006,18 @@ export default function Debate() {
                         <div key={entry.id} className="border-l-2 border-primary pl-3">
                           <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
                             <span className="font-medium">{entry.speaker}</span>
+                            {entry.isPOI && <Badge variant="outline" className="text-[10px]">POI</Badge>}
                             <span>•</span>
                             <span>{formatTime(entry.timestamp)}</span>
                           </div>
-                          <p className="text-sm">{entry.text}</p>
+                          {translation.language ? (
+                            <div className="grid grid-cols-2 gap-3 text-sm">
+                              <p>{entry.text}</p>
+                              <p className="italic text-muted-foreground">{translation.translations.get(entry.id) ?? "…"}</p>
+                            </div>
+                          ) : (
+                            <p className="text-sm">{entry.text}</p>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -871,6 +1035,63 @@ export default function Debate() {
 
           {/* Sidebar - Speaking Order */}
           <div className="space-y-4">
+            {/* Room Audio */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm flex items-center gap-2">
+                  Room Audio
+                  <Badge variant="outline" className="ml-auto text-xs">
+                    {roomAudio.peers.length + (roomAudio.joined ? 1 : 0)} connected
+                  </Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <AudioTiles
+                  participants={participants.map(p => ({
+                    userId: p.userId,
+                    name: p.user?.name || "Unknown",
+                    roleLabel: getParticipantLabel(format, p),
+                    isSelf: p.userId === user.id,
+                  }))}
+                  peers={roomAudio.peers}
+                  joined={roomAudio.joined}
+                  selfMuted={roomAudio.muted}
+                />
+                {roomAudio.joined ? (
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant={roomAudio.muted ? "outline" : "default"}
+                      onClick={roomAudio.toggleMute}
+                      className="flex-1 gap-2"
+                    >
+                      {roomAudio.muted ? <MicOff className="w-4 h-4" /> : <Mic className="w-4 h-4" />}
+                      {roomAudio.muted ? "Unmute" : "Mute"}
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={roomAudio.leave} className="gap-2">
+                      <PhoneOff className="w-4 h-4" />
+                      Leave
+                    </Button>
+                  </div>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={roomAudio.join}
+                    className="w-full gap-2"
+                    disabled={!roomAudio.ready || roomAudio.joining}
+                  >
+                    {roomAudio.joining ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <Headphones className="w-4 h-4" />
+                    )}
+                    Join Audio
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+
             <Card>
               <CardHeader>
                 <CardTitle className="text-sm">Speaking Order</CardTitle>
@@ -878,11 +1099,9 @@ export default function Debate() {
               <CardContent className="space-y-2">
                 {activeSpeakingOrder.map((speaker, activeIndex) => {
                   const participant = participants.find(
-                    p => p.speakerRole === speaker.role ||
-                         (speaker.role === "opposition_reply" && p.speakerRole === "leader_of_opposition") ||
-                         (speaker.role === "government_reply" && p.speakerRole === "prime_minister")
+                    p => p.speakerRole === getSlotSpeakerRole(speaker)
                   );
-                  const fullIndex = SPEAKING_ORDER.findIndex(s => s.role === speaker.role);
+                  const fullIndex = format.speakingOrder.findIndex(s => s.role === speaker.role);
                   const isCurrent = fullIndex === currentSpeakerIndex;
                   const currentActiveIndex = activeSpeakingOrder.findIndex(s => s.role === currentSpeaker?.role);
                   const isPast = activeIndex < currentActiveIndex;
@@ -894,14 +1113,14 @@ export default function Debate() {
                         p-3 rounded-lg border text-sm
                         ${isCurrent ? "border-primary bg-primary/5 ring-2 ring-primary/20" : ""}
                         ${isPast ? "opacity-50" : ""}
-                        ${speaker.team === "government" ? "border-l-4 border-l-blue-500" : "border-l-4 border-l-red-500"}
+                        ${getTeamSide(speaker.team) === "proposition" ? "border-l-4 border-l-blue-500" : "border-l-4 border-l-red-500"}
                       `}
                     >
                       <div className="flex items-center justify-between">
                         <div>
                           <p className="font-medium">{speaker.label}</p>
                           <p className="text-xs text-muted-foreground">
-                            {participant?.user?.name || "—"}
+                            {participant?.user?.name || (roomData.room.aiOpponent ? AI_SPEAKER_NAME : "—")}
                           </p>
                         </div>
                         <div className="text-xs text-muted-foreground">
@@ -922,6 +1141,10 @@ export default function Debate() {
                 })}
               </CardContent>
             </Card>
+
+            <RuleViolations roomId={roomData.room.id} format={format} participants={participants} />
+
+            {myParticipant && <RoomNotes roomId={roomData.room.id} />}
           </div>
         </div>
       </main>
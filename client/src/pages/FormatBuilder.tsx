@@ -0,0 +1,276 @@
+import { useAuth } from "@/_core/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { useState } from "react";
+import { useLocation, Link } from "wouter";
+import {
+  buildCustomFormat,
+  CUSTOM_FORMAT_LIMITS,
+  formatTime,
+  getTeamSide,
+  type CustomFormatSpec,
+} from "@shared/debate";
+import { ArrowLeft, Loader2, Save } from "lucide-react";
+
+const range = (min: number, max: number) =>
+  Array.from({ length: max - min + 1 }, (_, i) => min + i);
+
+export default function FormatBuilder() {
+  const { user, loading: authLoading } = useAuth();
+  const [, navigate] = useLocation();
+
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [teamsCount, setTeamsCount] = useState(2);
+  const [speakersPerTeam, setSpeakersPerTeam] = useState(2);
+  const [speechMinutes, setSpeechMinutes] = useState(4);
+  const [hasReplies, setHasReplies] = useState(false);
+  const [replyMinutes, setReplyMinutes] = useState(2);
+  const [poiAllowed, setPoiAllowed] = useState(false);
+  const [protectedSeconds, setProtectedSeconds] = useState(30);
+  const [shareWithClub, setShareWithClub] = useState(false);
+
+  const spec: CustomFormatSpec = {
+    teamsCount,
+    speakersPerTeam,
+    speechTime: Math.round(speechMinutes * 60),
+    replyTime: hasReplies && teamsCount === 2 ? Math.round(replyMinutes * 60) : null,
+    poi: { allowed: poiAllowed, protectedTime: protectedSeconds },
+  };
+
+  // Preview exactly what the Debate page will run
+  const preview = buildCustomFormat({ id: 0, name: name || "Custom Format", description, spec });
+
+  const createFormat = trpc.format.create.useMutation({
+    onSuccess: () => {
+      toast.success("Format saved!");
+      navigate("/room/create");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to save format");
+    },
+  });
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="w-8 h-8 border-4 border-foreground border-t-transparent animate-spin" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    navigate("/");
+    return null;
+  }
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      toast.error("Please give the format a name");
+      return;
+    }
+    createFormat.mutate({
+      name: name.trim(),
+      description: description.trim() || undefined,
+      shareWithClub,
+      spec,
+    });
+  };
+
+  const minSpeechMinutes = CUSTOM_FORMAT_LIMITS.minSpeechTime / 60;
+  const maxSpeechMinutes = CUSTOM_FORMAT_LIMITS.maxSpeechTime / 60;
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      {/* Navigation */}
+      <nav className="fixed top-0 left-0 right-0 z-50 bg-background border-b-4 border-foreground">
+        <div className="container flex items-center gap-6 h-20">
+          <Link href="/room/create">
+            <Button variant="ghost" size="icon" className="brutalist-border">
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+          </Link>
+          <span className="text-2xl font-black tracking-tighter uppercase">
+            [NEW FORMAT]
+          </span>
+        </div>
+      </nav>
+
+      <main className="container pt-28 pb-12">
+        <div className="max-w-3xl mx-auto space-y-8">
+          {/* Basics */}
+          <div className="brutalist-border brutalist-shadow p-8 space-y-6">
+            <h2 className="text-2xl font-black uppercase tracking-tight">Format Details</h2>
+            <div className="space-y-2">
+              <label className="text-sm font-black uppercase">Name</label>
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. 2v2 Rebuttal Drill"
+                maxLength={100}
+                className="brutalist-border h-14 font-bold"
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-black uppercase">Description</label>
+              <Textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="What is this drill for?"
+                maxLength={500}
+                rows={3}
+                className="brutalist-border"
+              />
+            </div>
+          </div>
+
+          {/* Structure */}
+          <div className="brutalist-border brutalist-shadow p-8 space-y-6">
+            <h2 className="text-2xl font-black uppercase tracking-tight">Structure</h2>
+            <div className="grid sm:grid-cols-3 gap-6">
+              <div className="space-y-2">
+                <label className="text-sm font-black uppercase">Teams</label>
+                <Select value={String(teamsCount)} onValueChange={(v) => setTeamsCount(Number(v))}>
+                  <SelectTrigger className="brutalist-border h-14 font-bold">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="brutalist-border">
+                    {range(CUSTOM_FORMAT_LIMITS.minTeams, CUSTOM_FORMAT_LIMITS.maxTeams).map((n) => (
+                      <SelectItem key={n} value={String(n)} className="font-medium">{n} teams</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-black uppercase">Speakers / Team</label>
+                <Select value={String(speakersPerTeam)} onValueChange={(v) => setSpeakersPerTeam(Number(v))}>
+                  <SelectTrigger className="brutalist-border h-14 font-bold">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="brutalist-border">
+                    {range(CUSTOM_FORMAT_LIMITS.minSpeakersPerTeam, CUSTOM_FORMAT_LIMITS.maxSpeakersPerTeam).map((n) => (
+                      <SelectItem key={n} value={String(n)} className="font-medium">{n}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-black uppercase">Speech (min)</label>
+                <Input
+                  type="number"
+                  min={minSpeechMinutes}
+                  max={maxSpeechMinutes}
+                  step={0.5}
+                  value={speechMinutes}
+                  onChange={(e) => setSpeechMinutes(Math.min(maxSpeechMinutes, Math.max(minSpeechMinutes, Number(e.target.value) || minSpeechMinutes)))}
+                  className="brutalist-border h-14 font-bold"
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between brutalist-border p-4">
+              <div>
+                <p className="font-black uppercase text-sm">Reply Speeches</p>
+                <p className="text-xs text-muted-foreground">Given by each team's first speaker (two-team formats only)</p>
+              </div>
+              <div className="flex items-center gap-4">
+                {hasReplies && teamsCount === 2 && (
+                  <Input
+                    type="number"
+                    min={minSpeechMinutes}
+                    max={maxSpeechMinutes}
+                    step={0.5}
+                    value={replyMinutes}
+                    onChange={(e) => setReplyMinutes(Math.min(maxSpeechMinutes, Math.max(minSpeechMinutes, Number(e.target.value) || minSpeechMinutes)))}
+                    className="brutalist-border w-24 font-bold"
+                  />
+                )}
+                <Switch checked={hasReplies && teamsCount === 2} disabled={teamsCount !== 2} onCheckedChange={setHasReplies} />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between brutalist-border p-4">
+              <div>
+                <p className="font-black uppercase text-sm">Points of Information</p>
+                <p className="text-xs text-muted-foreground">Protected seconds at the start and end of each speech</p>
+              </div>
+              <div className="flex items-center gap-4">
+                {poiAllowed && (
+                  <Input
+                    type="number"
+                    min={0}
+                    max={300}
+                    step={15}
+                    value={protectedSeconds}
+                    onChange={(e) => setProtectedSeconds(Math.min(300, Math.max(0, Number(e.target.value) || 0)))}
+                    className="brutalist-border w-24 font-bold"
+                  />
+                )}
+                <Switch checked={poiAllowed} onCheckedChange={setPoiAllowed} />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between brutalist-border p-4">
+              <div>
+                <p className="font-black uppercase text-sm">Share With Club</p>
+                <p className="text-xs text-muted-foreground">
+                  {user.club ? `Visible to members of ${user.club}` : "Set your club on your profile to share formats"}
+                </p>
+              </div>
+              <Switch checked={shareWithClub} disabled={!user.club} onCheckedChange={setShareWithClub} />
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div className="brutalist-border brutalist-shadow p-8 space-y-4">
+            <h2 className="text-2xl font-black uppercase tracking-tight">Speaking Order</h2>
+            <div className="space-y-2">
+              {preview.speakingOrder.map((slot, index) => (
+                <div key={slot.role} className="flex items-center justify-between p-3 border-2 border-foreground">
+                  <div className="flex items-center gap-3">
+                    <span className="font-mono font-black w-6">{index + 1}</span>
+                    <span className="font-bold uppercase text-sm">{slot.label}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {slot.type === "reply" && (
+                      <Badge variant="outline" className="brutalist-border uppercase font-bold text-xs">Reply</Badge>
+                    )}
+                    <Badge className={`uppercase font-bold text-xs ${getTeamSide(slot.team, preview) === "opposition" ? "team-opp" : "team-gov"}`}>
+                      {formatTime(slot.time)}
+                    </Badge>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground uppercase">
+              {preview.resultType === "ranking" ? "Teams are ranked 1st to last" : "One winning team"}
+              {" • "}
+              {preview.poi.allowed ? "POIs allowed" : "No POIs"}
+            </p>
+          </div>
+
+          <Button
+            onClick={handleSave}
+            disabled={createFormat.isPending}
+            className="w-full brutalist-border brutalist-shadow-hover transition-all uppercase font-black tracking-wider h-14 text-lg gap-3"
+          >
+            {createFormat.isPending ? (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            ) : (
+              <>
+                <Save className="w-5 h-5" />
+                Save Format
+              </>
+            )}
+          </Button>
+        </div>
+      </main>
+    </div>
+  );
+}
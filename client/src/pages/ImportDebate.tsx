@@ -0,0 +1,375 @@
+import { useAuth } from "@/_core/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { blobToBase64 } from "@/lib/audio";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { useState } from "react";
+import { useLocation, Link } from "wouter";
+import {
+  getRoleLabel,
+  getSlotSpeakerRole,
+  IMPORT_CHUNK_BYTES,
+  IMPORT_MAX_CHUNKS,
+  TOPIC_AREAS,
+  TRANSCRIPTION_LANGUAGES,
+  type DebateFormatId,
+  type TopicArea,
+  type TranscriptionLanguage,
+} from "@shared/debate";
+import { ArrowLeft, FileUp, Loader2 } from "lucide-react";
+
+type SpeechInput = {
+  speakerName: string;
+  source: "skip" | "file" | "text";
+  file: File | null;
+  transcript: string;
+};
+
+const emptySpeech: SpeechInput = { speakerName: "", source: "skip", file: null, transcript: "" };
+
+/**
+ * Import a round held off the platform: a recording or transcript per speech,
+ * the motion and who spoke. Recordings go up in parts, then the room is
+ * created and transcribed and analysed in the background.
+ */
+export default function ImportDebate() {
+  const { user, loading: authLoading } = useAuth();
+  const [, navigate] = useLocation();
+
+  const [formatId, setFormatId] = useState<string>("asian_parliamentary");
+  const [language, setLanguage] = useState<TranscriptionLanguage | "default">("default");
+  const [motion, setMotion] = useState("");
+  const [topicArea, setTopicArea] = useState<TopicArea>("politics");
+  const [mySpeakerRole, setMySpeakerRole] = useState<string>("none");
+  const [speeches, setSpeeches] = useState<Record<string, SpeechInput>>({});
+  const [upload, setUpload] = useState<{ done: number; total: number } | null>(null);
+
+  const { data: formats } = trpc.constants.getDebateFormats.useQuery();
+  const { data: customFormats } = trpc.format.list.useQuery(undefined, { enabled: !!user });
+  const selectedCustomFormat = customFormats?.find(c => c.format.id === formatId);
+  const format = selectedCustomFormat?.format ?? formats?.find(f => f.id === formatId);
+
+  const uploadChunk = trpc.import.uploadChunk.useMutation();
+  const createImport = trpc.import.create.useMutation({
+    onSuccess: (data) => {
+      toast.success("Round imported; transcription and feedback will follow shortly");
+      navigate(`/review/${data.roomCode}`);
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to import the round");
+    },
+  });
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="w-8 h-8 border-4 border-foreground border-t-transparent animate-spin" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    navigate("/");
+    return null;
+  }
+
+  const speechFor = (role: string) => speeches[role] ?? emptySpeech;
+  const updateSpeech = (role: string, changes: Partial<SpeechInput>) =>
+    setSpeeches(prev => ({ ...prev, [role]: { ...speechFor(role), ...changes } }));
+  const isMine = (slot: { role: string }) =>
+    !!format && mySpeakerRole !== "none" && getSlotSpeakerRole(format.speakingOrder.find(s => s.role === slot.role)!) === mySpeakerRole;
+
+  const included = format?.speakingOrder.filter(slot => {
+    const speech = speechFor(slot.role);
+    return (speech.source === "file" && speech.file) || (speech.source === "text" && speech.transcript.trim());
+  }) ?? [];
+  const files = included.map(slot => speechFor(slot.role).file).filter((f): f is File => !!f);
+  const totalChunks = files.reduce((total, file) => total + Math.ceil(file.size / IMPORT_CHUNK_BYTES), 0);
+  const isBusy = !!upload || createImport.isPending;
+
+  // Send a file up in parts, each small enough for one request
+  const uploadFile = async (file: File) => {
+    const uploadId = crypto.randomUUID().replace(/-/g, "");
+    const chunkCount = Math.ceil(file.size / IMPORT_CHUNK_BYTES);
+    for (let index = 0; index < chunkCount; index++) {
+      const part = file.slice(index * IMPORT_CHUNK_BYTES, (index + 1) * IMPORT_CHUNK_BYTES);
+      await uploadChunk.mutateAsync({ uploadId, index, data: await blobToBase64(part) });
+      setUpload(prev => prev && { ...prev, done: prev.done + 1 });
+    }
+    return { kind: "file" as const, uploadId, chunkCount, mimeType: file.type };
+  };
+
+  const handleImport = async () => {
+    if (!format) return;
+    if (!motion.trim()) {
+      toast.error("Enter the round's motion");
+      return;
+    }
+    if (included.length === 0) {
+      toast.error("Add a recording or transcript for at least one speech");
+      return;
+    }
+    if (included.some(slot => !isMine(slot) && !speechFor(slot.role).speakerName.trim())) {
+      toast.error("Name the speaker of every speech you didn't give");
+      return;
+    }
+    if (files.some(file => !/^(audio|video)\//.test(file.type))) {
+      toast.error("Recordings must be audio or video files");
+      return;
+    }
+    if (files.some(file => Math.ceil(file.size / IMPORT_CHUNK_BYTES) > IMPORT_MAX_CHUNKS)) {
+      toast.error("One of the recordings is too large to import");
+      return;
+    }
+
+    try {
+      setUpload({ done: 0, total: totalChunks });
+      const imported = [];
+      for (const slot of included) {
+        const speech = speechFor(slot.role);
+        imported.push({
+          role: slot.role,
+          speakerName: speech.speakerName.trim(),
+          source: speech.source === "file" && speech.file
+            ? await uploadFile(speech.file)
+            : { kind: "text" as const, transcript: speech.transcript },
+        });
+      }
+      setUpload(null);
+
+      const settings = {
+        transcriptionLanguage: language === "default" ? undefined : language,
+        motion: motion.trim(),
+        topicArea,
+        mySpeakerRole: mySpeakerRole === "none" ? null : mySpeakerRole,
+        speeches: imported,
+      };
+      if (selectedCustomFormat) {
+        createImport.mutate({ customFormatId: selectedCustomFormat.id, ...settings });
+      } else {
+        createImport.mutate({ format: formatId as DebateFormatId, ...settings });
+      }
+    } catch (error) {
+      setUpload(null);
+      console.error("[ImportDebate] Upload failed:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to upload the recordings");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      {/* Navigation */}
+      <nav className="fixed top-0 left-0 right-0 z-50 bg-background border-b-4 border-foreground">
+        <div className="container flex items-center gap-6 h-20">
+          <Link href="/lobby">
+            <Button variant="ghost" size="icon" className="brutalist-border">
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+          </Link>
+          <span className="text-2xl font-black tracking-tighter uppercase">
+            [IMPORT DEBATE]
+          </span>
+        </div>
+      </nav>
+
+      <main className="container pt-28 pb-12">
+        <div className="max-w-3xl mx-auto space-y-8">
+          {/* Step 1: The round */}
+          <div className="brutalist-border brutalist-shadow p-8 space-y-6">
+            <div className="flex items-center gap-4">
+              <div className="w-12 h-12 brutalist-border flex items-center justify-center font-black text-2xl team-gov">
+                01
+              </div>
+              <div>
+                <h2 className="text-2xl font-black uppercase tracking-tight">The Round</h2>
+                <p className="text-muted-foreground">Format, motion and language of the round you held</p>
+              </div>
+            </div>
+
+            <div className="grid sm:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <label className="text-sm font-black uppercase">Format</label>
+                <Select
+                  value={formatId}
+                  onValueChange={(value) => {
+                    setFormatId(value);
+                    setSpeeches({});
+                    setMySpeakerRole("none");
+                  }}
+                >
+                  <SelectTrigger className="brutalist-border h-14 font-bold">
+                    <SelectValue placeholder="Select format" />
+                  </SelectTrigger>
+                  <SelectContent className="brutalist-border">
+                    {formats?.map((f) => (
+                      <SelectItem key={f.id} value={f.id} className="font-medium">{f.name}</SelectItem>
+                    ))}
+                    {customFormats && customFormats.length > 0 && (
+                      <SelectGroup>
+                        <SelectLabel className="uppercase font-black">Custom</SelectLabel>
+                        {customFormats.map(({ format: custom }) => (
+                          <SelectItem key={custom.id} value={custom.id} className="font-medium">{custom.name}</SelectItem>
+                        ))}
+                      </SelectGroup>
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-black uppercase">Language</label>
+                <Select value={language} onValueChange={(value) => setLanguage(value as TranscriptionLanguage | "default")}>
+                  <SelectTrigger className="brutalist-border h-14 font-bold">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="brutalist-border">
+                    <SelectItem value="default">Server default</SelectItem>
+                    {TRANSCRIPTION_LANGUAGES.map((l) => (
+                      <SelectItem key={l.id} value={l.id}>{l.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-black uppercase">Motion</label>
+              <Input
+                value={motion}
+                onChange={(e) => setMotion(e.target.value)}
+                placeholder="This House would..."
+                maxLength={500}
+                className="brutalist-border h-14 font-bold"
+              />
+            </div>
+
+            <div className="grid sm:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <label className="text-sm font-black uppercase">Topic Area</label>
+                <Select value={topicArea} onValueChange={(value) => setTopicArea(value as TopicArea)}>
+                  <SelectTrigger className="brutalist-border h-14 font-bold">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="brutalist-border">
+                    {TOPIC_AREAS.map((topic) => (
+                      <SelectItem key={topic.id} value={topic.id}>{topic.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-black uppercase">I Spoke As</label>
+                <Select value={mySpeakerRole} onValueChange={setMySpeakerRole}>
+                  <SelectTrigger className="brutalist-border h-14 font-bold">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="brutalist-border">
+                    <SelectItem value="none">I didn't speak</SelectItem>
+                    {format?.speakerRoles.map((role) => (
+                      <SelectItem key={role.id} value={role.id}>{role.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+
+          {/* Step 2: Speeches */}
+          <div className="brutalist-border brutalist-shadow p-8 space-y-6">
+            <div className="flex items-center gap-4">
+              <div className="w-12 h-12 brutalist-border flex items-center justify-center font-black text-2xl team-gov">
+                02
+              </div>
+              <div>
+                <h2 className="text-2xl font-black uppercase tracking-tight">Speeches</h2>
+                <p className="text-muted-foreground">
+                  A recording (audio or video, any length) or a transcript for each speech; skip any you don't have
+                </p>
+              </div>
+            </div>
+
+            {format?.speakingOrder.map((slot) => {
+              const speech = speechFor(slot.role);
+              const mine = isMine(slot);
+              return (
+                <div key={slot.role} className="brutalist-border p-4 space-y-3">
+                  <div className="flex flex-wrap items-center gap-3">
+                    <span className="font-black uppercase mr-auto">{getRoleLabel(format, slot.role)}</span>
+                    <Input
+                      value={mine ? user.name ?? "You" : speech.speakerName}
+                      onChange={(e) => updateSpeech(slot.role, { speakerName: e.target.value })}
+                      placeholder="Speaker's name"
+                      disabled={mine}
+                      maxLength={255}
+                      className="brutalist-border w-48"
+                    />
+                    <Select
+                      value={speech.source}
+                      onValueChange={(value) => updateSpeech(slot.role, { source: value as SpeechInput["source"] })}
+                    >
+                      <SelectTrigger className="brutalist-border w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="skip">Skip</SelectItem>
+                        <SelectItem value="file">Recording</SelectItem>
+                        <SelectItem value="text">Transcript</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {speech.source === "file" && (
+                    <Input
+                      type="file"
+                      accept="audio/*,video/*"
+                      onChange={(e) => updateSpeech(slot.role, { file: e.target.files?.[0] ?? null })}
+                      className="brutalist-border"
+                    />
+                  )}
+                  {speech.source === "text" && (
+                    <Textarea
+                      value={speech.transcript}
+                      onChange={(e) => updateSpeech(slot.role, { transcript: e.target.value })}
+                      placeholder="Paste the speech's transcript"
+                      rows={5}
+                      className="brutalist-border"
+                    />
+                  )}
+                </div>
+              );
+            })}
+
+            {upload && (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  Uploading recordings: part {Math.min(upload.done + 1, upload.total)} of {upload.total}
+                </p>
+                <Progress value={(upload.done / Math.max(1, upload.total)) * 100} />
+              </div>
+            )}
+
+            <Button
+              onClick={handleImport}
+              disabled={isBusy || !format}
+              className="w-full brutalist-border brutalist-shadow-hover transition-all uppercase font-black tracking-wider h-14 text-lg gap-3"
+            >
+              {isBusy ? (
+                <>
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                  Importing...
+                </>
+              ) : (
+                <>
+                  <FileUp className="w-5 h-5" />
+                  Import {included.length} Speech{included.length === 1 ? "" : "es"}
+                </>
+              )}
+            </Button>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -13,7 +13,8 @@ import {
   Clock, 
   Search,
   RefreshCw,
-  ArrowRight
+  ArrowRight,
+  FileUp
 } from "lucide-react";
 
 export default function Lobby() {
@@ -72,12 +73,20 @@ export default function Lobby() {
               [LOBBY]
             </span>
           </div>
-          <Link href="/room/create">
-            <Button className="brutalist-border brutalist-shadow-hover transition-all uppercase font-black tracking-wider px-6 py-3 h-auto">
-              <Plus className="w-5 h-5 mr-2" />
-              Create Room
-            </Button>
-          </Link>
+          <div className="flex items-center gap-3">
+            <Link href="/import">
+              <Button variant="outline" className="brutalist-border brutalist-shadow-hover transition-all uppercase font-black tracking-wider px-6 py-3 h-auto">
+                <FileUp className="w-5 h-5 mr-2" />
+                Import Debate
+              </Button>
+            </Link>
+            <Link href="/room/create">
+              <Button className="brutalist-border brutalist-shadow-hover transition-all uppercase font-black tracking-wider px-6 py-3 h-auto">
+                <Plus className="w-5 h-5 mr-2" />
+                Create Room
+              </Button>
+            </Link>
+          </div>
         </div>
       </nav>
 
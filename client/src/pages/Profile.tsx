@@ -12,6 +12,8 @@ import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
 import { ArrowLeft, Save, User, Trophy, X } from "lucide-react";
 import { Link } from "wouter";
+import { ClubGlossary } from "@/components/ClubGlossary";
+import { DeliveryTrends } from "@/components/DeliveryTrends";
 
 const TOPIC_AREAS = [
   { id: "politics", label: "Politics & Governance", icon: "🏛️" },
@@ -39,8 +41,12 @@ export default function Profile() {
   const [bio, setBio] = useState("");
   const [experienceLevel, setExperienceLevel] = useState<string>("");
   const [background, setBackground] = useState("");
+  const [club, setClub] = useState("");
   const [selectedTopics, setSelectedTopics] = useState<string[]>([]);
   
+  const { data: scoreHistory } = trpc.scoring.myHistory.useQuery(undefined, { enabled: !!user });
+  const recentScores = scoreHistory?.slice(0, 10) ?? [];
+  
   const updateProfile = trpc.profile.update.useMutation({
     onSuccess: () => {
       toast.success("Profile updated successfully!");
@@ -56,6 +62,7 @@ export default function Profile() {
       setBio(user.bio || "");
       setExperienceLevel(user.experienceLevel || "");
       setBackground(user.background || "");
+      setClub(user.club || "");
       setSelectedTopics(user.topicalInterests || []);
     }
   }, [user]);
@@ -90,6 +97,7 @@ export default function Profile() {
       bio,
       experienceLevel: experienceLevel as any,
       background,
+      club: club.trim() || null,
       topicalInterests: selectedTopics,
     });
   };
@@ -133,6 +141,20 @@ export default function Profile() {
                   />
                 </div>
                 
+                <div className="space-y-2">
+                  <Label htmlFor="club">Club</Label>
+                  <Input
+                    id="club"
+                    value={club}
+                    onChange={(e) => setClub(e.target.value)}
+                    placeholder="Your debate club or society"
+                    maxLength={128}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Custom formats you share are visible to members of the same club
+                  </p>
+                </div>
+                
                 <div className="space-y-2">
                   <Label htmlFor="bio">Short Bio</Label>
                   <Textarea
@@ -245,6 +267,9 @@ export default function Profile() {
               </CardContent>
             </Card>
 
+            {/* Transcription vocabulary */}
+            <ClubGlossary />
+
             {/* Stats */}
             <Card>
               <CardHeader>
@@ -268,6 +293,30 @@ export default function Profile() {
               </CardContent>
             </Card>
 
+            {/* Recent AI speaker points */}
+            {recentScores.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Recent Speaker Points</CardTitle>
+                  <CardDescription>AI rubric scores from your latest speeches</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {recentScores.map(({ score, roomCode, format }) => (
+                    <Link key={score.id} href={`/review/${roomCode}`}>
+                      <div className="flex items-center justify-between p-2 rounded border hover:bg-muted/50 cursor-pointer text-sm">
+                        <span className="font-mono">{roomCode}</span>
+                        <Badge variant="outline" className="uppercase">{format}</Badge>
+                        <span className="font-mono font-semibold">{score.speakerPoints}</span>
+                      </div>
+                    </Link>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Delivery analytics over time */}
+            <DeliveryTrends />
+
             {/* Submit */}
             <div className="flex justify-end gap-4">
               <Link href="/">
@@ -9,6 +9,19 @@ import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
 import { useState, useEffect } from "react";
 import { useLocation, useParams, Link } from "wouter";
+import { BallotsPanel } from "@/components/BallotsPanel";
+import { SpeechScores } from "@/components/SpeechScores";
+import { DeliveryAnalytics } from "@/components/DeliveryAnalytics";
+import { RuleViolations } from "@/components/RuleViolations";
+import { SpeechPlayback } from "@/components/SpeechPlayback";
+import { TranscriptCorrection } from "@/components/TranscriptCorrection";
+import { RoundRecorder } from "@/components/RoundRecorder";
+import { ImportProgress } from "@/components/ImportProgress";
+import { AnalysisJobProgress } from "@/components/AnalysisJobProgress";
+import { TranslateSelect } from "@/components/TranslateSelect";
+import { useRoomEvents } from "@/hooks/useRoomEvents";
+import { useTranscriptTranslation } from "@/hooks/useTranscriptTranslation";
+import { AI_SPEAKER_NAME, formatRank, formatTime, getRoleLabel as getFormatRoleLabel, getSlotSpeakerRole, isDebater } from "@shared/debate";
 import { 
   ArrowLeft,
   Trophy,
@@ -20,7 +33,10 @@ import {
   Loader2,
   RefreshCw,
   ChevronRight,
-  Star
+  Star,
+  NotebookPen,
+  Bot,
+  Clock
 } from "lucide-react";
 
 export default function Review() {
@@ -29,6 +45,7 @@ export default function Review() {
   
   const { user, loading: authLoading } = useAuth();
   const [, navigate] = useLocation();
+  const [correcting, setCorrecting] = useState<{ id: number; text: string } | null>(null);
   const [activeTab, setActiveTab] = useState("overview");
 
   const { data: roomData, isLoading } = trpc.room.get.useQuery(
@@ -36,25 +53,59 @@ export default function Review() {
     { enabled: !!roomCode }
   );
 
+  const { data: debateImport } = trpc.import.get.useQuery(
+    { roomId: roomData?.room.id || 0 },
+    { enabled: !!roomData?.room.id }
+  );
+
+  const { data: analysisJobs } = trpc.analysis.jobs.useQuery(
+    { roomId: roomData?.room.id || 0 },
+    { enabled: !!roomData?.room.id }
+  );
+  const isJobActive = (job: { status: string } | null | undefined) => job?.status === "queued" || job?.status === "running";
+  const mindmapJobActive = isJobActive(analysisJobs?.mindmap);
+  const feedbackJobActive = isJobActive(analysisJobs?.feedback);
+
+  // A shared-device round may still be being split into speeches when the
+  // review opens, an imported one still being transcribed and analysed, and
+  // the argument map or feedback still being generated
+  const sharedDevice = roomData?.room.recordingMode === "shared_device";
+  useRoomEvents(
+    sharedDevice || debateImport || mindmapJobActive || feedbackJobActive ? roomData?.room.id : undefined
+  );
+
   const { data: speeches } = trpc.speech.getAll.useQuery(
     { roomId: roomData?.room.id || 0 },
     { enabled: !!roomData?.room.id }
   );
 
-  const { data: feedback, refetch: refetchFeedback } = trpc.feedback.get.useQuery(
+  const { data: transcriptData } = trpc.transcript.getAll.useQuery(
+    { roomId: roomData?.room.id || 0 },
+    { enabled: !!roomData?.room.id }
+  );
+  const translation = useTranscriptTranslation(roomData?.room.id, transcriptData?.segments ?? []);
+
+  const { data: feedback } = trpc.feedback.get.useQuery(
     { roomId: roomData?.room.id || 0 },
     { enabled: !!roomData?.room.id }
   );
 
-  const { data: argumentNodes, refetch: refetchNodes } = trpc.analysis.getArgumentNodes.useQuery(
+  const { data: argumentNodes } = trpc.analysis.getArgumentNodes.useQuery(
     { roomId: roomData?.room.id || 0 },
     { enabled: !!roomData?.room.id }
   );
 
+  const { data: prepNotes } = trpc.prep.review.useQuery(
+    { roomId: roomData?.room.id || 0 },
+    { enabled: roomData?.room.status === "completed" }
+  );
+
+  // Both run in the background; the room's events bring their progress and results
+  const utils = trpc.useUtils();
   const generateFeedback = trpc.feedback.generate.useMutation({
     onSuccess: () => {
-      toast.success("Feedback generated!");
-      refetchFeedback();
+      toast.success("Feedback is being generated");
+      utils.analysis.jobs.invalidate();
     },
     onError: (error) => {
       toast.error(error.message || "Failed to generate feedback");
@@ -63,8 +114,8 @@ export default function Review() {
 
   const generateMindmap = trpc.analysis.generateMindmap.useMutation({
     onSuccess: () => {
-      toast.success("Argument mindmap generated!");
-      refetchNodes();
+      toast.success("Argument mindmap is being generated");
+      utils.analysis.jobs.invalidate();
     },
     onError: (error) => {
       toast.error(error.message || "Failed to generate mindmap");
@@ -75,9 +126,6 @@ export default function Review() {
   const teamFeedback = feedback?.filter(f => f.feedbackType === "team") || [];
   const individualFeedback = feedback?.filter(f => f.feedbackType === "individual") || [];
 
-  const govArguments = argumentNodes?.filter(n => n.team === "government") || [];
-  const oppArguments = argumentNodes?.filter(n => n.team === "opposition") || [];
-
   if (authLoading || isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
@@ -91,7 +139,7 @@ export default function Review() {
     return null;
   }
 
-  const { room, participants, motion } = roomData;
+  const { room, participants, motion, format } = roomData;
 
   const handleGenerateFeedback = () => {
     if (room.id) {
@@ -105,17 +153,27 @@ export default function Review() {
     }
   };
 
-  const getRoleLabel = (role: string) => {
-    const labels: Record<string, string> = {
-      prime_minister: "Prime Minister",
-      deputy_prime_minister: "Deputy Prime Minister",
-      government_whip: "Government Whip",
-      leader_of_opposition: "Leader of Opposition",
-      deputy_leader_of_opposition: "Deputy Leader of Opposition",
-      opposition_whip: "Opposition Whip",
-    };
-    return labels[role] || role;
+  // Speakers correct their own lines (a POI belongs to whoever made it); the creator corrects any
+  const myParticipant = participants.find(p => p.userId === user.id);
+  const canCorrect = (segment: { speechId: number; poiId: number | null; speakerRole: string }) => {
+    if (room.creatorId === user.id) return true;
+    if (!myParticipant) return false;
+    if (segment.poiId !== null) return segment.speakerRole === (myParticipant.speakerRole ?? myParticipant.team);
+    return speeches?.find(s => s.id === segment.speechId)?.participantId === myParticipant.id;
+  };
+
+  // Corrections made after the argument map or feedback was generated
+  const lastCorrection = Math.max(0, ...(transcriptData?.segments ?? []).map(s => s.editedAt ? new Date(s.editedAt).getTime() : 0));
+  const mindmapOutdated = !!argumentNodes?.length && new Date(argumentNodes[0].createdAt).getTime() < lastCorrection;
+  const feedbackOutdated = !!overallFeedback && new Date(overallFeedback.createdAt).getTime() < lastCorrection;
+
+  const getRoleLabel = (role: string | null) => getFormatRoleLabel(format, role);
+  const getTeam = (teamId?: string | null) => format.teams.find(t => t.id === teamId);
+  const getFormatSpeakerRole = (slotRole: string) => {
+    const slot = format.speakingOrder.find(s => s.role === slotRole);
+    return slot ? getSlotSpeakerRole(slot) : slotRole;
   };
+  const isProposition = (teamId?: string | null) => getTeam(teamId)?.side === "proposition";
 
   return (
     <div className="min-h-screen bg-background">
@@ -154,30 +212,45 @@ export default function Review() {
           <TabsList className="mb-6">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="feedback">Feedback</TabsTrigger>
+            <TabsTrigger value="scores">Scores</TabsTrigger>
+            <TabsTrigger value="delivery">Delivery</TabsTrigger>
+            <TabsTrigger value="ballots">Ballots</TabsTrigger>
             <TabsTrigger value="mindmap">Argument Map</TabsTrigger>
             <TabsTrigger value="transcript">Transcript</TabsTrigger>
+            <TabsTrigger value="prep">Prep</TabsTrigger>
           </TabsList>
 
           {/* Overview Tab */}
           <TabsContent value="overview" className="space-y-6">
+            {sharedDevice && <RoundRecorder roomId={room.id} canRecord={false} />}
+            {debateImport && <ImportProgress roomId={room.id} />}
+            <AnalysisJobProgress
+              roomId={room.id}
+              kind="feedback"
+              onRetry={handleGenerateFeedback}
+              isRetrying={generateFeedback.isPending}
+            />
+
             {/* Winner Card */}
             {overallFeedback?.suggestedWinner && (
               <Card className={`border-2 ${
-                overallFeedback.suggestedWinner === "government" 
+                isProposition(overallFeedback.suggestedWinner) 
                   ? "border-blue-500 bg-blue-500/5" 
                   : "border-red-500 bg-red-500/5"
               }`}>
                 <CardContent className="pt-6">
                   <div className="flex items-center gap-4">
                     <Trophy className={`w-12 h-12 ${
-                      overallFeedback.suggestedWinner === "government" 
+                      isProposition(overallFeedback.suggestedWinner) 
                         ? "text-blue-500" 
                         : "text-red-500"
                     }`} />
                     <div>
-                      <p className="text-sm text-muted-foreground">Suggested Winner</p>
+                      <p className="text-sm text-muted-foreground">
+                        {format.resultType === "ranking" ? "Ranked 1st" : "Suggested Winner"}
+                      </p>
                       <h2 className="text-2xl font-bold capitalize">
-                        {overallFeedback.suggestedWinner}
+                        {getTeam(overallFeedback.suggestedWinner)?.shortLabel || overallFeedback.suggestedWinner}
                       </h2>
                       <p className="text-sm mt-1">{overallFeedback.winningReason}</p>
                     </div>
@@ -186,6 +259,38 @@ export default function Review() {
               </Card>
             )}
 
+            {/* Team Ranking (ranking formats such as British Parliamentary) */}
+            {overallFeedback?.teamRankings && overallFeedback.teamRankings.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Trophy className="w-5 h-5" />
+                    Team Ranking
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-3">
+                    {overallFeedback.teamRankings.map(entry => (
+                      <div
+                        key={entry.team}
+                        className={`flex items-start gap-4 p-3 rounded-lg border border-l-4 ${
+                          isProposition(entry.team) ? "border-l-blue-500" : "border-l-red-500"
+                        }`}
+                      >
+                        <span className="text-2xl font-bold w-12 shrink-0">{formatRank(entry.rank)}</span>
+                        <div>
+                          <p className="font-medium">{getTeam(entry.team)?.label || entry.team}</p>
+                          {entry.reason && (
+                            <p className="text-sm text-muted-foreground mt-1">{entry.reason}</p>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Overall Analysis */}
             {overallFeedback?.overallAnalysis ? (
               <Card>
@@ -209,9 +314,9 @@ export default function Review() {
                   </p>
                   <Button 
                     onClick={handleGenerateFeedback}
-                    disabled={generateFeedback.isPending}
+                    disabled={generateFeedback.isPending || feedbackJobActive}
                   >
-                    {generateFeedback.isPending ? (
+                    {generateFeedback.isPending || feedbackJobActive ? (
                       <>
                         <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                         Generating...
@@ -226,66 +331,77 @@ export default function Review() {
 
             {/* Team Stats */}
             <div className="grid md:grid-cols-2 gap-6">
-              {/* Government */}
-              <Card className="border-l-4 border-l-blue-500">
-                <CardHeader>
-                  <CardTitle className="text-blue-600">Government</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-3">
-                    {participants
-                      .filter(p => p.team === "government")
-                      .map(p => (
-                        <div key={p.id} className="flex items-center justify-between">
-                          <div>
-                            <p className="font-medium">{p.user?.name || "Unknown"}</p>
-                            <p className="text-xs text-muted-foreground">
-                              {getRoleLabel(p.speakerRole)}
-                            </p>
-                          </div>
-                        </div>
-                      ))}
-                  </div>
-                </CardContent>
-              </Card>
-
-              {/* Opposition */}
-              <Card className="border-l-4 border-l-red-500">
-                <CardHeader>
-                  <CardTitle className="text-red-600">Opposition</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-3">
-                    {participants
-                      .filter(p => p.team === "opposition")
-                      .map(p => (
-                        <div key={p.id} className="flex items-center justify-between">
-                          <div>
-                            <p className="font-medium">{p.user?.name || "Unknown"}</p>
-                            <p className="text-xs text-muted-foreground">
-                              {getRoleLabel(p.speakerRole)}
-                            </p>
+              {format.teams.map(team => (
+                <Card key={team.id} className={`border-l-4 ${
+                  team.side === "proposition" ? "border-l-blue-500" : "border-l-red-500"
+                }`}>
+                  <CardHeader>
+                    <CardTitle className={team.side === "proposition" ? "text-blue-600" : "text-red-600"}>
+                      {team.shortLabel}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-3">
+                      {participants
+                        .filter(p => isDebater(p) && p.team === team.id)
+                        .map(p => (
+                          <div key={p.id} className="flex items-center justify-between">
+                            <div>
+                              <p className="font-medium">{p.user?.name || "Unknown"}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {getRoleLabel(p.speakerRole)}
+                              </p>
+                            </div>
                           </div>
-                        </div>
-                      ))}
-                  </div>
-                </CardContent>
-              </Card>
+                        ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
             </div>
+
+            <RuleViolations roomId={room.id} format={format} participants={participants} summary />
+          </TabsContent>
+
+          {/* Scores Tab */}
+          <TabsContent value="scores">
+            <SpeechScores roomId={room.id} format={format} />
+          </TabsContent>
+
+          {/* Delivery Tab */}
+          <TabsContent value="delivery">
+            <DeliveryAnalytics roomId={room.id} format={format} />
+          </TabsContent>
+
+          {/* Ballots Tab */}
+          <TabsContent value="ballots">
+            <BallotsPanel
+              roomId={room.id}
+              format={format}
+              participants={participants}
+              aiOpponent={room.aiOpponent}
+              userId={user.id}
+            />
           </TabsContent>
 
           {/* Feedback Tab */}
           <TabsContent value="feedback" className="space-y-6">
+            <AnalysisJobProgress
+              roomId={room.id}
+              kind="feedback"
+              onRetry={handleGenerateFeedback}
+              isRetrying={generateFeedback.isPending}
+            />
             {feedback && feedback.length > 0 ? (
               <>
                 {/* Team Feedback */}
                 <div className="grid md:grid-cols-2 gap-6">
                   {teamFeedback.map(tf => (
                     <Card key={tf.id} className={`border-l-4 ${
-                      tf.team === "government" ? "border-l-blue-500" : "border-l-red-500"
+                      isProposition(tf.team) ? "border-l-blue-500" : "border-l-red-500"
                     }`}>
                       <CardHeader>
-                        <CardTitle className="capitalize">{tf.team} Team Feedback</CardTitle>
+                        <CardTitle className="capitalize">{getTeam(tf.team)?.shortLabel || tf.team} Team Feedback</CardTitle>
                       </CardHeader>
                       <CardContent className="space-y-4">
                         {tf.strongestArguments && (tf.strongestArguments as string[]).length > 0 && (
@@ -352,14 +468,18 @@ export default function Review() {
                     <div className="space-y-6">
                       {individualFeedback.map(inf => {
                         const participant = participants.find(p => p.id === inf.participantId);
+                        // Guest speakers in imported rounds have feedback by role, not by participant
+                        const speakerRole = participant?.speakerRole ?? inf.speakerRole;
+                        const team = participant?.team ?? format.speakerRoles.find(r => r.id === speakerRole)?.team;
+                        const guestName = speeches?.find(s => s.speakerName && getFormatSpeakerRole(s.speakerRole) === speakerRole)?.speakerName;
                         return (
                           <div key={inf.id} className="border-b pb-4 last:border-0">
                             <div className="flex items-center gap-2 mb-3">
-                              <Badge variant={participant?.team === "government" ? "default" : "destructive"}>
-                                {participant?.team}
+                              <Badge variant={isProposition(team) ? "default" : "destructive"}>
+                                {getTeam(team)?.shortLabel || team}
                               </Badge>
                               <span className="font-medium">
-                                {participant?.user?.name} - {getRoleLabel(participant?.speakerRole || "")}
+                                {participant?.user?.name ?? guestName} - {getRoleLabel(speakerRole || "")}
                               </span>
                             </div>
                             
@@ -411,9 +531,9 @@ export default function Review() {
                   </p>
                   <Button 
                     onClick={handleGenerateFeedback}
-                    disabled={generateFeedback.isPending}
+                    disabled={generateFeedback.isPending || feedbackJobActive}
                   >
-                    {generateFeedback.isPending ? (
+                    {generateFeedback.isPending || feedbackJobActive ? (
                       <>
                         <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                         Generating...
@@ -429,105 +549,73 @@ export default function Review() {
 
           {/* Mindmap Tab */}
           <TabsContent value="mindmap" className="space-y-6">
+            <AnalysisJobProgress
+              roomId={room.id}
+              kind="mindmap"
+              onRetry={handleGenerateMindmap}
+              isRetrying={generateMindmap.isPending}
+            />
             {argumentNodes && argumentNodes.length > 0 ? (
               <div className="grid md:grid-cols-2 gap-6">
-                {/* Government Arguments */}
-                <Card className="border-l-4 border-l-blue-500">
-                  <CardHeader>
-                    <CardTitle className="text-blue-600 flex items-center gap-2">
-                      <GitBranch className="w-5 h-5" />
-                      Government Arguments
-                    </CardTitle>
-                    <CardDescription>{govArguments.length} points extracted</CardDescription>
-                  </CardHeader>
-                  <CardContent>
-                    <ScrollArea className="h-[400px]">
-                      <div className="space-y-3">
-                        {govArguments.map(node => (
-                          <div 
-                            key={node.id} 
-                            className="p-3 rounded-lg border bg-card mindmap-node"
-                          >
-                            <div className="flex items-start justify-between gap-2 mb-2">
-                              <Badge variant="outline" className="text-xs">
-                                {node.nodeType}
-                              </Badge>
-                              {node.qualityScore && (
-                                <div className="flex items-center gap-1">
-                                  <Star className="w-3 h-3 text-yellow-500" />
-                                  <span className="text-xs font-medium">{node.qualityScore}/10</span>
-                                </div>
-                              )}
-                            </div>
-                            <p className="text-sm font-medium">{node.content}</p>
-                            {node.qualityExplanation && (
-                              <p className="text-xs text-muted-foreground mt-2">
-                                {node.qualityExplanation}
-                              </p>
-                            )}
-                            {node.wasAnswered !== null && (
-                              <Badge 
-                                variant={node.wasAnswered ? "secondary" : "destructive"}
-                                className="mt-2 text-xs"
+                {format.teams.map(team => {
+                  const teamArguments = argumentNodes.filter(n => n.team === team.id);
+                  const isProp = team.side === "proposition";
+                  return (
+                    <Card key={team.id} className={`border-l-4 ${isProp ? "border-l-blue-500" : "border-l-red-500"}`}>
+                      <CardHeader>
+                        <CardTitle className={`${isProp ? "text-blue-600" : "text-red-600"} flex items-center gap-2`}>
+                          <GitBranch className="w-5 h-5" />
+                          {team.shortLabel} Arguments
+                        </CardTitle>
+                        <CardDescription>{teamArguments.length} points extracted</CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <ScrollArea className="h-[400px]">
+                          <div className="space-y-3">
+                            {teamArguments.map(node => (
+                              <div 
+                                key={node.id} 
+                                className="p-3 rounded-lg border bg-card mindmap-node"
                               >
-                                {node.wasAnswered ? "Answered" : "Unanswered"}
-                              </Badge>
-                            )}
-                          </div>
-                        ))}
-                      </div>
-                    </ScrollArea>
-                  </CardContent>
-                </Card>
-
-                {/* Opposition Arguments */}
-                <Card className="border-l-4 border-l-red-500">
-                  <CardHeader>
-                    <CardTitle className="text-red-600 flex items-center gap-2">
-                      <GitBranch className="w-5 h-5" />
-                      Opposition Arguments
-                    </CardTitle>
-                    <CardDescription>{oppArguments.length} points extracted</CardDescription>
-                  </CardHeader>
-                  <CardContent>
-                    <ScrollArea className="h-[400px]">
-                      <div className="space-y-3">
-                        {oppArguments.map(node => (
-                          <div 
-                            key={node.id} 
-                            className="p-3 rounded-lg border bg-card mindmap-node"
-                          >
-                            <div className="flex items-start justify-between gap-2 mb-2">
-                              <Badge variant="outline" className="text-xs">
-                                {node.nodeType}
-                              </Badge>
-                              {node.qualityScore && (
-                                <div className="flex items-center gap-1">
-                                  <Star className="w-3 h-3 text-yellow-500" />
-                                  <span className="text-xs font-medium">{node.qualityScore}/10</span>
+                                <div className="flex items-start justify-between gap-2 mb-2">
+                                  <Badge variant="outline" className="text-xs">
+                                    {node.nodeType}
+                                  </Badge>
+                                  {node.qualityScore && (
+                                    <div className="flex items-center gap-1">
+                                      <Star className="w-3 h-3 text-yellow-500" />
+                                      <span className="text-xs font-medium">{node.qualityScore}/10</span>
+                                    </div>
+                                  )}
                                 </div>
-                              )}
-                            </div>
-                            <p className="text-sm font-medium">{node.content}</p>
-                            {node.qualityExplanation && (
-                              <p className="text-xs text-muted-foreground mt-2">
-                                {node.qualityExplanation}
-                              </p>
-                            )}
-                            {node.wasAnswered !== null && (
-                              <Badge 
-                                variant={node.wasAnswered ? "secondary" : "destructive"}
-                                className="mt-2 text-xs"
-                              >
-                                {node.wasAnswered ? "Answered" : "Unanswered"}
-                              </Badge>
-                            )}
+                                <p className="text-sm font-medium">{node.content}</p>
+                                {node.speechId !== null && node.transcriptTimestamp !== null && (
+                                  <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
+                                    <Clock className="w-3 h-3" />
+                                    {getRoleLabel(speeches?.find(s => s.id === node.speechId)?.speakerRole ?? null)}, {formatTime(node.transcriptTimestamp)}
+                                  </p>
+                                )}
+                                {node.qualityExplanation && (
+                                  <p className="text-xs text-muted-foreground mt-2">
+                                    {node.qualityExplanation}
+                                  </p>
+                                )}
+                                {node.wasAnswered !== null && (
+                                  <Badge 
+                                    variant={node.wasAnswered ? "secondary" : "destructive"}
+                                    className="mt-2 text-xs"
+                                  >
+                                    {node.wasAnswered ? "Answered" : "Unanswered"}
+                                  </Badge>
+                                )}
+                              </div>
+                            ))}
                           </div>
-                        ))}
-                      </div>
-                    </ScrollArea>
-                  </CardContent>
-                </Card>
+                        </ScrollArea>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
               </div>
             ) : (
               <Card>
@@ -538,9 +626,9 @@ export default function Review() {
                   </p>
                   <Button 
                     onClick={handleGenerateMindmap}
-                    disabled={generateMindmap.isPending || !speeches || speeches.length === 0}
+                    disabled={generateMindmap.isPending || mindmapJobActive || !speeches || speeches.length === 0}
                   >
-                    {generateMindmap.isPending ? (
+                    {generateMindmap.isPending || mindmapJobActive ? (
                       <>
                         <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                         Analyzing...
@@ -559,38 +647,71 @@ export default function Review() {
             {speeches && speeches.length > 0 ? (
               <Card>
                 <CardHeader>
-                  <CardTitle>Full Debate Transcript</CardTitle>
-                  <CardDescription>
-                    {speeches.length} speeches recorded
-                  </CardDescription>
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="space-y-1.5">
+                      <CardTitle>Full Debate Transcript</CardTitle>
+                      <CardDescription>
+                        {speeches.length} speeches recorded
+                      </CardDescription>
+                    </div>
+                    <TranslateSelect
+                      language={translation.language}
+                      onChange={translation.setLanguage}
+                      isTranslating={translation.isTranslating}
+                    />
+                  </div>
+                  {(mindmapOutdated || feedbackOutdated) && (
+                    <div className="flex flex-wrap items-center gap-2 rounded border border-yellow-500 p-3 text-sm">
+                      <span className="mr-auto">The transcript was corrected after the analysis was generated.</span>
+                      {mindmapOutdated && (
+                        <Button size="sm" variant="outline" onClick={handleGenerateMindmap} disabled={generateMindmap.isPending || mindmapJobActive}>
+                          {generateMindmap.isPending || mindmapJobActive ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+                          Regenerate Argument Map
+                        </Button>
+                      )}
+                      {feedbackOutdated && (
+                        <Button size="sm" variant="outline" onClick={handleGenerateFeedback} disabled={generateFeedback.isPending || feedbackJobActive}>
+                          {generateFeedback.isPending || feedbackJobActive ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+                          Regenerate Feedback
+                        </Button>
+                      )}
+                    </div>
+                  )}
                 </CardHeader>
                 <CardContent>
                   <ScrollArea className="h-[500px]">
                     <div className="space-y-6">
                       {speeches.map((speech, index) => {
                         const participant = participants.find(p => p.id === speech.participantId);
+                        // AI opponent speeches have no participant; their slot gives the team
+                        const team = participant?.team ?? format.speakingOrder.find(s => s.role === speech.speakerRole)?.team;
                         return (
                           <div key={speech.id} className="border-b pb-4 last:border-0">
                             <div className="flex items-center gap-2 mb-2">
-                              <Badge variant={participant?.team === "government" ? "default" : "destructive"}>
-                                {participant?.team}
+                              <Badge variant={isProposition(team) ? "default" : "destructive"}>
+                                {getTeam(team)?.shortLabel || team}
                               </Badge>
                               <span className="font-medium">
                                 {getRoleLabel(speech.speakerRole)}
                               </span>
+                              {speech.speakerName ? (
+                                <span className="text-sm text-muted-foreground">{speech.speakerName}</span>
+                              ) : speech.participantId === null && (
+                                <Badge variant="outline">{AI_SPEAKER_NAME}</Badge>
+                              )}
                               <span className="text-xs text-muted-foreground">
                                 ({speech.duration ? `${Math.floor(speech.duration / 60)}:${(speech.duration % 60).toString().padStart(2, '0')}` : 'N/A'})
                               </span>
                             </div>
-                            {speech.transcript ? (
-                              <p className="text-sm text-muted-foreground whitespace-pre-wrap">
-                                {speech.transcript}
-                              </p>
-                            ) : (
-                              <p className="text-sm text-muted-foreground italic">
-                                No transcript available
-                              </p>
-                            )}
+                            <SpeechPlayback
+                              audioUrl={speech.audioUrl}
+                              audioOffset={speech.audioOffset}
+                              segments={transcriptData?.segments.filter(s => s.speechId === speech.id) ?? []}
+                              transcript={speech.transcript}
+                              canEdit={(segment) => !!speech.endedAt && canCorrect(segment)}
+                              onEdit={setCorrecting}
+                              translations={translation.language ? translation.translations : undefined}
+                            />
                           </div>
                         );
                       })}
@@ -609,8 +730,60 @@ export default function Review() {
               </Card>
             )}
           </TabsContent>
+
+          {/* Prep Tab */}
+          <TabsContent value="prep" className="space-y-6">
+            {prepNotes && prepNotes.length > 0 ? (
+              <div className="grid md:grid-cols-2 gap-6">
+                {format.teams
+                  .filter(team => prepNotes.some(n => n.team === team.id))
+                  .map(team => (
+                    <Card key={team.id}>
+                      <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                          <NotebookPen className="w-5 h-5" />
+                          {team.shortLabel} Prep
+                        </CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <ScrollArea className="h-[400px]">
+                          <div className="space-y-3 pr-3">
+                            {prepNotes.filter(n => n.team === team.id).map(note => (
+                              <div key={note.id} className="border-l-2 border-primary pl-3">
+                                <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
+                                  {note.source === "ai" ? (
+                                    <Badge variant="outline" className="gap-1 text-[10px]">
+                                      <Bot className="w-3 h-3" /> AI assistant
+                                    </Badge>
+                                  ) : (
+                                    <span className="font-medium">
+                                      {participants.find(p => p.userId === note.userId)?.user?.name || "Teammate"}
+                                    </span>
+                                  )}
+                                </div>
+                                <p className="text-sm whitespace-pre-wrap">{note.content}</p>
+                              </div>
+                            ))}
+                          </div>
+                        </ScrollArea>
+                      </CardContent>
+                    </Card>
+                  ))}
+              </div>
+            ) : (
+              <Card>
+                <CardContent className="pt-6 text-center">
+                  <NotebookPen className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+                  <p className="text-muted-foreground">
+                    No prep notes were taken for this debate.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
         </Tabs>
       </main>
+      <TranscriptCorrection roomId={room.id} segment={correcting} onClose={() => setCorrecting(null)} />
     </div>
   );
 }
@@ -1,11 +1,28 @@
 import { useAuth } from "@/_core/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
 import { useState, useEffect } from "react";
 import { useLocation, Link, useParams } from "wouter";
+import { useRoomEvents } from "@/hooks/useRoomEvents";
+import { PrepBoard } from "@/components/PrepBoard";
+import {
+  ADJUDICATOR_POSITIONS,
+  AI_SPEAKER_NAME,
+  formatTime,
+  getParticipantLabel,
+  getPrepRemaining,
+  getPrepWindowEnd,
+  getTeamRoles,
+  isDebater,
+  PARTICIPANT_ROLES,
+  PREP_TIME_LIMITS,
+  type AdjudicatorPosition,
+  type ParticipantRole,
+} from "@shared/debate";
 import { 
   ArrowLeft, 
   Copy, 
@@ -13,21 +30,16 @@ import {
   Play,
   LogOut,
   Crown,
-  Loader2
+  Loader2,
+  Eye,
+  Bot,
+  Timer
 } from "lucide-react";
 
-const SPEAKER_ROLES = {
-  government: [
-    { id: "prime_minister", label: "Prime Minister", order: 1 },
-    { id: "deputy_prime_minister", label: "Deputy Prime Minister", order: 3 },
-    { id: "government_whip", label: "Government Whip", order: 5 },
-  ],
-  opposition: [
-    { id: "leader_of_opposition", label: "Leader of Opposition", order: 2 },
-    { id: "deputy_leader_of_opposition", label: "Deputy Leader of Opposition", order: 4 },
-    { id: "opposition_whip", label: "Opposition Whip", order: 6 },
-  ],
-};
+// Select value standing in for a null speakerRole (non-speaking reserve)
+const RESERVE_ROLE = "__reserve__";
+// Select value for a coach who isn't attached to a team
+const NO_TEAM = "__none__";
 
 export default function Room() {
   const params = useParams<{ code: string }>();
@@ -36,19 +48,23 @@ export default function Room() {
   const { user, loading: authLoading } = useAuth();
   const [, navigate] = useLocation();
   const [copied, setCopied] = useState(false);
-  const [selectedTeam, setSelectedTeam] = useState<"government" | "opposition" | null>(null);
+  const [selectedTeam, setSelectedTeam] = useState<string | null>(null);
   const [selectedRole, setSelectedRole] = useState<string | null>(null);
+  const [joinAs, setJoinAs] = useState<ParticipantRole>("debater");
+  const [adjudicatorPosition, setAdjudicatorPosition] = useState<AdjudicatorPosition>("panelist");
+  const [now, setNow] = useState(() => Date.now());
+  const [prepMinutes, setPrepMinutes] = useState("");
 
   const utils = trpc.useUtils();
 
   const { data: roomData, isLoading, error } = trpc.room.get.useQuery(
     { roomCode },
-    { 
-      enabled: !!roomCode,
-      refetchInterval: 3000,
-    }
+    { enabled: !!roomCode }
   );
 
+  // Joins, readiness, motion and start are pushed to everyone in the room
+  useRoomEvents(roomData?.room.id);
+
   const joinRoom = trpc.room.join.useMutation({
     onSuccess: () => {
       toast.success("Joined the room!");
@@ -90,19 +106,37 @@ export default function Room() {
     },
   });
 
+  const prepControlOptions = {
+    onSuccess: () => utils.room.get.invalidate({ roomCode }),
+    onError: (error: { message: string }) => {
+      toast.error(error.message || "Failed to update prep");
+    },
+  };
+  const startPrep = trpc.room.startPrep.useMutation(prepControlOptions);
+  const endPrep = trpc.room.endPrep.useMutation(prepControlOptions);
+
   const currentParticipant = roomData?.participants.find(p => p.userId === user?.id);
   const isCreator = roomData?.room.creatorId === user?.id;
-  const allReady = roomData?.participants && roomData.participants.length >= 1 && 
-    roomData.participants.every(p => p.isReady);
+  // Only debaters ready up; adjudicators, spectators and coaches don't hold up the start
+  const debaters = roomData?.participants.filter(isDebater) ?? [];
+  const allReady = debaters.length >= 1 && debaters.every(p => p.isReady);
+
+  // Tick once a second so the prep countdown stays current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
 
+  // Members follow the round into the debate; others can still join to watch it
+  const isMember = !!currentParticipant;
   useEffect(() => {
-    if (roomData?.room.status === "in_progress") {
+    if (roomData?.room.status === "in_progress" && isMember) {
       navigate(`/debate/${roomCode}`);
     }
     if (roomData?.room.status === "completed") {
       navigate(`/review/${roomCode}`);
     }
-  }, [roomData?.room.status, roomCode, navigate]);
+  }, [roomData?.room.status, isMember, roomCode, navigate]);
 
   if (authLoading || isLoading) {
     return (
@@ -148,7 +182,7 @@ export default function Room() {
     );
   }
 
-  const { room, participants, motion } = roomData;
+  const { room, participants, motion, format } = roomData;
 
   const handleCopyCode = () => {
     navigator.clipboard.writeText(roomCode);
@@ -158,6 +192,15 @@ export default function Room() {
   };
 
   const handleJoin = () => {
+    if (joinAs !== "debater") {
+      joinRoom.mutate({
+        roomCode,
+        role: joinAs,
+        team: joinAs === "coach" && selectedTeam && selectedTeam !== NO_TEAM ? selectedTeam : null,
+        adjudicatorPosition: joinAs === "adjudicator" ? adjudicatorPosition : undefined,
+      });
+      return;
+    }
     if (!selectedTeam || !selectedRole) {
       toast.error("Please select a team and role");
       return;
@@ -165,7 +208,7 @@ export default function Room() {
     joinRoom.mutate({
       roomCode,
       team: selectedTeam,
-      speakerRole: selectedRole as "prime_minister" | "deputy_prime_minister" | "government_whip" | "leader_of_opposition" | "deputy_leader_of_opposition" | "opposition_whip",
+      speakerRole: selectedRole === RESERVE_ROLE ? null : selectedRole,
     });
   };
 
@@ -187,18 +230,40 @@ export default function Room() {
     }
   };
 
-  const getAvailableRoles = (team: "government" | "opposition") => {
+  const getAvailableRoles = (team: string) => {
     const takenRoles = participants
       .filter(p => p.team === team)
       .map(p => p.speakerRole);
-    return SPEAKER_ROLES[team].filter(role => !takenRoles.includes(role.id as typeof takenRoles[number]));
+    return getTeamRoles(format, team).filter(role => !takenRoles.includes(role.id));
   };
 
-  const getRoleLabel = (roleId: string) => {
-    const allRoles = [...SPEAKER_ROLES.government, ...SPEAKER_ROLES.opposition];
-    return allRoles.find(r => r.id === roleId)?.label || roleId;
+  const getReserves = (team: string) =>
+    participants.filter(p => isDebater(p) && p.team === team && p.speakerRole === null);
+
+  const nonDebaters = participants.filter(p => !isDebater(p));
+  const hasChair = participants.some(p => p.adjudicatorPosition === "chair");
+  // Once the round is running only non-speaking roles can join
+  const joinRoles = PARTICIPANT_ROLES.filter(r => room.status === "waiting" || r.id !== "debater");
+
+  const canJoinAsReserve = (team: string) =>
+    getReserves(team).length < format.reservesPerTeam;
+
+  const prepEndsAt = motion ? getPrepWindowEnd(format, motion) : null;
+  const motionPrepRemaining = prepEndsAt ? Math.max(0, Math.ceil((prepEndsAt.getTime() - now) / 1000)) : 0;
+  // The live prep phase runs alongside any window the format enforces since the motion's release
+  const isPrepPhase = room.currentPhase === "prep";
+  const prepRemaining = Math.max(motionPrepRemaining, isPrepPhase ? getPrepRemaining(room, now) : 0);
+  const hasPrepBoard = isPrepPhase && !!currentParticipant?.team &&
+    (currentParticipant.role === "debater" || currentParticipant.role === "coach");
+
+  const handleStartPrep = () => {
+    const minutes = Number(prepMinutes);
+    startPrep.mutate({ roomId: room.id, minutes: prepMinutes && minutes > 0 ? minutes : undefined });
   };
 
+  const getTeamClass = (team: string | null) =>
+    format.teams.find(t => t.id === team)?.side === "opposition" ? "team-opp" : "team-gov";
+
   return (
     <div className="min-h-screen bg-background text-foreground">
       {/* Navigation */}
@@ -232,6 +297,18 @@ export default function Room() {
           <h2 className="text-sm font-black uppercase tracking-widest text-muted-foreground mb-4">Motion</h2>
           {motion ? (
             <div className="space-y-4">
+              {(prepEndsAt || prepRemaining > 0) && (
+                <div className="flex flex-wrap items-center gap-2">
+                  {prepEndsAt && (
+                    <Badge className="brutalist-border uppercase font-bold">{motion.motionType}</Badge>
+                  )}
+                  {prepRemaining > 0 && (
+                    <Badge variant="outline" className="brutalist-border uppercase font-bold font-mono">
+                      Prep {formatTime(prepRemaining)}
+                    </Badge>
+                  )}
+                </div>
+              )}
               <p className="text-2xl md:text-3xl font-black uppercase">{motion.motion}</p>
               <p className="text-muted-foreground leading-relaxed">{motion.backgroundContext}</p>
               {motion.keyStakeholders && (
@@ -247,86 +324,66 @@ export default function Room() {
           )}
         </div>
 
-        <div className="grid lg:grid-cols-3 gap-8">
-          {/* Government Team */}
-          <div className="brutalist-border brutalist-shadow">
-            <div className="p-6 team-gov">
-              <h3 className="text-xl font-black uppercase tracking-tight">Government</h3>
-              <p className="text-sm opacity-80">{participants.filter(p => p.team === "government").length}/3 speakers</p>
-            </div>
-            <div className="p-6 space-y-4">
-              {SPEAKER_ROLES.government.map((role) => {
-                const participant = participants.find(
-                  p => p.team === "government" && p.speakerRole === role.id
-                );
-                return (
-                  <div
-                    key={role.id}
-                    className={`p-4 border-2 ${
-                      participant ? "border-foreground bg-muted/30" : "border-dashed border-muted-foreground/30"
-                    }`}
-                  >
-                    <p className="font-black uppercase text-sm">{role.label}</p>
-                    {participant ? (
-                      <div className="flex items-center justify-between mt-2">
-                        <div className="flex items-center gap-2">
-                          <span className="text-sm">{participant.user?.name || "Unknown"}</span>
-                          {participant.userId === room.creatorId && (
-                            <Crown className="w-4 h-4" />
-                          )}
-                        </div>
-                        <Badge className={`uppercase font-bold text-xs ${participant.isReady ? "team-gov" : ""}`}>
-                          {participant.isReady ? "Ready" : "Not Ready"}
-                        </Badge>
-                      </div>
-                    ) : (
-                      <p className="text-xs text-muted-foreground mt-1">Empty</p>
-                    )}
-                  </div>
-                );
-              })}
-            </div>
-          </div>
-
-          {/* Opposition Team */}
-          <div className="brutalist-border brutalist-shadow">
-            <div className="p-6 team-opp">
-              <h3 className="text-xl font-black uppercase tracking-tight">Opposition</h3>
-              <p className="text-sm opacity-80">{participants.filter(p => p.team === "opposition").length}/3 speakers</p>
-            </div>
-            <div className="p-6 space-y-4">
-              {SPEAKER_ROLES.opposition.map((role) => {
-                const participant = participants.find(
-                  p => p.team === "opposition" && p.speakerRole === role.id
-                );
-                return (
-                  <div
-                    key={role.id}
-                    className={`p-4 border-2 ${
-                      participant ? "border-foreground bg-muted/30" : "border-dashed border-muted-foreground/30"
-                    }`}
-                  >
-                    <p className="font-black uppercase text-sm">{role.label}</p>
-                    {participant ? (
-                      <div className="flex items-center justify-between mt-2">
-                        <div className="flex items-center gap-2">
-                          <span className="text-sm">{participant.user?.name || "Unknown"}</span>
-                          {participant.userId === room.creatorId && (
-                            <Crown className="w-4 h-4" />
-                          )}
+        <div className={`grid gap-8 ${format.teams.length > 2 ? "md:grid-cols-2 xl:grid-cols-3" : "lg:grid-cols-3"}`}>
+          {/* Teams */}
+          {format.teams.map((team) => (
+            <div key={team.id} className="brutalist-border brutalist-shadow">
+              <div className={`p-6 ${getTeamClass(team.id)}`}>
+                <h3 className="text-xl font-black uppercase tracking-tight">{team.shortLabel}</h3>
+                <p className="text-sm opacity-80">
+                  {participants.filter(p => isDebater(p) && p.team === team.id && p.speakerRole !== null).length}/{getTeamRoles(format, team.id).length} speakers
+                </p>
+              </div>
+              <div className="p-6 space-y-4">
+                {getTeamRoles(format, team.id).map((role) => {
+                  const participant = participants.find(
+                    p => p.team === team.id && p.speakerRole === role.id
+                  );
+                  return (
+                    <div
+                      key={role.id}
+                      className={`p-4 border-2 ${
+                        participant ? "border-foreground bg-muted/30" : "border-dashed border-muted-foreground/30"
+                      }`}
+                    >
+                      <p className="font-black uppercase text-sm">{role.label}</p>
+                      {participant ? (
+                        <div className="flex items-center justify-between mt-2">
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm">{participant.user?.name || "Unknown"}</span>
+                            {participant.userId === room.creatorId && (
+                              <Crown className="w-4 h-4" />
+                            )}
+                          </div>
+                          <Badge className={`uppercase font-bold text-xs ${participant.isReady ? getTeamClass(team.id) : ""}`}>
+                            {participant.isReady ? "Ready" : "Not Ready"}
+                          </Badge>
                         </div>
-                        <Badge className={`uppercase font-bold text-xs ${participant.isReady ? "team-opp" : ""}`}>
-                          {participant.isReady ? "Ready" : "Not Ready"}
-                        </Badge>
-                      </div>
-                    ) : (
-                      <p className="text-xs text-muted-foreground mt-1">Empty</p>
-                    )}
+                      ) : room.aiOpponent ? (
+                        <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
+                          <Bot className="w-3 h-3" />
+                          {AI_SPEAKER_NAME}
+                        </p>
+                      ) : (
+                        <p className="text-xs text-muted-foreground mt-1">Empty</p>
+                      )}
+                    </div>
+                  );
+                })}
+                {getReserves(team.id).map((participant) => (
+                  <div key={participant.id} className="p-4 border-2 border-dotted border-foreground/50">
+                    <p className="font-black uppercase text-sm">Reserve</p>
+                    <div className="flex items-center justify-between mt-2">
+                      <span className="text-sm">{participant.user?.name || "Unknown"}</span>
+                      <Badge className={`uppercase font-bold text-xs ${participant.isReady ? getTeamClass(team.id) : ""}`}>
+                        {participant.isReady ? "Ready" : "Not Ready"}
+                      </Badge>
+                    </div>
                   </div>
-                );
-              })}
+                ))}
+              </div>
             </div>
-          </div>
+          ))}
 
           {/* Actions Panel */}
           <div className="brutalist-border brutalist-shadow p-6">
@@ -335,25 +392,92 @@ export default function Room() {
             {!currentParticipant ? (
               <div className="space-y-6">
                 <div className="space-y-2">
-                  <label className="text-sm font-black uppercase">Select Team</label>
-                  <Select 
-                    value={selectedTeam || ""} 
+                  <label className="text-sm font-black uppercase">Join As</label>
+                  <Select
+                    value={joinRoles.some(r => r.id === joinAs) ? joinAs : ""}
                     onValueChange={(v) => {
-                      setSelectedTeam(v as "government" | "opposition");
+                      setJoinAs(v as ParticipantRole);
+                      setSelectedTeam(null);
                       setSelectedRole(null);
                     }}
                   >
                     <SelectTrigger className="brutalist-border h-14 font-bold">
-                      <SelectValue placeholder="Choose team" />
+                      <SelectValue placeholder="Choose how to join" />
                     </SelectTrigger>
                     <SelectContent className="brutalist-border">
-                      <SelectItem value="government" className="font-bold">Government</SelectItem>
-                      <SelectItem value="opposition" className="font-bold">Opposition</SelectItem>
+                      {joinRoles.map((role) => (
+                        <SelectItem key={role.id} value={role.id} className="font-bold">{role.label}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
+                  <p className="text-xs text-muted-foreground">
+                    {PARTICIPANT_ROLES.find(r => r.id === joinAs)?.description}
+                  </p>
                 </div>
 
-                {selectedTeam && (
+                {joinAs === "adjudicator" && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-black uppercase">Panel Position</label>
+                    <Select value={adjudicatorPosition} onValueChange={(v) => setAdjudicatorPosition(v as AdjudicatorPosition)}>
+                      <SelectTrigger className="brutalist-border h-14 font-bold">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="brutalist-border">
+                        {ADJUDICATOR_POSITIONS.map((position) => (
+                          <SelectItem
+                            key={position.id}
+                            value={position.id}
+                            disabled={position.id === "chair" && hasChair}
+                            className="font-medium"
+                          >
+                            {position.label}{position.id === "chair" && hasChair ? " (taken)" : ""}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {joinAs === "coach" && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-black uppercase">Coaching</label>
+                    <Select value={selectedTeam || NO_TEAM} onValueChange={setSelectedTeam}>
+                      <SelectTrigger className="brutalist-border h-14 font-bold">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="brutalist-border">
+                        <SelectItem value={NO_TEAM} className="font-bold">Both sides</SelectItem>
+                        {format.teams.map((team) => (
+                          <SelectItem key={team.id} value={team.id} className="font-bold">{team.shortLabel}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {joinAs === "debater" && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-black uppercase">Select Team</label>
+                    <Select 
+                      value={selectedTeam || ""} 
+                      onValueChange={(v) => {
+                        setSelectedTeam(v);
+                        setSelectedRole(null);
+                      }}
+                    >
+                      <SelectTrigger className="brutalist-border h-14 font-bold">
+                        <SelectValue placeholder="Choose team" />
+                      </SelectTrigger>
+                      <SelectContent className="brutalist-border">
+                        {format.teams.map((team) => (
+                          <SelectItem key={team.id} value={team.id} className="font-bold">{team.shortLabel}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {joinAs === "debater" && selectedTeam && (
                   <div className="space-y-2">
                     <label className="text-sm font-black uppercase">Select Role</label>
                     <Select value={selectedRole || ""} onValueChange={setSelectedRole}>
@@ -366,7 +490,12 @@ export default function Room() {
                             {role.label}
                           </SelectItem>
                         ))}
-                        {getAvailableRoles(selectedTeam).length === 0 && (
+                        {canJoinAsReserve(selectedTeam) && (
+                          <SelectItem value={RESERVE_ROLE} className="font-medium">
+                            Reserve (non-speaking)
+                          </SelectItem>
+                        )}
+                        {getAvailableRoles(selectedTeam).length === 0 && !canJoinAsReserve(selectedTeam) && (
                           <div className="p-3 text-sm text-muted-foreground">All roles taken</div>
                         )}
                       </SelectContent>
@@ -376,7 +505,11 @@ export default function Room() {
 
                 <Button 
                   onClick={handleJoin}
-                  disabled={!selectedTeam || !selectedRole || joinRoom.isPending}
+                  disabled={
+                    !joinRoles.some(r => r.id === joinAs) ||
+                    (joinAs === "debater" && (!selectedTeam || !selectedRole)) ||
+                    joinRoom.isPending
+                  }
                   className="w-full brutalist-border brutalist-shadow-hover uppercase font-black h-14"
                 >
                   {joinRoom.isPending ? (
@@ -391,21 +524,25 @@ export default function Room() {
                 <div className="brutalist-border p-4 bg-muted/30">
                   <p className="text-xs font-bold uppercase text-muted-foreground mb-1">Your Position</p>
                   <p className="font-black text-lg uppercase">
-                    {getRoleLabel(currentParticipant.speakerRole)}
+                    {getParticipantLabel(format, currentParticipant)}
                   </p>
-                  <Badge className={`mt-2 uppercase font-bold ${currentParticipant.team === "government" ? "team-gov" : "team-opp"}`}>
-                    {currentParticipant.team}
-                  </Badge>
+                  {currentParticipant.team && (
+                    <Badge className={`mt-2 uppercase font-bold ${getTeamClass(currentParticipant.team)}`}>
+                      {format.teams.find(t => t.id === currentParticipant.team)?.shortLabel || currentParticipant.team}
+                    </Badge>
+                  )}
                 </div>
 
-                <Button
-                  onClick={handleToggleReady}
-                  variant={currentParticipant.isReady ? "outline" : "default"}
-                  className="w-full brutalist-border uppercase font-black h-14"
-                  disabled={setReady.isPending}
-                >
-                  {currentParticipant.isReady ? "Cancel Ready" : "Ready Up"}
-                </Button>
+                {isDebater(currentParticipant) && (
+                  <Button
+                    onClick={handleToggleReady}
+                    variant={currentParticipant.isReady ? "outline" : "default"}
+                    className="w-full brutalist-border uppercase font-black h-14"
+                    disabled={setReady.isPending}
+                  >
+                    {currentParticipant.isReady ? "Cancel Ready" : "Ready Up"}
+                  </Button>
+                )}
 
                 <Button
                   onClick={handleLeave}
@@ -417,10 +554,51 @@ export default function Room() {
                   Leave Room
                 </Button>
 
+                {isCreator && motion && room.currentPhase === "setup" && (
+                  <div className="flex gap-2">
+                    <Input
+                      type="number"
+                      min={PREP_TIME_LIMITS.minMinutes}
+                      max={PREP_TIME_LIMITS.maxMinutes}
+                      value={prepMinutes}
+                      onChange={(e) => setPrepMinutes(e.target.value)}
+                      placeholder={`${Math.round(format.prepTime / 60)} min`}
+                      className="brutalist-border h-14 w-28 font-bold"
+                      aria-label="Prep minutes"
+                    />
+                    <Button
+                      onClick={handleStartPrep}
+                      variant="outline"
+                      disabled={startPrep.isPending}
+                      className="flex-1 brutalist-border uppercase font-black h-14"
+                    >
+                      {startPrep.isPending ? (
+                        <Loader2 className="w-5 h-5 animate-spin" />
+                      ) : (
+                        <>
+                          <Timer className="w-5 h-5 mr-2" />
+                          Start Prep
+                        </>
+                      )}
+                    </Button>
+                  </div>
+                )}
+
+                {isCreator && isPrepPhase && getPrepRemaining(room, now) > 0 && (
+                  <Button
+                    onClick={() => endPrep.mutate({ roomId: room.id })}
+                    variant="outline"
+                    disabled={endPrep.isPending}
+                    className="w-full brutalist-border uppercase font-black h-14"
+                  >
+                    End Prep Early
+                  </Button>
+                )}
+
                 {isCreator && (
                   <Button
                     onClick={handleStart}
-                    disabled={!allReady || !motion || startDebate.isPending}
+                    disabled={!allReady || !motion || prepRemaining > 0 || startDebate.isPending}
                     className="w-full brutalist-border brutalist-shadow-hover uppercase font-black h-14"
                   >
                     {startDebate.isPending ? (
@@ -434,20 +612,70 @@ export default function Room() {
                   </Button>
                 )}
 
-                {!allReady && participants.length >= 1 && (
+                {prepRemaining > 0 && (
+                  <p className="text-xs text-center text-muted-foreground uppercase">
+                    Preparation time: {formatTime(prepRemaining)} remaining
+                  </p>
+                )}
+                {debaters.length === 0 && (
+                  <p className="text-xs text-center text-muted-foreground uppercase">
+                    Waiting for debaters to join...
+                  </p>
+                )}
+                {!allReady && debaters.length >= 1 && (
                   <p className="text-xs text-center text-muted-foreground uppercase">
-                    Waiting for all to ready up...
+                    Waiting for all debaters to ready up...
                   </p>
                 )}
-                {participants.length < 6 && participants.length >= 1 && allReady && (
+                {debaters.length < format.speakerRoles.length && debaters.length >= 1 && allReady && (
                   <p className="text-xs text-center text-muted-foreground uppercase">
-                    {6 - participants.length} position(s) open (optional)
+                    {format.speakerRoles.length - debaters.length} position(s) open (optional)
                   </p>
                 )}
               </div>
             )}
           </div>
         </div>
+
+        {hasPrepBoard && (
+          <div className="mt-8">
+            <PrepBoard
+              roomId={room.id}
+              teamLabel={format.teams.find(t => t.id === currentParticipant.team)?.shortLabel ?? currentParticipant.team!}
+              members={participants
+                .filter(p => p.team === currentParticipant.team)
+                .map(p => ({ userId: p.userId, name: p.user?.name || "Unknown" }))}
+            />
+          </div>
+        )}
+
+        {/* Adjudicators, coaches and spectators */}
+        {nonDebaters.length > 0 && (
+          <div className="brutalist-border brutalist-shadow p-6 mt-8">
+            <h3 className="text-xl font-black uppercase tracking-tight mb-4 flex items-center gap-2">
+              <Eye className="w-5 h-5" />
+              Adjudication &amp; Audience
+            </h3>
+            <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
+              {nonDebaters.map((participant) => (
+                <div key={participant.id} className="p-4 border-2 border-foreground">
+                  <p className="font-black uppercase text-sm">{getParticipantLabel(format, participant)}</p>
+                  <div className="flex items-center justify-between mt-2">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm">{participant.user?.name || "Unknown"}</span>
+                      {participant.userId === room.creatorId && <Crown className="w-4 h-4" />}
+                    </div>
+                    {participant.team && (
+                      <Badge className={`uppercase font-bold text-xs ${getTeamClass(participant.team)}`}>
+                        {format.teams.find(t => t.id === participant.team)?.shortLabel}
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </main>
     </div>
   );
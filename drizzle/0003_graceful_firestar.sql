@@ -0,0 +1,4 @@
+ALTER TABLE `argument_nodes` MODIFY COLUMN `team` varchar(32) NOT NULL;--> statement-breakpoint
+ALTER TABLE `debate_feedback` MODIFY COLUMN `team` varchar(32);--> statement-breakpoint
+ALTER TABLE `debate_participants` MODIFY COLUMN `team` varchar(32) NOT NULL;--> statement-breakpoint
+ALTER TABLE `debate_participants` MODIFY COLUMN `speakerRole` varchar(64) NOT NULL;
\ No newline at end of file
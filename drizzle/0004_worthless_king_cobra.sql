@@ -0,0 +1,3 @@
+ALTER TABLE `debate_feedback` MODIFY COLUMN `suggestedWinner` varchar(32);--> statement-breakpoint
+ALTER TABLE `debate_rooms` MODIFY COLUMN `format` enum('asian_parliamentary','british_parliamentary') NOT NULL DEFAULT 'asian_parliamentary';--> statement-breakpoint
+ALTER TABLE `debate_feedback` ADD `teamRankings` json;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `debate_participants` MODIFY COLUMN `speakerRole` varchar(64);--> statement-breakpoint
+ALTER TABLE `debate_rooms` MODIFY COLUMN `format` enum('asian_parliamentary','british_parliamentary','world_schools') NOT NULL DEFAULT 'asian_parliamentary';--> statement-breakpoint
+ALTER TABLE `debate_motions` ADD `motionType` enum('prepared','impromptu') DEFAULT 'impromptu' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE `custom_formats` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`creatorId` int NOT NULL,
+	`clubName` varchar(128),
+	`name` varchar(100) NOT NULL,
+	`description` text,
+	`spec` json NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `custom_formats_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `debate_rooms` MODIFY COLUMN `format` enum('asian_parliamentary','british_parliamentary','world_schools','custom') NOT NULL DEFAULT 'asian_parliamentary';--> statement-breakpoint
+ALTER TABLE `debate_rooms` ADD `customFormatId` int;--> statement-breakpoint
+ALTER TABLE `users` ADD `club` varchar(128);
\ No newline at end of file
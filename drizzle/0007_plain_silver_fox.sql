@@ -0,0 +1,4 @@
+ALTER TABLE `debate_rooms` ADD `currentSpeechId` int;--> statement-breakpoint
+ALTER TABLE `debate_rooms` ADD `clockStartedAt` timestamp;--> statement-breakpoint
+ALTER TABLE `debate_rooms` ADD `clockPausedAt` timestamp;--> statement-breakpoint
+ALTER TABLE `debate_rooms` ADD `clockPausedSeconds` int DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `room_notes` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`roomId` int NOT NULL,
+	`userId` int NOT NULL,
+	`speechId` int,
+	`content` text NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `room_notes_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `debate_participants` MODIFY COLUMN `team` varchar(32);--> statement-breakpoint
+ALTER TABLE `debate_participants` ADD `role` enum('debater','adjudicator','spectator','coach') DEFAULT 'debater' NOT NULL;--> statement-breakpoint
+ALTER TABLE `debate_participants` ADD `adjudicatorPosition` enum('chair','panelist');
\ No newline at end of file
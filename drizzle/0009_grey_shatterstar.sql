@@ -0,0 +1,13 @@
+CREATE TABLE `adjudicator_ballots` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`roomId` int NOT NULL,
+	`participantId` int NOT NULL,
+	`winner` varchar(32) NOT NULL,
+	`teamRanking` json,
+	`speakerPoints` json NOT NULL,
+	`margin` enum('close','clear','decisive') NOT NULL,
+	`reasonForDecision` text NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `adjudicator_ballots_id` PRIMARY KEY(`id`)
+);
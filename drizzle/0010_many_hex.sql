@@ -0,0 +1,11 @@
+CREATE TABLE `speech_scores` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`roomId` int NOT NULL,
+	`speechId` int NOT NULL,
+	`participantId` int,
+	`speakerRole` varchar(64) NOT NULL,
+	`criteria` json NOT NULL,
+	`speakerPoints` double NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `speech_scores_id` PRIMARY KEY(`id`)
+);
@@ -0,0 +1,2 @@
+ALTER TABLE `debate_speeches` MODIFY COLUMN `participantId` int;--> statement-breakpoint
+ALTER TABLE `debate_rooms` ADD `aiOpponent` boolean DEFAULT false NOT NULL;
\ No newline at end of file
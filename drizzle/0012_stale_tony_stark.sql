@@ -0,0 +1,14 @@
+CREATE TABLE `prep_notes` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`roomId` int NOT NULL,
+	`team` varchar(32) NOT NULL,
+	`userId` int NOT NULL,
+	`source` enum('member','ai') NOT NULL DEFAULT 'member',
+	`content` text NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `prep_notes_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `debate_rooms` MODIFY COLUMN `currentPhase` enum('setup','prep','debate','feedback','completed') NOT NULL DEFAULT 'setup';--> statement-breakpoint
+ALTER TABLE `debate_rooms` ADD `prepStartedAt` timestamp;--> statement-breakpoint
+ALTER TABLE `debate_rooms` ADD `prepSeconds` int;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `points_of_information` ADD `status` enum('offered','accepted','declined','ended') DEFAULT 'offered' NOT NULL;--> statement-breakpoint
+ALTER TABLE `points_of_information` ADD `respondedAt` timestamp;--> statement-breakpoint
+ALTER TABLE `points_of_information` ADD `endedAt` timestamp;--> statement-breakpoint
+ALTER TABLE `transcript_segments` ADD `poiId` int;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `debate_speeches` ADD `audioOffset` int DEFAULT 0 NOT NULL;
\ No newline at end of file
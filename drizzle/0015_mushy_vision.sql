@@ -0,0 +1,2 @@
+ALTER TABLE `debate_rooms` ADD `transcriptionProvider` enum('forge','local');--> statement-breakpoint
+ALTER TABLE `debate_rooms` ADD `transcriptionLanguage` varchar(8);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `transcript_segments` ADD `timings` json;
\ No newline at end of file
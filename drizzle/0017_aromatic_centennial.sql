@@ -0,0 +1,13 @@
+CREATE TABLE `transcript_edits` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`segmentId` int NOT NULL,
+	`roomId` int NOT NULL,
+	`userId` int NOT NULL,
+	`previousText` text NOT NULL,
+	`text` text NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `transcript_edits_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `transcript_segments` ADD `originalText` text;--> statement-breakpoint
+ALTER TABLE `transcript_segments` ADD `editedAt` timestamp;
\ No newline at end of file
@@ -0,0 +1,8 @@
+CREATE TABLE `glossary_terms` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`clubName` varchar(128) NOT NULL,
+	`term` varchar(100) NOT NULL,
+	`createdById` int NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `glossary_terms_id` PRIMARY KEY(`id`)
+);
@@ -0,0 +1,10 @@
+CREATE TABLE `speech_delivery` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`roomId` int NOT NULL,
+	`speechId` int NOT NULL,
+	`participantId` int,
+	`speakerRole` varchar(64) NOT NULL,
+	`metrics` json NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `speech_delivery_id` PRIMARY KEY(`id`)
+);
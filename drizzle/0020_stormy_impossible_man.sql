@@ -0,0 +1,15 @@
+CREATE TABLE `round_recordings` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`roomId` int NOT NULL,
+	`uploadedById` int NOT NULL,
+	`audioUrl` varchar(512) NOT NULL,
+	`status` enum('processing','processed','failed') NOT NULL DEFAULT 'processing',
+	`error` text,
+	`speechCount` int,
+	`startedAt` timestamp,
+	`processedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `round_recordings_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `debate_rooms` ADD `recordingMode` enum('per_speaker','shared_device') DEFAULT 'per_speaker' NOT NULL;
\ No newline at end of file
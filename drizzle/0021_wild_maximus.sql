@@ -0,0 +1,10 @@
+CREATE TABLE `transcript_translations` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`segmentId` int NOT NULL,
+	`roomId` int NOT NULL,
+	`language` varchar(8) NOT NULL,
+	`sourceText` text NOT NULL,
+	`text` text NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `transcript_translations_id` PRIMARY KEY(`id`)
+);
@@ -0,0 +1,14 @@
+CREATE TABLE `debate_imports` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`roomId` int NOT NULL,
+	`importedById` int NOT NULL,
+	`status` enum('transcribing','analysing','processed','failed') NOT NULL DEFAULT 'transcribing',
+	`error` text,
+	`speechCount` int NOT NULL,
+	`processedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `debate_imports_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `debate_feedback` ADD `speakerRole` varchar(64);--> statement-breakpoint
+ALTER TABLE `debate_speeches` ADD `speakerName` varchar(255);
\ No newline at end of file
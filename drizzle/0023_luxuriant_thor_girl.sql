@@ -0,0 +1,20 @@
+CREATE TABLE `analysis_jobs` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`roomId` int NOT NULL,
+	`kind` enum('mindmap','feedback') NOT NULL,
+	`idempotencyKey` varchar(128) NOT NULL,
+	`status` enum('queued','running','completed','failed') NOT NULL DEFAULT 'queued',
+	`progress` int NOT NULL DEFAULT 0,
+	`step` varchar(128),
+	`attempts` int NOT NULL DEFAULT 0,
+	`maxAttempts` int NOT NULL DEFAULT 3,
+	`error` text,
+	`requestedById` int,
+	`runAfter` timestamp NOT NULL DEFAULT (now()),
+	`startedAt` timestamp,
+	`completedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `analysis_jobs_id` PRIMARY KEY(`id`),
+	CONSTRAINT `analysis_jobs_idempotencyKey_unique` UNIQUE(`idempotencyKey`)
+);
@@ -0,0 +1,2 @@
+UPDATE `debate_imports` SET `status` = 'processed' WHERE `status` = 'analysing';--> statement-breakpoint
+ALTER TABLE `debate_imports` MODIFY COLUMN `status` enum('transcribing','processed','failed') NOT NULL DEFAULT 'transcribing';
\ No newline at end of file
@@ -1,4 +1,5 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar, json, boolean } from "drizzle-orm/mysql-core";
+import { int, mysqlEnum, mysqlTable, text, timestamp, varchar, json, boolean, double } from "drizzle-orm/mysql-core";
+import type { CriterionScore, CustomFormatSpec, DeliveryMetrics, TranscriptTimings } from "../shared/debate";
 
 // User table with debate-specific profile fields
 export const users = mysqlTable("users", {
@@ -18,6 +19,7 @@ export const users = mysqlTable("users", {
   background: text("background"),
   debatesCompleted: int("debatesCompleted").default(0),
   profileCompleted: boolean("profileCompleted").default(false),
+  club: varchar("club", { length: 128 }), // debate club/society, used to share custom formats
 });
 
 export type User = typeof users.$inferSelect;
@@ -30,9 +32,24 @@ export const debateRooms = mysqlTable("debate_rooms", {
   creatorId: int("creatorId").notNull(),
   motionId: int("motionId"),
   status: mysqlEnum("status", ["waiting", "in_progress", "completed", "cancelled"]).default("waiting").notNull(),
-  format: mysqlEnum("format", ["asian_parliamentary"]).default("asian_parliamentary").notNull(),
+  format: mysqlEnum("format", ["asian_parliamentary", "british_parliamentary", "world_schools", "custom"]).default("asian_parliamentary").notNull(),
+  customFormatId: int("customFormatId"), // set when format is "custom"
+  aiOpponent: boolean("aiOpponent").default(false).notNull(), // AI debater fills the speaker roles nobody took
+  // Transcription overrides for this room; null uses the deployment default
+  transcriptionProvider: mysqlEnum("transcriptionProvider", ["forge", "local"]),
+  transcriptionLanguage: varchar("transcriptionLanguage", { length: 8 }),
+  // "shared_device": one device records the whole round, split into speeches afterwards
+  recordingMode: mysqlEnum("recordingMode", ["per_speaker", "shared_device"]).default("per_speaker").notNull(),
   currentSpeakerIndex: int("currentSpeakerIndex").default(0),
-  currentPhase: mysqlEnum("currentPhase", ["setup", "debate", "feedback", "completed"]).default("setup").notNull(),
+  currentPhase: mysqlEnum("currentPhase", ["setup", "prep", "debate", "feedback", "completed"]).default("setup").notNull(),
+  // Live prep countdown, set when the creator starts the prep phase
+  prepStartedAt: timestamp("prepStartedAt"),
+  prepSeconds: int("prepSeconds"),
+  // Server-owned clock for the current speech (null start = not started)
+  currentSpeechId: int("currentSpeechId"),
+  clockStartedAt: timestamp("clockStartedAt"),
+  clockPausedAt: timestamp("clockPausedAt"),
+  clockPausedSeconds: int("clockPausedSeconds").default(0).notNull(),
   startedAt: timestamp("startedAt"),
   endedAt: timestamp("endedAt"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
@@ -42,20 +59,42 @@ export const debateRooms = mysqlTable("debate_rooms", {
 export type DebateRoom = typeof debateRooms.$inferSelect;
 export type InsertDebateRoom = typeof debateRooms.$inferInsert;
 
+// Coach-built drill formats, private to the creator or shared with their club
+export const customFormats = mysqlTable("custom_formats", {
+  id: int("id").autoincrement().primaryKey(),
+  creatorId: int("creatorId").notNull(),
+  clubName: varchar("clubName", { length: 128 }), // null = private to the creator
+  name: varchar("name", { length: 100 }).notNull(),
+  description: text("description"),
+  spec: json("spec").$type<CustomFormatSpec>().notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type CustomFormat = typeof customFormats.$inferSelect;
+export type InsertCustomFormat = typeof customFormats.$inferInsert;
+
+// Club-maintained jargon, names and terms used to bias transcription
+export const glossaryTerms = mysqlTable("glossary_terms", {
+  id: int("id").autoincrement().primaryKey(),
+  clubName: varchar("clubName", { length: 128 }).notNull(),
+  term: varchar("term", { length: 100 }).notNull(),
+  createdById: int("createdById").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type GlossaryTerm = typeof glossaryTerms.$inferSelect;
+export type InsertGlossaryTerm = typeof glossaryTerms.$inferInsert;
+
 // Debate participants (links users to rooms with team/role info)
 export const debateParticipants = mysqlTable("debate_participants", {
   id: int("id").autoincrement().primaryKey(),
   roomId: int("roomId").notNull(),
   userId: int("userId").notNull(),
-  team: mysqlEnum("team", ["government", "opposition"]).notNull(),
-  speakerRole: mysqlEnum("speakerRole", [
-    "prime_minister",
-    "deputy_prime_minister", 
-    "government_whip",
-    "leader_of_opposition",
-    "deputy_leader_of_opposition",
-    "opposition_whip"
-  ]).notNull(),
+  role: mysqlEnum("role", ["debater", "adjudicator", "spectator", "coach"]).default("debater").notNull(),
+  team: varchar("team", { length: 32 }), // team id from the room's format; null for non-debaters (coaches may pick one)
+  speakerRole: varchar("speakerRole", { length: 64 }), // speaker role id from the room's format; null for reserves and non-debaters
+  adjudicatorPosition: mysqlEnum("adjudicatorPosition", ["chair", "panelist"]), // only set for adjudicators
   isReady: boolean("isReady").default(false),
   joinedAt: timestamp("joinedAt").defaultNow().notNull(),
 });
@@ -69,6 +108,7 @@ export const debateMotions = mysqlTable("debate_motions", {
   motion: text("motion").notNull(),
   topicArea: mysqlEnum("topicArea", ["politics", "ethics", "technology", "economics", "social", "environment", "education", "health"]).notNull(),
   difficulty: mysqlEnum("difficulty", ["novice", "intermediate", "advanced"]).default("intermediate").notNull(),
+  motionType: mysqlEnum("motionType", ["prepared", "impromptu"]).default("impromptu").notNull(),
   backgroundContext: text("backgroundContext"),
   keyStakeholders: json("keyStakeholders").$type<string[]>(),
   isAiGenerated: boolean("isAiGenerated").default(false),
@@ -82,11 +122,13 @@ export type InsertDebateMotion = typeof debateMotions.$inferInsert;
 export const debateSpeeches = mysqlTable("debate_speeches", {
   id: int("id").autoincrement().primaryKey(),
   roomId: int("roomId").notNull(),
-  participantId: int("participantId").notNull(),
+  participantId: int("participantId"), // null for speeches given by the AI opponent or a guest speaker
   speakerRole: varchar("speakerRole", { length: 64 }).notNull(),
+  speakerName: varchar("speakerName", { length: 255 }), // guest speakers in imported rounds, who aren't members
   speechType: mysqlEnum("speechType", ["substantive", "reply"]).default("substantive").notNull(),
   transcript: text("transcript"),
   audioUrl: varchar("audioUrl", { length: 512 }),
+  audioOffset: int("audioOffset").default(0).notNull(), // seconds into the speech at which the recording starts (negative when it began earlier)
   duration: int("duration"), // in seconds
   startedAt: timestamp("startedAt"),
   endedAt: timestamp("endedAt"),
@@ -102,9 +144,12 @@ export const pointsOfInformation = mysqlTable("points_of_information", {
   roomId: int("roomId").notNull(),
   speechId: int("speechId").notNull(),
   offeredById: int("offeredById").notNull(),
+  status: mysqlEnum("status", ["offered", "accepted", "declined", "ended"]).default("offered").notNull(),
   accepted: boolean("accepted").default(false),
-  content: text("content"),
+  content: text("content"), // transcript of the point once it has been made
   timestamp: int("timestamp"), // seconds into the speech
+  respondedAt: timestamp("respondedAt"), // when the speaker accepted or declined; starts the POI's own timer
+  endedAt: timestamp("endedAt"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
 
@@ -117,7 +162,7 @@ export const argumentNodes = mysqlTable("argument_nodes", {
   roomId: int("roomId").notNull(),
   speechId: int("speechId"),
   parentId: int("parentId"),
-  team: mysqlEnum("team", ["government", "opposition"]).notNull(),
+  team: varchar("team", { length: 32 }).notNull(),
   nodeType: mysqlEnum("nodeType", ["argument", "rebuttal", "extension", "summary"]).notNull(),
   content: text("content").notNull(),
   transcriptSegment: text("transcriptSegment"),
@@ -137,14 +182,17 @@ export const debateFeedback = mysqlTable("debate_feedback", {
   id: int("id").autoincrement().primaryKey(),
   roomId: int("roomId").notNull(),
   participantId: int("participantId"),
+  speakerRole: varchar("speakerRole", { length: 64 }), // individual feedback, including for guest speakers without a participant
   feedbackType: mysqlEnum("feedbackType", ["individual", "team", "overall"]).notNull(),
-  team: mysqlEnum("team", ["government", "opposition"]),
+  team: varchar("team", { length: 32 }),
   strongestArguments: json("strongestArguments").$type<string[]>(),
   missedResponses: json("missedResponses").$type<string[]>(),
   improvements: json("improvements").$type<string[]>(),
   overallAnalysis: text("overallAnalysis"),
-  suggestedWinner: mysqlEnum("suggestedWinner", ["government", "opposition"]),
+  suggestedWinner: varchar("suggestedWinner", { length: 32 }), // team id from the room's format
   winningReason: text("winningReason"),
+  // Full 1st-to-last ranking for formats whose result is a ranking (e.g. British Parliamentary)
+  teamRankings: json("teamRankings").$type<Array<{ team: string; rank: number; reason: string }>>(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
 
@@ -158,8 +206,12 @@ export const transcriptSegments = mysqlTable("transcript_segments", {
   speechId: int("speechId").notNull(),
   speakerRole: varchar("speakerRole", { length: 64 }).notNull(),
   speakerName: varchar("speakerName", { length: 255 }),
+  poiId: int("poiId"), // set when the segment is a point of information made during the speech
   text: text("text").notNull(),
   timestamp: int("timestamp").notNull(), // seconds into the speech
+  timings: json("timings").$type<TranscriptTimings>(), // phrase and word timings from the transcriber
+  originalText: text("originalText"), // the transcriber's text, kept once the segment is corrected
+  editedAt: timestamp("editedAt"),
   sequenceNumber: int("sequenceNumber").notNull(), // for ordering
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
@@ -167,6 +219,91 @@ export const transcriptSegments = mysqlTable("transcript_segments", {
 export type TranscriptSegment = typeof transcriptSegments.$inferSelect;
 export type InsertTranscriptSegment = typeof transcriptSegments.$inferInsert;
 
+// Corrections made to transcript segments after the speech, oldest first
+export const transcriptEdits = mysqlTable("transcript_edits", {
+  id: int("id").autoincrement().primaryKey(),
+  segmentId: int("segmentId").notNull(),
+  roomId: int("roomId").notNull(),
+  userId: int("userId").notNull(), // who made the correction
+  previousText: text("previousText").notNull(),
+  text: text("text").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type TranscriptEdit = typeof transcriptEdits.$inferSelect;
+export type InsertTranscriptEdit = typeof transcriptEdits.$inferInsert;
+
+// Transcript segments translated for spectators, one row per segment and language
+export const transcriptTranslations = mysqlTable("transcript_translations", {
+  id: int("id").autoincrement().primaryKey(),
+  segmentId: int("segmentId").notNull(),
+  roomId: int("roomId").notNull(),
+  language: varchar("language", { length: 8 }).notNull(),
+  sourceText: text("sourceText").notNull(), // the segment text that was translated, to spot later corrections
+  text: text("text").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type TranscriptTranslation = typeof transcriptTranslations.$inferSelect;
+export type InsertTranscriptTranslation = typeof transcriptTranslations.$inferInsert;
+
+// Whole-round recordings from shared-device rooms, split into speeches by diarization
+export const roundRecordings = mysqlTable("round_recordings", {
+  id: int("id").autoincrement().primaryKey(),
+  roomId: int("roomId").notNull(),
+  uploadedById: int("uploadedById").notNull(),
+  audioUrl: varchar("audioUrl", { length: 512 }).notNull(),
+  status: mysqlEnum("status", ["processing", "processed", "failed"]).default("processing").notNull(),
+  error: text("error"),
+  speechCount: int("speechCount"), // speeches found once processed
+  startedAt: timestamp("startedAt"), // when recording began
+  processedAt: timestamp("processedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type RoundRecording = typeof roundRecordings.$inferSelect;
+export type InsertRoundRecording = typeof roundRecordings.$inferInsert;
+
+// Rounds held off the platform and imported from recordings or transcripts
+export const debateImports = mysqlTable("debate_imports", {
+  id: int("id").autoincrement().primaryKey(),
+  roomId: int("roomId").notNull(),
+  importedById: int("importedById").notNull(),
+  status: mysqlEnum("status", ["transcribing", "processed", "failed"]).default("transcribing").notNull(),
+  error: text("error"),
+  speechCount: int("speechCount").notNull(),
+  processedAt: timestamp("processedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type DebateImport = typeof debateImports.$inferSelect;
+export type InsertDebateImport = typeof debateImports.$inferInsert;
+
+// Background generation of a room's argument map or feedback. The idempotency
+// key names the room, the kind of work and the transcript it runs on, so asking
+// twice for the same work gets the same job
+export const analysisJobs = mysqlTable("analysis_jobs", {
+  id: int("id").autoincrement().primaryKey(),
+  roomId: int("roomId").notNull(),
+  kind: mysqlEnum("kind", ["mindmap", "feedback"]).notNull(),
+  idempotencyKey: varchar("idempotencyKey", { length: 128 }).notNull().unique(),
+  status: mysqlEnum("status", ["queued", "running", "completed", "failed"]).default("queued").notNull(),
+  progress: int("progress").default(0).notNull(), // percent
+  step: varchar("step", { length: 128 }),
+  attempts: int("attempts").default(0).notNull(),
+  maxAttempts: int("maxAttempts").default(3).notNull(),
+  error: text("error"),
+  requestedById: int("requestedById"), // null when queued by the round ending
+  runAfter: timestamp("runAfter").defaultNow().notNull(),
+  startedAt: timestamp("startedAt"),
+  completedAt: timestamp("completedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type AnalysisJob = typeof analysisJobs.$inferSelect;
+export type InsertAnalysisJob = typeof analysisJobs.$inferInsert;
+
 // Rule violations flagged during debate
 export const ruleViolations = mysqlTable("rule_violations", {
   id: int("id").autoincrement().primaryKey(),
@@ -186,3 +323,76 @@ export const ruleViolations = mysqlTable("rule_violations", {
 
 export type RuleViolation = typeof ruleViolations.$inferSelect;
 export type InsertRuleViolation = typeof ruleViolations.$inferInsert;
+
+// Private notes taken by a room member (adjudicators, coaches, spectators, debaters)
+export const roomNotes = mysqlTable("room_notes", {
+  id: int("id").autoincrement().primaryKey(),
+  roomId: int("roomId").notNull(),
+  userId: int("userId").notNull(),
+  speechId: int("speechId"), // speech being delivered when the note was taken
+  content: text("content").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type RoomNote = typeof roomNotes.$inferSelect;
+export type InsertRoomNote = typeof roomNotes.$inferInsert;
+
+// Team-private prep board; AI case-building suggestions are stored alongside members' notes
+export const prepNotes = mysqlTable("prep_notes", {
+  id: int("id").autoincrement().primaryKey(),
+  roomId: int("roomId").notNull(),
+  team: varchar("team", { length: 32 }).notNull(),
+  userId: int("userId").notNull(), // author, or who asked the assistant
+  source: mysqlEnum("source", ["member", "ai"]).default("member").notNull(),
+  content: text("content").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type PrepNote = typeof prepNotes.$inferSelect;
+export type InsertPrepNote = typeof prepNotes.$inferInsert;
+
+// Human adjudicator ballots; one per adjudicator per room
+export const adjudicatorBallots = mysqlTable("adjudicator_ballots", {
+  id: int("id").autoincrement().primaryKey(),
+  roomId: int("roomId").notNull(),
+  participantId: int("participantId").notNull(), // the adjudicator's participant row
+  winner: varchar("winner", { length: 32 }).notNull(), // team id from the room's format
+  teamRanking: json("teamRanking").$type<string[]>(), // 1st to last, ranking formats only
+  speakerPoints: json("speakerPoints").$type<Record<string, number>>().notNull(), // keyed by speaking slot role
+  margin: mysqlEnum("margin", ["close", "clear", "decisive"]).notNull(),
+  reasonForDecision: text("reasonForDecision").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type AdjudicatorBallot = typeof adjudicatorBallots.$inferSelect;
+export type InsertAdjudicatorBallot = typeof adjudicatorBallots.$inferInsert;
+
+// AI rubric scores for a single speech, rolled up into speaker points
+export const speechScores = mysqlTable("speech_scores", {
+  id: int("id").autoincrement().primaryKey(),
+  roomId: int("roomId").notNull(),
+  speechId: int("speechId").notNull(),
+  participantId: int("participantId"),
+  speakerRole: varchar("speakerRole", { length: 64 }).notNull(), // speaking slot role
+  criteria: json("criteria").$type<CriterionScore[]>().notNull(),
+  speakerPoints: double("speakerPoints").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type SpeechScore = typeof speechScores.$inferSelect;
+export type InsertSpeechScore = typeof speechScores.$inferInsert;
+
+// Delivery analytics per speech: pace, fillers, pauses, time used, repetition
+export const speechDelivery = mysqlTable("speech_delivery", {
+  id: int("id").autoincrement().primaryKey(),
+  roomId: int("roomId").notNull(),
+  speechId: int("speechId").notNull(),
+  participantId: int("participantId"),
+  speakerRole: varchar("speakerRole", { length: 64 }).notNull(), // speaking slot role
+  metrics: json("metrics").$type<DeliveryMetrics>().notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type SpeechDelivery = typeof speechDelivery.$inferSelect;
+export type InsertSpeechDelivery = typeof speechDelivery.$inferInsert;
@@ -7,4 +7,38 @@ export const ENV = {
   isProduction: process.env.NODE_ENV === "production",
   forgeApiUrl: process.env.BUILT_IN_FORGE_API_URL ?? "",
   forgeApiKey: process.env.BUILT_IN_FORGE_API_KEY ?? "",
+  stunUrl: process.env.STUN_URL ?? "stun:stun.l.google.com:19302",
+  turnUrl: process.env.TURN_URL ?? "",
+  turnUsername: process.env.TURN_USERNAME ?? "",
+  turnCredential: process.env.TURN_CREDENTIAL ?? "",
+  // Transcription: "forge" (hosted Whisper) or "local" (whisper.cpp / faster-whisper on this machine)
+  transcriptionProvider: process.env.TRANSCRIPTION_PROVIDER ?? "",
+  transcriptionLanguage: process.env.TRANSCRIPTION_LANGUAGE ?? "en",
+  localWhisperEngine: process.env.LOCAL_WHISPER_ENGINE ?? "whisper_cpp",
+  localWhisperBin: process.env.LOCAL_WHISPER_BIN ?? "",
+  localWhisperModel: process.env.LOCAL_WHISPER_MODEL ?? "",
+  ffmpegBin: process.env.FFMPEG_BIN ?? "ffmpeg",
+  localWhisperTimeoutMs: Number(process.env.LOCAL_WHISPER_TIMEOUT_MS ?? 120000),
+  // Speaker diarization for shared-device rounds: a command (e.g. a pyannote script)
+  // that takes an audio file path and prints speaker turns as JSON or RTTM
+  diarizationBin: process.env.DIARIZATION_BIN ?? "",
+  diarizationTimeoutMs: Number(process.env.DIARIZATION_TIMEOUT_MS ?? 900000),
+  // LLM: a comma-separated fallback chain of "<provider>:<model>" entries, where provider
+  // is forge, openai (any OpenAI-compatible API), anthropic or local (Ollama / llama.cpp).
+  // LLM_MODELS_<TASK> (e.g. LLM_MODELS_FEEDBACK) picks a different chain for one task
+  llmModels: process.env.LLM_MODELS ?? "forge:gemini-2.5-flash",
+  llmTaskModels: Object.fromEntries(
+    Object.entries(process.env)
+      .filter(([key, value]) => key.startsWith("LLM_MODELS_") && value)
+      .map(([key, value]) => [key.slice("LLM_MODELS_".length).toLowerCase(), value ?? ""])
+  ) as Record<string, string>,
+  llmTimeoutMs: Number(process.env.LLM_TIMEOUT_MS ?? 120000),
+  llmMaxRetries: Number(process.env.LLM_MAX_RETRIES ?? 2),
+  openaiApiUrl: process.env.OPENAI_API_URL ?? "https://api.openai.com",
+  openaiApiKey: process.env.OPENAI_API_KEY ?? "",
+  anthropicApiUrl: process.env.ANTHROPIC_API_URL ?? "https://api.anthropic.com",
+  anthropicApiKey: process.env.ANTHROPIC_API_KEY ?? "",
+  // e.g. http://localhost:11434 for Ollama or http://localhost:8080 for llama.cpp's server;
+  // unset leaves the local backend off
+  localLlmUrl: process.env.LOCAL_LLM_URL ?? "",
 };
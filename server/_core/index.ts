@@ -5,6 +5,7 @@ import net from "net";
 import { createExpressMiddleware } from "@trpc/server/adapters/express";
 import { registerOAuthRoutes } from "./oauth";
 import { appRouter } from "../routers";
+import { startAnalysisWorker } from "../analysisJobs";
 import { createContext } from "./context";
 import { serveStatic, setupVite } from "./vite";
 
@@ -35,7 +36,7 @@ async function startServer() {
   app.use(express.urlencoded({ limit: "50mb", extended: true }));
   // OAuth callback under /api/oauth/callback
   registerOAuthRoutes(app);
-  // tRPC API
+  // tRPC API (queries and mutations over HTTP, live room events as SSE subscriptions)
   app.use(
     "/api/trpc",
     createExpressMiddleware({
@@ -60,6 +61,8 @@ async function startServer() {
   server.listen(port, () => {
     console.log(`Server running on http://localhost:${port}/`);
   });
+  // Argument maps and feedback are generated in the background
+  startAnalysisWorker();
 }
 
 startServer().catch(console.error);
@@ -1,4 +1,12 @@
 import { ENV } from "./env";
+import {
+  completeChat,
+  isProviderConfigured,
+  LLMProviderError,
+  parseModelChain,
+  type ChatRequest,
+  type LLMModel,
+} from "./llmProviders";
 
 export type Role = "system" | "user" | "assistant" | "tool" | "function";
 
@@ -55,7 +63,22 @@ export type ToolChoice =
   | ToolChoiceByName
   | ToolChoiceExplicit;
 
+/**
+ * What a call is for. Each task can run on its own model chain, set with
+ * LLM_MODELS_<TASK>; without one it uses LLM_MODELS.
+ */
+export type LLMTask =
+  | "motion"
+  | "analysis"
+  | "feedback"
+  | "scoring"
+  | "speech"
+  | "rules"
+  | "translation"
+  | "prep";
+
 export type InvokeParams = {
+  task?: LLMTask;
   messages: Message[];
   tools?: Tool[];
   toolChoice?: ToolChoice;
@@ -170,6 +193,8 @@ const normalizeMessage = (message: Message) => {
   };
 };
 
+export type NormalizedMessage = ReturnType<typeof normalizeMessage>;
+
 const normalizeToolChoice = (
   toolChoice: ToolChoice | undefined,
   tools: Tool[] | undefined
@@ -209,17 +234,6 @@ const normalizeToolChoice = (
   return toolChoice;
 };
 
-const resolveApiUrl = () =>
-  ENV.forgeApiUrl && ENV.forgeApiUrl.trim().length > 0
-    ? `${ENV.forgeApiUrl.replace(/\/$/, "")}/v1/chat/completions`
-    : "https://forge.manus.im/v1/chat/completions";
-
-const assertApiKey = () => {
-  if (!ENV.forgeApiKey) {
-    throw new Error("OPENAI_API_KEY is not configured");
-  }
-};
-
 const normalizeResponseFormat = ({
   responseFormat,
   response_format,
@@ -265,27 +279,131 @@ const normalizeResponseFormat = ({
   };
 };
 
-export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
-  assertApiKey();
+const DEFAULT_MAX_TOKENS = 32768;
+const RETRY_BASE_DELAY_MS = 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const describeError = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+const modelLabel = (target: LLMModel) => `${target.provider}:${target.model}`;
+
+/** The fallback chain for a task, keeping only the backends that are set up. */
+export function getModelChain(task?: LLMTask): LLMModel[] {
+  const chain = parseModelChain((task && ENV.llmTaskModels[task]) || ENV.llmModels)
+    .filter(target => isProviderConfigured(target.provider));
+  if (chain.length === 0) {
+    throw new Error(
+      `No configured LLM backend for ${task ?? "this"} task; check LLM_MODELS and the backend's API key`
+    );
+  }
+  return chain;
+}
+
+// One model, tried again with exponential backoff while its failures look temporary
+async function completeWithRetries(target: LLMModel, request: ChatRequest) {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await completeChat(target, request, AbortSignal.timeout(ENV.llmTimeoutMs));
+    } catch (error) {
+      const retryable = error instanceof LLMProviderError && error.retryable;
+      if (!retryable || attempt >= ENV.llmMaxRetries) throw error;
+      const delay = Math.round(RETRY_BASE_DELAY_MS * 2 ** attempt * (0.5 + Math.random()));
+      console.warn(`[LLM] ${modelLabel(target)} failed (${describeError(error)}), retrying in ${delay}ms`);
+      await sleep(delay);
+    }
+  }
+}
 
+/**
+ * Why a reply can't be used as the JSON that was asked for, or null when it
+ * can. A reply fenced in ```json ... ```, as some local models insist on, is
+ * unwrapped in place.
+ */
+function checkStructuredReply(
+  result: InvokeResult,
+  format: ChatRequest["response_format"]
+): string | null {
+  if (!format || format.type === "text") return null;
+
+  const message = result.choices[0]?.message;
+  if (!message || typeof message.content !== "string") return "the reply has no text";
+  const fenced = message.content.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  if (fenced) message.content = fenced[1];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(message.content);
+  } catch (error) {
+    return `it isn't valid JSON (${describeError(error)})`;
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    return "it isn't a JSON object";
+  }
+  if (format.type === "json_schema") {
+    const reply = parsed as Record<string, unknown>;
+    const required = format.json_schema.schema.required;
+    const missing = Array.isArray(required)
+      ? required.filter(key => typeof key === "string" && !(key in reply))
+      : [];
+    if (missing.length > 0) return `it's missing ${missing.join(", ")}`;
+  }
+  return null;
+}
+
+// One model, with a second chance to fix a reply that isn't the JSON asked for
+async function completeStructured(target: LLMModel, request: ChatRequest) {
+  const result = await completeWithRetries(target, request);
+  const problem = checkStructuredReply(result, request.response_format);
+  if (!problem) return result;
+
+  console.warn(`[LLM] ${modelLabel(target)} replied with unusable JSON (${problem}), asking for a repair`);
+  const repaired = await completeWithRetries(target, {
+    ...request,
+    messages: [
+      ...request.messages,
+      normalizeMessage({ role: "assistant", content: String(result.choices[0]?.message.content ?? "") }),
+      normalizeMessage({
+        role: "user",
+        content: `That reply can't be used because ${problem}. Reply again with only the corrected JSON, matching the requested schema.`,
+      }),
+    ],
+  });
+  const repairProblem = checkStructuredReply(repaired, request.response_format);
+  if (repairProblem) {
+    throw new Error(`${modelLabel(target)} replied with unusable JSON: ${repairProblem}`);
+  }
+  return repaired;
+}
+
+/**
+ * Run a chat completion on the task's model chain. Each model is retried on
+ * temporary failures and given one repair pass for malformed JSON; when it
+ * still fails the next model in the chain takes over.
+ */
+export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
   const {
+    task,
     messages,
     tools,
     toolChoice,
     tool_choice,
+    maxTokens,
+    max_tokens,
     outputSchema,
     output_schema,
     responseFormat,
     response_format,
   } = params;
 
-  const payload: Record<string, unknown> = {
-    model: "gemini-2.5-flash",
+  const request: ChatRequest = {
     messages: messages.map(normalizeMessage),
+    max_tokens: maxTokens ?? max_tokens ?? DEFAULT_MAX_TOKENS,
   };
 
   if (tools && tools.length > 0) {
-    payload.tools = tools;
+    request.tools = tools;
   }
 
   const normalizedToolChoice = normalizeToolChoice(
@@ -293,12 +411,7 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
     tools
   );
   if (normalizedToolChoice) {
-    payload.tool_choice = normalizedToolChoice;
-  }
-
-  payload.max_tokens = 32768
-  payload.thinking = {
-    "budget_tokens": 128
+    request.tool_choice = normalizedToolChoice;
   }
 
   const normalizedResponseFormat = normalizeResponseFormat({
@@ -309,24 +422,22 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
   });
 
   if (normalizedResponseFormat) {
-    payload.response_format = normalizedResponseFormat;
+    request.response_format = normalizedResponseFormat;
   }
 
-  const response = await fetch(resolveApiUrl(), {
-    method: "POST",
-    headers: {
-      "content-type": "application/json",
-      authorization: `Bearer ${ENV.forgeApiKey}`,
-    },
-    body: JSON.stringify(payload),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(
-      `LLM invoke failed: ${response.status} ${response.statusText} – ${errorText}`
-    );
+  const chain = getModelChain(task);
+  let lastError: unknown;
+  for (let i = 0; i < chain.length; i++) {
+    try {
+      return await completeStructured(chain[i], request);
+    } catch (error) {
+      lastError = error;
+      if (i < chain.length - 1) {
+        console.warn(
+          `[LLM] ${modelLabel(chain[i])} failed (${describeError(error)}), falling back to ${modelLabel(chain[i + 1])}`
+        );
+      }
+    }
   }
-
-  return (await response.json()) as InvokeResult;
+  throw lastError;
 }
@@ -0,0 +1,273 @@
+import { ENV } from "./env";
+import type {
+  ImageContent,
+  InvokeResult,
+  JsonSchema,
+  NormalizedMessage,
+  TextContent,
+  Tool,
+  ToolChoiceExplicit,
+} from "./llm";
+
+/** What every backend is asked for, already in the OpenAI chat completions shape. */
+export type ChatRequest = {
+  messages: NormalizedMessage[];
+  tools?: Tool[];
+  tool_choice?: "none" | "auto" | ToolChoiceExplicit;
+  max_tokens: number;
+  response_format?:
+    | { type: "json_schema"; json_schema: JsonSchema }
+    | { type: "text" }
+    | { type: "json_object" };
+};
+
+/** A backend call that failed; retryable failures are worth another try on the same model. */
+export class LLMProviderError extends Error {
+  readonly retryable: boolean;
+
+  constructor(message: string, retryable: boolean) {
+    super(message);
+    this.name = "LLMProviderError";
+    this.retryable = retryable;
+  }
+}
+
+type LLMProvider = {
+  isConfigured: () => boolean;
+  complete: (model: string, request: ChatRequest, signal: AbortSignal) => Promise<InvokeResult>;
+};
+
+// Rate limits, timeouts and server trouble pass; bad requests and auth failures don't
+const isRetryableStatus = (status: number) =>
+  status === 408 || status === 409 || status === 425 || status === 429 || status >= 500;
+
+const trimUrl = (url: string) => url.replace(/\/$/, "");
+
+async function postJson(
+  url: string,
+  headers: Record<string, string>,
+  body: Record<string, unknown>,
+  signal: AbortSignal
+): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "content-type": "application/json", ...headers },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (response.ok) return await response.json();
+  } catch (error) {
+    if (error instanceof Error && error.name === "TimeoutError") {
+      throw new LLMProviderError("LLM invoke timed out", true);
+    }
+    throw new LLMProviderError(`LLM invoke failed: ${error instanceof Error ? error.message : String(error)}`, true);
+  }
+
+  const errorText = await response.text().catch(() => "");
+  throw new LLMProviderError(
+    `LLM invoke failed: ${response.status} ${response.statusText} – ${errorText}`,
+    isRetryableStatus(response.status)
+  );
+}
+
+// Forge, OpenAI and the local servers all speak the chat completions API
+function openAICompatible({
+  baseUrl,
+  apiKey,
+  extra,
+}: {
+  baseUrl: () => string;
+  apiKey: () => string;
+  extra?: Record<string, unknown>;
+}): LLMProvider["complete"] {
+  return async (model, request, signal) => {
+    const key = apiKey();
+    return (await postJson(
+      `${trimUrl(baseUrl())}/v1/chat/completions`,
+      key ? { authorization: `Bearer ${key}` } : {},
+      { model, ...request, ...extra },
+      signal
+    )) as InvokeResult;
+  };
+}
+
+const ANTHROPIC_VERSION = "2023-06-01";
+// Claude caps its replies well below the 32k tokens asked of the other backends
+const ANTHROPIC_MAX_TOKENS = 8192;
+
+type AnthropicBlock =
+  | { type: "text"; text: string }
+  | { type: "tool_use"; id: string; name: string; input: unknown };
+
+type AnthropicResponse = {
+  id: string;
+  model: string;
+  content: AnthropicBlock[];
+  stop_reason: string | null;
+  usage?: { input_tokens: number; output_tokens: number };
+};
+
+const textOf = (content: NormalizedMessage["content"]) =>
+  typeof content === "string"
+    ? content
+    : content.map(part => (part.type === "text" ? part.text : "")).join("\n");
+
+function toAnthropicContent(content: NormalizedMessage["content"]) {
+  if (typeof content === "string") return content;
+  return content.map(part => {
+    if (part.type === "text") return { type: "text", text: (part as TextContent).text };
+    if (part.type === "image_url") {
+      return { type: "image", source: { type: "url", url: (part as ImageContent).image_url.url } };
+    }
+    throw new LLMProviderError("The anthropic backend can't read file attachments", false);
+  });
+}
+
+// The Messages API: system prompts go alongside the messages, and a forced tool
+// call stands in for response_format since Claude has no JSON mode
+const completeAnthropic: LLMProvider["complete"] = async (model, request, signal) => {
+  const system: string[] = [];
+  const messages: Array<{ role: "user" | "assistant"; content: unknown }> = [];
+  for (const message of request.messages) {
+    if (message.role === "system") {
+      system.push(textOf(message.content));
+    } else if (message.role === "tool" || message.role === "function") {
+      messages.push({ role: "user", content: `Tool result:\n${textOf(message.content)}` });
+    } else {
+      messages.push({
+        role: message.role === "assistant" ? "assistant" : "user",
+        content: toAnthropicContent(message.content),
+      });
+    }
+  }
+
+  const format = request.response_format;
+  let tools = request.tools?.map(tool => ({
+    name: tool.function.name,
+    description: tool.function.description,
+    input_schema: tool.function.parameters ?? { type: "object" },
+  }));
+  let toolChoice: Record<string, string> | undefined;
+  if (format?.type === "json_schema") {
+    tools = [{
+      name: format.json_schema.name,
+      description: "Give the result in this shape",
+      input_schema: format.json_schema.schema,
+    }];
+    toolChoice = { type: "tool", name: format.json_schema.name };
+  } else if (request.tool_choice) {
+    toolChoice = typeof request.tool_choice === "string"
+      ? { type: request.tool_choice }
+      : { type: "tool", name: request.tool_choice.function.name };
+  }
+  if (format?.type === "json_object") {
+    system.push("Reply with a single JSON object and nothing else.");
+  }
+
+  const data = (await postJson(
+    `${trimUrl(ENV.anthropicApiUrl)}/v1/messages`,
+    { "x-api-key": ENV.anthropicApiKey, "anthropic-version": ANTHROPIC_VERSION },
+    {
+      model,
+      max_tokens: Math.min(request.max_tokens, ANTHROPIC_MAX_TOKENS),
+      ...(system.length > 0 ? { system: system.join("\n\n") } : {}),
+      messages,
+      ...(tools ? { tools } : {}),
+      ...(toolChoice ? { tool_choice: toolChoice } : {}),
+    },
+    signal
+  )) as AnthropicResponse;
+
+  const toolUses = data.content.filter(
+    (block): block is Extract<AnthropicBlock, { type: "tool_use" }> => block.type === "tool_use"
+  );
+  const structured = format?.type === "json_schema"
+    ? toolUses.find(block => block.name === format.json_schema.name)
+    : undefined;
+  const text = data.content
+    .map(block => (block.type === "text" ? block.text : ""))
+    .join("");
+
+  return {
+    id: data.id,
+    created: Math.floor(Date.now() / 1000),
+    model: data.model,
+    choices: [{
+      index: 0,
+      message: {
+        role: "assistant",
+        content: structured ? JSON.stringify(structured.input) : text,
+        ...(!structured && toolUses.length > 0
+          ? {
+              tool_calls: toolUses.map(block => ({
+                id: block.id,
+                type: "function" as const,
+                function: { name: block.name, arguments: JSON.stringify(block.input) },
+              })),
+            }
+          : {}),
+      },
+      finish_reason: data.stop_reason,
+    }],
+    usage: data.usage && {
+      prompt_tokens: data.usage.input_tokens,
+      completion_tokens: data.usage.output_tokens,
+      total_tokens: data.usage.input_tokens + data.usage.output_tokens,
+    },
+  };
+};
+
+const PROVIDERS = {
+  forge: {
+    isConfigured: () => !!ENV.forgeApiKey,
+    complete: openAICompatible({
+      baseUrl: () => ENV.forgeApiUrl.trim() || "https://forge.manus.im",
+      apiKey: () => ENV.forgeApiKey,
+      extra: { thinking: { budget_tokens: 128 } },
+    }),
+  },
+  openai: {
+    isConfigured: () => !!ENV.openaiApiKey,
+    complete: openAICompatible({ baseUrl: () => ENV.openaiApiUrl, apiKey: () => ENV.openaiApiKey }),
+  },
+  anthropic: {
+    isConfigured: () => !!ENV.anthropicApiKey,
+    complete: completeAnthropic,
+  },
+  // Ollama and llama.cpp's server take no key, so setting LOCAL_LLM_URL turns them on
+  local: {
+    isConfigured: () => !!ENV.localLlmUrl,
+    complete: openAICompatible({ baseUrl: () => ENV.localLlmUrl, apiKey: () => "" }),
+  },
+} satisfies Record<string, LLMProvider>;
+
+export type LLMProviderId = keyof typeof PROVIDERS;
+
+/** One model on one backend, e.g. anthropic:claude-sonnet-4-5 or local:llama3.1:8b. */
+export type LLMModel = { provider: LLMProviderId; model: string };
+
+/** Parse a comma-separated "<provider>:<model>" fallback chain. */
+export function parseModelChain(value: string): LLMModel[] {
+  return value
+    .split(",")
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      // Only the first colon splits; Ollama model tags have their own
+      const separator = entry.indexOf(":");
+      const provider = entry.slice(0, separator);
+      if (separator <= 0 || !(provider in PROVIDERS) || separator === entry.length - 1) {
+        throw new Error(
+          `Invalid LLM model "${entry}": expected <provider>:<model> with provider one of ${Object.keys(PROVIDERS).join(", ")}`
+        );
+      }
+      return { provider: provider as LLMProviderId, model: entry.slice(separator + 1) };
+    });
+}
+
+export const isProviderConfigured = (provider: LLMProviderId) => PROVIDERS[provider].isConfigured();
+
+export const completeChat = (target: LLMModel, request: ChatRequest, signal: AbortSignal) =>
+  PROVIDERS[target.provider].complete(target.model, request, signal);
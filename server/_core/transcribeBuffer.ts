@@ -24,12 +24,19 @@ export type WhisperSegment = {
   no_speech_prob: number;
 };
 
+export type WhisperWord = {
+  word: string;
+  start: number;
+  end: number;
+};
+
 export type WhisperResponse = {
   task: "transcribe";
   language: string;
   duration: number;
   text: string;
   segments: WhisperSegment[];
+  words?: WhisperWord[]; // only when word timestamps were requested
 };
 
 export type TranscriptionError = {
@@ -106,6 +113,8 @@ export async function transcribeBuffer(
     formData.append("file", audioBlob, filename);
     formData.append("model", "whisper-1");
     formData.append("response_format", "verbose_json");
+    formData.append("timestamp_granularities[]", "segment");
+    formData.append("timestamp_granularities[]", "word");
     
     // Add prompt
     const transcriptionPrompt = prompt || (
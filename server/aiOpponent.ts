@@ -0,0 +1,147 @@
+import { invokeLLM } from "./_core/llm";
+import * as db from "./db";
+import { publishRoomEvent } from "./roomEvents";
+import { getRoomLanguage, languageInstruction } from "./roomLanguage";
+import type { DebateMotion, DebateRoom } from "../drizzle/schema";
+import {
+  AI_SPEAKER_NAME,
+  getRoleLabel,
+  getTeamSide,
+  type DebateFormat,
+  type SpeakingSlot,
+} from "@shared/debate";
+
+// Speech synthesis reads at roughly this pace, so it sets the length of the speech
+const WORDS_PER_MINUTE = 150;
+
+// Clients in the room all ask for the AI's speech when its turn comes up;
+// concurrent requests for the same slot share one generation
+const inFlight = new Map<string, Promise<{ speechId: number; transcript: string }>>();
+
+// Chinese and Japanese are written without spaces; read aloud, a character
+// takes a little over half as long as an English word
+const CJK_CHARACTER = /[\u3040-\u30ff\u3400-\u9fff\uf900-\ufaff]/g;
+const CJK_PUNCTUATION = /[\u3000-\u303f\uff00-\uff0f\uff1a-\uff20]/g;
+const WORDS_PER_CJK_CHARACTER = 0.6;
+
+function countWords(text: string) {
+  const characters = text.match(CJK_CHARACTER)?.length ?? 0;
+  const words = text.replace(CJK_CHARACTER, " ").replace(CJK_PUNCTUATION, " ").split(/\s+/).filter(Boolean).length;
+  return words + Math.round(characters * WORDS_PER_CJK_CHARACTER);
+}
+
+/**
+ * Write a speech for the AI opponent in the given slot, answering everything
+ * said in the round so far.
+ */
+export async function writeAISpeech({
+  format,
+  motion,
+  slot,
+  previousSpeeches,
+  language,
+}: {
+  format: DebateFormat;
+  motion: DebateMotion | null | undefined;
+  slot: SpeakingSlot;
+  previousSpeeches: Array<{ speakerRole: string; transcript: string | null }>;
+  language?: string;
+}): Promise<string> {
+  const team = format.teams.find(t => t.id === slot.team);
+  const side = getTeamSide(slot.team, format);
+  const targetWords = Math.round((slot.time / 60) * WORDS_PER_MINUTE * 0.9);
+  const transcript = previousSpeeches
+    .filter(s => s.transcript)
+    .map(s => `[${getRoleLabel(format, s.speakerRole)}]: ${s.transcript}`)
+    .join("\n\n");
+
+  const response = await invokeLLM({
+    task: "speech",
+    messages: [
+      {
+        role: "system",
+        content: `You are a skilled competitive debater speaking as ${slot.label} for ${team?.label ?? slot.team} (${side === "proposition" ? "for" : "against"} the motion) in a ${format.name} debate.
+
+Write the speech exactly as you would deliver it, about ${targetWords} words. It will be read aloud, so use plain spoken prose: no headings, bullet points, markdown or stage directions.
+${slot.type === "reply"
+  ? "This is a reply speech: do not introduce new arguments. Identify the key clashes and explain why your side won each of them."
+  : "Fulfil what this position is expected to do in the format. Respond directly to the strongest points made against your side so far, then build your own case."}${languageInstruction(language)}`
+      },
+      {
+        role: "user",
+        content: `Motion: ${motion?.motion || "Unknown"}\n\n${transcript ? `Transcript so far:\n${transcript}` : "You are the first speaker of the round."}`
+      }
+    ],
+  });
+
+  const content = response.choices[0]?.message?.content;
+  if (!content || typeof content !== "string") {
+    throw new Error("Failed to write AI speech");
+  }
+  return content.trim();
+}
+
+async function createAISpeech(room: DebateRoom, format: DebateFormat, slot: SpeakingSlot) {
+  const speeches = await db.getRoomSpeeches(room.id);
+  // Already given (e.g. another client asked first): hand back the same speech
+  const existing = speeches.find(s => s.speakerRole === slot.role && s.participantId === null);
+  if (existing) {
+    return { speechId: existing.id, transcript: existing.transcript ?? "" };
+  }
+
+  const motion = room.motionId ? await db.getMotionById(room.motionId) : null;
+  const transcript = await writeAISpeech({ format, motion, slot, previousSpeeches: speeches, language: getRoomLanguage(room) });
+
+  const duration = Math.min(slot.time, Math.round((countWords(transcript) / WORDS_PER_MINUTE) * 60));
+  const startedAt = new Date();
+  const speechId = await db.createSpeech({
+    roomId: room.id,
+    participantId: null,
+    speakerRole: slot.role,
+    speechType: slot.type,
+    transcript,
+    duration,
+    startedAt,
+    endedAt: new Date(startedAt.getTime() + duration * 1000),
+  });
+
+  // One transcript segment per paragraph, timed by where it falls in the speech
+  let latestSeq = await db.getLatestTranscriptSequence(room.id);
+  let wordsSoFar = 0;
+  for (const paragraph of transcript.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean)) {
+    const segment = {
+      roomId: room.id,
+      speechId,
+      speakerRole: slot.role,
+      speakerName: AI_SPEAKER_NAME,
+      poiId: null,
+      text: paragraph,
+      timestamp: Math.round((wordsSoFar / WORDS_PER_MINUTE) * 60),
+      timings: null,
+      sequenceNumber: ++latestSeq,
+    };
+    const segmentId = await db.createTranscriptSegment(segment);
+    publishRoomEvent(room.id, {
+      type: "transcript",
+      segment: { ...segment, id: segmentId, originalText: null, editedAt: null, createdAt: new Date() },
+    });
+    wordsSoFar += countWords(paragraph);
+  }
+
+  return { speechId, transcript };
+}
+
+/**
+ * Give the AI opponent's speech for a slot: written, stored in the room's
+ * speeches and pushed to the live transcript. Asking again for a slot the AI
+ * already spoke in returns the stored speech.
+ */
+export async function giveAISpeech(room: DebateRoom, format: DebateFormat, slot: SpeakingSlot) {
+  const key = `${room.id}:${slot.role}`;
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const promise = createAISpeech(room, format, slot).finally(() => inFlight.delete(key));
+  inFlight.set(key, promise);
+  return promise;
+}
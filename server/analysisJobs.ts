@@ -0,0 +1,214 @@
+import { TRPCError } from "@trpc/server";
+import * as db from "./db";
+import { generateArgumentMap, generateRoomFeedback } from "./roomAnalysis";
+import { publishRoomEvent } from "./roomEvents";
+import { getRoomFormat } from "./roomFormat";
+import { detectRoomReplyViolations } from "./ruleViolations";
+import type { AnalysisJob } from "../drizzle/schema";
+
+// A persistent queue for the argument map and feedback, which take long LLM
+// calls and write many rows. Jobs survive a refresh or a restart, are retried
+// with backoff and run one at a time, oldest first, so a room's map is ready
+// before its feedback is written.
+
+export type AnalysisJobKind = AnalysisJob["kind"];
+
+// How often the worker looks for due jobs when nothing has woken it
+const POLL_INTERVAL_MS = 5000;
+// Retries wait 30s, then a minute, doubling each time
+const RETRY_BASE_DELAY_MS = 30_000;
+// When a round ends its last speech may still be being transcribed
+const ROUND_END_DELAY_MS = 20_000;
+// A job running this long was cut off, e.g. by its server restarting
+const STALE_JOB_MS = 30 * 60 * 1000;
+
+let working = false;
+
+/**
+ * The idempotency key for a room's map or feedback. It stays the same until
+ * the transcript changes, so a double click or a second tab gets the job
+ * already queued, while regenerating after a correction queues a new one.
+ */
+export async function getAnalysisJobKey(roomId: number, kind: AnalysisJobKind) {
+  const segments = await db.getRoomTranscriptSegments(roomId);
+  const lastEdit = segments.reduce((latest, s) => Math.max(latest, s.editedAt?.getTime() ?? 0), 0);
+  return `room:${roomId}:${kind}:${segments.length}:${lastEdit}`;
+}
+
+/**
+ * Queue a room's argument map or feedback, or return the job already queued
+ * for it, or running or done on the same transcript. Asking again for work
+ * that failed starts it over.
+ */
+export async function enqueueAnalysisJob({
+  roomId,
+  kind,
+  requestedById = null,
+  delayMs = 0,
+}: {
+  roomId: number;
+  kind: AnalysisJobKind;
+  requestedById?: number | null;
+  delayMs?: number;
+}): Promise<AnalysisJob> {
+  // A queued job reads the transcript when it runs, so it covers whatever has
+  // changed since it was keyed. A running one has already read it, and is
+  // only reused below when its key still matches.
+  const queued = (await db.getRoomAnalysisJobs(roomId)).find(
+    j => j.kind === kind && j.status === "queued"
+  );
+  if (queued) return queued;
+
+  const idempotencyKey = await getAnalysisJobKey(roomId, kind);
+  const existing = await db.getAnalysisJobByKey(idempotencyKey);
+  if (existing && existing.status !== "failed") return existing;
+
+  let jobId: number;
+  if (existing) {
+    jobId = existing.id;
+    await db.updateAnalysisJob(jobId, {
+      status: "queued",
+      attempts: 0,
+      progress: 0,
+      step: null,
+      error: null,
+      requestedById,
+      runAfter: new Date(Date.now() + delayMs),
+      completedAt: null,
+    });
+  } else {
+    try {
+      jobId = await db.createAnalysisJob({
+        roomId,
+        kind,
+        idempotencyKey,
+        requestedById,
+        runAfter: new Date(Date.now() + delayMs),
+      });
+    } catch (error) {
+      // A simultaneous request for the same work got there first
+      const raced = await db.getAnalysisJobByKey(idempotencyKey);
+      if (raced) return raced;
+      throw error;
+    }
+  }
+
+  publishRoomEvent(roomId, { type: "job", kind, status: "queued", progress: 0 });
+  wakeAnalysisWorker();
+
+  const job = await db.getAnalysisJobById(jobId);
+  if (!job) {
+    throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Failed to queue the job" });
+  }
+  return job;
+}
+
+/**
+ * Queue the argument map and feedback for a round that has just ended,
+ * unless nothing was said in it. By default they wait a little for the last
+ * speech's transcript.
+ */
+export async function enqueueRoundEndAnalysis(roomId: number, delayMs = ROUND_END_DELAY_MS) {
+  const speeches = await db.getRoomSpeeches(roomId);
+  if (speeches.length === 0) return;
+
+  await enqueueAnalysisJob({ roomId, kind: "mindmap", delayMs });
+  await enqueueAnalysisJob({ roomId, kind: "feedback", delayMs });
+}
+
+/** The latest job of each kind for a room, or null where there's been none. */
+export async function getRoomAnalysisJobs(roomId: number) {
+  const jobs = await db.getRoomAnalysisJobs(roomId);
+  return {
+    mindmap: jobs.find(j => j.kind === "mindmap") ?? null,
+    feedback: jobs.find(j => j.kind === "feedback") ?? null,
+  };
+}
+
+// Run one claimed job, recording its progress and telling the room as it
+// moves on. Failures are retried with backoff until the job's attempts run out.
+async function runAnalysisJob(job: AnalysisJob) {
+  const attempts = job.attempts + 1; // counted when the job was claimed
+  const reportProgress = async (progress: number, step: string) => {
+    await db.updateAnalysisJob(job.id, { progress, step });
+    publishRoomEvent(job.roomId, { type: "job", kind: job.kind, status: "running", progress });
+  };
+
+  try {
+    await reportProgress(0, "Starting");
+    const room = await db.getDebateRoomById(job.roomId);
+    const format = await getRoomFormat(room);
+    const target = { roomId: job.roomId, room, format, onProgress: reportProgress };
+    if (job.kind === "mindmap") {
+      await generateArgumentMap(target);
+      // The reply check compares against the map, so it follows it
+      await detectRoomReplyViolations(job.roomId, format).catch(error => {
+        console.error("[Violations] Reply check failed:", error);
+      });
+    } else {
+      await generateRoomFeedback(target);
+    }
+
+    await db.updateAnalysisJob(job.id, {
+      status: "completed",
+      progress: 100,
+      step: null,
+      error: null,
+      completedAt: new Date(),
+    });
+    publishRoomEvent(job.roomId, { type: "job", kind: job.kind, status: "completed", progress: 100 });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    // A bad request (say a round with no speeches) fails the same way every time
+    const permanent = error instanceof TRPCError && error.code === "BAD_REQUEST";
+
+    if (!permanent && attempts < job.maxAttempts) {
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (attempts - 1);
+      console.warn(`[AnalysisJobs] ${job.kind} job ${job.id} failed (${message}), retrying in ${delay / 1000}s`);
+      await db.updateAnalysisJob(job.id, {
+        status: "queued",
+        progress: 0,
+        step: null,
+        error: message,
+        runAfter: new Date(Date.now() + delay),
+      });
+      publishRoomEvent(job.roomId, { type: "job", kind: job.kind, status: "queued", progress: 0 });
+    } else {
+      console.error(`[AnalysisJobs] ${job.kind} job ${job.id} failed:`, error);
+      await db.updateAnalysisJob(job.id, { status: "failed", error: message, completedAt: new Date() });
+      publishRoomEvent(job.roomId, { type: "job", kind: job.kind, status: "failed", progress: 0 });
+    }
+  }
+}
+
+/** Run due jobs one at a time until none are left. */
+export async function processAnalysisJobs() {
+  // Already at it; the running loop picks up whatever has just been queued
+  if (working) return;
+  working = true;
+  try {
+    await db.requeueStaleAnalysisJobs(new Date(Date.now() - STALE_JOB_MS));
+    for (let job = await db.getNextAnalysisJob(); job; job = await db.getNextAnalysisJob()) {
+      if (await db.claimAnalysisJob(job.id)) {
+        await runAnalysisJob(job);
+      }
+    }
+  } finally {
+    working = false;
+  }
+}
+
+export function wakeAnalysisWorker() {
+  processAnalysisJobs().catch(error => {
+    console.error("[AnalysisJobs] Worker failed:", error);
+  });
+}
+
+/**
+ * Start working through the queue, checking for due jobs (including retries
+ * whose wait is over, and jobs cut off part way through) every few seconds.
+ */
+export function startAnalysisWorker() {
+  setInterval(wakeAnalysisWorker, POLL_INTERVAL_MS).unref();
+  wakeAnalysisWorker();
+}
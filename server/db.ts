@@ -1,4 +1,4 @@
-import { eq, and, desc, sql } from "drizzle-orm";
+import { eq, and, or, asc, desc, lte, sql, inArray } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
 import { 
   InsertUser, users, 
@@ -10,7 +10,19 @@ import {
   argumentNodes, InsertArgumentNode,
   debateFeedback, InsertDebateFeedback,
   ruleViolations, InsertRuleViolation,
-  transcriptSegments, InsertTranscriptSegment
+  transcriptSegments, InsertTranscriptSegment,
+  transcriptEdits, InsertTranscriptEdit,
+  transcriptTranslations, InsertTranscriptTranslation,
+  roundRecordings, InsertRoundRecording,
+  debateImports, InsertDebateImport,
+  analysisJobs, InsertAnalysisJob,
+  customFormats, InsertCustomFormat,
+  glossaryTerms, InsertGlossaryTerm,
+  roomNotes, InsertRoomNote,
+  adjudicatorBallots, InsertAdjudicatorBallot,
+  speechScores, InsertSpeechScore,
+  speechDelivery, InsertSpeechDelivery,
+  prepNotes, InsertPrepNote
 } from "../drizzle/schema";
 import { ENV } from './_core/env';
 
@@ -113,6 +125,7 @@ export async function updateUserProfile(userId: number, profile: {
   topicalInterests?: string[];
   background?: string;
   name?: string;
+  club?: string | null;
 }) {
   const db = await getDb();
   if (!db) return;
@@ -198,6 +211,81 @@ export async function getUserDebateHistory(userId: number) {
   return rooms;
 }
 
+// ============ CUSTOM FORMAT OPERATIONS ============
+
+export async function createCustomFormat(format: InsertCustomFormat) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.insert(customFormats).values(format);
+  return result[0].insertId;
+}
+
+export async function getCustomFormatById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(customFormats).where(eq(customFormats.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+// Formats the user created plus any shared with their club
+export async function getCustomFormatsForUser(userId: number, club: string | null) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  const visibility = club
+    ? or(eq(customFormats.creatorId, userId), eq(customFormats.clubName, club))
+    : eq(customFormats.creatorId, userId);
+  
+  return await db.select()
+    .from(customFormats)
+    .where(visibility)
+    .orderBy(desc(customFormats.createdAt));
+}
+
+export async function deleteCustomFormat(id: number) {
+  const db = await getDb();
+  if (!db) return;
+  
+  await db.delete(customFormats).where(eq(customFormats.id, id));
+}
+
+// ============ GLOSSARY OPERATIONS ============
+
+export async function addGlossaryTerm(term: InsertGlossaryTerm) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.insert(glossaryTerms).values(term);
+  return result[0].insertId;
+}
+
+export async function getGlossaryTermById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(glossaryTerms).where(eq(glossaryTerms.id, id)).limit(1);
+  return result[0];
+}
+
+export async function getClubGlossary(clubName: string) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return await db.select()
+    .from(glossaryTerms)
+    .where(eq(glossaryTerms.clubName, clubName))
+    .orderBy(glossaryTerms.term);
+}
+
+export async function deleteGlossaryTerm(id: number) {
+  const db = await getDb();
+  if (!db) return;
+  
+  await db.delete(glossaryTerms).where(eq(glossaryTerms.id, id));
+}
+
 // ============ PARTICIPANT OPERATIONS ============
 
 export async function addParticipant(participant: InsertDebateParticipant) {
@@ -333,6 +421,14 @@ export async function updatePOI(poiId: number, updates: Partial<InsertPointOfInf
   await db.update(pointsOfInformation).set(updates).where(eq(pointsOfInformation.id, poiId));
 }
 
+export async function getPOIById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(pointsOfInformation).where(eq(pointsOfInformation.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
 export async function getSpeechPOIs(speechId: number) {
   const db = await getDb();
   if (!db) return [];
@@ -362,6 +458,14 @@ export async function getRoomArgumentNodes(roomId: number) {
     .orderBy(argumentNodes.createdAt);
 }
 
+export async function deleteRoomArgumentNodes(roomId: number) {
+  const db = await getDb();
+  if (!db) return;
+  
+  await db.delete(argumentNodes)
+    .where(eq(argumentNodes.roomId, roomId));
+}
+
 export async function updateArgumentNode(nodeId: number, updates: Partial<InsertArgumentNode>) {
   const db = await getDb();
   if (!db) return;
@@ -379,6 +483,14 @@ export async function createFeedback(feedback: InsertDebateFeedback) {
   return result[0].insertId;
 }
 
+export async function deleteRoomFeedback(roomId: number) {
+  const db = await getDb();
+  if (!db) return;
+  
+  await db.delete(debateFeedback)
+    .where(eq(debateFeedback.roomId, roomId));
+}
+
 export async function getRoomFeedback(roomId: number) {
   const db = await getDb();
   if (!db) return [];
@@ -471,3 +583,423 @@ export async function deleteRoomTranscriptSegments(roomId: number) {
   await db.delete(transcriptSegments)
     .where(eq(transcriptSegments.roomId, roomId));
 }
+
+export async function getTranscriptSegmentById(segmentId: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select()
+    .from(transcriptSegments)
+    .where(eq(transcriptSegments.id, segmentId))
+    .limit(1);
+  
+  return result[0];
+}
+
+export async function updateTranscriptSegment(segmentId: number, updates: Partial<InsertTranscriptSegment>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  await db.update(transcriptSegments)
+    .set(updates)
+    .where(eq(transcriptSegments.id, segmentId));
+}
+
+// ============ TRANSCRIPT EDIT OPERATIONS ============
+
+export async function createTranscriptEdit(edit: InsertTranscriptEdit) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.insert(transcriptEdits).values(edit);
+  return result[0].insertId;
+}
+
+// A segment's corrections with who made them, oldest first
+export async function getTranscriptEdits(segmentId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return await db.select({
+    edit: transcriptEdits,
+    editorName: users.name,
+  })
+    .from(transcriptEdits)
+    .leftJoin(users, eq(transcriptEdits.userId, users.id))
+    .where(eq(transcriptEdits.segmentId, segmentId))
+    .orderBy(transcriptEdits.createdAt, transcriptEdits.id);
+}
+
+export async function deleteSpeechTranscriptSegments(speechId: number) {
+  const db = await getDb();
+  if (!db) return;
+  
+  await db.delete(transcriptSegments)
+    .where(eq(transcriptSegments.speechId, speechId));
+}
+
+// ============ TRANSCRIPT TRANSLATION OPERATIONS ============
+
+export async function getRoomTranscriptTranslations(roomId: number, language: string) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return await db.select()
+    .from(transcriptTranslations)
+    .where(and(
+      eq(transcriptTranslations.roomId, roomId),
+      eq(transcriptTranslations.language, language)
+    ));
+}
+
+// Saving a segment's translation again replaces the one made before it was corrected
+export async function saveTranscriptTranslations(language: string, rows: InsertTranscriptTranslation[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (rows.length === 0) return;
+  
+  await db.delete(transcriptTranslations).where(and(
+    eq(transcriptTranslations.language, language),
+    inArray(transcriptTranslations.segmentId, rows.map(row => row.segmentId))
+  ));
+  await db.insert(transcriptTranslations).values(rows);
+}
+
+// ============ ROUND RECORDING OPERATIONS ============
+
+export async function createRoundRecording(recording: InsertRoundRecording) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.insert(roundRecordings).values(recording);
+  return result[0].insertId;
+}
+
+export async function updateRoundRecording(id: number, updates: Partial<InsertRoundRecording>) {
+  const db = await getDb();
+  if (!db) return;
+  
+  await db.update(roundRecordings).set(updates).where(eq(roundRecordings.id, id));
+}
+
+export async function getLatestRoundRecording(roomId: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select()
+    .from(roundRecordings)
+    .where(eq(roundRecordings.roomId, roomId))
+    .orderBy(desc(roundRecordings.createdAt), desc(roundRecordings.id))
+    .limit(1);
+  return result[0];
+}
+
+// ============ DEBATE IMPORT OPERATIONS ============
+
+export async function createDebateImport(debateImport: InsertDebateImport) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.insert(debateImports).values(debateImport);
+  return result[0].insertId;
+}
+
+export async function updateDebateImport(id: number, updates: Partial<InsertDebateImport>) {
+  const db = await getDb();
+  if (!db) return;
+  
+  await db.update(debateImports).set(updates).where(eq(debateImports.id, id));
+}
+
+export async function getRoomDebateImport(roomId: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select()
+    .from(debateImports)
+    .where(eq(debateImports.roomId, roomId))
+    .limit(1);
+  return result[0];
+}
+
+// ============ ANALYSIS JOB OPERATIONS ============
+
+export async function createAnalysisJob(job: InsertAnalysisJob) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.insert(analysisJobs).values(job);
+  return result[0].insertId;
+}
+
+export async function updateAnalysisJob(id: number, updates: Partial<InsertAnalysisJob>) {
+  const db = await getDb();
+  if (!db) return;
+  
+  await db.update(analysisJobs).set(updates).where(eq(analysisJobs.id, id));
+}
+
+export async function getAnalysisJobById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(analysisJobs).where(eq(analysisJobs.id, id)).limit(1);
+  return result[0];
+}
+
+export async function getAnalysisJobByKey(idempotencyKey: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select()
+    .from(analysisJobs)
+    .where(eq(analysisJobs.idempotencyKey, idempotencyKey))
+    .limit(1);
+  return result[0];
+}
+
+// Newest first
+export async function getRoomAnalysisJobs(roomId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return await db.select()
+    .from(analysisJobs)
+    .where(eq(analysisJobs.roomId, roomId))
+    .orderBy(desc(analysisJobs.id));
+}
+
+// The oldest queued job that's due, whether new or waiting to be retried
+export async function getNextAnalysisJob() {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select()
+    .from(analysisJobs)
+    .where(and(eq(analysisJobs.status, "queued"), lte(analysisJobs.runAfter, new Date())))
+    .orderBy(asc(analysisJobs.id))
+    .limit(1);
+  return result[0];
+}
+
+// Take a queued job for running; false if another worker got there first
+export async function claimAnalysisJob(id: number) {
+  const db = await getDb();
+  if (!db) return false;
+  
+  const result = await db.update(analysisJobs)
+    .set({
+      status: "running",
+      attempts: sql`${analysisJobs.attempts} + 1`,
+      progress: 0,
+      step: null,
+      startedAt: new Date(),
+    })
+    .where(and(eq(analysisJobs.id, id), eq(analysisJobs.status, "queued")));
+  return result[0].affectedRows > 0;
+}
+
+// Jobs still running since before startedBefore were cut off part way through
+// (say by their server stopping) and go back in the queue
+export async function requeueStaleAnalysisJobs(startedBefore: Date) {
+  const db = await getDb();
+  if (!db) return;
+  
+  await db.update(analysisJobs)
+    .set({ status: "queued", runAfter: new Date() })
+    .where(and(eq(analysisJobs.status, "running"), lte(analysisJobs.startedAt, startedBefore)));
+}
+
+// ============ ROOM NOTE OPERATIONS ============
+
+export async function createRoomNote(note: InsertRoomNote) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.insert(roomNotes).values(note);
+  return result[0].insertId;
+}
+
+export async function getRoomNotesForUser(roomId: number, userId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return await db.select()
+    .from(roomNotes)
+    .where(and(
+      eq(roomNotes.roomId, roomId),
+      eq(roomNotes.userId, userId)
+    ))
+    .orderBy(roomNotes.createdAt);
+}
+
+export async function deleteRoomNote(id: number, userId: number) {
+  const db = await getDb();
+  if (!db) return;
+  
+  await db.delete(roomNotes)
+    .where(and(
+      eq(roomNotes.id, id),
+      eq(roomNotes.userId, userId)
+    ));
+}
+
+// ============ BALLOT OPERATIONS ============
+
+// One ballot per adjudicator: resubmitting replaces the earlier ballot
+export async function upsertAdjudicatorBallot(ballot: InsertAdjudicatorBallot) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const existing = await db.select({ id: adjudicatorBallots.id })
+    .from(adjudicatorBallots)
+    .where(and(
+      eq(adjudicatorBallots.roomId, ballot.roomId),
+      eq(adjudicatorBallots.participantId, ballot.participantId)
+    ))
+    .limit(1);
+  
+  if (existing.length > 0) {
+    await db.update(adjudicatorBallots).set(ballot).where(eq(adjudicatorBallots.id, existing[0].id));
+    return existing[0].id;
+  }
+  
+  const result = await db.insert(adjudicatorBallots).values(ballot);
+  return result[0].insertId;
+}
+
+export async function getRoomBallots(roomId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return await db.select()
+    .from(adjudicatorBallots)
+    .where(eq(adjudicatorBallots.roomId, roomId))
+    .orderBy(adjudicatorBallots.createdAt);
+}
+
+// ============ SPEECH SCORE OPERATIONS ============
+
+// Scoring a room again replaces its previous scores
+export async function replaceRoomSpeechScores(roomId: number, scores: InsertSpeechScore[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  await db.delete(speechScores).where(eq(speechScores.roomId, roomId));
+  if (scores.length > 0) {
+    await db.insert(speechScores).values(scores);
+  }
+}
+
+export async function getRoomSpeechScores(roomId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return await db.select()
+    .from(speechScores)
+    .where(eq(speechScores.roomId, roomId))
+    .orderBy(speechScores.speechId);
+}
+
+// A user's scored speeches across all their debates, newest first
+export async function getUserSpeechScores(userId: number, limit = 50) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return await db.select({
+    score: speechScores,
+    roomCode: debateRooms.roomCode,
+    format: debateRooms.format,
+  })
+    .from(speechScores)
+    .innerJoin(debateParticipants, eq(speechScores.participantId, debateParticipants.id))
+    .innerJoin(debateRooms, eq(speechScores.roomId, debateRooms.id))
+    .where(eq(debateParticipants.userId, userId))
+    .orderBy(desc(speechScores.createdAt))
+    .limit(limit);
+}
+
+// ============ DELIVERY ANALYTICS OPERATIONS ============
+
+export async function replaceRoomSpeechDelivery(roomId: number, rows: InsertSpeechDelivery[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  await db.delete(speechDelivery).where(eq(speechDelivery.roomId, roomId));
+  if (rows.length > 0) {
+    await db.insert(speechDelivery).values(rows);
+  }
+}
+
+export async function getRoomSpeechDelivery(roomId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return await db.select()
+    .from(speechDelivery)
+    .where(eq(speechDelivery.roomId, roomId))
+    .orderBy(speechDelivery.speechId);
+}
+
+// A user's analysed speeches across all their debates, newest first
+export async function getUserSpeechDelivery(userId: number, limit = 50) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return await db.select({
+    delivery: speechDelivery,
+    roomCode: debateRooms.roomCode,
+    format: debateRooms.format,
+  })
+    .from(speechDelivery)
+    .innerJoin(debateParticipants, eq(speechDelivery.participantId, debateParticipants.id))
+    .innerJoin(debateRooms, eq(speechDelivery.roomId, debateRooms.id))
+    .where(eq(debateParticipants.userId, userId))
+    .orderBy(desc(speechDelivery.createdAt))
+    .limit(limit);
+}
+
+// ============ PREP NOTE OPERATIONS ============
+
+export async function createPrepNote(note: InsertPrepNote) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.insert(prepNotes).values(note);
+  return result[0].insertId;
+}
+
+export async function getTeamPrepNotes(roomId: number, team: string) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return await db.select()
+    .from(prepNotes)
+    .where(and(
+      eq(prepNotes.roomId, roomId),
+      eq(prepNotes.team, team)
+    ))
+    .orderBy(prepNotes.createdAt);
+}
+
+export async function getRoomPrepNotes(roomId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return await db.select()
+    .from(prepNotes)
+    .where(eq(prepNotes.roomId, roomId))
+    .orderBy(prepNotes.team, prepNotes.createdAt);
+}
+
+export async function deletePrepNote(id: number, roomId: number, team: string) {
+  const db = await getDb();
+  if (!db) return;
+  
+  await db.delete(prepNotes)
+    .where(and(
+      eq(prepNotes.id, id),
+      eq(prepNotes.roomId, roomId),
+      eq(prepNotes.team, team)
+    ));
+}
@@ -23,10 +23,67 @@ vi.mock("./db", () => ({
   updateSpeech: vi.fn().mockResolvedValue(undefined),
   getSpeechesByRoom: vi.fn().mockResolvedValue([]),
   createPOI: vi.fn().mockResolvedValue(1),
+  getPOIById: vi.fn(),
+  updatePOI: vi.fn().mockResolvedValue(undefined),
+  getSpeechPOIs: vi.fn().mockResolvedValue([]),
   createFeedback: vi.fn().mockResolvedValue(1),
   getFeedbackByRoom: vi.fn().mockResolvedValue([]),
   createArgumentNode: vi.fn().mockResolvedValue(1),
   getArgumentNodesByRoom: vi.fn().mockResolvedValue([]),
+  getRoomSpeeches: vi.fn().mockResolvedValue([]),
+  getRoomArgumentNodes: vi.fn().mockResolvedValue([]),
+  incrementUserDebates: vi.fn().mockResolvedValue(undefined),
+  createCustomFormat: vi.fn().mockResolvedValue(1),
+  getCustomFormatById: vi.fn(),
+  getCustomFormatsForUser: vi.fn().mockResolvedValue([]),
+  deleteCustomFormat: vi.fn().mockResolvedValue(undefined),
+  getSpeechById: vi.fn(),
+  createRuleViolation: vi.fn().mockResolvedValue(1),
+  getRoomViolations: vi.fn().mockResolvedValue([]),
+  getRoomTranscriptSegments: vi.fn().mockResolvedValue([]),
+  getLatestTranscriptSequence: vi.fn().mockResolvedValue(0),
+  createTranscriptSegment: vi.fn().mockResolvedValue(1),
+  getTranscriptSegmentById: vi.fn(),
+  updateTranscriptSegment: vi.fn().mockResolvedValue(undefined),
+  createTranscriptEdit: vi.fn().mockResolvedValue(1),
+  getTranscriptEdits: vi.fn().mockResolvedValue([]),
+  getRoomTranscriptTranslations: vi.fn().mockResolvedValue([]),
+  saveTranscriptTranslations: vi.fn().mockResolvedValue(undefined),
+  getClubGlossary: vi.fn().mockResolvedValue([]),
+  addGlossaryTerm: vi.fn().mockResolvedValue(1),
+  getGlossaryTermById: vi.fn(),
+  deleteGlossaryTerm: vi.fn().mockResolvedValue(undefined),
+  deleteRoomArgumentNodes: vi.fn().mockResolvedValue(undefined),
+  deleteRoomFeedback: vi.fn().mockResolvedValue(undefined),
+  createRoomNote: vi.fn().mockResolvedValue(1),
+  getRoomNotesForUser: vi.fn().mockResolvedValue([]),
+  deleteRoomNote: vi.fn().mockResolvedValue(undefined),
+  upsertAdjudicatorBallot: vi.fn().mockResolvedValue(1),
+  getRoomBallots: vi.fn().mockResolvedValue([]),
+  getRoomFeedback: vi.fn().mockResolvedValue([]),
+  replaceRoomSpeechScores: vi.fn().mockResolvedValue(undefined),
+  getRoomSpeechScores: vi.fn().mockResolvedValue([]),
+  getUserSpeechScores: vi.fn().mockResolvedValue([]),
+  replaceRoomSpeechDelivery: vi.fn().mockResolvedValue(undefined),
+  getRoomSpeechDelivery: vi.fn().mockResolvedValue([]),
+  getUserSpeechDelivery: vi.fn().mockResolvedValue([]),
+  createRoundRecording: vi.fn().mockResolvedValue(1),
+  createDebateImport: vi.fn().mockResolvedValue(1),
+  updateDebateImport: vi.fn().mockResolvedValue(undefined),
+  getRoomDebateImport: vi.fn(),
+  createAnalysisJob: vi.fn().mockResolvedValue(1),
+  updateAnalysisJob: vi.fn().mockResolvedValue(undefined),
+  getAnalysisJobById: vi.fn(),
+  getAnalysisJobByKey: vi.fn(),
+  getRoomAnalysisJobs: vi.fn().mockResolvedValue([]),
+  getNextAnalysisJob: vi.fn(),
+  claimAnalysisJob: vi.fn().mockResolvedValue(true),
+  requeueStaleAnalysisJobs: vi.fn().mockResolvedValue(undefined),
+  getLatestRoundRecording: vi.fn(),
+  createPrepNote: vi.fn().mockResolvedValue(1),
+  getTeamPrepNotes: vi.fn().mockResolvedValue([]),
+  getRoomPrepNotes: vi.fn().mockResolvedValue([]),
+  deletePrepNote: vi.fn().mockResolvedValue(undefined),
 }));
 
 // Mock LLM
@@ -44,6 +101,25 @@ vi.mock("./_core/llm", () => ({
   })
 }));
 
+// Mock file storage
+vi.mock("./storage", () => ({
+  storagePut: vi.fn(async (key: string) => ({ key, url: `https://storage.test/${key}` })),
+}));
+
+vi.mock("./transcription", () => ({
+  transcribeForRoom: vi.fn(),
+  getDefaultTranscriptionProvider: vi.fn(() => "forge"),
+}));
+
+vi.mock("./roundRecording", () => ({
+  runRoundRecording: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock("./debateImport", async (importOriginal) => ({
+  ...await importOriginal<typeof import("./debateImport")>(),
+  runDebateImport: vi.fn().mockResolvedValue(undefined),
+}));
+
 type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
 
 function createAuthContext(overrides?: Partial<AuthenticatedUser>): TrpcContext {
@@ -85,6 +161,60 @@ function createUnauthContext(): TrpcContext {
   };
 }
 
+const secondsAgo = (seconds: number) => new Date(Date.now() - seconds * 1000);
+
+// The government's opening speaker, holding the floor in most live-round tests
+const prime = { id: 1, roomId: 1, userId: 1, role: "debater" as const, team: "government", speakerRole: "prime_minister", adjudicatorPosition: null, isReady: true, joinedAt: new Date() };
+
+// Another government debater, by participant and user id
+const debater = (id: number) => ({ ...prime, id, userId: id });
+
+// A participant in any role, by participant and user id
+const member = (userId: number, role: string, extra: Record<string, unknown> = {}) => ({
+  id: userId, roomId: 1, userId, role, team: null, speakerRole: null, adjudicatorPosition: null, isReady: false, joinedAt: new Date(), ...extra,
+});
+
+// A transcript segment of the Prime Minister's speech (7), numbered in order
+const segmentCreatedAt = new Date();
+const segment = (id: number, text = `Segment ${id}`, overrides: Record<string, unknown> = {}) => ({
+  id,
+  roomId: 1,
+  speechId: 7,
+  speakerRole: "prime_minister",
+  speakerName: "Test User",
+  poiId: null,
+  text,
+  timestamp: id * 10,
+  timings: null,
+  originalText: null,
+  editedAt: null,
+  sequenceNumber: id,
+  createdAt: segmentCreatedAt,
+  ...overrides,
+});
+
+// An Asian Parliamentary round that has finished, awaiting its results
+const apRoom = {
+  id: 1,
+  roomCode: "BAL123",
+  creatorId: 9,
+  format: "asian_parliamentary" as const,
+  customFormatId: null,
+  aiOpponent: false,
+  status: "completed" as const,
+  currentPhase: "feedback" as const,
+  currentSpeakerIndex: 7,
+  motionId: 1,
+  currentSpeechId: null,
+  clockStartedAt: null,
+  clockPausedAt: null,
+  clockPausedSeconds: 0,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  startedAt: new Date(),
+  endedAt: new Date(),
+};
+
 describe("auth router", () => {
   it("returns user for authenticated request", async () => {
     const ctx = createAuthContext();
@@ -423,8 +553,8 @@ describe("room start validation", () => {
     
     // 2 participants but not all ready
     vi.mocked(db.getRoomParticipants).mockResolvedValue([
-      { id: 1, roomId: 1, userId: 1, team: "government", speakerRole: "prime_minister", isReady: true, joinedAt: new Date() },
-      { id: 2, roomId: 1, userId: 2, team: "government", speakerRole: "deputy_prime_minister", isReady: false, joinedAt: new Date() }, // Not ready
+      { id: 1, roomId: 1, userId: 1, role: "debater", team: "government", speakerRole: "prime_minister", isReady: true, joinedAt: new Date() },
+      { id: 2, roomId: 1, userId: 2, role: "debater", team: "government", speakerRole: "deputy_prime_minister", isReady: false, joinedAt: new Date() }, // Not ready
     ]);
     
     await expect(caller.room.start({ roomId: 1 }))
@@ -453,7 +583,7 @@ describe("room start validation", () => {
     
     // At least 1 participant ready (early start allowed)
     vi.mocked(db.getRoomParticipants).mockResolvedValue([
-      { id: 1, roomId: 1, userId: 1, team: "government", speakerRole: "prime_minister", isReady: true, joinedAt: new Date() },
+      { id: 1, roomId: 1, userId: 1, role: "debater", team: "government", speakerRole: "prime_minister", isReady: true, joinedAt: new Date() },
     ]);
     
     const result = await caller.room.start({ roomId: 1 });
@@ -494,12 +624,12 @@ describe("speaker advancement", () => {
     
     // Mock participants - all 6 speakers present
     vi.mocked(db.getRoomParticipants).mockResolvedValue([
-      { id: 1, roomId: 1, userId: 1, team: "government", speakerRole: "prime_minister", isReady: true, joinedAt: new Date() },
-      { id: 2, roomId: 1, userId: 2, team: "opposition", speakerRole: "leader_of_opposition", isReady: true, joinedAt: new Date() },
-      { id: 3, roomId: 1, userId: 3, team: "government", speakerRole: "deputy_prime_minister", isReady: true, joinedAt: new Date() },
-      { id: 4, roomId: 1, userId: 4, team: "opposition", speakerRole: "deputy_leader_of_opposition", isReady: true, joinedAt: new Date() },
-      { id: 5, roomId: 1, userId: 5, team: "government", speakerRole: "government_whip", isReady: true, joinedAt: new Date() },
-      { id: 6, roomId: 1, userId: 6, team: "opposition", speakerRole: "opposition_whip", isReady: true, joinedAt: new Date() },
+      { id: 1, roomId: 1, userId: 1, role: "debater", team: "government", speakerRole: "prime_minister", isReady: true, joinedAt: new Date() },
+      { id: 2, roomId: 1, userId: 2, role: "debater", team: "opposition", speakerRole: "leader_of_opposition", isReady: true, joinedAt: new Date() },
+      { id: 3, roomId: 1, userId: 3, role: "debater", team: "government", speakerRole: "deputy_prime_minister", isReady: true, joinedAt: new Date() },
+      { id: 4, roomId: 1, userId: 4, role: "debater", team: "opposition", speakerRole: "deputy_leader_of_opposition", isReady: true, joinedAt: new Date() },
+      { id: 5, roomId: 1, userId: 5, role: "debater", team: "government", speakerRole: "government_whip", isReady: true, joinedAt: new Date() },
+      { id: 6, roomId: 1, userId: 6, role: "debater", team: "opposition", speakerRole: "opposition_whip", isReady: true, joinedAt: new Date() },
     ]);
     
     const result = await caller.room.advanceSpeaker({ roomId: 1 });
@@ -531,12 +661,12 @@ describe("speaker advancement", () => {
     
     // Mock participants - all 6 speakers present (reply speeches use PM and LO)
     vi.mocked(db.getRoomParticipants).mockResolvedValue([
-      { id: 1, roomId: 1, userId: 1, team: "government", speakerRole: "prime_minister", isReady: true, joinedAt: new Date() },
-      { id: 2, roomId: 1, userId: 2, team: "opposition", speakerRole: "leader_of_opposition", isReady: true, joinedAt: new Date() },
-      { id: 3, roomId: 1, userId: 3, team: "government", speakerRole: "deputy_prime_minister", isReady: true, joinedAt: new Date() },
-      { id: 4, roomId: 1, userId: 4, team: "opposition", speakerRole: "deputy_leader_of_opposition", isReady: true, joinedAt: new Date() },
-      { id: 5, roomId: 1, userId: 5, team: "government", speakerRole: "government_whip", isReady: true, joinedAt: new Date() },
-      { id: 6, roomId: 1, userId: 6, team: "opposition", speakerRole: "opposition_whip", isReady: true, joinedAt: new Date() },
+      { id: 1, roomId: 1, userId: 1, role: "debater", team: "government", speakerRole: "prime_minister", isReady: true, joinedAt: new Date() },
+      { id: 2, roomId: 1, userId: 2, role: "debater", team: "opposition", speakerRole: "leader_of_opposition", isReady: true, joinedAt: new Date() },
+      { id: 3, roomId: 1, userId: 3, role: "debater", team: "government", speakerRole: "deputy_prime_minister", isReady: true, joinedAt: new Date() },
+      { id: 4, roomId: 1, userId: 4, role: "debater", team: "opposition", speakerRole: "deputy_leader_of_opposition", isReady: true, joinedAt: new Date() },
+      { id: 5, roomId: 1, userId: 5, role: "debater", team: "government", speakerRole: "government_whip", isReady: true, joinedAt: new Date() },
+      { id: 6, roomId: 1, userId: 6, role: "debater", team: "opposition", speakerRole: "opposition_whip", isReady: true, joinedAt: new Date() },
     ]);
     
     const result = await caller.room.advanceSpeaker({ roomId: 1 });
@@ -549,3 +679,2311 @@ describe("speaker advancement", () => {
     }));
   });
 });
+
+describe("debate format registry", () => {
+  it("resolves unknown formats to Asian Parliamentary", async () => {
+    const { getDebateFormat, ASIAN_PARLIAMENTARY_FORMAT } = await import("@shared/debate");
+    
+    expect(getDebateFormat("asian_parliamentary")).toBe(ASIAN_PARLIAMENTARY_FORMAT);
+    expect(getDebateFormat("unknown_format")).toBe(ASIAN_PARLIAMENTARY_FORMAT);
+  });
+
+  it("skips empty positions and keeps replies for present first speakers", async () => {
+    const { ASIAN_PARLIAMENTARY_FORMAT, getActiveSpeakingOrder } = await import("@shared/debate");
+    
+    const order = getActiveSpeakingOrder(ASIAN_PARLIAMENTARY_FORMAT, ["prime_minister", "deputy_leader_of_opposition"]);
+    
+    expect(order.map(s => s.role)).toEqual(["prime_minister", "deputy_leader_of_opposition", "government_reply"]);
+  });
+
+  it("returns null when there is no next speaker", async () => {
+    const { ASIAN_PARLIAMENTARY_FORMAT, getNextSpeakerIndex } = await import("@shared/debate");
+    
+    expect(getNextSpeakerIndex(ASIAN_PARLIAMENTARY_FORMAT, 0, ["prime_minister"])).toBe(7);
+    expect(getNextSpeakerIndex(ASIAN_PARLIAMENTARY_FORMAT, 7, ["prime_minister"])).toBeNull();
+  });
+
+  it("validates team-role combinations from the format", async () => {
+    const { ASIAN_PARLIAMENTARY_FORMAT, isValidTeamRole } = await import("@shared/debate");
+    
+    expect(isValidTeamRole(ASIAN_PARLIAMENTARY_FORMAT, "government", "prime_minister")).toBe(true);
+    expect(isValidTeamRole(ASIAN_PARLIAMENTARY_FORMAT, "government", "opposition_whip")).toBe(false);
+  });
+});
+
+describe("british parliamentary format", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const bpRoom = {
+    id: 1,
+    roomCode: "BPR123",
+    creatorId: 1,
+    format: "british_parliamentary" as const,
+    status: "waiting" as const,
+    currentPhase: "setup" as const,
+    currentSpeakerIndex: 0,
+    motionId: 1,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    startedAt: null,
+    endedAt: null,
+  };
+
+  it("joins a closing team with a BP role", async () => {
+    const ctx = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+    const db = await import("./db");
+    
+    vi.mocked(db.getDebateRoomByCode).mockResolvedValue(bpRoom);
+    vi.mocked(db.getParticipantWithUser).mockResolvedValue(null);
+    vi.mocked(db.getRoomParticipants).mockResolvedValue([]);
+    
+    const result = await caller.room.join({
+      roomCode: "BPR123",
+      team: "closing_government",
+      speakerRole: "member_of_government",
+    });
+    
+    expect(result).toEqual({ success: true, roomId: 1 });
+    expect(db.addParticipant).toHaveBeenCalledWith(expect.objectContaining({
+      team: "closing_government",
+      speakerRole: "member_of_government",
+    }));
+  });
+
+  it("rejects Asian Parliamentary teams in a BP room", async () => {
+    const ctx = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+    const db = await import("./db");
+    
+    vi.mocked(db.getDebateRoomByCode).mockResolvedValue(bpRoom);
+    vi.mocked(db.getParticipantWithUser).mockResolvedValue(null);
+    vi.mocked(db.getRoomParticipants).mockResolvedValue([]);
+    
+    await expect(caller.room.join({
+      roomCode: "BPR123",
+      team: "government",
+      speakerRole: "prime_minister",
+    })).rejects.toThrow("Invalid team for British Parliamentary");
+  });
+
+  it("completes after the Opposition Whip with no reply speeches", async () => {
+    const ctx = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+    const db = await import("./db");
+    
+    vi.mocked(db.getDebateRoomById).mockResolvedValue({
+      ...bpRoom,
+      status: "in_progress",
+      currentPhase: "debate",
+      currentSpeakerIndex: 7,
+    });
+    vi.mocked(db.getRoomParticipants).mockResolvedValue([
+      { id: 1, roomId: 1, userId: 1, role: "debater", team: "opening_government", speakerRole: "prime_minister", isReady: true, joinedAt: new Date() },
+      { id: 2, roomId: 1, userId: 2, role: "debater", team: "closing_opposition", speakerRole: "opposition_whip", isReady: true, joinedAt: new Date() },
+    ]);
+    
+    const result = await caller.room.advanceSpeaker({ roomId: 1 });
+    
+    expect(result.completed).toBe(true);
+  });
+
+  it("stores a complete 1st-4th team ranking from feedback", async () => {
+    const db = await import("./db");
+    const { invokeLLM } = await import("./_core/llm");
+    
+    vi.mocked(db.getRoomParticipants).mockResolvedValue([]);
+    vi.mocked(invokeLLM).mockResolvedValueOnce({
+      id: "test",
+      created: 0,
+      model: "test",
+      choices: [{
+        index: 0,
+        finish_reason: "stop",
+        message: {
+          role: "assistant",
+          content: JSON.stringify({
+            overallAnalysis: "Close round",
+            suggestedWinner: "opening_government",
+            winningReason: "Best extension",
+            teamFeedback: [],
+            individualFeedback: [],
+            // Duplicate rank and a missing team should still produce a full ranking
+            teamRanking: [
+              { team: "closing_opposition", rank: 1, reason: "Best extension" },
+              { team: "opening_government", rank: 2, reason: "Strong setup" },
+              { team: "opening_opposition", rank: 2, reason: "Good rebuttal" },
+            ],
+          }),
+        },
+      }],
+    });
+    
+    const { generateRoomFeedback } = await import("./roomAnalysis");
+    const { getRoomFormat } = await import("./roomFormat");
+    await generateRoomFeedback({ roomId: 1, room: undefined, format: await getRoomFormat(bpRoom) });
+    
+    expect(db.createFeedback).toHaveBeenCalledWith(expect.objectContaining({
+      feedbackType: "overall",
+      suggestedWinner: "closing_opposition",
+      teamRankings: [
+        { team: "closing_opposition", rank: 1, reason: "Best extension" },
+        { team: "opening_government", rank: 2, reason: "Strong setup" },
+        { team: "opening_opposition", rank: 3, reason: "Good rebuttal" },
+        { team: "closing_government", rank: 4, reason: "" },
+      ],
+    }));
+  });
+});
+
+describe("world schools format", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const wsRoom = {
+    id: 1,
+    roomCode: "WSC123",
+    creatorId: 1,
+    format: "world_schools" as const,
+    status: "waiting" as const,
+    currentPhase: "setup" as const,
+    currentSpeakerIndex: 0,
+    motionId: 1,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    startedAt: null,
+    endedAt: null,
+  };
+
+  const wsMotion = (motionType: "prepared" | "impromptu", createdAt: Date) => ({
+    id: 1,
+    motion: "This House would abolish homework",
+    topicArea: "education" as const,
+    difficulty: "intermediate" as const,
+    motionType,
+    backgroundContext: null,
+    keyStakeholders: null,
+    isAiGenerated: true,
+    createdAt,
+  });
+
+  it("joins a team as a non-speaking reserve", async () => {
+    const ctx = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+    const db = await import("./db");
+    
+    vi.mocked(db.getDebateRoomByCode).mockResolvedValue(wsRoom);
+    vi.mocked(db.getParticipantWithUser).mockResolvedValue(null);
+    vi.mocked(db.getRoomParticipants).mockResolvedValue([]);
+    
+    const result = await caller.room.join({ roomCode: "WSC123", team: "proposition" });
+    
+    expect(result).toEqual({ success: true, roomId: 1 });
+    expect(db.addParticipant).toHaveBeenCalledWith(expect.objectContaining({
+      team: "proposition",
+      speakerRole: null,
+    }));
+  });
+
+  it("rejects a reserve once the team's reserve slots are full", async () => {
+    const ctx = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+    const db = await import("./db");
+    
+    vi.mocked(db.getDebateRoomByCode).mockResolvedValue(wsRoom);
+    vi.mocked(db.getParticipantWithUser).mockResolvedValue(null);
+    vi.mocked(db.getRoomParticipants).mockResolvedValue([
+      { id: 2, roomId: 1, userId: 2, role: "debater", team: "proposition", speakerRole: null, isReady: false, joinedAt: new Date() },
+      { id: 3, roomId: 1, userId: 3, role: "debater", team: "proposition", speakerRole: null, isReady: false, joinedAt: new Date() },
+    ]);
+    
+    await expect(caller.room.join({ roomCode: "WSC123", team: "proposition" }))
+      .rejects.toThrow("All reserve positions on Proposition are taken");
+  });
+
+  it("rejects reserves in formats without reserve positions", async () => {
+    const ctx = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+    const db = await import("./db");
+    
+    vi.mocked(db.getDebateRoomByCode).mockResolvedValue({ ...wsRoom, format: "asian_parliamentary" });
+    vi.mocked(db.getParticipantWithUser).mockResolvedValue(null);
+    vi.mocked(db.getRoomParticipants).mockResolvedValue([]);
+    
+    await expect(caller.room.join({ roomCode: "WSC123", team: "government" }))
+      .rejects.toThrow("Asian Parliamentary has no reserve positions");
+  });
+
+  it("blocks the start while impromptu prep time is running", async () => {
+    const ctx = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+    const db = await import("./db");
+    
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(wsRoom);
+    vi.mocked(db.getMotionById).mockResolvedValue(wsMotion("impromptu", new Date()));
+    
+    await expect(caller.room.start({ roomId: 1 })).rejects.toThrow("Preparation time is still running");
+    expect(db.updateDebateRoom).not.toHaveBeenCalled();
+  });
+
+  it("starts once the prep window has passed", async () => {
+    const ctx = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+    const db = await import("./db");
+    
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(wsRoom);
+    vi.mocked(db.getMotionById).mockResolvedValue(wsMotion("impromptu", new Date(Date.now() - 2 * 60 * 60 * 1000)));
+    vi.mocked(db.getRoomParticipants).mockResolvedValue([
+      { id: 1, roomId: 1, userId: 1, role: "debater", team: "proposition", speakerRole: "first_proposition", isReady: true, joinedAt: new Date() },
+      { id: 2, roomId: 1, userId: 2, role: "debater", team: "proposition", speakerRole: null, isReady: true, joinedAt: new Date() },
+    ]);
+    
+    const result = await caller.room.start({ roomId: 1 });
+    
+    expect(result).toEqual({ success: true });
+  });
+});
+
+describe("custom formats", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const drillSpec = {
+    teamsCount: 2,
+    speakersPerTeam: 2,
+    speechTime: 240,
+    replyTime: null,
+    poi: { allowed: false, protectedTime: 0 },
+  };
+
+  const drillFormat = {
+    id: 5,
+    creatorId: 2,
+    clubName: "Riverside Debate Society",
+    name: "2v2 Drill",
+    description: "4-minute speeches, no POIs",
+    spec: drillSpec,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  it("expands a 2v2 drill into alternating speeches without POIs", async () => {
+    const { buildCustomFormat, isPOIAllowed } = await import("@shared/debate");
+    const format = buildCustomFormat(drillFormat);
+    
+    expect(format.id).toBe("custom_5");
+    expect(format.speakingOrder.map(s => s.role)).toEqual([
+      "proposition_speaker_1",
+      "opposition_speaker_1",
+      "proposition_speaker_2",
+      "opposition_speaker_2",
+    ]);
+    expect(format.speakingOrder.every(s => s.time === 240)).toBe(true);
+    expect(format.resultType).toBe("winner");
+    expect(isPOIAllowed(120, 240, format.poi)).toBe(false);
+  });
+
+  it("adds replies delivered by first speakers and ranks multi-team formats", async () => {
+    const { buildCustomFormat } = await import("@shared/debate");
+    
+    const withReplies = buildCustomFormat({ ...drillFormat, spec: { ...drillSpec, replyTime: 120 } });
+    expect(withReplies.speakingOrder.slice(-2)).toEqual([
+      expect.objectContaining({ role: "opposition_reply", deliveredBy: "opposition_speaker_1", time: 120 }),
+      expect.objectContaining({ role: "proposition_reply", deliveredBy: "proposition_speaker_1", time: 120 }),
+    ]);
+    
+    const fourTeams = buildCustomFormat({ ...drillFormat, spec: { ...drillSpec, teamsCount: 4, speakersPerTeam: 1 } });
+    expect(fourTeams.teams.map(t => t.id)).toEqual(["proposition_1", "opposition_1", "proposition_2", "opposition_2"]);
+    expect(fourTeams.resultType).toBe("ranking");
+  });
+
+  it("rejects sharing with a club before one is set on the profile", async () => {
+    const ctx = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+    
+    await expect(caller.format.create({
+      name: "2v2 Drill",
+      shareWithClub: true,
+      spec: drillSpec,
+    })).rejects.toThrow("Set your club on your profile");
+  });
+
+  it("creates a room from a format shared with the user's club", async () => {
+    const ctx = createAuthContext({ club: "Riverside Debate Society" });
+    const caller = appRouter.createCaller(ctx);
+    const db = await import("./db");
+    
+    vi.mocked(db.getCustomFormatById).mockResolvedValue(drillFormat);
+    
+    const result = await caller.room.create({ customFormatId: 5 });
+    
+    expect(result.roomId).toBe(1);
+    expect(db.createDebateRoom).toHaveBeenCalledWith(expect.objectContaining({
+      format: "custom",
+      customFormatId: 5,
+    }));
+  });
+
+  it("rejects rooms using another user's private format", async () => {
+    const ctx = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+    const db = await import("./db");
+    
+    vi.mocked(db.getCustomFormatById).mockResolvedValue({ ...drillFormat, clubName: null });
+    
+    await expect(caller.room.create({ customFormatId: 5 })).rejects.toThrow("Custom format not found");
+  });
+
+  it("returns the expanded custom format with the room", async () => {
+    const ctx = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+    const db = await import("./db");
+    
+    vi.mocked(db.getDebateRoomByCode).mockResolvedValue({
+      id: 1,
+      roomCode: "CUS123",
+      creatorId: 2,
+      format: "custom",
+      customFormatId: 5,
+      status: "waiting",
+      currentPhase: "setup",
+      currentSpeakerIndex: 0,
+      motionId: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      startedAt: null,
+      endedAt: null,
+    });
+    vi.mocked(db.getCustomFormatById).mockResolvedValue(drillFormat);
+    
+    const result = await caller.room.get({ roomCode: "CUS123" });
+    
+    expect(result.format.id).toBe("custom_5");
+    expect(result.format.speakingOrder).toHaveLength(4);
+  });
+});
+
+describe("server debate clock", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const clockRoom = (clock: { clockStartedAt: Date | null; clockPausedAt?: Date | null; clockPausedSeconds?: number }) => ({
+    id: 1,
+    roomCode: "CLK123",
+    creatorId: 9,
+    format: "asian_parliamentary" as const,
+    customFormatId: null,
+    aiOpponent: false,
+    status: "in_progress" as const,
+    currentPhase: "debate" as const,
+    currentSpeakerIndex: 0,
+    motionId: 1,
+    currentSpeechId: clock.clockStartedAt ? 7 : null,
+    clockStartedAt: clock.clockStartedAt,
+    clockPausedAt: clock.clockPausedAt ?? null,
+    clockPausedSeconds: clock.clockPausedSeconds ?? 0,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    startedAt: new Date(),
+    endedAt: null,
+  });
+
+  it("reports the same remaining time to every client, excluding pauses", async () => {
+    const ctx = createAuthContext({ id: 42 });
+    const caller = appRouter.createCaller(ctx);
+    const db = await import("./db");
+    
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(clockRoom({
+      clockStartedAt: secondsAgo(400),
+      clockPausedSeconds: 30,
+    }));
+    
+    const clock = await caller.room.getClock({ roomId: 1 });
+    
+    expect(clock.status).toBe("running");
+    expect(clock.speechId).toBe(7);
+    expect(clock.elapsed).toBe(370);
+    expect(clock.remaining).toBe(50);
+    expect(clock.warning).toBe("one_minute");
+  });
+
+  it("starts the clock when a speech is created and rejects a second start", async () => {
+    const ctx = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+    const db = await import("./db");
+    
+    vi.mocked(db.getParticipantWithUser).mockResolvedValue(prime);
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(clockRoom({ clockStartedAt: null }));
+    vi.mocked(db.createSpeech).mockResolvedValue(7);
+    
+    await caller.speech.create({ roomId: 1, speakerRole: "prime_minister", speechType: "substantive" });
+    expect(db.updateDebateRoom).toHaveBeenCalledWith(1, expect.objectContaining({
+      currentSpeechId: 7,
+      clockStartedAt: expect.any(Date),
+      clockPausedAt: null,
+    }));
+    
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(clockRoom({ clockStartedAt: secondsAgo(5) }));
+    await expect(caller.speech.create({ roomId: 1, speakerRole: "prime_minister", speechType: "substantive" }))
+      .rejects.toThrow("A speech is already in progress");
+  });
+
+  it("only lets the current speaker or creator pause", async () => {
+    const ctx = createAuthContext({ id: 2 });
+    const caller = appRouter.createCaller(ctx);
+    const db = await import("./db");
+    
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(clockRoom({ clockStartedAt: secondsAgo(60) }));
+    vi.mocked(db.getRoomParticipants).mockResolvedValue([prime]);
+    
+    await expect(caller.room.pauseClock({ roomId: 1 })).rejects.toThrow("Only the current speaker, an adjudicator or the room creator");
+    
+    const speakerCaller = appRouter.createCaller(createAuthContext({ id: 1 }));
+    const clock = await speakerCaller.room.pauseClock({ roomId: 1 });
+    expect(clock.status).toBe("paused");
+    expect(db.updateDebateRoom).toHaveBeenCalledWith(1, { clockPausedAt: expect.any(Date) });
+  });
+
+  it("measures duration on the server and flags overtime speeches", async () => {
+    const ctx = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+    const db = await import("./db");
+    
+    vi.mocked(db.getSpeechById).mockResolvedValue({
+      id: 7,
+      roomId: 1,
+      participantId: 1,
+      speakerRole: "prime_minister",
+      speechType: "substantive",
+      transcript: null,
+      audioUrl: null,
+      duration: null,
+      startedAt: secondsAgo(450),
+      endedAt: null,
+      createdAt: new Date(),
+    });
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(clockRoom({ clockStartedAt: secondsAgo(450) }));
+    vi.mocked(db.getRoomParticipants).mockResolvedValue([prime]);
+    
+    // Client-reported duration is ignored while the server clock owns the speech
+    const result = await caller.speech.end({ speechId: 7, duration: 10 });
+    
+    expect(result.duration).toBe(450);
+    expect(result.timeExceeded).toBe(true);
+    expect(db.createRuleViolation).toHaveBeenCalledWith(expect.objectContaining({
+      speechId: 7,
+      participantId: 1,
+      violationType: "time_exceeded",
+    }));
+    expect(db.updateDebateRoom).toHaveBeenCalledWith(1, expect.objectContaining({
+      currentSpeechId: null,
+      clockStartedAt: null,
+    }));
+  });
+
+  it("only lets whoever controls the clock end the speech running it", async () => {
+    const db = await import("./db");
+    
+    vi.mocked(db.getSpeechById).mockResolvedValue({
+      id: 7, roomId: 1, participantId: 1, speakerRole: "prime_minister", speechType: "substantive",
+      transcript: null, audioUrl: null, duration: null, startedAt: secondsAgo(60), endedAt: null, createdAt: new Date(),
+    });
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(clockRoom({ clockStartedAt: secondsAgo(60) }));
+    vi.mocked(db.getRoomParticipants).mockResolvedValue([prime]);
+    
+    await expect(appRouter.createCaller(createAuthContext({ id: 2 })).speech.end({ speechId: 7 }))
+      .rejects.toThrow("Only the current speaker, an adjudicator or the room creator");
+    expect(db.updateSpeech).not.toHaveBeenCalled();
+    expect(db.updateDebateRoom).not.toHaveBeenCalled();
+  });
+
+  it("keeps the measured duration when an ended speech is ended again", async () => {
+    const db = await import("./db");
+    const endedAt = secondsAgo(30);
+    
+    // The first end has already stopped the clock, so the room no longer points at the speech
+    vi.mocked(db.getSpeechById).mockResolvedValue({
+      id: 7, roomId: 1, participantId: 1, speakerRole: "prime_minister", speechType: "substantive",
+      transcript: null, audioUrl: null, duration: 412, startedAt: secondsAgo(442), endedAt, createdAt: new Date(),
+    });
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(clockRoom({ clockStartedAt: null }));
+    vi.mocked(db.getRoomParticipants).mockResolvedValue([prime]);
+    
+    await expect(appRouter.createCaller(createAuthContext({ id: 2 })).speech.end({ speechId: 7 }))
+      .rejects.toThrow("Only the speaker, an adjudicator or the room creator");
+    
+    const result = await appRouter.createCaller(createAuthContext({ id: 1 })).speech.end({ speechId: 7 });
+    expect(result).toEqual({ success: true, duration: 412, timeExceeded: false });
+    expect(db.updateSpeech).not.toHaveBeenCalled();
+    expect(db.updateDebateRoom).not.toHaveBeenCalled();
+  });
+});
+
+describe("room event stream", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("resumes the transcript after the last seen sequence, then streams live events", async () => {
+    const ctx = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+    const db = await import("./db");
+    const { publishRoomEvent } = await import("./roomEvents");
+    
+    vi.mocked(db.getRoomTranscriptSegments).mockResolvedValue([segment(3), segment(4)]);
+    
+    const stream = await caller.room.events({ roomId: 1, lastEventId: "2" });
+    const received: Array<[string, unknown]> = [];
+    for await (const [id, event] of stream) {
+      received.push([id, event]);
+      if (received.length === 3) {
+        // Live events published after the replay reach the subscriber too,
+        // and a segment that was already replayed is not sent twice
+        publishRoomEvent(1, { type: "transcript", segment: segment(4) });
+        publishRoomEvent(1, { type: "room" });
+      }
+      if (received.length === 4) break;
+    }
+    
+    expect(db.getRoomTranscriptSegments).toHaveBeenCalledWith(1, 2);
+    expect(received).toEqual([
+      ["2", { type: "sync" }],
+      ["3", { type: "transcript", segment: segment(3) }],
+      ["4", { type: "transcript", segment: segment(4) }],
+      ["4", { type: "room" }],
+    ]);
+  });
+
+  it("streams a correction to a segment every viewer has already seen", async () => {
+    const ctx = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+    const db = await import("./db");
+    
+    vi.mocked(db.getRoomTranscriptSegments).mockResolvedValue([segment(3)]);
+    vi.mocked(db.getTranscriptSegmentById).mockResolvedValue(segment(3));
+    vi.mocked(db.getSpeechById).mockResolvedValue({
+      id: 7, roomId: 1, participantId: 1, speakerRole: "prime_minister", speechType: "substantive" as const,
+      transcript: "Segment 3", audioUrl: null, audioOffset: 0, duration: 420,
+      startedAt: new Date(), endedAt: new Date(), createdAt: new Date(),
+    });
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(apRoom);
+    
+    const stream = await caller.room.events({ roomId: 1, lastEventId: "2" });
+    const received: Array<[string, unknown]> = [];
+    for await (const [id, event] of stream) {
+      received.push([id, event]);
+      if (received.length === 2) {
+        // The room creator corrects the segment just streamed
+        await appRouter.createCaller(createAuthContext({ id: 9 })).transcript.edit({ segmentId: 3, text: "Segment three" });
+      }
+      if (received.length === 3) break;
+    }
+    
+    expect(received[2]).toEqual(["3", {
+      type: "transcript_edit",
+      segment: expect.objectContaining({ id: 3, sequenceNumber: 3, text: "Segment three", originalText: "Segment 3" }),
+    }]);
+  });
+
+  it("pushes readiness changes to the room", async () => {
+    const ctx = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+    const db = await import("./db");
+    const { subscribeToRoom } = await import("./roomEvents");
+    
+    vi.mocked(db.getParticipantWithUser).mockResolvedValue({
+      id: 1, roomId: 5, userId: 1, role: "debater", team: "government", speakerRole: "prime_minister", isReady: false, joinedAt: new Date(),
+    });
+    
+    const events = subscribeToRoom(5);
+    await caller.room.setReady({ roomId: 5, isReady: true });
+    
+    const next = await events.next();
+    await events.return(undefined);
+    expect(next.value).toEqual({ type: "room" });
+  });
+});
+
+describe("room audio signaling", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const participant = (userId: number) => ({
+    id: userId, roomId: 9, userId, role: "debater", team: "government", speakerRole: "prime_minister", isReady: true, joinedAt: new Date(),
+  });
+
+  async function connect(userId: number) {
+    const caller = appRouter.createCaller(createAuthContext({ id: userId }));
+    const stream = await caller.rtc.signals({ roomId: 9 });
+    return { caller, events: stream[Symbol.asyncIterator]() };
+  }
+
+  it("relays presence, signals and mute state between participants", async () => {
+    const db = await import("./db");
+    vi.mocked(db.getParticipantWithUser).mockImplementation(async (_roomId, userId) => participant(userId));
+
+    const first = await connect(1);
+    expect((await first.events.next()).value).toEqual({ type: "peers", peers: [] });
+
+    const second = await connect(2);
+    expect((await second.events.next()).value).toEqual({ type: "peers", peers: [{ userId: 1, muted: false }] });
+    expect((await first.events.next()).value).toEqual({ type: "peer_joined", peer: { userId: 2, muted: false } });
+
+    const description = { type: "offer" as const, sdp: "v=0" };
+    await expect(second.caller.rtc.signal({ roomId: 9, to: 1, description })).resolves.toEqual({ delivered: true });
+    expect((await first.events.next()).value).toEqual({ type: "signal", from: 2, description, candidate: undefined });
+
+    await second.caller.rtc.setMuted({ roomId: 9, muted: true });
+    expect((await first.events.next()).value).toEqual({ type: "muted", userId: 2, muted: true });
+
+    await second.events.return(undefined);
+    expect((await first.events.next()).value).toEqual({ type: "peer_left", userId: 2 });
+    await first.events.return(undefined);
+
+    // Nobody is listening any more, so signals are dropped
+    await expect(second.caller.rtc.signal({ roomId: 9, to: 1, description })).resolves.toEqual({ delivered: false });
+  });
+
+  it("keeps non-participants out of room audio", async () => {
+    const db = await import("./db");
+    vi.mocked(db.getParticipantWithUser).mockResolvedValue(undefined);
+    const caller = appRouter.createCaller(createAuthContext({ id: 3 }));
+
+    const stream = await caller.rtc.signals({ roomId: 9 });
+    await expect(stream[Symbol.asyncIterator]().next()).rejects.toThrow("You are not in this room");
+    await expect(caller.rtc.signal({
+      roomId: 9, to: 1, candidate: { candidate: "candidate:1", sdpMid: "0" },
+    })).rejects.toThrow("You are not in this room");
+  });
+});
+
+describe("adjudicator, spectator and coach roles", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const liveRoom = {
+    id: 1,
+    roomCode: "ADJ123",
+    creatorId: 9,
+    format: "asian_parliamentary" as const,
+    customFormatId: null,
+    aiOpponent: false,
+    status: "in_progress" as const,
+    currentPhase: "debate" as const,
+    currentSpeakerIndex: 0,
+    motionId: 1,
+    currentSpeechId: 7,
+    clockStartedAt: new Date(Date.now() - 60 * 1000),
+    clockPausedAt: null,
+    clockPausedSeconds: 0,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    startedAt: new Date(),
+    endedAt: null,
+  };
+
+  it("lets adjudicators join a round in progress without a team", async () => {
+    const caller = appRouter.createCaller(createAuthContext({ id: 5 }));
+    const db = await import("./db");
+    
+    vi.mocked(db.getDebateRoomByCode).mockResolvedValue(liveRoom);
+    vi.mocked(db.getParticipantWithUser).mockResolvedValue(null);
+    vi.mocked(db.getRoomParticipants).mockResolvedValue([]);
+    
+    const result = await caller.room.join({ roomCode: "ADJ123", role: "adjudicator", adjudicatorPosition: "chair" });
+    
+    expect(result).toEqual({ success: true, roomId: 1 });
+    expect(db.addParticipant).toHaveBeenCalledWith(expect.objectContaining({
+      role: "adjudicator",
+      team: null,
+      speakerRole: null,
+      adjudicatorPosition: "chair",
+    }));
+  });
+
+  it("allows only one chair per panel", async () => {
+    const caller = appRouter.createCaller(createAuthContext({ id: 6 }));
+    const db = await import("./db");
+    
+    vi.mocked(db.getDebateRoomByCode).mockResolvedValue(liveRoom);
+    vi.mocked(db.getParticipantWithUser).mockResolvedValue(null);
+    vi.mocked(db.getRoomParticipants).mockResolvedValue([member(5, "adjudicator", { adjudicatorPosition: "chair" })]);
+    
+    await expect(caller.room.join({ roomCode: "ADJ123", role: "adjudicator", adjudicatorPosition: "chair" }))
+      .rejects.toThrow("This room already has a chair adjudicator");
+  });
+
+  it("does not wait for non-debaters to ready up", async () => {
+    const caller = appRouter.createCaller(createAuthContext({ id: 9 }));
+    const db = await import("./db");
+    
+    vi.mocked(db.getDebateRoomById).mockResolvedValue({ ...liveRoom, status: "waiting", currentPhase: "setup", currentSpeechId: null, clockStartedAt: null });
+    vi.mocked(db.getMotionById).mockResolvedValue(undefined);
+    vi.mocked(db.getRoomParticipants).mockResolvedValue([
+      member(1, "debater", { team: "government", speakerRole: "prime_minister", isReady: true }),
+      member(5, "adjudicator", { adjudicatorPosition: "chair" }),
+      member(6, "spectator"),
+    ]);
+    
+    await expect(caller.room.start({ roomId: 1 })).resolves.toEqual({ success: true });
+  });
+
+  it("lets adjudicators pause the clock but keeps spectators from speaking", async () => {
+    const db = await import("./db");
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(liveRoom);
+    vi.mocked(db.getRoomParticipants).mockResolvedValue([
+      member(1, "debater", { team: "government", speakerRole: "prime_minister", isReady: true }),
+      member(5, "adjudicator", { adjudicatorPosition: "panelist" }),
+    ]);
+    
+    const adjudicator = appRouter.createCaller(createAuthContext({ id: 5 }));
+    const clock = await adjudicator.room.pauseClock({ roomId: 1 });
+    expect(clock.status).toBe("paused");
+    
+    vi.mocked(db.getParticipantWithUser).mockResolvedValue(member(6, "spectator"));
+    const spectator = appRouter.createCaller(createAuthContext({ id: 6 }));
+    await expect(spectator.speech.create({ roomId: 1, speakerRole: "prime_minister", speechType: "substantive" }))
+      .rejects.toThrow("Only debaters can give speeches");
+  });
+
+  it("stores notes against the speech being delivered", async () => {
+    const caller = appRouter.createCaller(createAuthContext({ id: 8 }));
+    const db = await import("./db");
+    
+    vi.mocked(db.getParticipantWithUser).mockResolvedValue(member(8, "coach", { team: "government" }));
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(liveRoom);
+    
+    await caller.notes.add({ roomId: 1, content: "  PM never defined the mechanism  " });
+    
+    expect(db.createRoomNote).toHaveBeenCalledWith({
+      roomId: 1,
+      userId: 8,
+      speechId: 7,
+      content: "PM never defined the mechanism",
+    });
+  });
+});
+
+describe("adjudicator ballots", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const debaters = [
+    { id: 1, roomId: 1, userId: 1, role: "debater", team: "government", speakerRole: "prime_minister", adjudicatorPosition: null, isReady: true, joinedAt: new Date() },
+    { id: 2, roomId: 1, userId: 2, role: "debater", team: "opposition", speakerRole: "leader_of_opposition", adjudicatorPosition: null, isReady: true, joinedAt: new Date() },
+  ];
+  const adjudicator = { id: 5, roomId: 1, userId: 5, role: "adjudicator", team: null, speakerRole: null, adjudicatorPosition: "chair", isReady: false, joinedAt: new Date() };
+
+  const vote = (winner: string, position: "chair" | "panelist" | null = "panelist", teamRanking: string[] | null = null) => ({
+    adjudicatorPosition: position,
+    winner,
+    teamRanking,
+    speakerPoints: {},
+  });
+
+  it("takes the panel majority and averages speaker points", async () => {
+    const { ASIAN_PARLIAMENTARY_FORMAT, getPanelDecision } = await import("@shared/debate");
+    const decision = getPanelDecision(ASIAN_PARLIAMENTARY_FORMAT, [
+      { ...vote("government", "chair"), speakerPoints: { prime_minister: 76 } },
+      { ...vote("opposition"), speakerPoints: { prime_minister: 74 } },
+      { ...vote("opposition"), speakerPoints: { prime_minister: 73 } },
+    ]);
+    
+    expect(decision?.winner).toBe("opposition");
+    expect(decision?.split).toBe("2-1");
+    expect(decision?.unanimous).toBe(false);
+    expect(decision?.speakerPoints).toEqual({ prime_minister: 74.3 });
+  });
+
+  it("breaks an even split with the chair's ballot", async () => {
+    const { ASIAN_PARLIAMENTARY_FORMAT, getPanelDecision } = await import("@shared/debate");
+    const decision = getPanelDecision(ASIAN_PARLIAMENTARY_FORMAT, [
+      vote("government", "chair"),
+      vote("opposition"),
+    ]);
+    expect(decision?.winner).toBe("government");
+    
+    const noChair = getPanelDecision(ASIAN_PARLIAMENTARY_FORMAT, [vote("government"), vote("opposition")]);
+    expect(noChair?.winner).toBeNull();
+  });
+
+  it("ranks BP teams by their summed positions across ballots", async () => {
+    const { BRITISH_PARLIAMENTARY_FORMAT, getPanelDecision } = await import("@shared/debate");
+    const decision = getPanelDecision(BRITISH_PARLIAMENTARY_FORMAT, [
+      vote("opening_government", "chair", ["opening_government", "closing_opposition", "opening_opposition", "closing_government"]),
+      vote("closing_opposition", "panelist", ["closing_opposition", "opening_government", "closing_government", "opening_opposition"]),
+      vote("closing_opposition", "panelist", ["closing_opposition", "opening_opposition", "opening_government", "closing_government"]),
+    ]);
+    
+    expect(decision?.ranking).toEqual(["closing_opposition", "opening_government", "opening_opposition", "closing_government"]);
+    expect(decision?.winner).toBe("closing_opposition");
+  });
+
+  it("flags where the panel and the AI disagree", async () => {
+    const { ASIAN_PARLIAMENTARY_FORMAT, comparePanelWithAI, getPanelDecision } = await import("@shared/debate");
+    const decision = getPanelDecision(ASIAN_PARLIAMENTARY_FORMAT, [vote("government", "chair")])!;
+    
+    expect(comparePanelWithAI(ASIAN_PARLIAMENTARY_FORMAT, decision, { suggestedWinner: "opposition", teamRankings: null }))
+      .toEqual(["The panel gave the debate to Government; the AI picked Opposition."]);
+    expect(comparePanelWithAI(ASIAN_PARLIAMENTARY_FORMAT, decision, { suggestedWinner: "government", teamRankings: null }))
+      .toEqual([]);
+  });
+
+  it("only accepts ballots from adjudicators", async () => {
+    const caller = appRouter.createCaller(createAuthContext({ id: 1 }));
+    const db = await import("./db");
+    
+    vi.mocked(db.getParticipantWithUser).mockResolvedValue(debaters[0]);
+    
+    await expect(caller.ballot.submit({
+      roomId: 1, winner: "government", speakerPoints: {}, margin: "clear", reasonForDecision: "Better mechanism",
+    })).rejects.toThrow("Only adjudicators can submit ballots");
+  });
+
+  it("requires points on the format's scale for every speech given", async () => {
+    const caller = appRouter.createCaller(createAuthContext({ id: 5 }));
+    const db = await import("./db");
+    
+    vi.mocked(db.getParticipantWithUser).mockResolvedValue(adjudicator);
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(apRoom);
+    vi.mocked(db.getRoomParticipants).mockResolvedValue([...debaters, adjudicator]);
+    
+    const ballot = {
+      roomId: 1,
+      winner: "government",
+      margin: "clear" as const,
+      reasonForDecision: "Government won the clash on enforcement",
+    };
+    
+    // Replies score on half the 60-80 scale
+    await expect(caller.ballot.submit({
+      ...ballot,
+      speakerPoints: { prime_minister: 76, leader_of_opposition: 74, opposition_reply: 45, government_reply: 38 },
+    })).rejects.toThrow("Opposition Reply needs speaker points between 30 and 40");
+    
+    await expect(caller.ballot.submit({
+      ...ballot,
+      speakerPoints: { prime_minister: 76, leader_of_opposition: 74, opposition_reply: 37, government_reply: 38, deputy_prime_minister: 70 },
+    })).resolves.toEqual({ ballotId: 1 });
+    expect(db.upsertAdjudicatorBallot).toHaveBeenCalledWith(expect.objectContaining({
+      participantId: 5,
+      winner: "government",
+      teamRanking: null,
+      // Points for speeches nobody gave are dropped
+      speakerPoints: { prime_minister: 76, leader_of_opposition: 74, opposition_reply: 37, government_reply: 38 },
+    }));
+  });
+});
+
+describe("rubric speech scoring", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const speech = (id: number, participantId: number, speakerRole: string, transcript: string | null) => ({
+    id,
+    roomId: 1,
+    participantId,
+    speakerRole,
+    speechType: "substantive" as const,
+    transcript,
+    audioUrl: null,
+    duration: 420,
+    startedAt: new Date(),
+    endedAt: new Date(),
+    createdAt: new Date(),
+  });
+
+  const criteria = (scores: number[]) => ["matter", "manner", "method", "role_fulfilment"].map((criterion, i) => ({
+    criterion: criterion as "matter",
+    score: scores[i],
+    weight: [40, 30, 20, 10][i],
+    justification: "",
+  }));
+
+  it("maps weighted rubric scores onto the format's speaker point scale", async () => {
+    const { ASIAN_PARLIAMENTARY_FORMAT, rollUpSpeakerPoints } = await import("@shared/debate");
+    const pm = ASIAN_PARLIAMENTARY_FORMAT.speakingOrder.find(s => s.role === "prime_minister")!;
+    const reply = ASIAN_PARLIAMENTARY_FORMAT.speakingOrder.find(s => s.type === "reply")!;
+    
+    expect(rollUpSpeakerPoints(ASIAN_PARLIAMENTARY_FORMAT, pm, criteria([10, 10, 10, 10]))).toBe(80);
+    expect(rollUpSpeakerPoints(ASIAN_PARLIAMENTARY_FORMAT, pm, criteria([5, 5, 5, 5]))).toBe(70);
+    // 7.7 weighted -> 75.4, rounded to the nearest half point
+    expect(rollUpSpeakerPoints(ASIAN_PARLIAMENTARY_FORMAT, pm, criteria([8, 7, 8, 8]))).toBe(75.5);
+    expect(rollUpSpeakerPoints(ASIAN_PARLIAMENTARY_FORMAT, reply, criteria([10, 10, 10, 10]))).toBe(40);
+  });
+
+  it("scores transcribed speeches and stores clamped criteria", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    const db = await import("./db");
+    const { invokeLLM } = await import("./_core/llm");
+    
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(apRoom);
+    vi.mocked(db.getRoomSpeeches).mockResolvedValue([
+      speech(11, 1, "prime_minister", "We propose a licensing regime..."),
+      speech(12, 2, "leader_of_opposition", null),
+    ]);
+    const mark = (score: number) => ({ score, justification: "Clear model" });
+    vi.mocked(invokeLLM).mockResolvedValueOnce({
+      id: "test",
+      created: 0,
+      model: "test",
+      choices: [{
+        index: 0,
+        finish_reason: "stop",
+        message: {
+          role: "assistant",
+          content: JSON.stringify({
+            scores: [{ speechId: 11, matter: mark(12), manner: mark(10), method: mark(10), role_fulfilment: mark(-2) }],
+          }),
+        },
+      }],
+    });
+    
+    await expect(caller.scoring.generate({ roomId: 1 })).resolves.toEqual({ scored: 1 });
+    
+    const [, rows] = vi.mocked(db.replaceRoomSpeechScores).mock.calls[0];
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ speechId: 11, participantId: 1, speakerRole: "prime_minister", speakerPoints: 78 });
+    expect(rows[0].criteria.map(c => c.score)).toEqual([10, 10, 10, 0]);
+  });
+
+  it("rejects weights that are all zero", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    const db = await import("./db");
+    
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(apRoom);
+    
+    await expect(caller.scoring.generate({
+      roomId: 1,
+      weights: { matter: 0, manner: 0, method: 0, role_fulfilment: 0 },
+    })).rejects.toThrow("At least one criterion needs a weight above zero");
+  });
+});
+
+describe("AI opponent", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const aiRoom = {
+    id: 1,
+    roomCode: "AIR123",
+    creatorId: 1,
+    format: "asian_parliamentary" as const,
+    customFormatId: null,
+    aiOpponent: true,
+    status: "in_progress" as const,
+    currentPhase: "debate" as const,
+    currentSpeakerIndex: 0,
+    motionId: null,
+    currentSpeechId: null,
+    clockStartedAt: null,
+    clockPausedAt: null,
+    clockPausedSeconds: 0,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    startedAt: new Date(),
+    endedAt: null,
+  };
+
+  const primeMinister = { id: 1, roomId: 1, userId: 1, role: "debater", team: "government", speakerRole: "prime_minister", adjudicatorPosition: null, isReady: true, joinedAt: new Date() };
+
+  it("keeps empty roles in the speaking order", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    const db = await import("./db");
+    
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(aiRoom);
+    vi.mocked(db.getRoomParticipants).mockResolvedValue([primeMinister]);
+    
+    // Without the AI the round would jump straight to the Government reply
+    await expect(caller.room.advanceSpeaker({ roomId: 1 }))
+      .resolves.toEqual({ completed: false, nextSpeakerIndex: 1 });
+  });
+
+  it("answers the transcript so far and stores the speech like a human one", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    const db = await import("./db");
+    const { invokeLLM } = await import("./_core/llm");
+    const { AI_SPEAKER_NAME } = await import("@shared/debate");
+    
+    vi.mocked(db.getParticipantWithUser).mockResolvedValue(primeMinister);
+    vi.mocked(db.getDebateRoomById).mockResolvedValue({ ...aiRoom, currentSpeakerIndex: 1 });
+    vi.mocked(db.getRoomParticipants).mockResolvedValue([primeMinister]);
+    vi.mocked(db.getRoomSpeeches).mockResolvedValue([{
+      id: 11,
+      roomId: 1,
+      participantId: 1,
+      speakerRole: "prime_minister",
+      speechType: "substantive",
+      transcript: "We propose a licensing regime for social media platforms.",
+      audioUrl: null,
+      duration: 420,
+      startedAt: new Date(),
+      endedAt: new Date(),
+      createdAt: new Date(),
+    }]);
+    vi.mocked(db.createSpeech).mockResolvedValue(12);
+    vi.mocked(invokeLLM).mockResolvedValueOnce({
+      id: "test",
+      created: 0,
+      model: "test",
+      choices: [{
+        index: 0,
+        finish_reason: "stop",
+        message: {
+          role: "assistant",
+          content: "Licensing will not stop harm.\n\nOur case is about parental control.",
+        },
+      }],
+    });
+    
+    const result = await caller.speech.giveAI({ roomId: 1 });
+    
+    expect(result.speechId).toBe(12);
+    const prompt = vi.mocked(invokeLLM).mock.calls[0][0].messages[1].content;
+    expect(prompt).toContain("We propose a licensing regime");
+    expect(db.createSpeech).toHaveBeenCalledWith(expect.objectContaining({
+      participantId: null,
+      speakerRole: "leader_of_opposition",
+      transcript: "Licensing will not stop harm.\n\nOur case is about parental control.",
+    }));
+    expect(db.createTranscriptSegment).toHaveBeenCalledTimes(2);
+    expect(db.createTranscriptSegment).toHaveBeenLastCalledWith(expect.objectContaining({
+      speechId: 12,
+      speakerName: AI_SPEAKER_NAME,
+      text: "Our case is about parental control.",
+      sequenceNumber: 2,
+    }));
+  });
+
+  it("only speaks in roles nobody took", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    const db = await import("./db");
+    
+    vi.mocked(db.getParticipantWithUser).mockResolvedValue(primeMinister);
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(aiRoom);
+    vi.mocked(db.getRoomParticipants).mockResolvedValue([primeMinister]);
+    
+    await expect(caller.speech.giveAI({ roomId: 1 }))
+      .rejects.toThrow("It is not the AI opponent's turn");
+    expect(db.createSpeech).not.toHaveBeenCalled();
+  });
+});
+
+describe("prep phase", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const setupRoom = {
+    id: 1,
+    roomCode: "PRP123",
+    creatorId: 1,
+    format: "asian_parliamentary" as const,
+    customFormatId: null,
+    aiOpponent: false,
+    status: "waiting" as const,
+    currentPhase: "setup" as const,
+    prepStartedAt: null,
+    prepSeconds: null,
+    currentSpeakerIndex: 0,
+    motionId: 1,
+    currentSpeechId: null,
+    clockStartedAt: null,
+    clockPausedAt: null,
+    clockPausedSeconds: 0,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    startedAt: null,
+    endedAt: null,
+  };
+
+  it("starts the countdown from the format default or the creator's choice", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    const db = await import("./db");
+    
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(setupRoom);
+    
+    await expect(caller.room.startPrep({ roomId: 1 })).resolves.toEqual({ prepSeconds: 30 * 60 });
+    await expect(caller.room.startPrep({ roomId: 1, minutes: 15 })).resolves.toEqual({ prepSeconds: 15 * 60 });
+    expect(db.updateDebateRoom).toHaveBeenLastCalledWith(1, expect.objectContaining({
+      currentPhase: "prep",
+      prepSeconds: 15 * 60,
+    }));
+  });
+
+  it("holds the debate until prep time is up", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    const db = await import("./db");
+    
+    vi.mocked(db.getDebateRoomById).mockResolvedValue({
+      ...setupRoom,
+      currentPhase: "prep",
+      prepStartedAt: new Date(Date.now() - 20 * 60 * 1000),
+      prepSeconds: 30 * 60,
+    });
+    vi.mocked(db.getMotionById).mockResolvedValue(undefined);
+    
+    await expect(caller.room.start({ roomId: 1 }))
+      .rejects.toThrow("Preparation time is still running (10 minute(s) left)");
+  });
+
+  it("keeps each team's board to its own members", async () => {
+    const caller = appRouter.createCaller(createAuthContext({ id: 2 }));
+    const db = await import("./db");
+    
+    vi.mocked(db.getParticipantWithUser).mockResolvedValue({
+      id: 2, roomId: 1, userId: 2, role: "spectator", team: null, speakerRole: null, adjudicatorPosition: null, isReady: false, joinedAt: new Date(),
+    });
+    await expect(caller.prep.notes({ roomId: 1 }))
+      .rejects.toThrow("Only team members can use the prep board");
+    
+    vi.mocked(db.getParticipantWithUser).mockResolvedValue({
+      id: 2, roomId: 1, userId: 2, role: "debater", team: "opposition", speakerRole: "leader_of_opposition", adjudicatorPosition: null, isReady: false, joinedAt: new Date(),
+    });
+    await caller.prep.addNote({ roomId: 1, content: " Run the enforcement clash first " });
+    expect(db.createPrepNote).toHaveBeenCalledWith({
+      roomId: 1,
+      team: "opposition",
+      userId: 2,
+      source: "member",
+      content: "Run the enforcement clash first",
+    });
+  });
+
+  it("only opens prep notes to everyone once the debate is over", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    const db = await import("./db");
+    
+    vi.mocked(db.getDebateRoomById).mockResolvedValue({ ...setupRoom, status: "in_progress", currentPhase: "debate" });
+    
+    await expect(caller.prep.review({ roomId: 1 }))
+      .rejects.toThrow("Prep notes are shared once the debate is over");
+  });
+});
+
+describe("points of information", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  // Prime Minister (government) holds the floor on speech 7
+  const liveRoom = (elapsed: number) => ({
+    id: 1,
+    roomCode: "POI123",
+    creatorId: 9,
+    format: "asian_parliamentary" as const,
+    customFormatId: null,
+    aiOpponent: false,
+    status: "in_progress" as const,
+    currentPhase: "debate" as const,
+    prepStartedAt: null,
+    prepSeconds: null,
+    currentSpeakerIndex: 0,
+    motionId: 1,
+    currentSpeechId: 7,
+    clockStartedAt: secondsAgo(elapsed),
+    clockPausedAt: null,
+    clockPausedSeconds: 0,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    startedAt: new Date(),
+    endedAt: null,
+  });
+
+  const deputy = { ...prime, id: 2, userId: 2, speakerRole: "deputy_prime_minister" };
+  const leader = { ...prime, id: 3, userId: 3, team: "opposition", speakerRole: "leader_of_opposition" };
+
+  const poi = (overrides: Record<string, unknown> = {}) => ({
+    id: 5,
+    roomId: 1,
+    speechId: 7,
+    offeredById: 3,
+    status: "offered" as const,
+    accepted: false,
+    content: null,
+    timestamp: 120,
+    respondedAt: null,
+    endedAt: null,
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  it("rejects offers from the speaker's own side and during protected time", async () => {
+    const db = await import("./db");
+    
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(liveRoom(120));
+    vi.mocked(db.getParticipantWithUser).mockResolvedValue(deputy);
+    await expect(appRouter.createCaller(createAuthContext({ id: 2 })).poi.offer({ roomId: 1, speechId: 7 }))
+      .rejects.toThrow("Points of information can only be offered to the other side");
+    
+    const oppositionCaller = appRouter.createCaller(createAuthContext({ id: 3 }));
+    vi.mocked(db.getParticipantWithUser).mockResolvedValue(leader);
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(liveRoom(30));
+    await expect(oppositionCaller.poi.offer({ roomId: 1, speechId: 7 }))
+      .rejects.toThrow("Points of information are not allowed during protected time");
+    
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(liveRoom(120));
+    await expect(oppositionCaller.poi.offer({ roomId: 1, speechId: 7 })).resolves.toEqual({ poiId: 1 });
+    expect(db.createPOI).toHaveBeenCalledWith(expect.objectContaining({
+      offeredById: 3,
+      timestamp: 120,
+      status: "offered",
+    }));
+  });
+
+  it("only lets the speaker holding the floor respond", async () => {
+    const db = await import("./db");
+    
+    vi.mocked(db.getPOIById).mockResolvedValue(poi());
+    vi.mocked(db.getSpeechById).mockResolvedValue({
+      id: 7, roomId: 1, participantId: 1, speakerRole: "prime_minister", speechType: "substantive",
+      transcript: null, audioUrl: null, duration: null, startedAt: new Date(), endedAt: null, createdAt: new Date(),
+    });
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(liveRoom(120));
+    
+    vi.mocked(db.getParticipantWithUser).mockResolvedValue(leader);
+    await expect(appRouter.createCaller(createAuthContext({ id: 3 })).poi.respond({ poiId: 5, accepted: true }))
+      .rejects.toThrow("Only the speaker holding the floor can respond");
+    
+    vi.mocked(db.getParticipantWithUser).mockResolvedValue(prime);
+    vi.mocked(db.getSpeechPOIs).mockResolvedValue([poi(), poi({ id: 6, offeredById: 4 })]);
+    const result = await appRouter.createCaller(createAuthContext({ id: 1 })).poi.respond({ poiId: 5, accepted: true });
+    
+    expect(result.status).toBe("accepted");
+    expect(result.endsAt!.getTime() - Date.now()).toBeLessThanOrEqual(15 * 1000);
+    expect(db.updatePOI).toHaveBeenCalledWith(5, expect.objectContaining({ status: "accepted", accepted: true }));
+    // The other standing offer is sat down
+    expect(db.updatePOI).toHaveBeenCalledWith(6, expect.objectContaining({ status: "declined" }));
+  });
+
+  it("caps an accepted point at the format's maximum length", async () => {
+    const { getPOIRemaining, ASIAN_PARLIAMENTARY_FORMAT } = await import("@shared/debate");
+    const now = Date.now();
+    
+    const accepted = poi({ status: "accepted", respondedAt: new Date(now - 10 * 1000) });
+    expect(getPOIRemaining(accepted, ASIAN_PARLIAMENTARY_FORMAT.poi, now)).toBe(5);
+    expect(getPOIRemaining({ ...accepted, respondedAt: new Date(now - 20 * 1000) }, ASIAN_PARLIAMENTARY_FORMAT.poi, now)).toBe(0);
+    expect(getPOIRemaining({ ...accepted, endedAt: new Date(now) }, ASIAN_PARLIAMENTARY_FORMAT.poi, now)).toBe(0);
+  });
+});
+
+describe("rule violation detection", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const room = {
+    id: 1,
+    roomCode: "RUL123",
+    creatorId: 9,
+    format: "asian_parliamentary" as const,
+    customFormatId: null,
+    aiOpponent: false,
+    status: "in_progress" as const,
+    currentPhase: "debate" as const,
+    prepStartedAt: null,
+    prepSeconds: null,
+    currentSpeakerIndex: 0,
+    motionId: null,
+    currentSpeechId: null,
+    clockStartedAt: null,
+    clockPausedAt: null,
+    clockPausedSeconds: 0,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    startedAt: new Date(),
+    endedAt: null,
+  };
+
+  const llmReply = (content: string) => ({
+    id: "test",
+    created: 0,
+    model: "test",
+    choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant" as const, content } }],
+  });
+
+  it("flags and refuses a speech started out of turn", async () => {
+    const caller = appRouter.createCaller(createAuthContext({ id: 2 }));
+    const db = await import("./db");
+    
+    vi.mocked(db.getParticipantWithUser).mockResolvedValue({
+      id: 2, roomId: 1, userId: 2, role: "debater", team: "government", speakerRole: "deputy_prime_minister", adjudicatorPosition: null, isReady: true, joinedAt: new Date(),
+    });
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(room);
+    
+    await expect(caller.speech.create({ roomId: 1, speakerRole: "deputy_prime_minister", speechType: "substantive" }))
+      .rejects.toThrow("It is the Prime Minister's turn to speak");
+    expect(db.createRuleViolation).toHaveBeenCalledWith(expect.objectContaining({
+      participantId: 2,
+      violationType: "speaking_out_of_turn",
+    }));
+    expect(db.createSpeech).not.toHaveBeenCalled();
+  });
+
+  it("flags points of information that run into protected time", async () => {
+    const { getPOIWindowOverrun, ASIAN_PARLIAMENTARY_FORMAT } = await import("@shared/debate");
+    const slot = ASIAN_PARLIAMENTARY_FORMAT.speakingOrder[0];
+    const offeredAt = new Date("2026-01-01T10:00:00Z");
+    const poi = {
+      status: "ended" as const,
+      timestamp: 340,
+      createdAt: offeredAt,
+      respondedAt: new Date(offeredAt.getTime() + 5000),
+      endedAt: new Date(offeredAt.getTime() + 10000),
+    };
+    
+    // Offered at 5:40, taken at 5:45 and held for 5 seconds: done before protected time at 6:00
+    expect(getPOIWindowOverrun(poi, slot, ASIAN_PARLIAMENTARY_FORMAT.poi)).toBeNull();
+    // Held for the full 15 seconds from 5:50 runs to 6:05
+    expect(getPOIWindowOverrun({ ...poi, timestamp: 345, endedAt: null, status: "accepted" }, slot, ASIAN_PARLIAMENTARY_FORMAT.poi)).toBe(365);
+    // Offered in the first minute
+    expect(getPOIWindowOverrun({ ...poi, timestamp: 30, status: "declined" }, slot, ASIAN_PARLIAMENTARY_FORMAT.poi)).toBe(30);
+  });
+
+  it("checks reply speeches for new arguments against the earlier round", async () => {
+    const db = await import("./db");
+    const { invokeLLM } = await import("./_core/llm");
+    const { detectNewArgumentsInReply } = await import("./ruleViolations");
+    const { ASIAN_PARLIAMENTARY_FORMAT } = await import("@shared/debate");
+    const replySlot = ASIAN_PARLIAMENTARY_FORMAT.speakingOrder[6];
+    
+    const speech = (id: number, speakerRole: string, speechType: "substantive" | "reply", transcript: string) => ({
+      id, roomId: 1, participantId: 3, speakerRole, speechType, transcript,
+      audioUrl: null, duration: 230, startedAt: new Date(), endedAt: new Date(), createdAt: new Date(),
+    });
+    const reply = speech(9, "opposition_reply", "reply", "They never answered our harm to small creators. And consider the environmental cost.");
+    
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(room);
+    vi.mocked(db.getRoomArgumentNodes).mockResolvedValue([]);
+    vi.mocked(db.getRoomSpeeches).mockResolvedValue([
+      speech(2, "leader_of_opposition", "substantive", "Licensing crushes small creators."),
+      reply,
+    ]);
+    vi.mocked(invokeLLM).mockResolvedValueOnce(llmReply(JSON.stringify({
+      newArguments: ["Social media licensing has an environmental cost"],
+    })));
+    
+    await expect(detectNewArgumentsInReply(reply, ASIAN_PARLIAMENTARY_FORMAT, replySlot)).resolves.toBe(1);
+    
+    const prompt = vi.mocked(invokeLLM).mock.calls[0][0].messages[1].content;
+    expect(prompt).toContain("Licensing crushes small creators.");
+    expect(db.createRuleViolation).toHaveBeenCalledWith(expect.objectContaining({
+      speechId: 9,
+      participantId: 3,
+      violationType: "new_argument_in_reply",
+      description: "Social media licensing has an environmental cost",
+    }));
+  });
+
+  it("checks each reply as stored once the round is transcribed, skipping any already flagged", async () => {
+    const db = await import("./db");
+    const { invokeLLM } = await import("./_core/llm");
+    const { detectRoomReplyViolations } = await import("./ruleViolations");
+    const { ASIAN_PARLIAMENTARY_FORMAT } = await import("@shared/debate");
+    
+    const speech = (id: number, speakerRole: string, speechType: "substantive" | "reply", transcript: string) => ({
+      id, roomId: 1, participantId: id - 6, speakerRole, speechType, transcript,
+      audioUrl: null, duration: 230, startedAt: new Date(), endedAt: new Date(), createdAt: new Date(),
+    });
+    
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(room);
+    vi.mocked(db.getRoomSpeeches).mockResolvedValue([
+      speech(2, "leader_of_opposition", "substantive", "Licensing crushes small creators."),
+      // The last chunk, where the new material came in, is already in the stored transcript
+      speech(8, "opposition_reply", "reply", "They never answered our harm to small creators. And consider the environmental cost."),
+      speech(9, "government_reply", "reply", "Our model stood unanswered."),
+    ]);
+    vi.mocked(db.getRoomViolations).mockResolvedValueOnce([{
+      id: 1, roomId: 1, speechId: 9, participantId: 3, violationType: "new_argument_in_reply",
+      description: "A new example", timestamp: 200, createdAt: new Date(),
+    }]);
+    vi.mocked(invokeLLM).mockResolvedValueOnce(llmReply(JSON.stringify({
+      newArguments: ["Social media licensing has an environmental cost"],
+    })));
+    
+    await expect(detectRoomReplyViolations(1, ASIAN_PARLIAMENTARY_FORMAT)).resolves.toBe(1);
+    
+    expect(invokeLLM).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(invokeLLM).mock.calls[0][0].messages[1].content).toContain("environmental cost");
+    expect(db.createRuleViolation).toHaveBeenCalledWith(expect.objectContaining({
+      speechId: 8,
+      participantId: 2,
+      violationType: "new_argument_in_reply",
+    }));
+  });
+});
+
+describe("speech audio archive", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const speech = {
+    id: 7,
+    roomId: 1,
+    participantId: 1,
+    speakerRole: "prime_minister",
+    speechType: "substantive" as const,
+    transcript: null,
+    audioUrl: null,
+    audioOffset: 0,
+    duration: 420,
+    startedAt: new Date(),
+    endedAt: new Date(),
+    createdAt: new Date(),
+  };
+  const audioData = Buffer.alloc(2000, 1).toString("base64");
+
+  it("stores the recording and links it to the speech", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    const db = await import("./db");
+    const { storagePut } = await import("./storage");
+    
+    vi.mocked(db.getSpeechById).mockResolvedValue(speech);
+    vi.mocked(db.getParticipantWithUser).mockResolvedValue(debater(1));
+    
+    const result = await caller.speech.uploadAudio({ speechId: 7, audioData, mimeType: "audio/webm;codecs=opus", offset: 2 });
+    
+    expect(vi.mocked(storagePut).mock.calls[0][0]).toMatch(/^rooms\/1\/speeches\/7-.+\.webm$/);
+    expect(vi.mocked(storagePut).mock.calls[0][2]).toBe("audio/webm");
+    expect(db.updateSpeech).toHaveBeenCalledWith(7, { audioUrl: result.audioUrl, audioOffset: 2 });
+  });
+
+  it("only takes the recording from the speaker", async () => {
+    const caller = appRouter.createCaller(createAuthContext({ id: 2 }));
+    const db = await import("./db");
+    
+    vi.mocked(db.getSpeechById).mockResolvedValue(speech);
+    vi.mocked(db.getParticipantWithUser).mockResolvedValue(debater(2));
+    
+    await expect(caller.speech.uploadAudio({ speechId: 7, audioData }))
+      .rejects.toThrow("Only the speaker can upload a speech's recording");
+    expect(db.updateSpeech).not.toHaveBeenCalled();
+  });
+});
+
+describe("transcript timings", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const whisperResult = {
+    task: "transcribe" as const,
+    language: "en",
+    duration: 6,
+    text: "Zoos protect endangered species. They fund research.",
+    segments: [
+      { id: 0, seek: 0, start: 0.5, end: 3.2, text: " Zoos protect endangered species.", tokens: [], temperature: 0, avg_logprob: 0, compression_ratio: 0, no_speech_prob: 0 },
+      { id: 1, seek: 0, start: 3.6, end: 6, text: " They fund research.", tokens: [], temperature: 0, avg_logprob: 0, compression_ratio: 0, no_speech_prob: 0 },
+    ],
+    words: [
+      { word: "Zoos", start: 0.5, end: 0.9 },
+      { word: "protect", start: 0.9, end: 1.4 },
+      { word: "endangered", start: 1.4, end: 2.2 },
+      { word: "species.", start: 2.2, end: 3.2 },
+      { word: "They", start: 3.6, end: 3.9 },
+      { word: "fund", start: 3.9, end: 4.3 },
+      { word: "research.", start: 4.3, end: 6 },
+    ],
+  };
+
+  it("stores phrase and word timings on the speech clock", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    const db = await import("./db");
+    const { transcribeForRoom } = await import("./transcription");
+    
+    vi.mocked(db.getSpeechById).mockResolvedValue({
+      id: 7, roomId: 1, participantId: 1, speakerRole: "prime_minister", speechType: "substantive", transcript: null,
+      audioUrl: null, audioOffset: 0, duration: null, startedAt: new Date(), endedAt: null, createdAt: new Date(),
+    });
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(undefined);
+    vi.mocked(db.getLatestTranscriptSequence).mockResolvedValue(4);
+    vi.mocked(transcribeForRoom).mockResolvedValue(whisperResult);
+    
+    await caller.speech.transcribe({ speechId: 7, audioData: Buffer.alloc(2000, 1).toString("base64"), timestamp: 20 });
+    
+    const stored = vi.mocked(db.createTranscriptSegment).mock.calls[0][0];
+    expect(stored.timestamp).toBe(20);
+    expect(stored.timings?.phrases).toEqual([
+      { text: "Zoos protect endangered species.", start: 20.5, end: 23.2 },
+      { text: "They fund research.", start: 23.6, end: 26 },
+    ]);
+    expect(stored.timings?.words[6]).toEqual({ word: "research.", start: 24.3, end: 26 });
+  });
+
+  it("links argument nodes to where their quote was said", async () => {
+    const db = await import("./db");
+    const { invokeLLM } = await import("./_core/llm");
+    const { toSpeechTimings } = await import("./transcriptTimings");
+    
+    vi.mocked(db.getRoomSpeeches).mockResolvedValue([{
+      id: 7, roomId: 1, participantId: 1, speakerRole: "prime_minister", speechType: "substantive", transcript: whisperResult.text,
+      audioUrl: null, audioOffset: 0, duration: 420, startedAt: new Date(), endedAt: new Date(), createdAt: new Date(),
+    }]);
+    vi.mocked(db.getRoomTranscriptSegments).mockResolvedValue([{
+      id: 1, roomId: 1, speechId: 7, speakerRole: "prime_minister", speakerName: "Test User", poiId: null,
+      text: whisperResult.text, timestamp: 60, timings: toSpeechTimings(whisperResult, 60), sequenceNumber: 1, createdAt: new Date(),
+    }]);
+    vi.mocked(invokeLLM).mockResolvedValueOnce({
+      id: "test",
+      created: 0,
+      model: "test",
+      choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: JSON.stringify({
+        arguments: [
+          { team: "government", nodeType: "argument", content: "Zoos fund research", transcriptSegment: "They fund research", qualityScore: 6, qualityExplanation: "Asserted", wasAnswered: false, parentContent: null },
+          { team: "opposition", nodeType: "rebuttal", content: "Captivity harms animals", transcriptSegment: "Animals suffer in cages", qualityScore: 5, qualityExplanation: "Thin", wasAnswered: false, parentContent: null },
+        ],
+      }) } }],
+    });
+    
+    const { generateArgumentMap } = await import("./roomAnalysis");
+    const { getRoomFormat } = await import("./roomFormat");
+    await generateArgumentMap({ roomId: 1, room: undefined, format: await getRoomFormat(undefined) });
+    
+    expect(db.deleteRoomArgumentNodes).toHaveBeenCalledWith(1);
+    expect(db.createArgumentNode).toHaveBeenNthCalledWith(1, expect.objectContaining({ speechId: 7, transcriptTimestamp: 63 }));
+    expect(db.createArgumentNode).toHaveBeenNthCalledWith(2, expect.objectContaining({ speechId: null, transcriptTimestamp: null }));
+  });
+});
+
+describe("transcript correction", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const room = {
+    id: 1, roomCode: "FIX123", creatorId: 9, format: "asian_parliamentary" as const, customFormatId: null, aiOpponent: false,
+    transcriptionProvider: null, transcriptionLanguage: null, status: "completed" as const, currentPhase: "debate" as const,
+    prepStartedAt: null, prepSeconds: null, currentSpeakerIndex: 6, motionId: null, currentSpeechId: null,
+    clockStartedAt: null, clockPausedAt: null, clockPausedSeconds: 0,
+    createdAt: new Date(), updatedAt: new Date(), startedAt: new Date(), endedAt: new Date(),
+  };
+  const speech = {
+    id: 7, roomId: 1, participantId: 1, speakerRole: "prime_minister", speechType: "substantive" as const,
+    transcript: "Zoos protect endangered species. They fund research.", audioUrl: null, audioOffset: 0,
+    duration: 420, startedAt: new Date(), endedAt: new Date(), createdAt: new Date(),
+  };
+  // Recognised text comes with its phrase and word timings
+  const timedSegment = (id: number, text: string) => segment(id, text, {
+    timings: {
+      phrases: [{ text, start: id * 10 + 0.5, end: id * 10 + 4 }],
+      words: text.split(" ").map((word, i) => ({ word, start: id * 10 + i, end: id * 10 + i + 1 })),
+    },
+  });
+
+  it("keeps the original text and rebuilds the speech transcript from corrections", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    const db = await import("./db");
+    
+    vi.mocked(db.getTranscriptSegmentById).mockResolvedValue(timedSegment(1, "Zoos protect endangered speeches."));
+    vi.mocked(db.getSpeechById).mockResolvedValue(speech);
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(room);
+    vi.mocked(db.getParticipantWithUser).mockResolvedValue(debater(1));
+    vi.mocked(db.getRoomTranscriptSegments).mockResolvedValue([
+      timedSegment(1, "Zoos protect endangered speeches."),
+      timedSegment(2, "They fund research."),
+    ]);
+    
+    await caller.transcript.edit({ segmentId: 1, text: "Zoos protect endangered species." });
+    
+    expect(db.createTranscriptEdit).toHaveBeenCalledWith({
+      segmentId: 1,
+      roomId: 1,
+      userId: 1,
+      previousText: "Zoos protect endangered speeches.",
+      text: "Zoos protect endangered species.",
+    });
+    expect(db.updateTranscriptSegment).toHaveBeenCalledWith(1, expect.objectContaining({
+      text: "Zoos protect endangered species.",
+      originalText: "Zoos protect endangered speeches.",
+      timings: { phrases: [{ text: "Zoos protect endangered species.", start: 10.5, end: 14 }], words: [] },
+    }));
+    expect(db.updateSpeech).toHaveBeenCalledWith(7, {
+      transcript: "Zoos protect endangered species. They fund research.",
+    });
+  });
+
+  it("only lets the speaker or the room creator correct a finished speech", async () => {
+    const db = await import("./db");
+    
+    vi.mocked(db.getTranscriptSegmentById).mockResolvedValue(timedSegment(1, "Zoos protect endangered speeches."));
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(room);
+    vi.mocked(db.getSpeechById).mockResolvedValue(speech);
+    vi.mocked(db.getParticipantWithUser).mockResolvedValue(debater(2));
+    
+    await expect(appRouter.createCaller(createAuthContext({ id: 2 })).transcript.edit({ segmentId: 1, text: "Anything" }))
+      .rejects.toThrow("Only the speaker or the room creator can correct this transcript");
+    
+    vi.mocked(db.getSpeechById).mockResolvedValue({ ...speech, endedAt: null });
+    await expect(appRouter.createCaller(createAuthContext({ id: 9 })).transcript.edit({ segmentId: 1, text: "Anything" }))
+      .rejects.toThrow("Transcripts can be corrected once the speech is over");
+    expect(db.createTranscriptEdit).not.toHaveBeenCalled();
+  });
+  
+  it("counts the round towards debaters' history once, not on every regenerated feedback", async () => {
+    const db = await import("./db");
+    const { invokeLLM } = await import("./_core/llm");
+    const { generateRoomFeedback } = await import("./roomAnalysis");
+    const { ASIAN_PARLIAMENTARY_FORMAT } = await import("@shared/debate");
+    const feedback = {
+      id: "test", created: 0, model: "test",
+      choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant" as const, content: JSON.stringify({
+        overallAnalysis: "Close round", suggestedWinner: "government", winningReason: "Better clash",
+        teamFeedback: [], individualFeedback: [],
+      }) } }],
+    };
+    vi.mocked(db.getRoomSpeeches).mockResolvedValue([speech]);
+    vi.mocked(db.getRoomParticipants).mockResolvedValue([debater(1), debater(2)]);
+    
+    vi.mocked(invokeLLM).mockResolvedValueOnce(feedback);
+    await generateRoomFeedback({ roomId: 1, room: { ...room, currentPhase: "feedback" }, format: ASIAN_PARLIAMENTARY_FORMAT });
+    expect(db.incrementUserDebates).toHaveBeenCalledTimes(2);
+    
+    // Regenerating after a correction: the room completed the first time round
+    vi.mocked(invokeLLM).mockResolvedValueOnce(feedback);
+    await generateRoomFeedback({ roomId: 1, room: { ...room, currentPhase: "completed" }, format: ASIAN_PARLIAMENTARY_FORMAT });
+    expect(db.incrementUserDebates).toHaveBeenCalledTimes(2);
+    expect(db.createFeedback).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("transcription vocabulary", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const room = {
+    id: 1, roomCode: "VOC123", creatorId: 9, format: "asian_parliamentary" as const, customFormatId: null, aiOpponent: false,
+    transcriptionProvider: null, transcriptionLanguage: null, status: "in_progress" as const, currentPhase: "debate" as const,
+    prepStartedAt: null, prepSeconds: null, currentSpeakerIndex: 0, motionId: 3, currentSpeechId: 7,
+    clockStartedAt: null, clockPausedAt: null, clockPausedSeconds: 0,
+    createdAt: new Date(), updatedAt: new Date(), startedAt: new Date(), endedAt: null,
+  };
+  const user = (id: number, name: string, club: string | null = null) => ({
+    id, openId: `user-${id}`, name, email: null, loginMethod: null, role: "user" as const, club,
+    createdAt: new Date(), updatedAt: new Date(), lastSignedIn: new Date(),
+  });
+
+  it("primes transcription with the motion, stakeholders, debaters and club glossary", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    const db = await import("./db");
+    const { transcribeForRoom } = await import("./transcription");
+    
+    vi.mocked(db.getSpeechById).mockResolvedValue({
+      id: 7, roomId: 1, participantId: 1, speakerRole: "prime_minister", speechType: "substantive", transcript: null,
+      audioUrl: null, audioOffset: 0, duration: null, startedAt: new Date(), endedAt: null, createdAt: new Date(),
+    });
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(room);
+    vi.mocked(db.getMotionById).mockResolvedValue({
+      id: 3, motion: "This House would nationalise Grab", topicArea: "economics", difficulty: "intermediate", motionType: "impromptu",
+      backgroundContext: null, keyStakeholders: ["gig drivers", "MyCar"], isAiGenerated: true, createdAt: new Date(),
+    });
+    vi.mocked(db.getRoomParticipants).mockResolvedValue([
+      { id: 1, roomId: 1, userId: 1, role: "debater", team: "government", speakerRole: "prime_minister", adjudicatorPosition: null, isReady: true, joinedAt: new Date() },
+    ]);
+    vi.mocked(db.getUserById).mockImplementation(async (id: number) =>
+      id === 9 ? user(9, "Creator", "Riverside Debate Society") : user(id, "Siobhán Ng")
+    );
+    vi.mocked(db.getClubGlossary).mockResolvedValue([
+      { id: 1, clubName: "Riverside Debate Society", term: "Oxbridge Cup", createdById: 9, createdAt: new Date() },
+    ]);
+    vi.mocked(transcribeForRoom).mockResolvedValue({ task: "transcribe", language: "en", duration: 0, text: "", segments: [] });
+    
+    await caller.speech.transcribe({ speechId: 7, audioData: Buffer.alloc(2000, 1).toString("base64"), timestamp: 0 });
+    
+    expect(db.getClubGlossary).toHaveBeenCalledWith("Riverside Debate Society");
+    const prompt = vi.mocked(transcribeForRoom).mock.calls[0][1].prompt;
+    expect(prompt).toContain("Motion: This House would nationalise Grab");
+    expect(prompt).toContain("Vocabulary: gig drivers, MyCar, Siobhán Ng, Oxbridge Cup, motion, mechanism, burden, clash, POI");
+  });
+
+  it("drops the least specific terms to keep the prompt short", async () => {
+    const { buildTranscriptionPrompt } = await import("./transcriptionPrompt");
+    
+    const prompt = buildTranscriptionPrompt({
+      motion: "This House regrets the rise of influencer politics",
+      keyStakeholders: ["voters"],
+      names: ["Ama Mensah", "ama mensah"],
+      glossary: Array.from({ length: 200 }, (_, i) => `term${i}`),
+    });
+    
+    expect(prompt.length).toBeLessThanOrEqual(800);
+    expect(prompt).toContain("Vocabulary: voters, Ama Mensah, term0, term1");
+    expect(prompt).not.toContain("ama mensah");
+    expect(prompt).not.toContain("term199");
+  });
+
+  it("keeps one copy of each term in a club's glossary", async () => {
+    const caller = appRouter.createCaller(createAuthContext({ club: "Riverside Debate Society" }));
+    const db = await import("./db");
+    
+    vi.mocked(db.getClubGlossary).mockResolvedValue([
+      { id: 1, clubName: "Riverside Debate Society", term: "Counterfactual", createdById: 2, createdAt: new Date() },
+    ]);
+    
+    await expect(caller.glossary.add({ term: "counterfactual" }))
+      .rejects.toThrow("That term is already in your club's glossary");
+    await caller.glossary.add({ term: "Oxbridge Cup" });
+    expect(db.addGlossaryTerm).toHaveBeenCalledWith({ clubName: "Riverside Debate Society", term: "Oxbridge Cup", createdById: 1 });
+  });
+});
+
+describe("delivery analytics", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const timedSegment = (words: Array<[string, number, number]>) => ({
+    text: words.map(([word]) => word).join(" "),
+    timestamp: Math.floor(words[0][1]),
+    timings: {
+      phrases: [{ text: words.map(([word]) => word).join(" "), start: words[0][1], end: words[words.length - 1][2] }],
+      words: words.map(([word, start, end]) => ({ word, start, end })),
+    },
+  });
+
+  it("measures pace, fillers, pauses and repetition from word timings", async () => {
+    const { computeDeliveryMetrics } = await import("./deliveryAnalytics");
+    
+    const metrics = computeDeliveryMetrics([
+      timedSegment([["Um,", 0, 0.5], ["the", 0.5, 1], ["status", 1, 1.5], ["quo", 1.5, 2], ["fails.", 2, 3]]),
+      timedSegment([["So,", 8, 8.5], ["like,", 8.5, 9], ["the", 9, 9.5], ["status", 9.5, 10], ["quo", 10, 10.5], ["fails.", 10.5, 11]]),
+      timedSegment([["I", 12, 12.5], ["like", 12.5, 13], ["that", 13, 13.5], ["the", 13.5, 14], ["status", 14, 14.5], ["quo", 14.5, 15], ["fails.", 15, 16]]),
+    ], 420, 60);
+    
+    expect(metrics.wordCount).toBe(18);
+    expect(metrics.wordsPerMinute).toBe(18);
+    expect(metrics.pace).toEqual([{ start: 0, wordsPerMinute: 36 }, { start: 30, wordsPerMinute: 0 }]);
+    expect(metrics.fillers).toEqual([{ filler: "um", count: 1 }, { filler: "like", count: 1 }]);
+    expect(metrics.longPauses).toEqual([{ start: 3, duration: 5 }]);
+    expect(metrics.repeatedPhrases).toEqual([{ phrase: "the status quo fails", count: 3 }]);
+    expect(metrics.timeUsed).toBe(60);
+    expect(metrics.timeAllotted).toBe(420);
+  });
+
+  it("analyses each transcribed speech without its points of information", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    const db = await import("./db");
+    
+    vi.mocked(db.getDebateRoomById).mockResolvedValue({
+      id: 1, roomCode: "DEL123", creatorId: 1, format: "asian_parliamentary", customFormatId: null, aiOpponent: false,
+      transcriptionProvider: null, transcriptionLanguage: null, status: "completed", currentPhase: "completed",
+      prepStartedAt: null, prepSeconds: null, currentSpeakerIndex: 8, motionId: null, currentSpeechId: null,
+      clockStartedAt: null, clockPausedAt: null, clockPausedSeconds: 0,
+      createdAt: new Date(), updatedAt: new Date(), startedAt: new Date(), endedAt: new Date(),
+    });
+    vi.mocked(db.getRoomSpeeches).mockResolvedValue([7, 8].map(id => ({
+      id, roomId: 1, participantId: id - 6, speakerRole: id === 7 ? "prime_minister" : "leader_of_opposition", speechType: "substantive" as const,
+      transcript: "text", audioUrl: null, audioOffset: 0, duration: 400, startedAt: new Date(), endedAt: new Date(), createdAt: new Date(),
+    })));
+    vi.mocked(db.getRoomTranscriptSegments).mockResolvedValue([
+      segment(1, "Thank you Madam Speaker, um, we propose."),
+      segment(2, "Um, um, does this not harm drivers?", { poiId: 4 }),
+    ]);
+    
+    await expect(caller.delivery.analyze({ roomId: 1 })).resolves.toEqual({ analyzed: 1 });
+    
+    const [roomId, rows] = vi.mocked(db.replaceRoomSpeechDelivery).mock.calls[0];
+    expect(roomId).toBe(1);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ speechId: 7, participantId: 1, speakerRole: "prime_minister" });
+    expect(rows[0].metrics).toMatchObject({ wordCount: 7, fillerCount: 1, timeUsed: 400, timeAllotted: 420 });
+  });
+});
+
+describe("shared-device rounds", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const sharedRoom = {
+    id: 1, roomCode: "ONE123", creatorId: 1, format: "asian_parliamentary" as const, customFormatId: null, aiOpponent: false,
+    transcriptionProvider: null, transcriptionLanguage: null, recordingMode: "shared_device" as const,
+    status: "in_progress" as const, currentPhase: "debate" as const,
+    prepStartedAt: null, prepSeconds: null, currentSpeakerIndex: 0, motionId: null, currentSpeechId: null,
+    clockStartedAt: null, clockPausedAt: null, clockPausedSeconds: 0,
+    createdAt: new Date(), updatedAt: new Date(), startedAt: new Date(), endedAt: null,
+  };
+  const audioData = Buffer.alloc(2000, 1).toString("base64");
+
+  it("splits a diarized round into speeches with their interjections", async () => {
+    const { splitRoundIntoSpeeches } = await import("./roundSplitting");
+    const turns = [
+      { start: 0, end: 8, speaker: "chair" },
+      { start: 8, end: 150, speaker: "A" },
+      { start: 150, end: 160, speaker: "B" },
+      { start: 160, end: 300, speaker: "A" },
+      { start: 300, end: 306, speaker: "chair" },
+      { start: 306, end: 600, speaker: "B" },
+    ];
+    
+    expect(splitRoundIntoSpeeches(turns, 8)).toEqual([
+      { speaker: "A", start: 8, end: 300, interjections: [{ speaker: "B", start: 150, end: 160 }] },
+      { speaker: "B", start: 306, end: 600, interjections: [] },
+    ]);
+    // More speeches than slots: the longest are kept
+    expect(splitRoundIntoSpeeches(turns, 1).map(s => s.speaker)).toEqual(["B"]);
+  });
+
+  it("reads speaker turns as JSON or RTTM", async () => {
+    const { parseDiarizationOutput } = await import("./diarization");
+    
+    expect(parseDiarizationOutput('[{"start": 4.5, "end": 9, "speaker": 1}, {"start": 0, "end": 4.5, "speaker": 0}]')).toEqual([
+      { start: 0, end: 4.5, speaker: "0" },
+      { start: 4.5, end: 9, speaker: "1" },
+    ]);
+    expect(parseDiarizationOutput(
+      "SPEAKER round 1 0.50 3.25 <NA> <NA> SPEAKER_00 <NA> <NA>\nSPEAKER round 1 3.75 2.00 <NA> <NA> SPEAKER_01 <NA> <NA>\n"
+    )).toEqual([
+      { start: 0.5, end: 3.75, speaker: "SPEAKER_00" },
+      { start: 3.75, end: 5.75, speaker: "SPEAKER_01" },
+    ]);
+  });
+
+  it("stores the creator's round recording and processes it against the speaking order", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    const db = await import("./db");
+    const { runRoundRecording } = await import("./roundRecording");
+    
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(sharedRoom);
+    vi.mocked(db.getLatestRoundRecording).mockResolvedValue(undefined);
+    vi.mocked(db.getRoomParticipants).mockResolvedValue([
+      member(2, "debater", { team: "opposition", speakerRole: "leader_of_opposition", isReady: true }),
+      member(1, "debater", { team: "government", speakerRole: "prime_minister", isReady: true }),
+    ]);
+    
+    await expect(caller.recording.upload({ roomId: 1, audioData, startedAt: 1_700_000_000_000 }))
+      .resolves.toEqual({ recordingId: 1 });
+    
+    expect(db.createRoundRecording).toHaveBeenCalledWith(expect.objectContaining({
+      roomId: 1, uploadedById: 1, status: "processing", startedAt: new Date(1_700_000_000_000),
+    }));
+    const { slots, recording } = vi.mocked(runRoundRecording).mock.calls[0][0];
+    expect(recording.audioUrl).toMatch(/^https:\/\/storage\.test\/rooms\/1\/round-.+\.webm$/);
+    // The speaking order of the roles people joined in, plus the reply speeches they give
+    expect(slots.map(s => s.role)).toEqual(["prime_minister", "leader_of_opposition", "opposition_reply", "government_reply"]);
+  });
+
+  it("only takes a round recording from the creator of a shared-device room", async () => {
+    const db = await import("./db");
+    vi.mocked(db.getLatestRoundRecording).mockResolvedValue(undefined);
+    
+    vi.mocked(db.getDebateRoomById).mockResolvedValue({ ...sharedRoom, recordingMode: "per_speaker" });
+    await expect(appRouter.createCaller(createAuthContext()).recording.upload({ roomId: 1, audioData }))
+      .rejects.toThrow("This room records each speaker on their own device");
+    
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(sharedRoom);
+    await expect(appRouter.createCaller(createAuthContext({ id: 2 })).recording.upload({ roomId: 1, audioData }))
+      .rejects.toThrow("Only the room creator can upload the round recording");
+    expect(db.createRoundRecording).not.toHaveBeenCalled();
+  });
+
+  it("lets the creator start each speech for whoever holds the floor", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    const db = await import("./db");
+    
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(sharedRoom);
+    vi.mocked(db.getParticipantWithUser).mockResolvedValue(member(1, "spectator"));
+    vi.mocked(db.getRoomParticipants).mockResolvedValue([member(2, "debater", { team: "government", speakerRole: "prime_minister", isReady: true })]);
+    vi.mocked(db.createSpeech).mockResolvedValue(9);
+    
+    await expect(caller.speech.create({ roomId: 1, speakerRole: "prime_minister", speechType: "substantive" }))
+      .resolves.toEqual({ speechId: 9 });
+    expect(db.createSpeech).toHaveBeenCalledWith(expect.objectContaining({ participantId: 2, speakerRole: "prime_minister" }));
+  });
+});
+
+describe("room languages", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const spanishRoom = {
+    id: 1, roomCode: "ESP123", creatorId: 1, format: "asian_parliamentary" as const, customFormatId: null, aiOpponent: false,
+    transcriptionProvider: null, transcriptionLanguage: "es", recordingMode: "per_speaker" as const,
+    status: "in_progress" as const, currentPhase: "debate" as const,
+    prepStartedAt: null, prepSeconds: null, currentSpeakerIndex: 0, motionId: null, currentSpeechId: null,
+    clockStartedAt: null, clockPausedAt: null, clockPausedSeconds: 0,
+    createdAt: new Date(), updatedAt: new Date(), startedAt: new Date(), endedAt: null,
+  };
+
+  it("fills the moderator's lines and prompt instructions in the room's language", async () => {
+    const { fillModeratorLine, MODERATOR_LINES } = await import("@shared/debate");
+    const { languageInstruction } = await import("./roomLanguage");
+    
+    expect(fillModeratorLine(MODERATOR_LINES.en.callSpeaker, { role: "Prime Minister", name: "Ana", minutes: 7 }))
+      .toBe("Prime Minister, Ana, you have 7 minutes. Please begin when ready.");
+    expect(fillModeratorLine(MODERATOR_LINES.es.callSpeaker, { role: "Primer Ministro", name: "Ana", minutes: 7 }))
+      .toContain("Ana");
+    expect(languageInstruction("en")).toBe("");
+    expect(languageInstruction("es")).toContain("Spanish");
+  });
+
+  it("asks for motions in the room's language", async () => {
+    const db = await import("./db");
+    const { invokeLLM } = await import("./_core/llm");
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(spanishRoom);
+    const caller = appRouter.createCaller(createAuthContext());
+    
+    await caller.motion.generate({ roomId: 1, topicArea: "technology", difficulty: "intermediate" });
+    
+    const [{ messages }] = vi.mocked(invokeLLM).mock.calls[0];
+    expect(messages[0].content).toContain("The round is held in Spanish");
+  });
+
+  it("translates only segments that are new or corrected since their translation", async () => {
+    const db = await import("./db");
+    const { invokeLLM } = await import("./_core/llm");
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(spanishRoom);
+    vi.mocked(db.getRoomTranscriptSegments).mockResolvedValue([
+      segment(1, "Esta Cámara prohibiría las redes sociales."),
+      segment(2, "Los niños merecen protección."),
+      segment(3, "Corregido: tres razones."),
+    ]);
+    vi.mocked(db.getRoomTranscriptTranslations).mockResolvedValue([
+      { id: 1, segmentId: 1, roomId: 1, language: "en", sourceText: "Esta Cámara prohibiría las redes sociales.", text: "This House would ban social media.", createdAt: new Date() },
+      { id: 2, segmentId: 3, roomId: 1, language: "en", sourceText: "Dos razones.", text: "Two reasons.", createdAt: new Date() },
+    ]);
+    vi.mocked(invokeLLM).mockResolvedValueOnce({
+      choices: [{ message: { content: JSON.stringify({ translations: [
+        { segmentId: 2, text: "Children deserve protection." },
+        { segmentId: 3, text: "Corrected: three reasons." },
+      ] }) } }],
+    } as Awaited<ReturnType<typeof invokeLLM>>);
+    const caller = appRouter.createCaller(createAuthContext());
+    
+    const result = await caller.transcript.translations({ roomId: 1, language: "en" });
+    
+    expect(result.translations).toEqual([
+      { segmentId: 1, text: "This House would ban social media." },
+      { segmentId: 2, text: "Children deserve protection." },
+      { segmentId: 3, text: "Corrected: three reasons." },
+    ]);
+    const [{ messages }] = vi.mocked(invokeLLM).mock.calls[0];
+    expect(messages[1].content).not.toContain("[1]");
+    expect(db.saveTranscriptTranslations).toHaveBeenCalledWith("en", [
+      expect.objectContaining({ segmentId: 2, sourceText: "Los niños merecen protección." }),
+      expect.objectContaining({ segmentId: 3, sourceText: "Corregido: tres razones.", text: "Corrected: three reasons." }),
+    ]);
+  });
+
+  it("shares one translation run between spectators asking at once", async () => {
+    const db = await import("./db");
+    const { invokeLLM } = await import("./_core/llm");
+    const { translateRoomTranscript } = await import("./translation");
+    const translated = { id: 1, segmentId: 1, roomId: 1, language: "en", sourceText: "Los niños merecen protección.", text: "Children deserve protection.", createdAt: new Date() };
+    vi.mocked(db.getRoomTranscriptSegments).mockResolvedValue([segment(1, "Los niños merecen protección.")]);
+    vi.mocked(db.getRoomTranscriptTranslations).mockResolvedValueOnce([]).mockResolvedValue([translated]);
+    vi.mocked(invokeLLM).mockResolvedValueOnce({
+      choices: [{ message: { content: JSON.stringify({ translations: [{ segmentId: 1, text: "Children deserve protection." }] }) } }],
+    } as Awaited<ReturnType<typeof invokeLLM>>);
+    
+    // The first request starts a run; the others, arriving mid-run, share the one after it
+    const results = await Promise.all([1, 2, 3].map(() => translateRoomTranscript(1, "es", "en")));
+    
+    expect(results).toEqual([1, 2, 3].map(() => [{ segmentId: 1, text: "Children deserve protection." }]));
+    expect(invokeLLM).toHaveBeenCalledTimes(1);
+    expect(db.getRoomTranscriptSegments).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("debate import", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const importedRoom = {
+    id: 1, roomCode: "IMP123", creatorId: 1, format: "asian_parliamentary" as const, customFormatId: null, aiOpponent: false,
+    transcriptionProvider: null, transcriptionLanguage: null, recordingMode: "per_speaker" as const,
+    status: "completed" as const, currentPhase: "feedback" as const,
+    prepStartedAt: null, prepSeconds: null, currentSpeakerIndex: 0, motionId: 1, currentSpeechId: null,
+    clockStartedAt: null, clockPausedAt: null, clockPausedSeconds: 0,
+    createdAt: new Date(), updatedAt: new Date(), startedAt: new Date(), endedAt: new Date(),
+  };
+  const importInput = {
+    format: "asian_parliamentary" as const,
+    motion: "This House would ban zoos",
+    topicArea: "ethics" as const,
+    mySpeakerRole: "prime_minister",
+    speeches: [
+      { role: "leader_of_opposition", speakerName: "Sam", source: { kind: "text" as const, transcript: "Zoos protect species." } },
+      { role: "government_reply", speakerName: "", source: { kind: "text" as const, transcript: "We won the clash." } },
+      { role: "prime_minister", speakerName: "", source: { kind: "file" as const, uploadId: "abcdef123456", chunkCount: 3, mimeType: "video/mp4" } },
+    ],
+  };
+
+  it("creates a completed room and imports the speeches in speaking order", async () => {
+    const db = await import("./db");
+    const { runDebateImport } = await import("./debateImport");
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(importedRoom);
+    vi.mocked(db.addParticipant).mockResolvedValue(7);
+    const caller = appRouter.createCaller(createAuthContext());
+    
+    const result = await caller.import.create(importInput);
+    
+    expect(result.roomId).toBe(1);
+    expect(db.createDebateRoom).toHaveBeenCalledWith(expect.objectContaining({ status: "completed", motionId: 1 }));
+    expect(db.addParticipant).toHaveBeenCalledWith(expect.objectContaining({
+      role: "debater", team: "government", speakerRole: "prime_minister",
+    }));
+    const [{ speeches }] = vi.mocked(runDebateImport).mock.calls[0];
+    expect(speeches.map(s => [s.slot.role, s.participantId, s.speakerName])).toEqual([
+      ["prime_minister", 7, "Test User"],
+      ["leader_of_opposition", null, "Sam"],
+      ["government_reply", 7, "Test User"],
+    ]);
+  });
+
+  it("needs a name for every speech the importer didn't give", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    
+    await expect(caller.import.create({ ...importInput, mySpeakerRole: null }))
+      .rejects.toThrow("Name the speaker of every speech you didn't give");
+    await expect(caller.import.create({ ...importInput, speeches: [importInput.speeches[0], importInput.speeches[0]] }))
+      .rejects.toThrow("Each speaking position can only be imported once");
+  });
+
+  it("stores pasted transcripts as segments timed at a speaking pace", async () => {
+    const db = await import("./db");
+    const { processDebateImport, segmentTextTranscript } = await import("./debateImport");
+    const { ASIAN_PARLIAMENTARY_FORMAT } = await import("@shared/debate");
+    const sentence = "Zoos keep endangered species alive when their habitats are gone.";
+    
+    const { segments, duration } = segmentTextTranscript(`${sentence} ${sentence} ${sentence}\n\nShort closing line.`);
+    expect(segments.map(s => s.timestamp)).toEqual([0, 12]);
+    expect(segments[1].text).toBe("Short closing line.");
+    expect(duration).toBe(13);
+    
+    vi.mocked(db.getLatestTranscriptSequence).mockResolvedValue(4);
+    vi.mocked(db.createSpeech).mockResolvedValue(9);
+    await processDebateImport({
+      room: importedRoom,
+      importedById: 1,
+      speeches: [{
+        slot: ASIAN_PARLIAMENTARY_FORMAT.speakingOrder[1],
+        participantId: null,
+        speakerName: "Sam",
+        source: { kind: "text", transcript: "Zoos protect species. They fund research." },
+      }],
+    });
+    
+    expect(db.createSpeech).toHaveBeenCalledWith(expect.objectContaining({
+      participantId: null,
+      speakerName: "Sam",
+      speakerRole: "leader_of_opposition",
+      transcript: "Zoos protect species. They fund research.",
+      audioUrl: null,
+    }));
+    expect(db.createTranscriptSegment).toHaveBeenCalledWith(expect.objectContaining({
+      speechId: 9, speakerName: "Sam", timestamp: 0, sequenceNumber: 5,
+    }));
+  });
+
+  it("hands the imported round's analysis to the job queue", async () => {
+    const db = await import("./db");
+    const { runDebateImport } = await vi.importActual<typeof import("./debateImport")>("./debateImport");
+    const { ASIAN_PARLIAMENTARY_FORMAT } = await import("@shared/debate");
+    vi.mocked(db.getLatestTranscriptSequence).mockResolvedValue(0);
+    vi.mocked(db.createSpeech).mockResolvedValue(9);
+    vi.mocked(db.getRoomSpeeches).mockResolvedValue([{
+      id: 9, roomId: 1, participantId: null, speakerName: "Sam", speakerRole: "leader_of_opposition", speechType: "substantive",
+      transcript: "Zoos protect species.", audioUrl: null, audioOffset: 0, duration: 2, startedAt: null, endedAt: null, createdAt: new Date(),
+    }]);
+    vi.mocked(db.getRoomTranscriptSegments).mockResolvedValue([]);
+    vi.mocked(db.getAnalysisJobByKey).mockResolvedValue(undefined);
+    vi.mocked(db.getAnalysisJobById).mockResolvedValue({ id: 4, roomId: 1, kind: "mindmap", status: "queued" } as never);
+    vi.mocked(db.getNextAnalysisJob).mockResolvedValue(undefined);
+    
+    await runDebateImport({
+      debateImport: { id: 3 },
+      room: importedRoom,
+      importedById: 1,
+      speeches: [{
+        slot: ASIAN_PARLIAMENTARY_FORMAT.speakingOrder[1],
+        participantId: null,
+        speakerName: "Sam",
+        source: { kind: "text", transcript: "Zoos protect species." },
+      }],
+    });
+    
+    expect(db.updateDebateImport).toHaveBeenCalledWith(3, expect.objectContaining({ status: "processed" }));
+    expect(vi.mocked(db.createAnalysisJob).mock.calls.map(([j]) => j.kind)).toEqual(["mindmap", "feedback"]);
+    expect(vi.mocked(db.createAnalysisJob).mock.calls[0][0].runAfter!.getTime()).toBeLessThanOrEqual(Date.now());
+  });
+
+  it("keeps individual feedback for guest speakers by role", async () => {
+    const db = await import("./db");
+    const { invokeLLM } = await import("./_core/llm");
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(importedRoom);
+    vi.mocked(db.getRoomParticipants).mockResolvedValue([]);
+    vi.mocked(db.getRoomSpeeches).mockResolvedValue([{
+      id: 9, roomId: 1, participantId: null, speakerName: "Sam", speakerRole: "opposition_reply", speechType: "reply",
+      transcript: "We won the clash.", audioUrl: null, audioOffset: 0, duration: 240, startedAt: null, endedAt: null, createdAt: new Date(),
+    }]);
+    vi.mocked(invokeLLM).mockResolvedValueOnce({
+      id: "test", created: 0, model: "test",
+      choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: JSON.stringify({
+        overallAnalysis: "Close round",
+        suggestedWinner: "opposition",
+        winningReason: "Better clash",
+        teamFeedback: [],
+        individualFeedback: [
+          { speakerRole: "leader_of_opposition", strongestArguments: ["Conservation"], missedResponses: [], improvements: [] },
+          { speakerRole: "prime_minister", strongestArguments: [], missedResponses: [], improvements: [] },
+        ],
+      }) } }],
+    });
+    const { generateRoomFeedback } = await import("./roomAnalysis");
+    const { ASIAN_PARLIAMENTARY_FORMAT } = await import("@shared/debate");
+    
+    await generateRoomFeedback({ roomId: 1, room: importedRoom, format: ASIAN_PARLIAMENTARY_FORMAT });
+    
+    const individual = vi.mocked(db.createFeedback).mock.calls.map(([f]) => f).filter(f => f.feedbackType === "individual");
+    expect(individual).toEqual([expect.objectContaining({ participantId: null, speakerRole: "leader_of_opposition" })]);
+  });
+});
+
+describe("analysis jobs", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const room = {
+    id: 1, roomCode: "JOB123", creatorId: 1, format: "asian_parliamentary" as const, customFormatId: null, aiOpponent: false,
+    transcriptionProvider: null, transcriptionLanguage: null, recordingMode: "per_speaker" as const,
+    status: "in_progress" as const, currentPhase: "debate" as const,
+    prepStartedAt: null, prepSeconds: null, currentSpeakerIndex: 7, motionId: 1, currentSpeechId: null,
+    clockStartedAt: null, clockPausedAt: null, clockPausedSeconds: 0,
+    createdAt: new Date(), updatedAt: new Date(), startedAt: new Date(), endedAt: null,
+  };
+  const speech = {
+    id: 9, roomId: 1, participantId: 1, speakerName: null, speakerRole: "prime_minister", speechType: "substantive",
+    transcript: "Zoos protect species.", audioUrl: null, audioOffset: 0, duration: 420, startedAt: null, endedAt: null, createdAt: new Date(),
+  };
+  const job = (overrides: Record<string, unknown> = {}) => ({
+    id: 4, roomId: 1, kind: "mindmap" as const, idempotencyKey: "room:1:mindmap:0:0", status: "queued" as const,
+    progress: 0, step: null, attempts: 0, maxAttempts: 3, error: null, requestedById: 1, runAfter: new Date(),
+    startedAt: null, completedAt: null, createdAt: new Date(), updatedAt: new Date(),
+    ...overrides,
+  });
+
+  it("gives a repeated request the job already queued for the same transcript", async () => {
+    const db = await import("./db");
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(room);
+    vi.mocked(db.getRoomTranscriptSegments).mockResolvedValue([
+      { id: 1, roomId: 1, speechId: 9, speakerRole: "prime_minister", speakerName: "Test User", poiId: null, text: "Zoos protect species.", timestamp: 0, timings: null, sequenceNumber: 1, editedAt: new Date(5000), createdAt: new Date() },
+      { id: 2, roomId: 1, speechId: 9, speakerRole: "prime_minister", speakerName: "Test User", poiId: null, text: "They fund research.", timestamp: 4, timings: null, sequenceNumber: 2, editedAt: null, createdAt: new Date() },
+    ]);
+    vi.mocked(db.getAnalysisJobByKey).mockResolvedValue(job({ kind: "feedback", status: "running", progress: 50 }));
+    const caller = appRouter.createCaller(createAuthContext());
+    
+    const result = await caller.feedback.generate({ roomId: 1 });
+    
+    expect(result).toMatchObject({ id: 4, status: "running" });
+    // Same transcript, same key: a correction (a later editedAt) would make a new one
+    expect(db.getAnalysisJobByKey).toHaveBeenCalledWith("room:1:feedback:2:5000");
+    expect(db.createAnalysisJob).not.toHaveBeenCalled();
+  });
+
+  it("gives a request the job already queued even if the transcript has grown since", async () => {
+    const db = await import("./db");
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(room);
+    vi.mocked(db.getRoomAnalysisJobs).mockResolvedValue([
+      job({ kind: "feedback", idempotencyKey: "room:1:feedback:1:0", runAfter: new Date(Date.now() + 20_000) }),
+    ]);
+    const caller = appRouter.createCaller(createAuthContext());
+    
+    const result = await caller.feedback.generate({ roomId: 1 });
+    
+    expect(result).toMatchObject({ id: 4, kind: "feedback", status: "queued" });
+    expect(db.getAnalysisJobByKey).not.toHaveBeenCalled();
+    expect(db.createAnalysisJob).not.toHaveBeenCalled();
+    vi.mocked(db.getRoomAnalysisJobs).mockResolvedValue([]);
+  });
+
+  it("queues a new job behind one that is running on a transcript corrected since", async () => {
+    const db = await import("./db");
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(room);
+    vi.mocked(db.getRoomAnalysisJobs).mockResolvedValue([
+      job({ kind: "feedback", idempotencyKey: "room:1:feedback:2:0", status: "running", progress: 50 }),
+    ]);
+    vi.mocked(db.getRoomTranscriptSegments).mockResolvedValue([
+      segment(1, "Zoos protect species.", { speechId: 9, editedAt: new Date(5000) }),
+      segment(2, "They fund research.", { speechId: 9 }),
+    ]);
+    vi.mocked(db.getAnalysisJobByKey).mockResolvedValue(undefined);
+    vi.mocked(db.createAnalysisJob).mockResolvedValue(5);
+    vi.mocked(db.getAnalysisJobById).mockResolvedValue(job({ id: 5, kind: "feedback", idempotencyKey: "room:1:feedback:2:5000" }));
+    vi.mocked(db.getNextAnalysisJob).mockResolvedValue(undefined);
+    const caller = appRouter.createCaller(createAuthContext());
+    
+    const result = await caller.feedback.generate({ roomId: 1 });
+    
+    expect(result).toMatchObject({ id: 5, status: "queued" });
+    expect(db.createAnalysisJob).toHaveBeenCalledWith(expect.objectContaining({
+      roomId: 1,
+      kind: "feedback",
+      idempotencyKey: "room:1:feedback:2:5000",
+    }));
+    vi.mocked(db.getRoomAnalysisJobs).mockResolvedValue([]);
+  });
+
+  it("queues the argument map, then the feedback, when the round ends", async () => {
+    const db = await import("./db");
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(room);
+    vi.mocked(db.getRoomParticipants).mockResolvedValue([
+      { id: 1, roomId: 1, userId: 1, role: "debater", team: "government", speakerRole: "prime_minister", isReady: true, joinedAt: new Date() },
+    ]);
+    vi.mocked(db.getRoomSpeeches).mockResolvedValue([speech]);
+    vi.mocked(db.getRoomTranscriptSegments).mockResolvedValue([]);
+    vi.mocked(db.getAnalysisJobByKey).mockResolvedValue(undefined);
+    vi.mocked(db.getAnalysisJobById).mockResolvedValue(job());
+    vi.mocked(db.getNextAnalysisJob).mockResolvedValue(undefined);
+    const caller = appRouter.createCaller(createAuthContext());
+    
+    const result = await caller.room.advanceSpeaker({ roomId: 1 });
+    
+    expect(result.completed).toBe(true);
+    await vi.waitFor(() => expect(db.createAnalysisJob).toHaveBeenCalledTimes(2));
+    expect(vi.mocked(db.createAnalysisJob).mock.calls.map(([j]) => j.kind)).toEqual(["mindmap", "feedback"]);
+    expect(db.createAnalysisJob).toHaveBeenCalledWith(expect.objectContaining({
+      roomId: 1, idempotencyKey: "room:1:mindmap:0:0", requestedById: null,
+    }));
+  });
+
+  it("retries a failed job with backoff, then gives up", async () => {
+    const db = await import("./db");
+    const { invokeLLM } = await import("./_core/llm");
+    const { processAnalysisJobs } = await import("./analysisJobs");
+    vi.mocked(db.getDebateRoomById).mockResolvedValue(room);
+    vi.mocked(db.getRoomSpeeches).mockResolvedValue([speech]);
+    vi.mocked(invokeLLM).mockRejectedValueOnce(new Error("LLM unavailable")).mockRejectedValueOnce(new Error("LLM unavailable"));
+    
+    vi.mocked(db.getNextAnalysisJob).mockResolvedValueOnce(job()).mockResolvedValueOnce(undefined);
+    await processAnalysisJobs();
+    
+    expect(db.claimAnalysisJob).toHaveBeenCalledWith(4);
+    expect(db.updateAnalysisJob).toHaveBeenLastCalledWith(4, expect.objectContaining({
+      status: "queued", error: "LLM unavailable", runAfter: expect.any(Date),
+    }));
+    const { runAfter } = vi.mocked(db.updateAnalysisJob).mock.lastCall![1];
+    expect(runAfter!.getTime()).toBeGreaterThan(Date.now() + 25_000);
+    
+    vi.mocked(db.getNextAnalysisJob).mockResolvedValueOnce(job({ attempts: 2 })).mockResolvedValueOnce(undefined);
+    await processAnalysisJobs();
+    
+    expect(db.updateAnalysisJob).toHaveBeenLastCalledWith(4, expect.objectContaining({
+      status: "failed", error: "LLM unavailable",
+    }));
+  });
+});
@@ -0,0 +1,168 @@
+import { nanoid } from "nanoid";
+import * as db from "./db";
+import { enqueueRoundEndAnalysis } from "./analysisJobs";
+import { publishRoomEvent } from "./roomEvents";
+import { segmentSpeechTranscript, transcribeRecording } from "./roundRecording";
+import { storageGet, storagePut } from "./storage";
+import type { DebateImport, DebateRoom } from "../drizzle/schema";
+import type { SpeakingSlot, TranscriptTimings } from "@shared/debate";
+
+// Pasted transcripts carry no timings, so they are timed at an even speaking pace
+const WORDS_PER_SECOND = 2.5;
+// About as long as the live recorder's segments at that pace
+const WORDS_PER_SEGMENT = 25;
+
+/** Where a speech comes from: an uploaded recording or a pasted transcript. */
+export type ImportedSpeechSource =
+  | { kind: "file"; uploadId: string; chunkCount: number; mimeType: string }
+  | { kind: "text"; transcript: string };
+
+/** One speech of an imported round, in speaking order. */
+export type ImportedSpeech = {
+  slot: SpeakingSlot;
+  participantId: number | null; // the importer, when they gave it
+  speakerName: string;
+  source: ImportedSpeechSource;
+};
+
+// Storage key for one part of an uploaded file; parts are private to their uploader
+export function importChunkKey(userId: number, uploadId: string, index: number) {
+  return `imports/${userId}/${uploadId}/${index}`;
+}
+
+// Put an uploaded file back together from its parts
+async function readUpload(userId: number, source: Extract<ImportedSpeechSource, { kind: "file" }>) {
+  const parts: Buffer[] = [];
+  for (let i = 0; i < source.chunkCount; i++) {
+    const { url } = await storageGet(importChunkKey(userId, source.uploadId, i));
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Part ${i + 1} of ${source.chunkCount} of an uploaded file is missing`);
+    }
+    parts.push(Buffer.from(await response.arrayBuffer()));
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * Split a pasted transcript into segments of a sentence or a few, timed as if
+ * spoken at an even pace. Returns the segments and the speech's length.
+ */
+export function segmentTextTranscript(transcript: string) {
+  const sentences = transcript.match(/[^.!?。！？\n]+[.!?。！？]*["')\]」』]*/g) ?? [];
+  const segments: Array<{ text: string; timestamp: number; timings: null }> = [];
+  let words = 0;
+  let pending: string[] = [];
+  let pendingWords = 0;
+
+  const flush = () => {
+    if (pending.length === 0) return;
+    segments.push({ text: pending.join(" "), timestamp: Math.floor(words / WORDS_PER_SECOND), timings: null });
+    words += pendingWords;
+    pending = [];
+    pendingWords = 0;
+  };
+
+  for (const sentence of sentences) {
+    const text = sentence.trim();
+    if (!text) continue;
+    pending.push(text);
+    pendingWords += text.split(/\s+/).length;
+    if (pendingWords >= WORDS_PER_SEGMENT) flush();
+  }
+  flush();
+
+  return { segments, duration: Math.round(words / WORDS_PER_SECOND) };
+}
+
+/**
+ * Store an imported round's speeches and their transcript segments, in
+ * speaking order. Recordings are reassembled from their uploaded parts,
+ * archived and transcribed in parts of a few minutes each.
+ */
+export async function processDebateImport({
+  room,
+  importedById,
+  speeches,
+}: {
+  room: DebateRoom;
+  importedById: number;
+  speeches: ImportedSpeech[];
+}) {
+  let sequence = await db.getLatestTranscriptSequence(room.id);
+
+  for (const speech of speeches) {
+    const { slot, source } = speech;
+    let audioUrl: string | null = null;
+    let segments: Array<{ text: string; timestamp: number; timings: TranscriptTimings | null }>;
+    let duration: number;
+
+    if (source.kind === "file") {
+      const buffer = await readUpload(importedById, source);
+      const extension = source.mimeType.split("/")[1]?.split(";")[0].replace(/[^a-z0-9]/gi, "") || "bin";
+      ({ url: audioUrl } = await storagePut(
+        `rooms/${room.id}/speeches/imported-${nanoid(10)}.${extension}`,
+        buffer,
+        source.mimeType
+      ));
+      const timings = await transcribeRecording(room, buffer, source.mimeType);
+      segments = segmentSpeechTranscript(timings);
+      duration = Math.round(timings.phrases[timings.phrases.length - 1]?.end ?? 0);
+    } else {
+      ({ segments, duration } = segmentTextTranscript(source.transcript));
+    }
+
+    const speechId = await db.createSpeech({
+      roomId: room.id,
+      participantId: speech.participantId,
+      speakerName: speech.participantId === null ? speech.speakerName : null,
+      speakerRole: slot.role,
+      speechType: slot.type,
+      transcript: segments.map(s => s.text).join(" "),
+      audioUrl,
+      duration,
+    });
+    for (const segment of segments) {
+      await db.createTranscriptSegment({
+        roomId: room.id,
+        speechId,
+        speakerRole: slot.role,
+        speakerName: speech.speakerName,
+        poiId: null,
+        ...segment,
+        sequenceNumber: ++sequence,
+      });
+    }
+  }
+}
+
+/**
+ * Import a round in the background: store its speeches, recording progress
+ * on the import and telling the room as it moves on, then queue the argument
+ * map and feedback on it.
+ */
+export async function runDebateImport({
+  debateImport,
+  ...options
+}: Parameters<typeof processDebateImport>[0] & {
+  debateImport: Pick<DebateImport, "id">;
+}) {
+  const { room } = options;
+  try {
+    await processDebateImport(options);
+    await db.updateDebateImport(debateImport.id, { status: "processed", processedAt: new Date() });
+    publishRoomEvent(room.id, { type: "import", status: "processed" });
+  } catch (error) {
+    console.error("[DebateImport] Import failed:", error);
+    await db.updateDebateImport(debateImport.id, {
+      status: "failed",
+      error: error instanceof Error ? error.message : "Unknown error",
+      processedAt: new Date(),
+    });
+    publishRoomEvent(room.id, { type: "import", status: "failed" });
+    return;
+  }
+
+  // Nothing is waiting on transcription here, so the analysis can start straight away
+  await enqueueRoundEndAnalysis(room.id, 0);
+}
@@ -0,0 +1,153 @@
+import * as db from "./db";
+import type { DebateSpeech, InsertSpeechDelivery, TranscriptSegment } from "../drizzle/schema";
+import {
+  FILLER_WORDS,
+  LONG_PAUSE_SECONDS,
+  PACE_WINDOW_SECONDS,
+  type DebateFormat,
+  type DeliveryMetrics,
+} from "@shared/debate";
+
+// Phrases of 3 to 5 words said at least 3 times count as repetition
+const PHRASE_MIN_WORDS = 3;
+const PHRASE_MAX_WORDS = 5;
+const PHRASE_MIN_COUNT = 3;
+const MAX_REPEATED_PHRASES = 5;
+
+// A trailing partial pace window shorter than this is left off the chart
+const MIN_PACE_WINDOW_SECONDS = 5;
+
+type DeliverySegment = Pick<TranscriptSegment, "text" | "timestamp" | "timings">;
+type TimedWord = { word: string; start: number; end: number; timed: boolean };
+
+function normalizeWord(word: string) {
+  return word.toLowerCase().replace(/[.,!?;:"“”‘’()[\]{}…—–\-]/g, "");
+}
+
+// The speech's words on the speech clock. Segments without word timings have
+// their words spread evenly up to where the next segment starts.
+function speechWords(segments: DeliverySegment[], speechEnd: number): TimedWord[] {
+  const ordered = [...segments].sort((a, b) => a.timestamp - b.timestamp);
+  return ordered.flatMap<TimedWord>((segment, i) => {
+    const timedWords = segment.timings?.words ?? [];
+    if (timedWords.length > 0) {
+      return timedWords.map(w => ({ word: w.word, start: w.start, end: w.end, timed: true }));
+    }
+    const words = segment.text.split(/\s+/).filter(Boolean);
+    const start = segment.timings?.phrases[0]?.start ?? segment.timestamp;
+    const end = Math.max(start, ordered[i + 1]?.timestamp ?? speechEnd);
+    const step = words.length > 0 ? (end - start) / words.length : 0;
+    return words.map((word, j) => ({ word, start: start + j * step, end: start + (j + 1) * step, timed: false }));
+  });
+}
+
+function countFillers(text: string): DeliveryMetrics["fillers"] {
+  const lower = text.toLowerCase();
+  return FILLER_WORDS
+    .map(filler => {
+      const pattern = filler === "like"
+        ? /,\s*like\b|\blike\s*,/g
+        : new RegExp(`\\b${filler}\\b`, "g");
+      return { filler, count: lower.match(pattern)?.length ?? 0 };
+    })
+    .filter(f => f.count > 0)
+    .sort((a, b) => b.count - a.count);
+}
+
+// Longest repeated phrases first; a shorter phrase inside one already listed is left out
+function findRepeatedPhrases(words: string[]): DeliveryMetrics["repeatedPhrases"] {
+  const counts = new Map<string, number>();
+  for (let n = PHRASE_MIN_WORDS; n <= PHRASE_MAX_WORDS; n++) {
+    for (let i = 0; i + n <= words.length; i++) {
+      const phrase = words.slice(i, i + n).join(" ");
+      counts.set(phrase, (counts.get(phrase) ?? 0) + 1);
+    }
+  }
+  const repeated = Array.from(counts.entries())
+    .filter(([, count]) => count >= PHRASE_MIN_COUNT)
+    .sort(([a], [b]) => b.split(" ").length - a.split(" ").length);
+  const kept: Array<{ phrase: string; count: number }> = [];
+  for (const [phrase, count] of repeated) {
+    if (kept.some(k => k.phrase.includes(phrase))) continue;
+    kept.push({ phrase, count });
+  }
+  return kept.sort((a, b) => b.count - a.count).slice(0, MAX_REPEATED_PHRASES);
+}
+
+/**
+ * Delivery metrics for one speech from its transcript segments. `duration` is
+ * how long the speech ran; without it the last word's end is used.
+ */
+export function computeDeliveryMetrics(
+  segments: DeliverySegment[],
+  timeAllotted: number,
+  duration: number | null
+): DeliveryMetrics {
+  const roughEnd = Math.max(0, ...segments.map(s => s.timings?.words.at(-1)?.end ?? s.timestamp));
+  const words = speechWords(segments, duration ?? roughEnd);
+  const timeUsed = duration ?? (words.length > 0 ? Math.round(words[words.length - 1].end) : 0);
+
+  const pace: DeliveryMetrics["pace"] = [];
+  for (let start = 0; start < timeUsed; start += PACE_WINDOW_SECONDS) {
+    const length = Math.min(PACE_WINDOW_SECONDS, timeUsed - start);
+    if (length < MIN_PACE_WINDOW_SECONDS) break;
+    const spoken = words.filter(w => w.start >= start && w.start < start + PACE_WINDOW_SECONDS).length;
+    pace.push({ start, wordsPerMinute: Math.round((spoken / length) * 60) });
+  }
+
+  const longPauses: DeliveryMetrics["longPauses"] = [];
+  for (let i = 1; i < words.length; i++) {
+    const gap = words[i].start - words[i - 1].end;
+    if (words[i].timed && words[i - 1].timed && gap >= LONG_PAUSE_SECONDS) {
+      longPauses.push({ start: Math.round(words[i - 1].end * 10) / 10, duration: Math.round(gap * 10) / 10 });
+    }
+  }
+
+  const fillers = countFillers(segments.map(s => s.text).join(" "));
+  const fillerTokens = new Set<string>(FILLER_WORDS.filter(f => !f.includes(" ") && f !== "like"));
+  const phraseWords = words.map(w => normalizeWord(w.word)).filter(w => w && !fillerTokens.has(w));
+
+  return {
+    wordCount: words.length,
+    wordsPerMinute: timeUsed > 0 ? Math.round((words.length / timeUsed) * 60) : 0,
+    pace,
+    fillerCount: fillers.reduce((sum, f) => sum + f.count, 0),
+    fillers,
+    longPauses,
+    timeUsed,
+    timeAllotted,
+    repeatedPhrases: findRepeatedPhrases(phraseWords),
+  };
+}
+
+/**
+ * Work out delivery metrics for every transcribed speech in a room and store
+ * them, replacing any earlier analysis. Points of information are left out of
+ * the speaker's figures; returns the rows that were stored.
+ */
+export async function analyzeRoomDelivery({
+  roomId,
+  format,
+  speeches,
+}: {
+  roomId: number;
+  format: DebateFormat;
+  speeches: DebateSpeech[];
+}): Promise<InsertSpeechDelivery[]> {
+  const segments = await db.getRoomTranscriptSegments(roomId);
+  const rows: InsertSpeechDelivery[] = [];
+  for (const speech of speeches) {
+    const own = segments.filter(s => s.speechId === speech.id && s.poiId === null);
+    if (own.length === 0) continue;
+    const slot = format.speakingOrder.find(o => o.role === speech.speakerRole);
+    rows.push({
+      roomId,
+      speechId: speech.id,
+      participantId: speech.participantId,
+      speakerRole: speech.speakerRole,
+      metrics: computeDeliveryMetrics(own, slot?.time ?? 0, speech.duration),
+    });
+  }
+  await db.replaceRoomSpeechDelivery(roomId, rows);
+  return rows;
+}
@@ -0,0 +1,70 @@
+import { execFile } from "child_process";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { promisify } from "util";
+import { ENV } from "./_core/env";
+
+const run = promisify(execFile);
+
+// Diarization output can run long for a full round
+const MAX_OUTPUT_BYTES = 20 * 1024 * 1024;
+
+/** A stretch of audio attributed to one (anonymous) speaker, in seconds. */
+export type SpeakerTurn = {
+  start: number;
+  end: number;
+  speaker: string;
+};
+
+/**
+ * Speaker turns from a diarization command's output: either a JSON array of
+ * `{ start, end, speaker }` or RTTM lines as pyannote writes them.
+ */
+export function parseDiarizationOutput(output: string): SpeakerTurn[] {
+  const trimmed = output.trim();
+  if (trimmed.startsWith("[")) {
+    const entries = JSON.parse(trimmed) as Array<{ start: number; end: number; speaker: string | number }>;
+    return entries
+      .map(e => ({ start: Number(e.start), end: Number(e.end), speaker: String(e.speaker) }))
+      .filter(t => Number.isFinite(t.start) && Number.isFinite(t.end) && t.end > t.start)
+      .sort((a, b) => a.start - b.start);
+  }
+
+  // RTTM: SPEAKER <file> <channel> <onset> <duration> <NA> <NA> <speaker> <NA> <NA>
+  return trimmed
+    .split("\n")
+    .map(line => line.trim().split(/\s+/))
+    .filter(fields => fields[0] === "SPEAKER" && fields.length >= 8)
+    .map(fields => {
+      const start = Number(fields[3]);
+      return { start, end: start + Number(fields[4]), speaker: fields[7] };
+    })
+    .filter(t => Number.isFinite(t.start) && t.end > t.start)
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Who spoke when in a recording, by running the deployment's diarization
+ * command on it. Throws when no command is configured or it fails.
+ */
+export async function diarizeAudio(audioBuffer: Buffer, mimeType: string): Promise<SpeakerTurn[]> {
+  if (!ENV.diarizationBin) {
+    throw new Error("Speaker diarization is not configured");
+  }
+
+  const dir = await mkdtemp(path.join(tmpdir(), "diarize-"));
+  try {
+    const input = path.join(dir, `round.${mimeType.includes("mp4") ? "m4a" : mimeType.includes("wav") ? "wav" : "webm"}`);
+    await writeFile(input, audioBuffer);
+
+    console.log(`[Diarization] Diarizing ${audioBuffer.length} bytes`);
+    const { stdout } = await run(ENV.diarizationBin, [input], {
+      timeout: ENV.diarizationTimeoutMs,
+      maxBuffer: MAX_OUTPUT_BYTES,
+    });
+    return parseDiarizationOutput(stdout);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
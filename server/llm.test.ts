@@ -0,0 +1,175 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.mock('./_core/env', () => ({
+  ENV: {
+    forgeApiUrl: 'https://forge.example.com',
+    forgeApiKey: 'forge-key',
+    openaiApiUrl: 'https://openai.example.com',
+    openaiApiKey: 'openai-key',
+    anthropicApiUrl: 'https://anthropic.example.com',
+    anthropicApiKey: 'anthropic-key',
+    localLlmUrl: 'http://localhost:11434',
+    llmModels: 'forge:gemini-2.5-flash,openai:gpt-4o-mini',
+    llmTaskModels: { feedback: 'anthropic:claude-sonnet-4-5' },
+    llmTimeoutMs: 1000,
+    llmMaxRetries: 1,
+  }
+}));
+
+const completion = (content: string) => ({
+  ok: true,
+  json: () => Promise.resolve({
+    id: 'chatcmpl-1',
+    created: 0,
+    model: 'test',
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+  }),
+});
+
+const failure = (status: number) => ({
+  ok: false,
+  status,
+  statusText: 'Error',
+  text: () => Promise.resolve('upstream error'),
+});
+
+const motionSchema = {
+  name: 'motion',
+  strict: true,
+  schema: {
+    type: 'object',
+    properties: { motion: { type: 'string' } },
+    required: ['motion'],
+    additionalProperties: false,
+  },
+};
+
+const sentModel = (mockFetch: ReturnType<typeof vi.fn>, call: number) =>
+  JSON.parse(mockFetch.mock.calls[call][1].body).model;
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe("LLM model chains", () => {
+  it("should parse provider:model chains and per-task overrides", async () => {
+    const { parseModelChain } = await import('./_core/llmProviders');
+    const { getModelChain } = await import('./_core/llm');
+
+    expect(parseModelChain('openai:gpt-4o, local:llama3.1:8b')).toEqual([
+      { provider: 'openai', model: 'gpt-4o' },
+      { provider: 'local', model: 'llama3.1:8b' },
+    ]);
+    expect(() => parseModelChain('mystery:model')).toThrow('Invalid LLM model');
+    expect(getModelChain('feedback')).toEqual([{ provider: 'anthropic', model: 'claude-sonnet-4-5' }]);
+    expect(getModelChain('motion').map(m => m.provider)).toEqual(['forge', 'openai']);
+  });
+
+  it("should leave the local backend out until LOCAL_LLM_URL is set", async () => {
+    const { ENV } = await import('./_core/env');
+    const { getModelChain } = await import('./_core/llm');
+    const localLlmUrl = ENV.localLlmUrl;
+    ENV.llmTaskModels.rules = 'local:llama3.1:8b,forge:gemini-2.5-flash';
+
+    try {
+      ENV.localLlmUrl = '';
+      expect(getModelChain('rules').map(m => m.provider)).toEqual(['forge']);
+      ENV.localLlmUrl = localLlmUrl;
+      expect(getModelChain('rules').map(m => m.provider)).toEqual(['local', 'forge']);
+    } finally {
+      ENV.localLlmUrl = localLlmUrl;
+      delete ENV.llmTaskModels.rules;
+    }
+  });
+});
+
+describe("invokeLLM", () => {
+  it("should retry temporary failures and fall back to the next model", async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+    const mockFetch = vi.fn()
+      .mockResolvedValueOnce(failure(503))
+      .mockResolvedValueOnce(failure(503))
+      .mockResolvedValueOnce(completion('Hello'));
+    vi.stubGlobal('fetch', mockFetch);
+
+    const { invokeLLM } = await import('./_core/llm');
+    const pending = invokeLLM({ task: 'motion', messages: [{ role: 'user', content: 'Hi' }] });
+    await vi.runAllTimersAsync();
+    const result = await pending;
+
+    expect(result.choices[0].message.content).toBe('Hello');
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(sentModel(mockFetch, 0)).toBe('gemini-2.5-flash');
+    expect(sentModel(mockFetch, 1)).toBe('gemini-2.5-flash');
+    expect(sentModel(mockFetch, 2)).toBe('gpt-4o-mini');
+    expect(mockFetch.mock.calls[2][0]).toBe('https://openai.example.com/v1/chat/completions');
+  });
+
+  it("should not retry a rejected request on the same model", async () => {
+    const mockFetch = vi.fn()
+      .mockResolvedValueOnce(failure(400))
+      .mockResolvedValueOnce(failure(401));
+    vi.stubGlobal('fetch', mockFetch);
+
+    const { invokeLLM } = await import('./_core/llm');
+    await expect(invokeLLM({ task: 'motion', messages: [{ role: 'user', content: 'Hi' }] }))
+      .rejects.toThrow('401');
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should ask the same model to repair malformed JSON", async () => {
+    const mockFetch = vi.fn()
+      .mockResolvedValueOnce(completion('{"motion": "This house would'))
+      .mockResolvedValueOnce(completion('```json\n{"motion": "This house would ban zoos"}\n```'));
+    vi.stubGlobal('fetch', mockFetch);
+
+    const { invokeLLM } = await import('./_core/llm');
+    const result = await invokeLLM({
+      task: 'motion',
+      messages: [{ role: 'user', content: 'A motion please' }],
+      response_format: { type: 'json_schema', json_schema: motionSchema },
+    });
+
+    expect(JSON.parse(result.choices[0].message.content as string)).toEqual({ motion: 'This house would ban zoos' });
+    const repair = JSON.parse(mockFetch.mock.calls[1][1].body);
+    expect(repair.model).toBe('gemini-2.5-flash');
+    expect(repair.messages).toHaveLength(3);
+    expect(repair.messages[2].content).toContain("isn't valid JSON");
+  });
+
+  it("should get structured output from Anthropic through a forced tool call", async () => {
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({
+        id: 'msg_1',
+        model: 'claude-sonnet-4-5',
+        content: [{ type: 'tool_use', id: 'toolu_1', name: 'motion', input: { motion: 'This house would ban zoos' } }],
+        stop_reason: 'tool_use',
+        usage: { input_tokens: 10, output_tokens: 5 },
+      }),
+    });
+    vi.stubGlobal('fetch', mockFetch);
+
+    const { invokeLLM } = await import('./_core/llm');
+    const result = await invokeLLM({
+      task: 'feedback',
+      messages: [
+        { role: 'system', content: 'You are a debate coach.' },
+        { role: 'user', content: 'A motion please' },
+      ],
+      response_format: { type: 'json_schema', json_schema: motionSchema },
+    });
+
+    const [url, init] = mockFetch.mock.calls[0];
+    const body = JSON.parse(init.body);
+    expect(url).toBe('https://anthropic.example.com/v1/messages');
+    expect(init.headers['x-api-key']).toBe('anthropic-key');
+    expect(body.system).toBe('You are a debate coach.');
+    expect(body.messages).toEqual([{ role: 'user', content: 'A motion please' }]);
+    expect(body.tool_choice).toEqual({ type: 'tool', name: 'motion' });
+    expect(body.max_tokens).toBe(8192);
+    expect(JSON.parse(result.choices[0].message.content as string)).toEqual({ motion: 'This house would ban zoos' });
+    expect(result.usage?.total_tokens).toBe(15);
+  });
+});
@@ -0,0 +1,187 @@
+import { execFile } from "child_process";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { promisify } from "util";
+import { ENV } from "./_core/env";
+import type {
+  TranscribeBufferOptions,
+  TranscriptionError,
+  WhisperResponse,
+  WhisperSegment,
+  WhisperWord,
+} from "./_core/transcribeBuffer";
+
+const run = promisify(execFile);
+
+// whisper.cpp's `-ojf` output: one entry per segment, offsets in milliseconds,
+// with the segment's tokens when the full output was requested
+type WhisperCppOutput = {
+  result?: { language?: string };
+  transcription: Array<{
+    offsets: { from: number; to: number };
+    text: string;
+    tokens?: Array<{ text: string; offsets: { from: number; to: number } }>;
+  }>;
+};
+
+// faster-whisper (via whisper-ctranslate2) writes openai-whisper style JSON
+type FasterWhisperOutput = {
+  text: string;
+  language?: string;
+  segments: Array<{
+    id?: number;
+    start: number;
+    end: number;
+    text: string;
+    avg_logprob?: number;
+    no_speech_prob?: number;
+    words?: Array<{ word: string; start: number; end: number }>;
+  }>;
+};
+
+function toSegment(id: number, start: number, end: number, text: string, extra: Partial<WhisperSegment> = {}): WhisperSegment {
+  return {
+    id,
+    seek: 0,
+    start,
+    end,
+    text,
+    tokens: [],
+    temperature: 0,
+    avg_logprob: 0,
+    compression_ratio: 0,
+    no_speech_prob: 0,
+    ...extra,
+  };
+}
+
+// whisper.cpp tokens are word pieces: a piece without a leading space continues
+// the previous word, and bracketed tokens like [_BEG_] are timing markers
+function tokensToWords(tokens: NonNullable<WhisperCppOutput["transcription"][number]["tokens"]>): WhisperWord[] {
+  const words: WhisperWord[] = [];
+  for (const token of tokens) {
+    if (/^\[_.*\]$/.test(token.text) || !token.text.trim()) continue;
+    const start = token.offsets.from / 1000;
+    const end = token.offsets.to / 1000;
+    const last = words[words.length - 1];
+    if (last && !token.text.startsWith(" ")) {
+      last.word += token.text;
+      last.end = end;
+    } else {
+      words.push({ word: token.text.trim(), start, end });
+    }
+  }
+  return words;
+}
+
+function toResponse(
+  segments: WhisperSegment[],
+  words: WhisperWord[],
+  language: string | undefined,
+  text?: string
+): WhisperResponse {
+  return {
+    task: "transcribe",
+    language: language ?? "",
+    duration: segments.length > 0 ? segments[segments.length - 1].end : 0,
+    text: (text ?? segments.map(s => s.text).join("")).trim(),
+    segments,
+    ...(words.length > 0 ? { words } : {}),
+  };
+}
+
+export function parseWhisperCppOutput(output: WhisperCppOutput, language?: string): WhisperResponse {
+  const segments = output.transcription.map((entry, i) =>
+    toSegment(i, entry.offsets.from / 1000, entry.offsets.to / 1000, entry.text)
+  );
+  const words = output.transcription.flatMap(entry => tokensToWords(entry.tokens ?? []));
+  return toResponse(segments, words, output.result?.language ?? language);
+}
+
+export function parseFasterWhisperOutput(output: FasterWhisperOutput, language?: string): WhisperResponse {
+  const segments = output.segments.map((entry, i) =>
+    toSegment(entry.id ?? i, entry.start, entry.end, entry.text, {
+      avg_logprob: entry.avg_logprob ?? 0,
+      no_speech_prob: entry.no_speech_prob ?? 0,
+    })
+  );
+  const words = output.segments.flatMap(entry =>
+    (entry.words ?? []).map(w => ({ word: w.word.trim(), start: w.start, end: w.end }))
+  );
+  return toResponse(segments, words, output.language ?? language, output.text);
+}
+
+async function transcribeWithWhisperCpp(dir: string, input: string, options: TranscribeBufferOptions) {
+  // whisper.cpp only reads 16 kHz mono WAV, so browser recordings go through ffmpeg first
+  const wav = path.join(dir, "audio.wav");
+  await run(ENV.ffmpegBin, ["-y", "-loglevel", "error", "-i", input, "-ar", "16000", "-ac", "1", "-c:a", "pcm_s16le", wav], {
+    timeout: ENV.localWhisperTimeoutMs,
+  });
+
+  const outputBase = path.join(dir, "transcript");
+  const args = ["-m", ENV.localWhisperModel, "-f", wav, "-ojf", "-of", outputBase, "-np"];
+  if (options.language) args.push("-l", options.language);
+  if (options.prompt) args.push("--prompt", options.prompt);
+  await run(ENV.localWhisperBin || "whisper-cli", args, { timeout: ENV.localWhisperTimeoutMs });
+
+  const output = JSON.parse(await readFile(`${outputBase}.json`, "utf8")) as WhisperCppOutput;
+  return parseWhisperCppOutput(output, options.language);
+}
+
+async function transcribeWithFasterWhisper(dir: string, input: string, options: TranscribeBufferOptions) {
+  const args = [input, "--output_format", "json", "--output_dir", dir, "--word_timestamps", "True", "--verbose", "False"];
+  if (ENV.localWhisperModel) args.push("--model", ENV.localWhisperModel);
+  if (options.language) args.push("--language", options.language);
+  if (options.prompt) args.push("--initial_prompt", options.prompt);
+  await run(ENV.localWhisperBin || "whisper-ctranslate2", args, { timeout: ENV.localWhisperTimeoutMs });
+
+  const output = JSON.parse(await readFile(path.join(dir, "audio.json"), "utf8")) as FasterWhisperOutput;
+  return parseFasterWhisperOutput(output, options.language);
+}
+
+/**
+ * Transcribe an audio buffer on this machine with whisper.cpp or faster-whisper,
+ * for deployments that can't reach the hosted API. Returns the same shape as
+ * `transcribeBuffer`.
+ */
+export async function transcribeLocally(
+  options: TranscribeBufferOptions
+): Promise<WhisperResponse | TranscriptionError> {
+  const { audioBuffer, mimeType = "audio/webm" } = options;
+  if (audioBuffer.length < 1000) {
+    return {
+      error: "Audio file too small",
+      code: "INVALID_FORMAT",
+      details: `File size is ${audioBuffer.length} bytes, minimum is 1KB`,
+    };
+  }
+  if (ENV.localWhisperEngine === "whisper_cpp" && !ENV.localWhisperModel) {
+    return {
+      error: "Local transcription is not configured",
+      code: "SERVICE_ERROR",
+      details: "LOCAL_WHISPER_MODEL must point at a whisper.cpp model file",
+    };
+  }
+
+  const dir = await mkdtemp(path.join(tmpdir(), "whisper-"));
+  try {
+    const input = path.join(dir, `audio.${mimeType.includes("mp4") ? "m4a" : mimeType.includes("wav") ? "wav" : "webm"}`);
+    await writeFile(input, audioBuffer);
+
+    console.log(`[LocalWhisper] Transcribing ${audioBuffer.length} bytes with ${ENV.localWhisperEngine}`);
+    const result = ENV.localWhisperEngine === "faster_whisper"
+      ? await transcribeWithFasterWhisper(dir, input, options)
+      : await transcribeWithWhisperCpp(dir, input, options);
+    return result;
+  } catch (error) {
+    console.error("[LocalWhisper] Error:", error);
+    return {
+      error: "Local transcription failed",
+      code: "TRANSCRIPTION_FAILED",
+      details: error instanceof Error ? error.message : "Unknown error",
+    };
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
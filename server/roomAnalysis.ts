@@ -0,0 +1,352 @@
+import { TRPCError } from "@trpc/server";
+import { invokeLLM } from "./_core/llm";
+import * as db from "./db";
+import { analyzeRoomDelivery } from "./deliveryAnalytics";
+import { getRoomLanguage, languageInstruction } from "./roomLanguage";
+import { scoreRoomSpeeches } from "./speechScoring";
+import { locateQuote } from "./transcriptTimings";
+import type { DebateRoom } from "../drizzle/schema";
+import {
+  DEFAULT_RUBRIC_WEIGHTS,
+  getSlotSpeakerRole,
+  isDebater,
+  normalizeTeamRanking,
+  type DebateFormat,
+} from "@shared/debate";
+
+type AnalysisTarget = {
+  roomId: number;
+  room: DebateRoom | undefined;
+  format: DebateFormat;
+  // Told how far along the work is, as a percentage and the step under way
+  onProgress?: (progress: number, step: string) => Promise<void>;
+};
+
+/**
+ * Extract the round's arguments and rebuttals into the argument map,
+ * replacing any map generated before. Returns how many nodes were stored.
+ */
+export async function generateArgumentMap({ roomId, room, format, onProgress }: AnalysisTarget): Promise<number> {
+  const speeches = await db.getRoomSpeeches(roomId);
+  const motion = room?.motionId ? await db.getMotionById(room.motionId) : null;
+  const teamIds = format.teams.map(t => t.id);
+
+  if (speeches.length === 0) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "No speeches to analyze" });
+  }
+
+  const transcripts = speeches
+    .filter(s => s.transcript)
+    .map(s => `[${s.speakerRole}]: ${s.transcript}`)
+    .join("\n\n");
+
+  await onProgress?.(10, "Finding arguments and rebuttals");
+  const response = await invokeLLM({
+    task: "analysis",
+    messages: [
+      {
+        role: "system",
+        content: `You are an expert debate analyst. Analyze the debate transcript and extract key arguments, rebuttals, and their relationships.
+
+For each argument or rebuttal, provide:
+- team: one of ${teamIds.map(id => `"${id}"`).join(", ")}
+- nodeType: "argument", "rebuttal", "extension", or "summary"
+- content: A concise summary of the point (1-2 sentences)
+- transcriptSegment: The relevant quote from the transcript
+- qualityScore: 1-10 rating of argument quality
+- qualityExplanation: Brief explanation of the score
+- wasAnswered: Whether this point was addressed by the opposing team
+- parentContent: If this is a rebuttal, the content of the argument it responds to (null otherwise)
+
+Return a JSON object with an "arguments" array containing these nodes.${languageInstruction(getRoomLanguage(room))}`
+      },
+      {
+        role: "user",
+        content: `Motion: ${motion?.motion || "Unknown"}\n\nTranscript:\n${transcripts}`
+      }
+    ],
+    response_format: {
+      type: "json_schema",
+      json_schema: {
+        name: "argument_analysis",
+        strict: true,
+        schema: {
+          type: "object",
+          properties: {
+            arguments: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  team: { type: "string", enum: teamIds },
+                  nodeType: { type: "string", enum: ["argument", "rebuttal", "extension", "summary"] },
+                  content: { type: "string" },
+                  transcriptSegment: { type: "string" },
+                  qualityScore: { type: "integer" },
+                  qualityExplanation: { type: "string" },
+                  wasAnswered: { type: "boolean" },
+                  parentContent: { type: ["string", "null"] }
+                },
+                required: ["team", "nodeType", "content", "transcriptSegment", "qualityScore", "qualityExplanation", "wasAnswered", "parentContent"],
+                additionalProperties: false
+              }
+            }
+          },
+          required: ["arguments"],
+          additionalProperties: false
+        }
+      }
+    }
+  });
+
+  const content = response.choices[0]?.message?.content;
+  if (!content || typeof content !== 'string') {
+    throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Failed to analyze debate" });
+  }
+
+  const analysisData = JSON.parse(content);
+  await onProgress?.(60, "Storing the argument map");
+
+  // Store argument nodes, linked to where their quote was said; regenerating
+  // (say after transcript corrections) replaces the previous map
+  await db.deleteRoomArgumentNodes(roomId);
+  const segments = await db.getRoomTranscriptSegments(roomId);
+  const nodeIds: number[] = [];
+  const nodeMap = new Map<string, number>();
+
+  for (const arg of analysisData.arguments) {
+    const parentId = arg.parentContent ? nodeMap.get(arg.parentContent) : null;
+    const location = locateQuote(arg.transcriptSegment, segments);
+
+    const nodeId = await db.createArgumentNode({
+      roomId,
+      speechId: location?.speechId ?? null,
+      transcriptTimestamp: location?.timestamp ?? null,
+      team: arg.team,
+      nodeType: arg.nodeType,
+      content: arg.content,
+      transcriptSegment: arg.transcriptSegment,
+      qualityScore: arg.qualityScore,
+      qualityExplanation: arg.qualityExplanation,
+      wasAnswered: arg.wasAnswered,
+      parentId: parentId || undefined,
+    });
+
+    nodeIds.push(nodeId);
+    nodeMap.set(arg.content, nodeId);
+  }
+
+  return nodeIds.length;
+}
+
+/**
+ * Written feedback on the round, its teams and speakers, replacing any
+ * generated before, followed by rubric scores and delivery analytics. Marks
+ * the room completed and, the first time, counts the round towards its
+ * debaters' history.
+ */
+export async function generateRoomFeedback({ roomId, room, format, onProgress }: AnalysisTarget) {
+  const speeches = await db.getRoomSpeeches(roomId);
+  const motion = room?.motionId ? await db.getMotionById(room.motionId) : null;
+  const participants = await db.getRoomParticipants(roomId);
+  const argumentNodes = await db.getRoomArgumentNodes(roomId);
+  const teamIds = format.teams.map(t => t.id);
+  const teamNames = format.teams.map(t => t.shortLabel).join(" and ");
+  const isRanking = format.resultType === "ranking";
+
+  const transcripts = speeches
+    .filter(s => s.transcript)
+    .map(s => `[${s.speakerRole}]: ${s.transcript}`)
+    .join("\n\n");
+
+  await onProgress?.(10, "Writing feedback");
+  const response = await invokeLLM({
+    task: "feedback",
+    messages: [
+      {
+        role: "system",
+        content: `You are an expert debate coach providing detailed feedback after a competitive ${format.name} debate. Analyze the debate and provide:
+
+1. Overall analysis including ${isRanking ? `a full ranking of all ${format.teamsCount} teams` : "the likely winner"} and why
+2. Team-level feedback for ${teamNames}
+3. Individual feedback for each speaker
+
+For each piece of feedback, identify:
+- Strongest arguments made
+- Missed opportunities to respond
+- Specific suggestions for improvement
+
+Return a JSON object with:
+- overallAnalysis: String with debate summary
+- suggestedWinner: one of ${teamIds.map(id => `"${id}"`).join(", ")}
+- winningReason: Why this team won
+- teamFeedback: Array with feedback for each team
+- individualFeedback: Array with feedback for each speaker role${isRanking ? `
+- teamRanking: Every team ranked from 1 (best) to ${format.teamsCount} (worst), each rank used once, with a short reason` : ""}${languageInstruction(getRoomLanguage(room))}`
+      },
+      {
+        role: "user",
+        content: `Motion: ${motion?.motion || "Unknown"}\n\nTranscript:\n${transcripts}\n\nArgument Analysis:\n${JSON.stringify(argumentNodes.slice(0, 20))}`
+      }
+    ],
+    response_format: {
+      type: "json_schema",
+      json_schema: {
+        name: "debate_feedback",
+        strict: true,
+        schema: {
+          type: "object",
+          properties: {
+            overallAnalysis: { type: "string" },
+            suggestedWinner: { type: "string", enum: teamIds },
+            winningReason: { type: "string" },
+            teamFeedback: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  team: { type: "string", enum: teamIds },
+                  strongestArguments: { type: "array", items: { type: "string" } },
+                  missedResponses: { type: "array", items: { type: "string" } },
+                  improvements: { type: "array", items: { type: "string" } }
+                },
+                required: ["team", "strongestArguments", "missedResponses", "improvements"],
+                additionalProperties: false
+              }
+            },
+            individualFeedback: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  speakerRole: { type: "string", enum: format.speakerRoles.map(r => r.id) },
+                  strongestArguments: { type: "array", items: { type: "string" } },
+                  missedResponses: { type: "array", items: { type: "string" } },
+                  improvements: { type: "array", items: { type: "string" } }
+                },
+                required: ["speakerRole", "strongestArguments", "missedResponses", "improvements"],
+                additionalProperties: false
+              }
+            },
+            ...(isRanking ? {
+              teamRanking: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    team: { type: "string", enum: teamIds },
+                    rank: { type: "integer" },
+                    reason: { type: "string" }
+                  },
+                  required: ["team", "rank", "reason"],
+                  additionalProperties: false
+                }
+              }
+            } : {})
+          },
+          required: [
+            "overallAnalysis",
+            "suggestedWinner",
+            "winningReason",
+            "teamFeedback",
+            "individualFeedback",
+            ...(isRanking ? ["teamRanking"] : [])
+          ],
+          additionalProperties: false
+        }
+      }
+    }
+  });
+
+  const content = response.choices[0]?.message?.content;
+  if (!content || typeof content !== 'string') {
+    throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Failed to generate feedback" });
+  }
+
+  const feedbackData = JSON.parse(content);
+  await onProgress?.(50, "Storing feedback");
+
+  // Ranking formats: make sure every team holds exactly one position, winner is 1st
+  if (isRanking) {
+    feedbackData.teamRanking = normalizeTeamRanking(format, feedbackData.teamRanking);
+    feedbackData.suggestedWinner = feedbackData.teamRanking[0]?.team ?? feedbackData.suggestedWinner;
+  }
+
+  // Store overall feedback, replacing any generated before
+  await db.deleteRoomFeedback(roomId);
+  await db.createFeedback({
+    roomId,
+    feedbackType: "overall",
+    overallAnalysis: feedbackData.overallAnalysis,
+    suggestedWinner: feedbackData.suggestedWinner,
+    winningReason: feedbackData.winningReason,
+    teamRankings: isRanking ? feedbackData.teamRanking : null,
+  });
+
+  // Store team feedback
+  for (const teamFb of feedbackData.teamFeedback) {
+    await db.createFeedback({
+      roomId,
+      feedbackType: "team",
+      team: teamFb.team,
+      strongestArguments: teamFb.strongestArguments,
+      missedResponses: teamFb.missedResponses,
+      improvements: teamFb.improvements,
+    });
+  }
+
+  // Store individual feedback, for members and for guest speakers in imported rounds
+  for (const indFb of feedbackData.individualFeedback) {
+    const participant = participants.find(p => p.speakerRole === indFb.speakerRole);
+    const byGuest = speeches.some(s => {
+      const slot = format.speakingOrder.find(o => o.role === s.speakerRole);
+      return s.speakerName && slot && getSlotSpeakerRole(slot) === indFb.speakerRole;
+    });
+    if (participant || byGuest) {
+      await db.createFeedback({
+        roomId,
+        feedbackType: "individual",
+        participantId: participant?.id ?? null,
+        speakerRole: indFb.speakerRole,
+        strongestArguments: indFb.strongestArguments,
+        missedResponses: indFb.missedResponses,
+        improvements: indFb.improvements,
+      });
+    }
+  }
+
+  await onProgress?.(70, "Scoring speeches");
+  // Rubric scores are a bonus on top of the written feedback; a scoring
+  // failure shouldn't lose the feedback that was already stored
+  try {
+    await scoreRoomSpeeches({
+      roomId,
+      format,
+      motion,
+      speeches,
+      weights: DEFAULT_RUBRIC_WEIGHTS,
+      language: getRoomLanguage(room),
+    });
+  } catch (error) {
+    console.error("[Scoring] Failed to score speeches:", error);
+  }
+  await onProgress?.(85, "Analysing delivery");
+  try {
+    await analyzeRoomDelivery({ roomId, format, speeches });
+  } catch (error) {
+    console.error("[Delivery] Failed to analyse delivery:", error);
+  }
+
+  // Update room phase
+  await db.updateDebateRoom(roomId, { currentPhase: "completed" });
+
+  // Increment debate count for everyone who spoke (not adjudicators or audience),
+  // once: regenerated or retried feedback finds the room already completed
+  if (room?.currentPhase !== "completed") {
+    for (const p of participants.filter(isDebater)) {
+      await db.incrementUserDebates(p.userId);
+    }
+  }
+
+  return feedbackData;
+}
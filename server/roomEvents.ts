@@ -0,0 +1,61 @@
+import { EventEmitter, on } from "events";
+import type { AnalysisJob, DebateImport, DebateRoom, RoundRecording, RuleViolation, TranscriptSegment } from "../drizzle/schema";
+import type { ClockStatus, POIStatus, TimeWarning } from "@shared/debate";
+
+// In-process pub/sub for live room updates, streamed to clients by the
+// room.events subscription. Events are notifications; anything a client
+// missed while disconnected is recovered from the database on reconnect.
+
+export type ClockSnapshot = {
+  speechId: number | null;
+  status: ClockStatus;
+  clockStartedAt: Date | null;
+  clockPausedAt: Date | null;
+  clockPausedSeconds: number;
+  elapsed: number;
+  remaining: number;
+  total: number;
+  warning: TimeWarning | null;
+  serverTime: number;
+};
+
+export type RoomEvent =
+  | { type: "sync" } // (re)connected: refetch room state
+  | { type: "room" } // participants, readiness or the motion changed
+  | { type: "status"; status: DebateRoom["status"] }
+  | { type: "speaker"; currentSpeakerIndex: number | null; completed: boolean }
+  | { type: "clock"; clock: ClockSnapshot }
+  | { type: "transcript"; segment: TranscriptSegment }
+  | { type: "transcript_edit"; segment: TranscriptSegment } // a segment already sent was corrected
+  | { type: "poi"; poiId: number; speechId: number; status: POIStatus }
+  | { type: "violation"; violation: RuleViolation }
+  | { type: "recording"; status: RoundRecording["status"] } // a shared-device round recording moved on
+  | { type: "import"; status: DebateImport["status"] } // an imported round moved on
+  | { type: "job"; kind: AnalysisJob["kind"]; status: AnalysisJob["status"]; progress: number } // map or feedback generation moved on
+  | { type: "prep"; team: string }; // a team's prep board changed (content stays team-private)
+
+const emitter = new EventEmitter();
+// One listener per connected client per room
+emitter.setMaxListeners(0);
+
+const channel = (roomId: number) => `room:${roomId}`;
+
+export function publishRoomEvent(roomId: number, event: RoomEvent) {
+  emitter.emit(channel(roomId), event);
+}
+
+// Async stream of a room's events. Listening starts on the call itself, so
+// events published while the caller replays history are buffered, not lost.
+export function subscribeToRoom(roomId: number, signal?: AbortSignal): AsyncGenerator<RoomEvent> {
+  const events = on(emitter, channel(roomId), { signal });
+  return (async function* () {
+    try {
+      for await (const [event] of events) {
+        yield event as RoomEvent;
+      }
+    } catch (error) {
+      if (signal?.aborted) return;
+      throw error;
+    }
+  })();
+}
@@ -0,0 +1,12 @@
+import * as db from "./db";
+import type { DebateRoom } from "../drizzle/schema";
+import { buildCustomFormat, getDebateFormat, type DebateFormat } from "@shared/debate";
+
+// Resolve a room's format, expanding coach-built custom formats from the database
+export async function getRoomFormat(room: Pick<DebateRoom, "format" | "customFormatId"> | undefined): Promise<DebateFormat> {
+  if (room?.format === "custom" && room.customFormatId) {
+    const custom = await db.getCustomFormatById(room.customFormatId);
+    if (custom) return buildCustomFormat(custom);
+  }
+  return getDebateFormat(room?.format);
+}
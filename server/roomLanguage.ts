@@ -0,0 +1,18 @@
+import { ENV } from "./_core/env";
+import type { DebateRoom } from "../drizzle/schema";
+import { getLanguage } from "@shared/debate";
+
+// The language a room's round is held in, falling back to the deployment default
+export function getRoomLanguage(room: Pick<DebateRoom, "transcriptionLanguage"> | null | undefined): string {
+  return room?.transcriptionLanguage || ENV.transcriptionLanguage || "en";
+}
+
+/**
+ * Appended to an LLM system prompt so what it writes comes back in the round's
+ * language. Empty for English, which the prompts themselves are written in.
+ */
+export function languageInstruction(language: string | null | undefined): string {
+  if (!language || language === "en") return "";
+  const { label } = getLanguage(language);
+  return `\n\nThe round is held in ${label}. Write everything you produce in ${label}, translating set phrases such as "This House" naturally. Quote the transcript verbatim, and keep JSON keys, enum values and ids exactly as specified.`;
+}
@@ -0,0 +1,258 @@
+import { execFile } from "child_process";
+import { mkdtemp, readdir, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { promisify } from "util";
+import * as db from "./db";
+import { enqueueRoundEndAnalysis } from "./analysisJobs";
+import { ENV } from "./_core/env";
+import { diarizeAudio } from "./diarization";
+import { publishRoomEvent } from "./roomEvents";
+import { splitRoundIntoSpeeches } from "./roundSplitting";
+import { transcribeForRoom } from "./transcription";
+import { getTranscriptionPrompt } from "./transcriptionPrompt";
+import { toSpeechTimings } from "./transcriptTimings";
+import type { DebateParticipant, DebateRoom, InsertTranscriptSegment, RoundRecording } from "../drizzle/schema";
+import { getSlotSpeakerRole, type SpeakingSlot, type TranscriptTimings } from "@shared/debate";
+
+const run = promisify(execFile);
+
+// Rounds are transcribed in parts short enough for either provider
+const PART_SECONDS = 600;
+// Same length as the live recorder's chunks, so segments read alike
+const SEGMENT_SECONDS = 10;
+// Words this close outside a speech's diarized edges still belong to it
+const EDGE_TOLERANCE_SECONDS = 0.5;
+
+type TimedText = { text: string; start: number; end: number };
+
+const toCentiseconds = (seconds: number) => Math.round(seconds * 100) / 100;
+
+/**
+ * Transcribe a recording of any length on its own clock, one part at a time,
+ * so each part stays well inside the providers' upload limits. Video files
+ * work too; only their sound is kept.
+ */
+export async function transcribeRecording(room: DebateRoom, audioBuffer: Buffer, mimeType: string): Promise<TranscriptTimings> {
+  const dir = await mkdtemp(path.join(tmpdir(), "round-"));
+  try {
+    const input = path.join(dir, `round.${mimeType.includes("mp4") ? "m4a" : "webm"}`);
+    await writeFile(input, audioBuffer);
+    await run(ENV.ffmpegBin, [
+      "-y", "-loglevel", "error", "-i", input,
+      "-vn", "-ac", "1", "-c:a", "libopus", "-b:a", "32k",
+      "-f", "segment", "-segment_time", String(PART_SECONDS),
+      path.join(dir, "part%03d.webm"),
+    ], { timeout: ENV.localWhisperTimeoutMs });
+
+    const parts = (await readdir(dir)).filter(name => name.startsWith("part")).sort();
+    const prompt = await getTranscriptionPrompt(room);
+    const timings: TranscriptTimings = { phrases: [], words: [] };
+    for (let i = 0; i < parts.length; i++) {
+      const part = parts[i];
+      const result = await transcribeForRoom(room, {
+        audioBuffer: await readFile(path.join(dir, part)),
+        mimeType: "audio/webm",
+        prompt,
+      });
+      if ("error" in result) {
+        throw new Error(result.details ? `${result.error}: ${result.details}` : result.error);
+      }
+      const partTimings = toSpeechTimings(result, i * PART_SECONDS);
+      timings.phrases.push(...partTimings.phrases);
+      timings.words.push(...partTimings.words);
+    }
+    return timings;
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+const within = (unit: TimedText, span: { start: number; end: number }) =>
+  unit.start >= span.start - EDGE_TOLERANCE_SECONDS && unit.start < span.end + EDGE_TOLERANCE_SECONDS;
+
+// A run of words as one transcript segment, timed on the speech clock
+function toSegment(units: TimedText[], speechStart: number, hasWords: boolean) {
+  const text = units.map(u => u.text).join(" ");
+  const start = toCentiseconds(units[0].start - speechStart);
+  const end = toCentiseconds(units[units.length - 1].end - speechStart);
+  return {
+    text,
+    timestamp: Math.floor(start),
+    timings: {
+      phrases: [{ text, start, end }],
+      words: hasWords
+        ? units.map(u => ({ word: u.text, start: toCentiseconds(u.start - speechStart), end: toCentiseconds(u.end - speechStart) }))
+        : [],
+    },
+  };
+}
+
+// Words when the transcriber timed them, phrases otherwise
+const toUnits = (timings: TranscriptTimings): TimedText[] =>
+  timings.words.length > 0
+    ? timings.words.map(w => ({ text: w.word, start: w.start, end: w.end }))
+    : timings.phrases;
+
+// The speaker's own words in chunks of about SEGMENT_SECONDS
+function chunkUnits(units: TimedText[]): TimedText[][] {
+  const chunks: TimedText[][] = [];
+  for (const unit of units) {
+    const chunk = chunks[chunks.length - 1];
+    if (chunk && unit.start - chunk[0].start < SEGMENT_SECONDS) {
+      chunk.push(unit);
+    } else {
+      chunks.push([unit]);
+    }
+  }
+  return chunks;
+}
+
+/** A single speech's transcript as segments of about `SEGMENT_SECONDS`. */
+export function segmentSpeechTranscript(timings: TranscriptTimings) {
+  const hasWords = timings.words.length > 0;
+  return chunkUnits(toUnits(timings)).map(chunk => toSegment(chunk, 0, hasWords));
+}
+
+/**
+ * Turn a shared-device round recording into speeches: diarize it, split it
+ * into speeches by the speaking order, transcribe it and store each speech
+ * with its transcript segments. Speeches already started on the room clock
+ * for a slot are filled in rather than duplicated; interjections by a voice
+ * that gave one of the speeches become accepted points of information.
+ * Returns how many speeches were found.
+ */
+export async function processRoundRecording({
+  recording,
+  room,
+  slots,
+  audioBuffer,
+  mimeType,
+}: {
+  recording: Pick<RoundRecording, "id" | "audioUrl" | "startedAt">;
+  room: DebateRoom;
+  slots: SpeakingSlot[];
+  audioBuffer: Buffer;
+  mimeType: string;
+}): Promise<number> {
+  const turns = await diarizeAudio(audioBuffer, mimeType);
+  const spans = splitRoundIntoSpeeches(turns, slots.length);
+  if (spans.length === 0) {
+    throw new Error("No speeches were found in the recording");
+  }
+
+  const timings = await transcribeRecording(room, audioBuffer, mimeType);
+  const hasWords = timings.words.length > 0;
+  const units = toUnits(timings);
+
+  const participants = await db.getRoomParticipants(room.id);
+  const names = new Map<number, string | null>();
+  for (const p of participants) {
+    names.set(p.id, (await db.getUserById(p.userId))?.name ?? null);
+  }
+  const participantForSlot = (slot: SpeakingSlot | undefined): DebateParticipant | undefined =>
+    slot && participants.find(p => p.speakerRole === getSlotSpeakerRole(slot));
+  // A voice is whoever gave the first speech in it
+  const voiceSlot = (speaker: string) => slots[spans.findIndex(s => s.speaker === speaker)];
+
+  const existing = await db.getRoomSpeeches(room.id);
+  let latestSeq = await db.getLatestTranscriptSequence(room.id);
+
+  for (let i = 0; i < spans.length; i++) {
+    const span = spans[i];
+    const slot = slots[i];
+    const speaker = participantForSlot(slot);
+    const own = units.filter(u => within(u, span) && !span.interjections.some(ij => within(u, ij)));
+    const duration = Math.round(span.end - span.start);
+    const speechFields = {
+      transcript: own.map(u => u.text).join(" "),
+      audioUrl: recording.audioUrl,
+      audioOffset: -Math.round(span.start),
+    };
+
+    const clocked = existing.find(s => s.speakerRole === slot.role);
+    let speechId: number;
+    if (clocked) {
+      speechId = clocked.id;
+      await db.updateSpeech(speechId, { ...speechFields, duration: clocked.duration ?? duration });
+      await db.deleteSpeechTranscriptSegments(speechId);
+    } else {
+      const startedAt = recording.startedAt ? new Date(recording.startedAt.getTime() + span.start * 1000) : null;
+      speechId = await db.createSpeech({
+        roomId: room.id,
+        participantId: speaker?.id ?? null,
+        speakerRole: slot.role,
+        speechType: slot.type,
+        duration,
+        startedAt,
+        endedAt: startedAt ? new Date(startedAt.getTime() + duration * 1000) : null,
+        ...speechFields,
+      });
+    }
+
+    const segments: Array<Omit<InsertTranscriptSegment, "sequenceNumber">> = chunkUnits(own).map(chunk => ({
+      roomId: room.id,
+      speechId,
+      speakerRole: slot.role,
+      speakerName: speaker ? names.get(speaker.id) ?? null : null,
+      poiId: null,
+      ...toSegment(chunk, span.start, hasWords),
+    }));
+
+    for (const interjection of span.interjections) {
+      const offerer = participantForSlot(voiceSlot(interjection.speaker));
+      const said = units.filter(u => within(u, interjection));
+      // Only voices we can put a name to; the chair and the audience are left out
+      if (!offerer || offerer.id === speaker?.id || said.length === 0) continue;
+      const segment = toSegment(said, span.start, hasWords);
+      const poiId = await db.createPOI({
+        roomId: room.id,
+        speechId,
+        offeredById: offerer.id,
+        status: "ended",
+        accepted: true,
+        content: segment.text,
+        timestamp: segment.timestamp,
+      });
+      segments.push({
+        roomId: room.id,
+        speechId,
+        speakerRole: offerer.speakerRole ?? slot.role,
+        speakerName: names.get(offerer.id) ?? null,
+        poiId,
+        ...segment,
+      });
+    }
+
+    for (const segment of segments.sort((a, b) => a.timestamp - b.timestamp)) {
+      await db.createTranscriptSegment({ ...segment, sequenceNumber: ++latestSeq });
+    }
+  }
+
+  return spans.length;
+}
+
+/**
+ * Process a round recording in the background, recording the outcome on it
+ * and telling the room when it is done, then queue the round's argument map
+ * and feedback.
+ */
+export async function runRoundRecording(options: Parameters<typeof processRoundRecording>[0]) {
+  const { recording, room } = options;
+  try {
+    const speechCount = await processRoundRecording(options);
+    await db.updateRoundRecording(recording.id, { status: "processed", speechCount, processedAt: new Date() });
+    publishRoomEvent(room.id, { type: "recording", status: "processed" });
+    enqueueRoundEndAnalysis(room.id).catch(error => {
+      console.error("[AnalysisJobs] Failed to queue the round's analysis:", error);
+    });
+  } catch (error) {
+    console.error("[RoundRecording] Processing failed:", error);
+    await db.updateRoundRecording(recording.id, {
+      status: "failed",
+      error: error instanceof Error ? error.message : "Unknown error",
+      processedAt: new Date(),
+    });
+    publishRoomEvent(room.id, { type: "recording", status: "failed" });
+  }
+}
@@ -0,0 +1,75 @@
+import type { SpeakerTurn } from "./diarization";
+
+// A new voice has to hold the floor this long to count as a speech; shorter
+// stretches are points of information, heckles or the chair calling speakers
+export const MIN_SPEECH_SECONDS = 45;
+
+/** A short stretch by someone else in the middle of a speech. */
+export type Interjection = {
+  speaker: string;
+  start: number;
+  end: number;
+};
+
+/** One speech found in a round recording, on the recording's clock. */
+export type RoundSpeechSpan = {
+  speaker: string;
+  start: number;
+  end: number;
+  interjections: Interjection[];
+};
+
+// Back-to-back turns by the same voice are one block
+function mergeTurns(turns: SpeakerTurn[]): SpeakerTurn[] {
+  const blocks: SpeakerTurn[] = [];
+  for (const turn of [...turns].sort((a, b) => a.start - b.start)) {
+    const last = blocks[blocks.length - 1];
+    if (last && last.speaker === turn.speaker) {
+      last.end = Math.max(last.end, turn.end);
+    } else {
+      blocks.push({ ...turn });
+    }
+  }
+  return blocks;
+}
+
+const length = (span: { start: number; end: number }) => span.end - span.start;
+
+/**
+ * Split a diarized round into speeches, in the order they were given. A speech
+ * starts when a new voice holds the floor for at least `MIN_SPEECH_SECONDS`
+ * and runs until the next one does. A short stretch by another voice is kept
+ * as an interjection when the speaker carries on afterwards, and dropped
+ * otherwise (the chair between speeches).
+ *
+ * The nth span belongs to the nth slot of the speaking order. When more spans
+ * are found than there are slots, the longest ones are kept.
+ */
+export function splitRoundIntoSpeeches(turns: SpeakerTurn[], slotCount: number): RoundSpeechSpan[] {
+  const blocks = mergeTurns(turns);
+  const spans: RoundSpeechSpan[] = [];
+  let current: RoundSpeechSpan | null = null;
+
+  for (let i = 0; i < blocks.length; i++) {
+    const block = blocks[i];
+    if (current && block.speaker === current.speaker) {
+      current.end = block.end;
+      continue;
+    }
+    if (length(block) >= MIN_SPEECH_SECONDS) {
+      current = { speaker: block.speaker, start: block.start, end: block.end, interjections: [] };
+      spans.push(current);
+      continue;
+    }
+    if (!current) continue;
+    const speaker = current.speaker;
+    const next = blocks.slice(i + 1).find(b => b.speaker === speaker || length(b) >= MIN_SPEECH_SECONDS);
+    if (next?.speaker === speaker) {
+      current.interjections.push({ speaker: block.speaker, start: block.start, end: block.end });
+    }
+  }
+
+  if (spans.length <= slotCount) return spans;
+  const kept = new Set([...spans].sort((a, b) => length(b) - length(a)).slice(0, slotCount));
+  return spans.filter(span => kept.has(span));
+}
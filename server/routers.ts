@@ -4,18 +4,190 @@ import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
 import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
 import { invokeLLM } from "./_core/llm";
-import { transcribeAudio } from "./_core/voiceTranscription";
 import * as db from "./db";
+import type { CustomFormat, DebateRoom, DebateSpeech } from "../drizzle/schema";
+import { publishRoomEvent, subscribeToRoom, type ClockSnapshot } from "./roomEvents";
+import { joinRoomAudio, sendSignal, setPeerMuted } from "./rtcSignaling";
+import { ENV } from "./_core/env";
+import { storagePut } from "./storage";
+import { getDefaultTranscriptionProvider, transcribeForRoom } from "./transcription";
+import { toSpeechTimings } from "./transcriptTimings";
+import { getTranscriptionPrompt } from "./transcriptionPrompt";
+import { nanoid } from "nanoid";
+import { scoreRoomSpeeches } from "./speechScoring";
+import { analyzeRoomDelivery } from "./deliveryAnalytics";
+import { giveAISpeech } from "./aiOpponent";
+import { runRoundRecording } from "./roundRecording";
+import { enqueueAnalysisJob, enqueueRoundEndAnalysis, getRoomAnalysisJobs } from "./analysisJobs";
+import { importChunkKey, runDebateImport } from "./debateImport";
+import { getRoomLanguage, languageInstruction } from "./roomLanguage";
+import { getRoomFormat } from "./roomFormat";
+import { translateRoomTranscript } from "./translation";
+import { detectPOIWindowViolations, recordViolation } from "./ruleViolations";
 import { 
   generateRoomCode, 
-  ASIAN_PARLIAMENTARY_FORMAT, 
+  buildCustomFormat,
+  comparePanelWithAI,
+  CUSTOM_FORMAT_LIMITS,
+  DEBATE_FORMATS,
+  DEBATE_GLOSSARY,
+  DEFAULT_RUBRIC_WEIGHTS,
+  DEBATE_FORMAT_IDS,
+  getDebateFormat,
+  formatTime,
+  getClockElapsed,
+  getClockStatus,
+  getActiveSpeakingOrder,
+  getFirstSpeakerIndex,
+  getNextSpeakerIndex,
+  getPanelDecision,
+  getPOIOfferError,
+  getPOIRemaining,
+  getPrepRemaining,
+  getPrepWindowEnd,
+  getSlotSpeakerRole,
+  getSpeakerPointRange,
+  getSpeakingRoles,
+  getTimeWarning,
+  IMPORT_CHUNK_BYTES,
+  IMPORT_MAX_CHUNKS,
+  isDebater,
+  isValidTeamRole,
+  OVERTIME_GRACE_SECONDS,
+  PARTICIPANT_ROLE_IDS,
+  PREP_TIME_LIMITS,
+  RUBRIC_CRITERIA,
+  RULE_VIOLATION_TYPE_IDS,
+  TRANSCRIPTION_LANGUAGE_IDS,
+  TRANSCRIPTION_PROVIDER_IDS,
   TOPIC_AREAS, 
   DIFFICULTY_LEVELS,
   EXPERIENCE_LEVELS,
+  type DebateFormat,
   type TopicArea,
   type DifficultyLevel
 } from "@shared/debate";
-import { TRPCError } from "@trpc/server";
+import { TRPCError, tracked } from "@trpc/server";
+
+// Snapshot of the room's speech clock as every client should display it.
+// Clients re-derive elapsed time from the persisted timestamps using serverTime as the reference.
+function getClockSnapshot(room: DebateRoom, format: DebateFormat): ClockSnapshot {
+  const serverTime = Date.now();
+  const status = getClockStatus(room);
+  const total = format.speakingOrder[room.currentSpeakerIndex ?? 0]?.time ?? 0;
+  const elapsed = getClockElapsed(room, serverTime);
+  const remaining = total - elapsed;
+  return {
+    speechId: room.currentSpeechId,
+    status,
+    clockStartedAt: room.clockStartedAt,
+    clockPausedAt: room.clockPausedAt,
+    clockPausedSeconds: room.clockPausedSeconds,
+    elapsed,
+    remaining,
+    total,
+    warning: status === "idle" ? null : getTimeWarning(remaining),
+    serverTime,
+  };
+}
+
+const resetClock = {
+  currentSpeechId: null,
+  clockStartedAt: null,
+  clockPausedAt: null,
+  clockPausedSeconds: 0,
+};
+
+// Only the current speaker, an adjudicator or the room creator may pause, resume or end the clock
+async function assertCanControlClock(room: DebateRoom, format: DebateFormat, userId: number) {
+  if (room.creatorId === userId) return;
+  const slot = format.speakingOrder[room.currentSpeakerIndex ?? 0];
+  const participants = await db.getRoomParticipants(room.id);
+  if (participants.some(p => p.userId === userId && p.role === "adjudicator")) return;
+  const speaker = slot && participants.find(p => p.speakerRole === getSlotSpeakerRole(slot));
+  if (speaker?.userId !== userId) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Only the current speaker, an adjudicator or the room creator can control the clock",
+    });
+  }
+}
+
+// Off the clock a speech can still be ended by its speaker, an adjudicator or the room creator
+async function assertCanEndSpeech(room: DebateRoom, speech: DebateSpeech, userId: number) {
+  if (room.creatorId === userId) return;
+  const participants = await db.getRoomParticipants(room.id);
+  const allowed = participants.some(p =>
+    p.userId === userId && (p.role === "adjudicator" || p.id === speech.participantId)
+  );
+  if (!allowed) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Only the speaker, an adjudicator or the room creator can end this speech",
+    });
+  }
+}
+
+// Create a speech record and start the shared clock on it; every client derives its countdown from this
+async function startSpeech(
+  room: DebateRoom,
+  format: DebateFormat,
+  participantId: number,
+  speech: { speakerRole: string; speechType: "substantive" | "reply" }
+) {
+  const startedAt = new Date();
+  const speechId = await db.createSpeech({
+    roomId: room.id,
+    participantId,
+    speakerRole: speech.speakerRole,
+    speechType: speech.speechType,
+    startedAt,
+  });
+  
+  const clockUpdates = {
+    ...resetClock,
+    currentSpeechId: speechId,
+    clockStartedAt: startedAt,
+  };
+  await db.updateDebateRoom(room.id, clockUpdates);
+  publishRoomEvent(room.id, {
+    type: "clock",
+    clock: getClockSnapshot({ ...room, ...clockUpdates }, format),
+  });
+  
+  return { speechId };
+}
+
+// Full speech recordings are archived as one upload (a 7-minute speech at 128 kbps is about 7 MB)
+const MAX_SPEECH_AUDIO_BYTES = 30 * 1024 * 1024;
+// A whole round from one device, kept under the request body limit once base64 encoded
+// (an hour at the recorder's 48 kbps is about 22 MB)
+const MAX_ROUND_AUDIO_BYTES = 35 * 1024 * 1024;
+
+// Custom formats are usable by their creator and by members of the club they are shared with
+function canUseCustomFormat(format: CustomFormat, user: { id: number; club: string | null }) {
+  return format.creatorId === user.id || (!!format.clubName && format.clubName === user.club);
+}
+
+// Prep boards belong to a team: its debaters and any coach attached to it
+async function getPrepTeam(roomId: number, userId: number) {
+  const participant = await db.getParticipantWithUser(roomId, userId);
+  if (!participant?.team || (participant.role !== "debater" && participant.role !== "coach")) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Only team members can use the prep board" });
+  }
+  return participant.team;
+}
+
+const customFormatSpecSchema = z.object({
+  teamsCount: z.number().int().min(CUSTOM_FORMAT_LIMITS.minTeams).max(CUSTOM_FORMAT_LIMITS.maxTeams),
+  speakersPerTeam: z.number().int().min(CUSTOM_FORMAT_LIMITS.minSpeakersPerTeam).max(CUSTOM_FORMAT_LIMITS.maxSpeakersPerTeam),
+  speechTime: z.number().int().min(CUSTOM_FORMAT_LIMITS.minSpeechTime).max(CUSTOM_FORMAT_LIMITS.maxSpeechTime),
+  replyTime: z.number().int().min(CUSTOM_FORMAT_LIMITS.minSpeechTime).max(CUSTOM_FORMAT_LIMITS.maxSpeechTime).nullable(),
+  poi: z.object({
+    allowed: z.boolean(),
+    protectedTime: z.number().int().min(0).max(300),
+  }),
+});
 
 export const appRouter = router({
   system: systemRouter,
@@ -42,9 +214,12 @@ export const appRouter = router({
         experienceLevel: z.enum(["novice", "intermediate", "advanced", "expert"]).optional(),
         topicalInterests: z.array(z.string()).max(5).optional(),
         background: z.string().max(1000).optional(),
+        club: z.string().trim().max(128).nullish(),
       }))
       .mutation(async ({ ctx, input }) => {
-        await db.updateUserProfile(ctx.user.id, input);
+        // An empty club clears it; omitting it leaves it unchanged
+        const { club, ...profile } = input;
+        await db.updateUserProfile(ctx.user.id, club === undefined ? profile : { ...profile, club: club || null });
         return { success: true };
       }),
     
@@ -57,14 +232,35 @@ export const appRouter = router({
   room: router({
     create: protectedProcedure
       .input(z.object({
-        format: z.enum(["asian_parliamentary"]).default("asian_parliamentary"),
+        format: z.enum(DEBATE_FORMAT_IDS).default("asian_parliamentary"),
+        customFormatId: z.number().optional(), // overrides format with a saved custom format
+        aiOpponent: z.boolean().default(false), // AI debater takes every speaker role nobody joins
+        // Override the deployment's transcription provider or language for this room
+        transcriptionProvider: z.enum(TRANSCRIPTION_PROVIDER_IDS).optional(),
+        transcriptionLanguage: z.enum(TRANSCRIPTION_LANGUAGE_IDS).optional(),
+        sharedDevice: z.boolean().default(false), // one device records the whole round
       }))
       .mutation(async ({ ctx, input }) => {
+        if (input.sharedDevice && input.aiOpponent) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "An AI opponent can't take part in a shared-device round" });
+        }
+        if (input.customFormatId) {
+          const custom = await db.getCustomFormatById(input.customFormatId);
+          if (!custom || !canUseCustomFormat(custom, ctx.user)) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Custom format not found" });
+          }
+        }
+        
         const roomCode = generateRoomCode();
         const roomId = await db.createDebateRoom({
           roomCode,
           creatorId: ctx.user.id,
-          format: input.format,
+          format: input.customFormatId ? "custom" : input.format,
+          customFormatId: input.customFormatId ?? null,
+          aiOpponent: input.aiOpponent,
+          transcriptionProvider: input.transcriptionProvider ?? null,
+          transcriptionLanguage: input.transcriptionLanguage ?? null,
+          recordingMode: input.sharedDevice ? "shared_device" : "per_speaker",
           status: "waiting",
           currentPhase: "setup",
         });
@@ -74,22 +270,19 @@ export const appRouter = router({
     join: protectedProcedure
       .input(z.object({
         roomCode: z.string().length(6),
-        team: z.enum(["government", "opposition"]),
-        speakerRole: z.enum([
-          "prime_minister",
-          "deputy_prime_minister",
-          "government_whip",
-          "leader_of_opposition",
-          "deputy_leader_of_opposition",
-          "opposition_whip"
-        ]),
+        role: z.enum(PARTICIPANT_ROLE_IDS).default("debater"),
+        team: z.string().nullish(), // required for debaters, optional for coaches
+        speakerRole: z.string().nullish(), // omitted when joining as a reserve
+        adjudicatorPosition: z.enum(["chair", "panelist"]).optional(),
       }))
       .mutation(async ({ ctx, input }) => {
         const room = await db.getDebateRoomByCode(input.roomCode);
         if (!room) {
           throw new TRPCError({ code: "NOT_FOUND", message: "Room not found" });
         }
-        if (room.status !== "waiting") {
+        // Debaters join before the round; everyone else may also come in to watch it live
+        const isOpen = room.status === "waiting" || (input.role !== "debater" && room.status === "in_progress");
+        if (!isOpen) {
           throw new TRPCError({ code: "BAD_REQUEST", message: "Room is not accepting participants" });
         }
         
@@ -99,31 +292,74 @@ export const appRouter = router({
           throw new TRPCError({ code: "BAD_REQUEST", message: "You are already in this room" });
         }
         
-        // Check if role is taken
         const participants = await db.getRoomParticipants(room.id);
-        const roleTaken = participants.some(p => p.speakerRole === input.speakerRole);
-        if (roleTaken) {
-          throw new TRPCError({ code: "BAD_REQUEST", message: "This speaker role is already taken" });
+        const format = await getRoomFormat(room);
+        
+        if (input.role !== "debater") {
+          if (input.team && (input.role !== "coach" || !format.teams.some(t => t.id === input.team))) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: `Invalid team for ${format.name}` });
+          }
+          const adjudicatorPosition = input.role === "adjudicator" ? input.adjudicatorPosition ?? "panelist" : null;
+          if (adjudicatorPosition === "chair" && participants.some(p => p.adjudicatorPosition === "chair")) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "This room already has a chair adjudicator" });
+          }
+          
+          await db.addParticipant({
+            roomId: room.id,
+            userId: ctx.user.id,
+            role: input.role,
+            team: input.role === "coach" ? input.team ?? null : null,
+            speakerRole: null,
+            adjudicatorPosition,
+            isReady: false,
+          });
+          
+          publishRoomEvent(room.id, { type: "room" });
+          return { success: true, roomId: room.id };
+        }
+        
+        if (!input.team) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Debaters must choose a team" });
+        }
+        
+        if (input.speakerRole) {
+          // Check if role is taken
+          const roleTaken = participants.some(p => p.speakerRole === input.speakerRole);
+          if (roleTaken) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "This speaker role is already taken" });
+          }
         }
         
-        // Validate team-role match
-        const govRoles = ["prime_minister", "deputy_prime_minister", "government_whip"];
-        const oppRoles = ["leader_of_opposition", "deputy_leader_of_opposition", "opposition_whip"];
-        if (input.team === "government" && !govRoles.includes(input.speakerRole)) {
-          throw new TRPCError({ code: "BAD_REQUEST", message: "Invalid role for Government team" });
+        // Validate team-role match against the room's format
+        const team = format.teams.find(t => t.id === input.team);
+        if (!team) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: `Invalid team for ${format.name}` });
         }
-        if (input.team === "opposition" && !oppRoles.includes(input.speakerRole)) {
-          throw new TRPCError({ code: "BAD_REQUEST", message: "Invalid role for Opposition team" });
+        if (input.speakerRole) {
+          if (!isValidTeamRole(format, input.team, input.speakerRole)) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: `Invalid role for ${team.shortLabel} team` });
+          }
+        } else {
+          // Reserves join a side without a speaking role
+          if (format.reservesPerTeam === 0) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: `${format.name} has no reserve positions` });
+          }
+          const reserves = participants.filter(p => p.team === input.team && !p.speakerRole);
+          if (reserves.length >= format.reservesPerTeam) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: `All reserve positions on ${team.shortLabel} are taken` });
+          }
         }
         
         await db.addParticipant({
           roomId: room.id,
           userId: ctx.user.id,
+          role: "debater",
           team: input.team,
-          speakerRole: input.speakerRole,
+          speakerRole: input.speakerRole ?? null,
           isReady: false,
         });
         
+        publishRoomEvent(room.id, { type: "room" });
         return { success: true, roomId: room.id };
       }),
     
@@ -131,6 +367,7 @@ export const appRouter = router({
       .input(z.object({ roomId: z.number() }))
       .mutation(async ({ ctx, input }) => {
         await db.removeParticipant(input.roomId, ctx.user.id);
+        publishRoomEvent(input.roomId, { type: "room" });
         return { success: true };
       }),
     
@@ -153,7 +390,7 @@ export const appRouter = router({
           })
         );
         
-        return { room, participants: participantsWithUsers, motion };
+        return { room, participants: participantsWithUsers, motion, format: await getRoomFormat(room), language: getRoomLanguage(room) };
       }),
     
     getById: protectedProcedure
@@ -174,7 +411,7 @@ export const appRouter = router({
           })
         );
         
-        return { room, participants: participantsWithUsers, motion };
+        return { room, participants: participantsWithUsers, motion, format: await getRoomFormat(room), language: getRoomLanguage(room) };
       }),
     
     setReady: protectedProcedure
@@ -185,6 +422,7 @@ export const appRouter = router({
           throw new TRPCError({ code: "NOT_FOUND", message: "You are not in this room" });
         }
         await db.updateParticipantReady(participant.id, input.isReady);
+        publishRoomEvent(input.roomId, { type: "room" });
         return { success: true };
       }),
     
@@ -206,9 +444,30 @@ export const appRouter = router({
           throw new TRPCError({ code: "BAD_REQUEST", message: "A motion must be set before starting" });
         }
         
-        const participants = await db.getRoomParticipants(room.id);
+        // Enforce the format's prep window since the motion was released
+        const format = await getRoomFormat(room);
+        const motion = await db.getMotionById(room.motionId);
+        const prepEnd = motion ? getPrepWindowEnd(format, motion) : null;
+        if (prepEnd && prepEnd.getTime() > Date.now()) {
+          const minutesLeft = Math.ceil((prepEnd.getTime() - Date.now()) / 60000);
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Preparation time is still running (${minutesLeft} minute(s) left)`,
+          });
+        }
+        
+        const prepLeft = getPrepRemaining(room);
+        if (room.currentPhase === "prep" && prepLeft > 0) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Preparation time is still running (${Math.ceil(prepLeft / 60)} minute(s) left)`,
+          });
+        }
+        
+        // Adjudicators, spectators and coaches don't speak and never hold up the start
+        const participants = (await db.getRoomParticipants(room.id)).filter(isDebater);
         if (participants.length < 1) {
-          throw new TRPCError({ code: "BAD_REQUEST", message: "At least one participant must join before starting" });
+          throw new TRPCError({ code: "BAD_REQUEST", message: "At least one debater must join before starting" });
         }
         
         const allReady = participants.every(p => p.isReady);
@@ -216,43 +475,74 @@ export const appRouter = router({
           throw new TRPCError({ code: "BAD_REQUEST", message: "All participants must be ready" });
         }
         
-        // Find the first speaker who has actually joined
-        const participantRoles = new Set(participants.map(p => p.speakerRole));
-        const fullSpeakingOrder = ASIAN_PARLIAMENTARY_FORMAT.speakingOrder;
-        let firstSpeakerIndex = 0;
-        
-        for (let i = 0; i < fullSpeakingOrder.length; i++) {
-          const speaker = fullSpeakingOrder[i];
-          const role = speaker.role;
-          // For reply speeches, check if the original speaker is present
-          if (role === "opposition_reply") {
-            if (participantRoles.has("leader_of_opposition")) {
-              firstSpeakerIndex = i;
-              break;
-            }
-            continue;
-          }
-          if (role === "government_reply") {
-            if (participantRoles.has("prime_minister")) {
-              firstSpeakerIndex = i;
-              break;
-            }
-            continue;
-          }
-          // Regular speaker roles
-          if (participantRoles.has(role as typeof participants[number]["speakerRole"])) {
-            firstSpeakerIndex = i;
-            break;
-          }
-        }
+        // Find the first speaker who has actually joined (or the AI standing in for them)
+        const firstSpeakerIndex = getFirstSpeakerIndex(
+          format,
+          getSpeakingRoles(format, participants.map(p => p.speakerRole), room.aiOpponent)
+        );
         
         await db.updateDebateRoom(input.roomId, {
           status: "in_progress",
           currentPhase: "debate",
           currentSpeakerIndex: firstSpeakerIndex,
           startedAt: new Date(),
+          ...resetClock,
+        });
+        publishRoomEvent(room.id, { type: "status", status: "in_progress" });
+        
+        return { success: true };
+      }),
+    
+    // Open the prep phase: a shared countdown during which each team works on its board
+    startPrep: protectedProcedure
+      .input(z.object({
+        roomId: z.number(),
+        minutes: z.number().int().min(PREP_TIME_LIMITS.minMinutes).max(PREP_TIME_LIMITS.maxMinutes).optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const room = await db.getDebateRoomById(input.roomId);
+        if (!room) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Room not found" });
+        }
+        if (room.creatorId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Only the room creator can start prep" });
+        }
+        if (!room.motionId) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "A motion must be set before prep" });
+        }
+        if (room.status !== "waiting" || room.currentPhase !== "setup") {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Prep has already started" });
+        }
+        
+        const format = await getRoomFormat(room);
+        const prepSeconds = input.minutes ? input.minutes * 60 : format.prepTime;
+        await db.updateDebateRoom(room.id, {
+          currentPhase: "prep",
+          prepStartedAt: new Date(),
+          prepSeconds,
         });
+        publishRoomEvent(room.id, { type: "room" });
+        return { prepSeconds };
+      }),
+    
+    endPrep: protectedProcedure
+      .input(z.object({ roomId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const room = await db.getDebateRoomById(input.roomId);
+        if (!room) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Room not found" });
+        }
+        if (room.creatorId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Only the room creator can end prep" });
+        }
+        if (room.currentPhase !== "prep" || !room.prepStartedAt) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Prep is not running" });
+        }
         
+        // Cut the countdown down to the time already used
+        const used = Math.floor((Date.now() - room.prepStartedAt.getTime()) / 1000);
+        await db.updateDebateRoom(room.id, { prepSeconds: Math.min(room.prepSeconds ?? used, used) });
+        publishRoomEvent(room.id, { type: "room" });
         return { success: true };
       }),
     
@@ -266,43 +556,212 @@ export const appRouter = router({
         
         // Get participants to determine which speakers are present
         const participants = await db.getRoomParticipants(room.id);
-        const participantRoles = new Set(participants.map(p => p.speakerRole));
-        
-        // Build dynamic speaking order based on who joined
-        const fullSpeakingOrder = ASIAN_PARLIAMENTARY_FORMAT.speakingOrder;
-        const activeSpeakingOrder = fullSpeakingOrder.filter(speaker => {
-          // For reply speeches, check if the original speaker is present
-          if (speaker.role === "opposition_reply") {
-            return participantRoles.has("leader_of_opposition");
-          }
-          if (speaker.role === "government_reply") {
-            return participantRoles.has("prime_minister");
-          }
-          return participantRoles.has(speaker.role);
-        });
+        const format = await getRoomFormat(room);
         
-        // Find current position in active order and move to next
-        const currentSpeaker = fullSpeakingOrder[room.currentSpeakerIndex || 0];
-        const currentActiveIndex = activeSpeakingOrder.findIndex(s => s.role === currentSpeaker?.role);
-        const nextActiveIndex = currentActiveIndex + 1;
+        // Move to the next speaker in the format's order who actually joined
+        const nextFullIndex = getNextSpeakerIndex(
+          format,
+          room.currentSpeakerIndex || 0,
+          getSpeakingRoles(format, participants.map(p => p.speakerRole), room.aiOpponent)
+        );
         
-        if (nextActiveIndex >= activeSpeakingOrder.length) {
+        if (nextFullIndex === null) {
           // Debate is complete
           await db.updateDebateRoom(input.roomId, {
             currentPhase: "feedback",
             status: "completed",
             endedAt: new Date(),
           });
+          publishRoomEvent(room.id, { type: "speaker", currentSpeakerIndex: null, completed: true });
+          publishRoomEvent(room.id, { type: "status", status: "completed" });
+          // Shared-device rounds are queued once their recording has been split into speeches
+          if (room.recordingMode !== "shared_device") {
+            enqueueRoundEndAnalysis(room.id).catch(error => {
+              console.error("[AnalysisJobs] Failed to queue the round's analysis:", error);
+            });
+          }
           return { completed: true, nextSpeakerIndex: null };
         }
         
-        // Find the index in the full speaking order for the next active speaker
-        const nextSpeaker = activeSpeakingOrder[nextActiveIndex];
-        const nextFullIndex = fullSpeakingOrder.findIndex(s => s.role === nextSpeaker.role);
-        
         await db.updateDebateRoom(input.roomId, { currentSpeakerIndex: nextFullIndex });
+        publishRoomEvent(room.id, { type: "speaker", currentSpeakerIndex: nextFullIndex, completed: false });
         return { completed: false, nextSpeakerIndex: nextFullIndex };
       }),
+    
+    // Live room updates over SSE. The event id is the last transcript sequence the
+    // client has seen, so a reconnect resumes the transcript exactly where it left off.
+    events: protectedProcedure
+      .input(z.object({
+        roomId: z.number(),
+        lastEventId: z.string().nullish(),
+      }))
+      .subscription(async function* ({ input, signal }) {
+        // Subscribe before replaying so nothing published meanwhile is missed
+        const events = subscribeToRoom(input.roomId, signal);
+        let lastSequence = Number(input.lastEventId) || 0;
+        
+        yield tracked(String(lastSequence), { type: "sync" } as const);
+        
+        const missed = await db.getRoomTranscriptSegments(input.roomId, lastSequence);
+        for (const segment of missed) {
+          lastSequence = Math.max(lastSequence, segment.sequenceNumber);
+          yield tracked(String(lastSequence), { type: "transcript" as const, segment });
+        }
+        
+        for await (const event of events) {
+          if (event.type === "transcript") {
+            if (event.segment.sequenceNumber <= lastSequence) continue; // already replayed
+            lastSequence = event.segment.sequenceNumber;
+          }
+          yield tracked(String(lastSequence), event);
+        }
+      }),
+    
+    getClock: protectedProcedure
+      .input(z.object({ roomId: z.number() }))
+      .query(async ({ input }) => {
+        const room = await db.getDebateRoomById(input.roomId);
+        if (!room) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Room not found" });
+        }
+        return getClockSnapshot(room, await getRoomFormat(room));
+      }),
+    
+    pauseClock: protectedProcedure
+      .input(z.object({ roomId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const room = await db.getDebateRoomById(input.roomId);
+        if (!room) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Room not found" });
+        }
+        const format = await getRoomFormat(room);
+        await assertCanControlClock(room, format, ctx.user.id);
+        if (getClockStatus(room) !== "running") {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "The clock is not running" });
+        }
+        
+        const clockPausedAt = new Date();
+        await db.updateDebateRoom(room.id, { clockPausedAt });
+        const clock = getClockSnapshot({ ...room, clockPausedAt }, format);
+        publishRoomEvent(room.id, { type: "clock", clock });
+        return clock;
+      }),
+    
+    resumeClock: protectedProcedure
+      .input(z.object({ roomId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const room = await db.getDebateRoomById(input.roomId);
+        if (!room) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Room not found" });
+        }
+        const format = await getRoomFormat(room);
+        await assertCanControlClock(room, format, ctx.user.id);
+        if (getClockStatus(room) !== "paused" || !room.clockPausedAt) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "The clock is not paused" });
+        }
+        
+        const pausedFor = Math.round((Date.now() - room.clockPausedAt.getTime()) / 1000);
+        const updates = {
+          clockPausedAt: null,
+          clockPausedSeconds: room.clockPausedSeconds + pausedFor,
+        };
+        await db.updateDebateRoom(room.id, updates);
+        const clock = getClockSnapshot({ ...room, ...updates }, format);
+        publishRoomEvent(room.id, { type: "clock", clock });
+        return clock;
+      }),
+  }),
+
+  // Coach-built custom formats
+  format: router({
+    list: protectedProcedure.query(async ({ ctx }) => {
+      const formats = await db.getCustomFormatsForUser(ctx.user.id, ctx.user.club);
+      return formats.map(f => ({
+        id: f.id,
+        creatorId: f.creatorId,
+        clubName: f.clubName,
+        format: buildCustomFormat(f),
+      }));
+    }),
+    
+    create: protectedProcedure
+      .input(z.object({
+        name: z.string().trim().min(1).max(100),
+        description: z.string().max(500).optional(),
+        shareWithClub: z.boolean().default(false),
+        spec: customFormatSpecSchema,
+      }))
+      .mutation(async ({ ctx, input }) => {
+        if (input.shareWithClub && !ctx.user.club) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Set your club on your profile to share formats with it" });
+        }
+        if (input.spec.replyTime !== null && input.spec.teamsCount !== 2) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Reply speeches are only available for two-team formats" });
+        }
+        
+        const id = await db.createCustomFormat({
+          creatorId: ctx.user.id,
+          clubName: input.shareWithClub ? ctx.user.club : null,
+          name: input.name,
+          description: input.description || null,
+          spec: input.spec,
+        });
+        return { id };
+      }),
+    
+    delete: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const custom = await db.getCustomFormatById(input.id);
+        if (!custom) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Custom format not found" });
+        }
+        if (custom.creatorId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Only the creator can delete this format" });
+        }
+        await db.deleteCustomFormat(input.id);
+        return { success: true };
+      }),
+  }),
+
+  // Club glossary of jargon and names the transcriber should expect
+  glossary: router({
+    list: protectedProcedure.query(async ({ ctx }) => {
+      const terms = ctx.user.club ? await db.getClubGlossary(ctx.user.club) : [];
+      return { club: ctx.user.club, terms, defaults: DEBATE_GLOSSARY };
+    }),
+    
+    add: protectedProcedure
+      .input(z.object({ term: z.string().trim().min(1).max(100) }))
+      .mutation(async ({ ctx, input }) => {
+        if (!ctx.user.club) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Set your club on your profile to edit its glossary" });
+        }
+        const terms = await db.getClubGlossary(ctx.user.club);
+        if (terms.some(t => t.term.toLowerCase() === input.term.toLowerCase())) {
+          throw new TRPCError({ code: "CONFLICT", message: "That term is already in your club's glossary" });
+        }
+        const id = await db.addGlossaryTerm({
+          clubName: ctx.user.club,
+          term: input.term,
+          createdById: ctx.user.id,
+        });
+        return { id };
+      }),
+    
+    remove: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const term = await db.getGlossaryTermById(input.id);
+        if (!term) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Glossary term not found" });
+        }
+        if (term.clubName !== ctx.user.club) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Only members of the club can edit its glossary" });
+        }
+        await db.deleteGlossaryTerm(input.id);
+        return { success: true };
+      }),
   }),
 
   // Motion generation and management
@@ -311,17 +770,21 @@ export const appRouter = router({
       .input(z.object({
         topicArea: z.enum(["politics", "ethics", "technology", "economics", "social", "environment", "education", "health"]),
         difficulty: z.enum(["novice", "intermediate", "advanced"]),
+        motionType: z.enum(["prepared", "impromptu"]).default("impromptu"),
         roomId: z.number(),
       }))
       .mutation(async ({ input }) => {
         const topicLabel = TOPIC_AREAS.find(t => t.id === input.topicArea)?.label || input.topicArea;
         const diffLabel = DIFFICULTY_LEVELS.find(d => d.id === input.difficulty)?.label || input.difficulty;
+        const room = await db.getDebateRoomById(input.roomId);
+        const format = await getRoomFormat(room);
         
         const response = await invokeLLM({
+          task: "motion",
           messages: [
             {
               role: "system",
-              content: `You are an expert debate coach who creates debate motions for competitive debating in Asian Parliamentary format. Generate motions that are:
+              content: `You are an expert debate coach who creates debate motions for competitive debating in ${format.name} format. Generate motions that are:
 - Clear and debatable with strong arguments on both sides
 - Appropriate for the specified difficulty level
 - Relevant to current issues in the topic area
@@ -330,7 +793,7 @@ export const appRouter = router({
 Respond with a JSON object containing:
 - motion: The debate motion starting with "This House..."
 - backgroundContext: A brief 2-3 sentence explanation of the issue
-- keyStakeholders: An array of 3-5 key stakeholders affected by this motion`
+- keyStakeholders: An array of 3-5 key stakeholders affected by this motion${languageInstruction(getRoomLanguage(room))}`
             },
             {
               role: "user",
@@ -371,6 +834,7 @@ Respond with a JSON object containing:
           motion: motionData.motion,
           topicArea: input.topicArea,
           difficulty: input.difficulty,
+          motionType: input.motionType,
           backgroundContext: motionData.backgroundContext,
           keyStakeholders: motionData.keyStakeholders,
           isAiGenerated: true,
@@ -378,10 +842,12 @@ Respond with a JSON object containing:
         
         // Link motion to room
         await db.updateDebateRoom(input.roomId, { motionId });
+        publishRoomEvent(input.roomId, { type: "room" });
         
         return { 
           motionId, 
           motion: motionData.motion,
+          motionType: input.motionType,
           backgroundContext: motionData.backgroundContext,
           keyStakeholders: motionData.keyStakeholders
         };
@@ -407,16 +873,77 @@ Respond with a JSON object containing:
         if (!participant) {
           throw new TRPCError({ code: "NOT_FOUND", message: "You are not in this room" });
         }
+        const room = await db.getDebateRoomById(input.roomId);
+        if (!room) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Room not found" });
+        }
+        // On a shared device the creator starts each speech for whoever holds the floor
+        const runsSharedDevice = room.recordingMode === "shared_device" && room.creatorId === ctx.user.id;
+        if (!runsSharedDevice && !isDebater(participant)) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Only debaters can give speeches" });
+        }
+        if (getClockStatus(room) !== "idle") {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "A speech is already in progress" });
+        }
+        
+        const format = await getRoomFormat(room);
+        const slot = format.speakingOrder[room.currentSpeakerIndex ?? 0];
+        if (runsSharedDevice) {
+          const participants = await db.getRoomParticipants(room.id);
+          const holder = slot && participants.find(p => p.speakerRole === getSlotSpeakerRole(slot));
+          if (!slot || !holder || input.speakerRole !== slot.role) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Nobody holds the floor to start a speech for" });
+          }
+          return await startSpeech(room, format, holder.id, input);
+        }
+        
+        // Only the holder of the current slot may take the floor; anyone else is flagged
+        if (slot && (participant.speakerRole !== getSlotSpeakerRole(slot) || input.speakerRole !== slot.role)) {
+          await recordViolation({
+            roomId: room.id,
+            participantId: participant.id,
+            violationType: "speaking_out_of_turn",
+            description: `Tried to start a speech during the ${slot.label}'s turn`,
+          });
+          throw new TRPCError({ code: "FORBIDDEN", message: `It is the ${slot.label}'s turn to speak` });
+        }
+        
+        return await startSpeech(room, format, participant.id, input);
+      }),
+    
+    // The AI opponent's turn: writes, stores and transcribes its speech. Every
+    // client may ask; they all get the same speech back to read aloud.
+    giveAI: protectedProcedure
+      .input(z.object({ roomId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const participant = await db.getParticipantWithUser(input.roomId, ctx.user.id);
+        if (!participant) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "You are not in this room" });
+        }
+        const room = await db.getDebateRoomById(input.roomId);
+        if (!room) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Room not found" });
+        }
+        if (!room.aiOpponent) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "This room has no AI opponent" });
+        }
+        if (room.status !== "in_progress") {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "The debate is not in progress" });
+        }
         
-        const speechId = await db.createSpeech({
-          roomId: input.roomId,
-          participantId: participant.id,
-          speakerRole: input.speakerRole,
-          speechType: input.speechType,
-          startedAt: new Date(),
-        });
+        const format = await getRoomFormat(room);
+        const slot = format.speakingOrder[room.currentSpeakerIndex ?? 0];
+        const participants = await db.getRoomParticipants(room.id);
+        if (!slot || participants.some(p => p.speakerRole === getSlotSpeakerRole(slot))) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "It is not the AI opponent's turn" });
+        }
         
-        return { speechId };
+        try {
+          return await giveAISpeech(room, format, slot);
+        } catch (error) {
+          console.error("[AIOpponent] Failed to give speech:", error);
+          throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "The AI opponent could not give its speech" });
+        }
       }),
     
     updateTranscript: protectedProcedure
@@ -436,14 +963,63 @@ Respond with a JSON object containing:
     end: protectedProcedure
       .input(z.object({
         speechId: z.number(),
-        duration: z.number(),
+        duration: z.number().optional(), // ignored while the server clock is running this speech
       }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
+        const speech = await db.getSpeechById(input.speechId);
+        if (!speech) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Speech not found" });
+        }
+        const room = await db.getDebateRoomById(speech.roomId);
+        if (!room) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Room not found" });
+        }
+        const ownsClock = room.currentSpeechId === speech.id;
+        const format = ownsClock ? await getRoomFormat(room) : null;
+        // Ending the speech stops the room's clock, so it takes the same say as pausing it
+        if (format) {
+          await assertCanControlClock(room, format, ctx.user.id);
+        } else {
+          await assertCanEndSpeech(room, speech, ctx.user.id);
+        }
+        // A retry or double click keeps the duration measured the first time
+        if (speech.endedAt) {
+          return { success: true, duration: speech.duration ?? 0, timeExceeded: false };
+        }
+        const duration = ownsClock ? getClockElapsed(room) : input.duration ?? 0;
+        
         await db.updateSpeech(input.speechId, {
           endedAt: new Date(),
-          duration: input.duration,
+          duration,
         });
-        return { success: true };
+        
+        let timeExceeded = false;
+        if (format) {
+          const slot = format.speakingOrder[room.currentSpeakerIndex ?? 0];
+          const allowed = slot?.time ?? 0;
+          timeExceeded = allowed > 0 && duration > allowed + OVERTIME_GRACE_SECONDS;
+          // AI speeches never run the clock, so an owner is always a participant
+          if (timeExceeded && speech.participantId !== null) {
+            await recordViolation({
+              roomId: room.id,
+              speechId: speech.id,
+              participantId: speech.participantId,
+              violationType: "time_exceeded",
+              description: `Spoke for ${formatTime(duration)}, over the ${formatTime(allowed)} limit`,
+              timestamp: duration,
+            });
+          }
+          await db.updateDebateRoom(room.id, resetClock);
+          publishRoomEvent(room.id, { type: "clock", clock: getClockSnapshot({ ...room, ...resetClock }, format) });
+          
+          // Replies are checked for new arguments later, with the argument map,
+          // once their last chunk is transcribed
+          if (slot) {
+            await detectPOIWindowViolations(speech, format, slot);
+          }
+        }
+        
+        return { success: true, duration, timeExceeded };
       }),
     
     getAll: protectedProcedure
@@ -458,10 +1034,7 @@ Respond with a JSON object containing:
         speechId: z.number(),
         timestamp: z.number().optional(),
       }))
-      .mutation(async ({ input }) => {
-        // Import the direct buffer transcription helper
-        const { transcribeBuffer } = await import('./_core/transcribeBuffer');
-        
+      .mutation(async ({ ctx, input }) => {
         // Decode base64 audio
         const audioBuffer = Buffer.from(input.audioData, 'base64');
         
@@ -474,14 +1047,21 @@ Respond with a JSON object containing:
           };
         }
         
+        // Get speech to find room ID and speaker info
+        const speech = await db.getSpeechById(input.speechId);
+        if (!speech) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Speech not found" });
+        }
+        
         console.log('[Transcription] Processing audio directly:', audioBuffer.length, 'bytes');
         
-        // Transcribe directly from buffer (bypasses S3 URL access issues)
-        const result = await transcribeBuffer({
+        // Transcribe directly from buffer with the room's provider and language,
+        // primed with the motion, the debaters' names and the club glossary
+        const room = await db.getDebateRoomById(speech.roomId);
+        const result = await transcribeForRoom(room, {
           audioBuffer,
           mimeType: 'audio/webm',
-          language: 'en',
-          prompt: 'Transcribe this debate speech clearly and accurately.',
+          prompt: await getTranscriptionPrompt(room),
         });
         
         // Check if it's an error response
@@ -493,12 +1073,6 @@ Respond with a JSON object containing:
           };
         }
         
-        // Get speech to find room ID and speaker info
-        const speech = await db.getSpeechById(input.speechId);
-        if (!speech) {
-          throw new TRPCError({ code: "NOT_FOUND", message: "Speech not found" });
-        }
-        
         // Append to existing transcript
         const existingTranscript = speech.transcript || '';
         const newTranscript = existingTranscript 
@@ -509,16 +1083,25 @@ Respond with a JSON object containing:
           transcript: newTranscript,
         });
         
-        // Save transcript segment to DB for real-time sync
+        // Save transcript segment to DB and push it to everyone in the room, timed
+        // from where its first phrase starts on the speech clock
+        const timings = toSpeechTimings(result, input.timestamp || 0);
         const latestSeq = await db.getLatestTranscriptSequence(speech.roomId);
-        await db.createTranscriptSegment({
+        const segment = {
           roomId: speech.roomId,
           speechId: input.speechId,
           speakerRole: speech.speakerRole,
-          speakerName: null, // Will be filled by client
+          speakerName: ctx.user.name ?? null,
+          poiId: null,
           text: result.text,
-          timestamp: input.timestamp || 0,
+          timestamp: Math.floor(timings.phrases[0]?.start ?? input.timestamp ?? 0),
+          timings,
           sequenceNumber: latestSeq + 1,
+        };
+        const segmentId = await db.createTranscriptSegment(segment);
+        publishRoomEvent(speech.roomId, {
+          type: "transcript",
+          segment: { ...segment, id: segmentId, originalText: null, editedAt: null, createdAt: new Date() },
         });
         
         return { 
@@ -527,6 +1110,43 @@ Respond with a JSON object containing:
           sequenceNumber: latestSeq + 1,
         };
       }),
+    
+    // Archive the full recording of a speech once it ends, for playback in Review
+    uploadAudio: protectedProcedure
+      .input(z.object({
+        speechId: z.number(),
+        audioData: z.string(), // Base64 encoded audio
+        mimeType: z.string().default("audio/webm"),
+        offset: z.number().int().min(0).default(0), // seconds into the speech when recording began
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const speech = await db.getSpeechById(input.speechId);
+        if (!speech) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Speech not found" });
+        }
+        const participant = await db.getParticipantWithUser(speech.roomId, ctx.user.id);
+        if (!participant || participant.id !== speech.participantId) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Only the speaker can upload a speech's recording" });
+        }
+        
+        const audioBuffer = Buffer.from(input.audioData, 'base64');
+        if (audioBuffer.length === 0) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "The recording is empty" });
+        }
+        if (audioBuffer.length > MAX_SPEECH_AUDIO_BYTES) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "The recording is too large to archive" });
+        }
+        
+        const extension = input.mimeType.includes("mp4") ? "m4a" : "webm";
+        const { url } = await storagePut(
+          `rooms/${speech.roomId}/speeches/${speech.id}-${nanoid(10)}.${extension}`,
+          audioBuffer,
+          input.mimeType.split(";")[0]
+        );
+        await db.updateSpeech(speech.id, { audioUrl: url, audioOffset: input.offset });
+        
+        return { audioUrl: url };
+      }),
   }),
 
   // Live transcript polling for real-time sync
@@ -557,29 +1177,401 @@ Respond with a JSON object containing:
         const sequence = await db.getLatestTranscriptSequence(input.roomId);
         return { sequence };
       }),
-  }),
-
-  // POI management
-  poi: router({
-    offer: protectedProcedure
+    
+    // The transcript in a spectator's language, translated as it comes in
+    translations: protectedProcedure
       .input(z.object({
         roomId: z.number(),
-        speechId: z.number(),
-        timestamp: z.number(),
+        language: z.enum(TRANSCRIPTION_LANGUAGE_IDS),
       }))
-      .mutation(async ({ ctx, input }) => {
+      .query(async ({ input }) => {
+        const room = await db.getDebateRoomById(input.roomId);
+        if (!room) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Room not found" });
+        }
+        
+        try {
+          const translations = await translateRoomTranscript(room.id, getRoomLanguage(room), input.language);
+          return { translations };
+        } catch (error) {
+          console.error("[Translation] Failed to translate transcript:", error);
+          throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Failed to translate the transcript" });
+        }
+      }),
+    
+    // Correct a segment once its speech is over: the speaker (or the member who
+    // made the point, for a POI) and the room creator may edit it
+    edit: protectedProcedure
+      .input(z.object({
+        segmentId: z.number(),
+        text: z.string().trim().min(1).max(5000),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const segment = await db.getTranscriptSegmentById(input.segmentId);
+        if (!segment) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Transcript segment not found" });
+        }
+        const speech = await db.getSpeechById(segment.speechId);
+        const room = await db.getDebateRoomById(segment.roomId);
+        if (!speech || !room) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Speech not found" });
+        }
+        if (!speech.endedAt) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Transcripts can be corrected once the speech is over" });
+        }
+        
+        if (room.creatorId !== ctx.user.id) {
+          const participant = await db.getParticipantWithUser(segment.roomId, ctx.user.id);
+          const poi = segment.poiId !== null ? await db.getPOIById(segment.poiId) : undefined;
+          const ownerId = poi ? poi.offeredById : speech.participantId;
+          if (!participant || participant.id !== ownerId) {
+            throw new TRPCError({ code: "FORBIDDEN", message: "Only the speaker or the room creator can correct this transcript" });
+          }
+        }
+        if (input.text === segment.text) {
+          return { segment };
+        }
+        
+        // Word timings no longer match corrected text; the line keeps its place
+        // on the speech clock
+        const phrases = segment.timings?.phrases ?? [];
+        const updates = {
+          text: input.text,
+          originalText: segment.originalText ?? segment.text,
+          editedAt: new Date(),
+          timings: phrases.length > 0
+            ? { phrases: [{ text: input.text, start: phrases[0].start, end: phrases[phrases.length - 1].end }], words: [] }
+            : segment.timings,
+        };
+        await db.createTranscriptEdit({
+          segmentId: segment.id,
+          roomId: segment.roomId,
+          userId: ctx.user.id,
+          previousText: segment.text,
+          text: input.text,
+        });
+        await db.updateTranscriptSegment(segment.id, updates);
+        
+        if (segment.poiId !== null) {
+          await db.updatePOI(segment.poiId, { content: input.text });
+        } else {
+          // The speech transcript feeds the argument map and feedback, so rebuild it
+          // from the speech's segments
+          const speechSegments = (await db.getRoomTranscriptSegments(segment.roomId))
+            .filter(s => s.speechId === speech.id && s.poiId === null)
+            .map(s => s.id === segment.id ? input.text : s.text);
+          await db.updateSpeech(speech.id, {
+            transcript: speechSegments.join(speech.participantId === null ? "\n\n" : " "),
+          });
+        }
+        
+        const updated = { ...segment, ...updates };
+        publishRoomEvent(segment.roomId, { type: "transcript_edit", segment: updated });
+        return { segment: updated };
+      }),
+    
+    // A segment's original transcriber text and every correction since
+    history: protectedProcedure
+      .input(z.object({ segmentId: z.number() }))
+      .query(async ({ input }) => {
+        const segment = await db.getTranscriptSegmentById(input.segmentId);
+        if (!segment) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Transcript segment not found" });
+        }
+        const edits = await db.getTranscriptEdits(input.segmentId);
+        return {
+          originalText: segment.originalText ?? segment.text,
+          edits: edits.map(({ edit, editorName }) => ({ ...edit, editorName })),
+        };
+      }),
+  }),
+
+  // Whole-round recordings from shared-device rooms
+  recording: router({
+    upload: protectedProcedure
+      .input(z.object({
+        roomId: z.number(),
+        audioData: z.string(), // Base64 encoded audio
+        mimeType: z.string().default("audio/webm"),
+        startedAt: z.number().optional(), // when recording began, in ms since the epoch
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const room = await db.getDebateRoomById(input.roomId);
+        if (!room) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Room not found" });
+        }
+        if (room.recordingMode !== "shared_device") {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "This room records each speaker on their own device" });
+        }
+        if (room.creatorId !== ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Only the room creator can upload the round recording" });
+        }
+        const latest = await db.getLatestRoundRecording(room.id);
+        if (latest?.status === "processing") {
+          throw new TRPCError({ code: "CONFLICT", message: "The round recording is still being processed" });
+        }
+        if (latest?.status === "processed") {
+          throw new TRPCError({ code: "CONFLICT", message: "This round's recording has already been processed" });
+        }
+        
+        const format = await getRoomFormat(room);
+        const participants = await db.getRoomParticipants(room.id);
+        const slots = getActiveSpeakingOrder(format, participants.map(p => p.speakerRole));
+        if (slots.length === 0) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Nobody has joined to speak in this round" });
+        }
+        
+        const audioBuffer = Buffer.from(input.audioData, 'base64');
+        if (audioBuffer.length === 0) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "The recording is empty" });
+        }
+        if (audioBuffer.length > MAX_ROUND_AUDIO_BYTES) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "The recording is too large to upload" });
+        }
+        
+        const extension = input.mimeType.includes("mp4") ? "m4a" : "webm";
+        const { url } = await storagePut(
+          `rooms/${room.id}/round-${nanoid(10)}.${extension}`,
+          audioBuffer,
+          input.mimeType.split(";")[0]
+        );
+        const startedAt = input.startedAt ? new Date(input.startedAt) : null;
+        const recordingId = await db.createRoundRecording({
+          roomId: room.id,
+          uploadedById: ctx.user.id,
+          audioUrl: url,
+          status: "processing",
+          startedAt,
+        });
+        publishRoomEvent(room.id, { type: "recording", status: "processing" });
+        
+        // Diarizing and transcribing a round takes minutes; the room hears when it is done
+        runRoundRecording({
+          recording: { id: recordingId, audioUrl: url, startedAt },
+          room,
+          slots,
+          audioBuffer,
+          mimeType: input.mimeType,
+        }).catch(error => {
+          console.error("[RoundRecording] Failed to record outcome:", error);
+        });
+        
+        return { recordingId };
+      }),
+    
+    // The room's latest round recording and how far processing has got
+    get: protectedProcedure
+      .input(z.object({ roomId: z.number() }))
+      .query(async ({ input }) => {
+        return (await db.getLatestRoundRecording(input.roomId)) ?? null;
+      }),
+  }),
+
+  // Rounds held off the platform, imported from recordings or transcripts
+  import: router({
+    // One part of a recording being uploaded for import; files of any size go up in parts
+    uploadChunk: protectedProcedure
+      .input(z.object({
+        uploadId: z.string().regex(/^[A-Za-z0-9_-]{8,32}$/),
+        index: z.number().int().min(0).max(IMPORT_MAX_CHUNKS - 1),
+        data: z.string(), // base64
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const buffer = Buffer.from(input.data, "base64");
+        if (buffer.length === 0) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Upload part is empty" });
+        }
+        if (buffer.length > IMPORT_CHUNK_BYTES) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Upload part is too large" });
+        }
+        
+        await storagePut(importChunkKey(ctx.user.id, input.uploadId, input.index), buffer);
+        return { success: true };
+      }),
+    
+    // Create a completed room from the round's speeches; transcription and
+    // analysis carry on in the background
+    create: protectedProcedure
+      .input(z.object({
+        format: z.enum(DEBATE_FORMAT_IDS).default("asian_parliamentary"),
+        customFormatId: z.number().optional(),
+        transcriptionLanguage: z.enum(TRANSCRIPTION_LANGUAGE_IDS).optional(),
+        motion: z.string().trim().min(1).max(500),
+        topicArea: z.enum(["politics", "ethics", "technology", "economics", "social", "environment", "education", "health"]),
+        mySpeakerRole: z.string().nullish(), // the importer's own speaker role, if they spoke
+        speeches: z.array(z.object({
+          role: z.string(), // speaking slot role
+          speakerName: z.string().trim().max(255).default(""),
+          source: z.discriminatedUnion("kind", [
+            z.object({
+              kind: z.literal("file"),
+              uploadId: z.string().regex(/^[A-Za-z0-9_-]{8,32}$/),
+              chunkCount: z.number().int().min(1).max(IMPORT_MAX_CHUNKS),
+              mimeType: z.string().regex(/^(audio|video)\//),
+            }),
+            z.object({
+              kind: z.literal("text"),
+              transcript: z.string().trim().min(1).max(100_000),
+            }),
+          ]),
+        })).min(1),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        if (input.customFormatId) {
+          const custom = await db.getCustomFormatById(input.customFormatId);
+          if (!custom || !canUseCustomFormat(custom, ctx.user)) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Custom format not found" });
+          }
+        }
+        const roomFields = {
+          format: input.customFormatId ? "custom" as const : input.format,
+          customFormatId: input.customFormatId ?? null,
+        };
+        const format = await getRoomFormat(roomFields);
+        
+        if (input.mySpeakerRole && !format.speakerRoles.some(r => r.id === input.mySpeakerRole)) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: `Invalid speaker role for ${format.name}` });
+        }
+        const slots = input.speeches.map(speech => format.speakingOrder.find(s => s.role === speech.role));
+        if (slots.some(slot => !slot)) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: `Every speech needs a speaking position from ${format.name}` });
+        }
+        if (new Set(input.speeches.map(s => s.role)).size !== input.speeches.length) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Each speaking position can only be imported once" });
+        }
+        const isMine = (i: number) => !!input.mySpeakerRole && getSlotSpeakerRole(slots[i]!) === input.mySpeakerRole;
+        if (input.speeches.some((speech, i) => !isMine(i) && !speech.speakerName)) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Name the speaker of every speech you didn't give" });
+        }
+        
+        const motionId = await db.createMotion({
+          motion: input.motion,
+          topicArea: input.topicArea,
+          isAiGenerated: false,
+        });
+        const now = new Date();
+        const roomCode = generateRoomCode();
+        const roomId = await db.createDebateRoom({
+          roomCode,
+          creatorId: ctx.user.id,
+          ...roomFields,
+          transcriptionLanguage: input.transcriptionLanguage ?? null,
+          motionId,
+          status: "completed",
+          currentPhase: "feedback",
+          startedAt: now,
+          endedAt: now,
+        });
+        const room = await db.getDebateRoomById(roomId);
+        if (!room) {
+          throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Failed to create the room" });
+        }
+        
+        // The importer joins as the debater they were, or as the coach looking on
+        const mySlot = input.mySpeakerRole
+          ? format.speakingOrder.find(s => getSlotSpeakerRole(s) === input.mySpeakerRole)
+          : undefined;
+        const participantId = await db.addParticipant({
+          roomId,
+          userId: ctx.user.id,
+          role: mySlot ? "debater" : "coach",
+          team: mySlot?.team ?? null,
+          speakerRole: input.mySpeakerRole ?? null,
+          isReady: true,
+        });
+        
+        // In speaking order, whatever order they were listed in
+        const speeches = input.speeches
+          .map((speech, i) => ({
+            slot: slots[i]!,
+            participantId: isMine(i) ? participantId : null,
+            speakerName: isMine(i) ? ctx.user.name ?? speech.speakerName : speech.speakerName,
+            source: speech.source,
+          }))
+          .sort((a, b) => format.speakingOrder.indexOf(a.slot) - format.speakingOrder.indexOf(b.slot));
+        
+        const importId = await db.createDebateImport({
+          roomId,
+          importedById: ctx.user.id,
+          status: "transcribing",
+          speechCount: speeches.length,
+        });
+        
+        // Transcribing a whole round takes minutes; the room hears how it is getting on
+        runDebateImport({
+          debateImport: { id: importId },
+          room,
+          importedById: ctx.user.id,
+          speeches,
+        }).catch(error => {
+          console.error("[DebateImport] Failed to finish the import:", error);
+        });
+        
+        return { roomId, roomCode };
+      }),
+    
+    // How far a room's import has got; null for rounds held on the platform
+    get: protectedProcedure
+      .input(z.object({ roomId: z.number() }))
+      .query(async ({ input }) => {
+        return (await db.getRoomDebateImport(input.roomId)) ?? null;
+      }),
+  }),
+
+  // POI management: offered by the other side, answered live by the speaker
+  poi: router({
+    list: protectedProcedure
+      .input(z.object({ speechId: z.number() }))
+      .query(async ({ input }) => {
+        const pois = await db.getSpeechPOIs(input.speechId);
+        return { pois, serverTime: Date.now() };
+      }),
+
+    offer: protectedProcedure
+      .input(z.object({
+        roomId: z.number(),
+        speechId: z.number(),
+      }))
+      .mutation(async ({ ctx, input }) => {
         const participant = await db.getParticipantWithUser(input.roomId, ctx.user.id);
         if (!participant) {
           throw new TRPCError({ code: "NOT_FOUND", message: "You are not in this room" });
         }
+        if (!isDebater(participant)) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Only debaters can offer points of information" });
+        }
+        
+        const room = await db.getDebateRoomById(input.roomId);
+        if (!room || room.currentSpeechId !== input.speechId || getClockStatus(room) !== "running") {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Points of information can only be offered while the speech is running" });
+        }
+        
+        // The window is judged on the server clock, not the offerer's display
+        const format = await getRoomFormat(room);
+        const slot = format.speakingOrder[room.currentSpeakerIndex ?? 0];
+        const elapsed = getClockElapsed(room);
+        const offerError = slot && getPOIOfferError(format, slot, participant.team, elapsed);
+        if (!slot || offerError) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: offerError || "No speech is in progress" });
+        }
+        
+        const pois = await db.getSpeechPOIs(input.speechId);
+        if (pois.some(p => p.offeredById === participant.id && p.status === "offered")) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Your point of information is already waiting for an answer" });
+        }
+        if (pois.some(p => getPOIRemaining(p, format.poi) > 0)) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "The speaker is already taking a point of information" });
+        }
         
         const poiId = await db.createPOI({
           roomId: input.roomId,
           speechId: input.speechId,
           offeredById: participant.id,
-          timestamp: input.timestamp,
+          timestamp: elapsed,
+          status: "offered",
           accepted: false,
         });
+        publishRoomEvent(input.roomId, { type: "poi", poiId, speechId: input.speechId, status: "offered" });
         
         return { poiId };
       }),
@@ -588,123 +1580,254 @@ Respond with a JSON object containing:
       .input(z.object({
         poiId: z.number(),
         accepted: z.boolean(),
-        content: z.string().optional(),
       }))
-      .mutation(async ({ input }) => {
-        await db.updatePOI(input.poiId, {
-          accepted: input.accepted,
-          content: input.content,
-        });
-        return { success: true };
-      }),
-  }),
-
-  // Argument analysis and mindmap
-  analysis: router({
-    generateMindmap: protectedProcedure
-      .input(z.object({ roomId: z.number() }))
-      .mutation(async ({ input }) => {
-        const speeches = await db.getRoomSpeeches(input.roomId);
-        const room = await db.getDebateRoomById(input.roomId);
-        const motion = room?.motionId ? await db.getMotionById(room.motionId) : null;
+      .mutation(async ({ ctx, input }) => {
+        const poi = await db.getPOIById(input.poiId);
+        if (!poi) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "POI not found" });
+        }
+        const [speech, participant, room] = await Promise.all([
+          db.getSpeechById(poi.speechId),
+          db.getParticipantWithUser(poi.roomId, ctx.user.id),
+          db.getDebateRoomById(poi.roomId),
+        ]);
+        if (!speech || !participant || speech.participantId !== participant.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Only the speaker holding the floor can respond to a point of information" });
+        }
+        if (poi.status !== "offered") {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "This point of information has already been answered" });
+        }
+        if (room?.currentSpeechId !== poi.speechId) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "This speech is over" });
+        }
         
-        if (speeches.length === 0) {
-          throw new TRPCError({ code: "BAD_REQUEST", message: "No speeches to analyze" });
+        const format = await getRoomFormat(room);
+        const others = (await db.getSpeechPOIs(poi.speechId)).filter(p => p.id !== poi.id);
+        if (input.accepted && others.some(p => getPOIRemaining(p, format.poi) > 0)) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "You are already taking a point of information" });
         }
         
-        const transcripts = speeches
-          .filter(s => s.transcript)
-          .map(s => `[${s.speakerRole}]: ${s.transcript}`)
-          .join("\n\n");
+        const respondedAt = new Date();
+        const status = input.accepted ? "accepted" : "declined";
+        await db.updatePOI(poi.id, { status, accepted: input.accepted, respondedAt });
+        publishRoomEvent(poi.roomId, { type: "poi", poiId: poi.id, speechId: poi.speechId, status });
         
-        const response = await invokeLLM({
-          messages: [
-            {
-              role: "system",
-              content: `You are an expert debate analyst. Analyze the debate transcript and extract key arguments, rebuttals, and their relationships.
-
-For each argument or rebuttal, provide:
-- team: "government" or "opposition"
-- nodeType: "argument", "rebuttal", "extension", or "summary"
-- content: A concise summary of the point (1-2 sentences)
-- transcriptSegment: The relevant quote from the transcript
-- qualityScore: 1-10 rating of argument quality
-- qualityExplanation: Brief explanation of the score
-- wasAnswered: Whether this point was addressed by the opposing team
-- parentContent: If this is a rebuttal, the content of the argument it responds to (null otherwise)
-
-Return a JSON object with an "arguments" array containing these nodes.`
-            },
-            {
-              role: "user",
-              content: `Motion: ${motion?.motion || "Unknown"}\n\nTranscript:\n${transcripts}`
-            }
-          ],
-          response_format: {
-            type: "json_schema",
-            json_schema: {
-              name: "argument_analysis",
-              strict: true,
-              schema: {
-                type: "object",
-                properties: {
-                  arguments: {
-                    type: "array",
-                    items: {
-                      type: "object",
-                      properties: {
-                        team: { type: "string", enum: ["government", "opposition"] },
-                        nodeType: { type: "string", enum: ["argument", "rebuttal", "extension", "summary"] },
-                        content: { type: "string" },
-                        transcriptSegment: { type: "string" },
-                        qualityScore: { type: "integer" },
-                        qualityExplanation: { type: "string" },
-                        wasAnswered: { type: "boolean" },
-                        parentContent: { type: ["string", "null"] }
-                      },
-                      required: ["team", "nodeType", "content", "transcriptSegment", "qualityScore", "qualityExplanation", "wasAnswered", "parentContent"],
-                      additionalProperties: false
-                    }
-                  }
-                },
-                required: ["arguments"],
-                additionalProperties: false
-              }
-            }
+        // Taking one point sits everyone else down
+        if (input.accepted) {
+          for (const other of others.filter(p => p.status === "offered")) {
+            await db.updatePOI(other.id, { status: "declined", respondedAt });
+            publishRoomEvent(poi.roomId, { type: "poi", poiId: other.id, speechId: poi.speechId, status: "declined" });
           }
-        });
+        }
         
-        const content = response.choices[0]?.message?.content;
-        if (!content || typeof content !== 'string') {
-          throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Failed to analyze debate" });
+        return {
+          status,
+          endsAt: input.accepted ? new Date(respondedAt.getTime() + format.poi.maxDuration * 1000) : null,
+        };
+      }),
+
+    // Close an accepted POI before its time runs out (the speaker takes the floor back)
+    end: protectedProcedure
+      .input(z.object({ poiId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const poi = await db.getPOIById(input.poiId);
+        if (!poi) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "POI not found" });
+        }
+        const [speech, participant] = await Promise.all([
+          db.getSpeechById(poi.speechId),
+          db.getParticipantWithUser(poi.roomId, ctx.user.id),
+        ]);
+        if (!participant || (participant.id !== speech?.participantId && participant.id !== poi.offeredById)) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Only the speaker or the member making the point can end it" });
+        }
+        if (poi.status !== "accepted") {
+          return { success: true };
         }
         
-        const analysisData = JSON.parse(content);
+        const format = await getRoomFormat(await db.getDebateRoomById(poi.roomId));
+        const cap = new Date(poi.respondedAt!.getTime() + format.poi.maxDuration * 1000);
+        const endedAt = new Date(Math.min(Date.now(), cap.getTime()));
+        await db.updatePOI(poi.id, { status: "ended", endedAt });
+        publishRoomEvent(poi.roomId, { type: "poi", poiId: poi.id, speechId: poi.speechId, status: "ended" });
+        return { success: true };
+      }),
+
+    // The member who made the point sends its audio; it becomes its own transcript segment
+    transcribe: protectedProcedure
+      .input(z.object({
+        poiId: z.number(),
+        audioData: z.string(), // Base64 encoded audio
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const poi = await db.getPOIById(input.poiId);
+        if (!poi) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "POI not found" });
+        }
+        const participant = await db.getParticipantWithUser(poi.roomId, ctx.user.id);
+        if (!participant || participant.id !== poi.offeredById) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Only the member who made the point can send its audio" });
+        }
+        if (poi.status !== "accepted" && poi.status !== "ended") {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Only accepted points of information are transcribed" });
+        }
         
-        // Store argument nodes
-        const nodeIds: number[] = [];
-        const nodeMap = new Map<string, number>();
+        const audioBuffer = Buffer.from(input.audioData, 'base64');
+        if (audioBuffer.length < 1000) {
+          return { transcript: '' };
+        }
         
-        for (const arg of analysisData.arguments) {
-          const parentId = arg.parentContent ? nodeMap.get(arg.parentContent) : null;
-          
-          const nodeId = await db.createArgumentNode({
-            roomId: input.roomId,
-            team: arg.team,
-            nodeType: arg.nodeType,
-            content: arg.content,
-            transcriptSegment: arg.transcriptSegment,
-            qualityScore: arg.qualityScore,
-            qualityExplanation: arg.qualityExplanation,
-            wasAnswered: arg.wasAnswered,
-            parentId: parentId || undefined,
-          });
-          
-          nodeIds.push(nodeId);
-          nodeMap.set(arg.content, nodeId);
+        const room = await db.getDebateRoomById(poi.roomId);
+        const result = await transcribeForRoom(room, {
+          audioBuffer,
+          mimeType: 'audio/webm',
+          prompt: await getTranscriptionPrompt(room, "poi"),
+        });
+        if ('error' in result) {
+          console.error('[Transcription] POI error:', result.error, result.details);
+          return { transcript: '' };
         }
         
-        return { success: true, nodeCount: nodeIds.length };
+        await db.updatePOI(poi.id, { content: result.text });
+        
+        const latestSeq = await db.getLatestTranscriptSequence(poi.roomId);
+        const segment = {
+          roomId: poi.roomId,
+          speechId: poi.speechId,
+          speakerRole: participant.speakerRole ?? participant.team ?? "poi",
+          speakerName: ctx.user.name ?? null,
+          poiId: poi.id,
+          text: result.text,
+          timestamp: poi.timestamp ?? 0,
+          timings: toSpeechTimings(result, poi.timestamp ?? 0),
+          sequenceNumber: latestSeq + 1,
+        };
+        const segmentId = await db.createTranscriptSegment(segment);
+        publishRoomEvent(poi.roomId, {
+          type: "transcript",
+          segment: { ...segment, id: segmentId, originalText: null, editedAt: null, createdAt: new Date() },
+        });
+        
+        return { transcript: result.text };
+      }),
+  }),
+
+  // Private notes for anyone in the room (adjudicators, coaches, spectators, debaters)
+  notes: router({
+    list: protectedProcedure
+      .input(z.object({ roomId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        return await db.getRoomNotesForUser(input.roomId, ctx.user.id);
+      }),
+    
+    add: protectedProcedure
+      .input(z.object({
+        roomId: z.number(),
+        content: z.string().trim().min(1).max(2000),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const participant = await db.getParticipantWithUser(input.roomId, ctx.user.id);
+        if (!participant) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "You are not in this room" });
+        }
+        const room = await db.getDebateRoomById(input.roomId);
+        const noteId = await db.createRoomNote({
+          roomId: input.roomId,
+          userId: ctx.user.id,
+          speechId: room?.currentSpeechId ?? null,
+          content: input.content,
+        });
+        return { noteId };
+      }),
+    
+    delete: protectedProcedure
+      .input(z.object({ noteId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        await db.deleteRoomNote(input.noteId, ctx.user.id);
+        return { success: true };
+      }),
+  }),
+
+  // WebRTC audio signaling. Peers connect directly (mesh); the server only
+  // relays offers, answers and ICE candidates between room participants.
+  rtc: router({
+    iceServers: protectedProcedure.query(() => {
+      const iceServers: { urls: string; username?: string; credential?: string }[] = [];
+      if (ENV.stunUrl) iceServers.push({ urls: ENV.stunUrl });
+      if (ENV.turnUrl) {
+        iceServers.push({ urls: ENV.turnUrl, username: ENV.turnUsername, credential: ENV.turnCredential });
+      }
+      return iceServers;
+    }),
+    
+    signals: protectedProcedure
+      .input(z.object({ roomId: z.number() }))
+      .subscription(async function* ({ ctx, input, signal }) {
+        const participant = await db.getParticipantWithUser(input.roomId, ctx.user.id);
+        if (!participant) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "You are not in this room" });
+        }
+        yield* joinRoomAudio(input.roomId, ctx.user.id, signal);
+      }),
+    
+    signal: protectedProcedure
+      .input(z.object({
+        roomId: z.number(),
+        to: z.number(),
+        description: z.object({
+          type: z.enum(["offer", "answer", "pranswer", "rollback"]),
+          sdp: z.string().optional(),
+        }).optional(),
+        candidate: z.object({
+          candidate: z.string().optional(),
+          sdpMid: z.string().nullish(),
+          sdpMLineIndex: z.number().nullish(),
+          usernameFragment: z.string().nullish(),
+        }).optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        if (!input.description && !input.candidate) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Nothing to send" });
+        }
+        const participant = await db.getParticipantWithUser(input.roomId, ctx.user.id);
+        if (!participant) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "You are not in this room" });
+        }
+        const delivered = sendSignal(input.roomId, ctx.user.id, input.to, {
+          description: input.description,
+          candidate: input.candidate,
+        });
+        return { delivered };
+      }),
+    
+    setMuted: protectedProcedure
+      .input(z.object({ roomId: z.number(), muted: z.boolean() }))
+      .mutation(({ ctx, input }) => {
+        if (!setPeerMuted(input.roomId, ctx.user.id, input.muted)) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "You are not connected to room audio" });
+        }
+        return { success: true };
+      }),
+  }),
+
+  // Argument analysis and mindmap
+  analysis: router({
+    // Queued rather than run here; the room hears how the job is getting on
+    generateMindmap: protectedProcedure
+      .input(z.object({ roomId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const room = await db.getDebateRoomById(input.roomId);
+        if (!room) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Room not found" });
+        }
+        return await enqueueAnalysisJob({ roomId: room.id, kind: "mindmap", requestedById: ctx.user.id });
+      }),
+    
+    // The latest map and feedback jobs, for showing their progress
+    jobs: protectedProcedure
+      .input(z.object({ roomId: z.number() }))
+      .query(async ({ input }) => {
+        return await getRoomAnalysisJobs(input.roomId);
       }),
     
     getArgumentNodes: protectedProcedure
@@ -718,86 +1841,123 @@ Return a JSON object with an "arguments" array containing these nodes.`
   feedback: router({
     generate: protectedProcedure
       .input(z.object({ roomId: z.number() }))
-      .mutation(async ({ input }) => {
-        const speeches = await db.getRoomSpeeches(input.roomId);
+      .mutation(async ({ ctx, input }) => {
         const room = await db.getDebateRoomById(input.roomId);
-        const motion = room?.motionId ? await db.getMotionById(room.motionId) : null;
-        const participants = await db.getRoomParticipants(input.roomId);
-        const argumentNodes = await db.getRoomArgumentNodes(input.roomId);
-        
-        const transcripts = speeches
-          .filter(s => s.transcript)
-          .map(s => `[${s.speakerRole}]: ${s.transcript}`)
-          .join("\n\n");
+        if (!room) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Room not found" });
+        }
+        return await enqueueAnalysisJob({ roomId: room.id, kind: "feedback", requestedById: ctx.user.id });
+      }),
+    
+    get: protectedProcedure
+      .input(z.object({ roomId: z.number() }))
+      .query(async ({ input }) => {
+        return await db.getRoomFeedback(input.roomId);
+      }),
+  }),
+
+  // Team-private prep boards with an AI case-building assistant
+  prep: router({
+    notes: protectedProcedure
+      .input(z.object({ roomId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const team = await getPrepTeam(input.roomId, ctx.user.id);
+        return await db.getTeamPrepNotes(input.roomId, team);
+      }),
+    
+    addNote: protectedProcedure
+      .input(z.object({
+        roomId: z.number(),
+        content: z.string().trim().min(1).max(2000),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const team = await getPrepTeam(input.roomId, ctx.user.id);
+        const noteId = await db.createPrepNote({
+          roomId: input.roomId,
+          team,
+          userId: ctx.user.id,
+          source: "member",
+          content: input.content,
+        });
+        publishRoomEvent(input.roomId, { type: "prep", team });
+        return { noteId };
+      }),
+    
+    deleteNote: protectedProcedure
+      .input(z.object({ roomId: z.number(), noteId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const team = await getPrepTeam(input.roomId, ctx.user.id);
+        await db.deletePrepNote(input.noteId, input.roomId, team);
+        publishRoomEvent(input.roomId, { type: "prep", team });
+        return { success: true };
+      }),
+    
+    // Suggest arguments for the team's side and how the other side will answer them
+    assist: protectedProcedure
+      .input(z.object({
+        roomId: z.number(),
+        focus: z.string().trim().max(500).optional(), // e.g. "mechanism" or "economic harms"
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const team = await getPrepTeam(input.roomId, ctx.user.id);
+        const room = await db.getDebateRoomById(input.roomId);
+        if (!room) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Room not found" });
+        }
+        const motion = room.motionId ? await db.getMotionById(room.motionId) : null;
+        if (!motion) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "A motion must be set before prep" });
+        }
+        const format = await getRoomFormat(room);
+        const teamDef = format.teams.find(t => t.id === team);
+        const existing = await db.getTeamPrepNotes(room.id, team);
         
         const response = await invokeLLM({
+          task: "prep",
           messages: [
             {
               role: "system",
-              content: `You are an expert debate coach providing detailed feedback after a competitive debate. Analyze the debate and provide:
-
-1. Overall analysis including the likely winner and why
-2. Team-level feedback for both Government and Opposition
-3. Individual feedback for each speaker
-
-For each piece of feedback, identify:
-- Strongest arguments made
-- Missed opportunities to respond
-- Specific suggestions for improvement
-
-Return a JSON object with:
-- overallAnalysis: String with debate summary
-- suggestedWinner: "government" or "opposition"
-- winningReason: Why this team won
-- teamFeedback: Array with feedback for each team
-- individualFeedback: Array with feedback for each speaker role`
+              content: `You are an experienced ${format.name} coach helping ${teamDef?.label ?? team} (${teamDef?.side === "proposition" ? "for" : "against"} the motion) build their case during prep. Suggest the strongest arguments for their side and the responses the other side is most likely to run against them, each with a short rebuttal. Build on the team's notes rather than repeating them.${languageInstruction(getRoomLanguage(room))}`
             },
             {
               role: "user",
-              content: `Motion: ${motion?.motion || "Unknown"}\n\nTranscript:\n${transcripts}\n\nArgument Analysis:\n${JSON.stringify(argumentNodes.slice(0, 20))}`
+              content: `Motion: ${motion.motion}\n${motion.backgroundContext ? `Context: ${motion.backgroundContext}\n` : ""}${input.focus ? `Focus on: ${input.focus}\n` : ""}\nTeam notes so far:\n${existing.map(n => `- ${n.content}`).join("\n") || "(none)"}`
             }
           ],
           response_format: {
             type: "json_schema",
             json_schema: {
-              name: "debate_feedback",
+              name: "prep_suggestions",
               strict: true,
               schema: {
                 type: "object",
                 properties: {
-                  overallAnalysis: { type: "string" },
-                  suggestedWinner: { type: "string", enum: ["government", "opposition"] },
-                  winningReason: { type: "string" },
-                  teamFeedback: {
+                  arguments: {
                     type: "array",
                     items: {
                       type: "object",
                       properties: {
-                        team: { type: "string", enum: ["government", "opposition"] },
-                        strongestArguments: { type: "array", items: { type: "string" } },
-                        missedResponses: { type: "array", items: { type: "string" } },
-                        improvements: { type: "array", items: { type: "string" } }
+                        title: { type: "string" },
+                        explanation: { type: "string" },
                       },
-                      required: ["team", "strongestArguments", "missedResponses", "improvements"],
+                      required: ["title", "explanation"],
                       additionalProperties: false
                     }
                   },
-                  individualFeedback: {
+                  oppositionResponses: {
                     type: "array",
                     items: {
                       type: "object",
                       properties: {
-                        speakerRole: { type: "string" },
-                        strongestArguments: { type: "array", items: { type: "string" } },
-                        missedResponses: { type: "array", items: { type: "string" } },
-                        improvements: { type: "array", items: { type: "string" } }
+                        response: { type: "string" },
+                        rebuttal: { type: "string" },
                       },
-                      required: ["speakerRole", "strongestArguments", "missedResponses", "improvements"],
+                      required: ["response", "rebuttal"],
                       additionalProperties: false
                     }
                   }
                 },
-                required: ["overallAnalysis", "suggestedWinner", "winningReason", "teamFeedback", "individualFeedback"],
+                required: ["arguments", "oppositionResponses"],
                 additionalProperties: false
               }
             }
@@ -806,62 +1966,230 @@ Return a JSON object with:
         
         const content = response.choices[0]?.message?.content;
         if (!content || typeof content !== 'string') {
-          throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Failed to generate feedback" });
+          throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Failed to generate prep suggestions" });
         }
+        const suggestions = JSON.parse(content) as {
+          arguments: Array<{ title: string; explanation: string }>;
+          oppositionResponses: Array<{ response: string; rebuttal: string }>;
+        };
         
-        const feedbackData = JSON.parse(content);
-        
-        // Store overall feedback
-        await db.createFeedback({
-          roomId: input.roomId,
-          feedbackType: "overall",
-          overallAnalysis: feedbackData.overallAnalysis,
-          suggestedWinner: feedbackData.suggestedWinner,
-          winningReason: feedbackData.winningReason,
+        // Kept on the board as a single note so the team can work from it like any other
+        const noteId = await db.createPrepNote({
+          roomId: room.id,
+          team,
+          userId: ctx.user.id,
+          source: "ai",
+          content: [
+            "Arguments:",
+            ...suggestions.arguments.map(a => `- ${a.title}: ${a.explanation}`),
+            "",
+            "Likely responses:",
+            ...suggestions.oppositionResponses.map(r => `- ${r.response} → ${r.rebuttal}`),
+          ].join("\n"),
         });
+        publishRoomEvent(room.id, { type: "prep", team });
+        return { noteId, ...suggestions };
+      }),
+    
+    // Every team's prep, opened up once the round is over
+    review: protectedProcedure
+      .input(z.object({ roomId: z.number() }))
+      .query(async ({ input }) => {
+        const room = await db.getDebateRoomById(input.roomId);
+        if (!room) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Room not found" });
+        }
+        if (room.status !== "completed") {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Prep notes are shared once the debate is over" });
+        }
+        return await db.getRoomPrepNotes(room.id);
+      }),
+  }),
+
+  // Human adjudicator ballots, aggregated into a panel decision
+  ballot: router({
+    submit: protectedProcedure
+      .input(z.object({
+        roomId: z.number(),
+        winner: z.string(),
+        teamRanking: z.array(z.string()).optional(), // required for ranking formats
+        speakerPoints: z.record(z.string(), z.number()),
+        margin: z.enum(["close", "clear", "decisive"]),
+        reasonForDecision: z.string().trim().min(1).max(5000),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const participant = await db.getParticipantWithUser(input.roomId, ctx.user.id);
+        if (participant?.role !== "adjudicator") {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Only adjudicators can submit ballots" });
+        }
+        const room = await db.getDebateRoomById(input.roomId);
+        if (!room) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Room not found" });
+        }
+        if (room.status === "waiting") {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "The debate has not started yet" });
+        }
         
-        // Store team feedback
-        for (const teamFb of feedbackData.teamFeedback) {
-          await db.createFeedback({
-            roomId: input.roomId,
-            feedbackType: "team",
-            team: teamFb.team,
-            strongestArguments: teamFb.strongestArguments,
-            missedResponses: teamFb.missedResponses,
-            improvements: teamFb.improvements,
-          });
+        const format = await getRoomFormat(room);
+        const teamIds = format.teams.map(t => t.id);
+        let winner = input.winner;
+        let teamRanking: string[] | null = null;
+        if (format.resultType === "ranking") {
+          const ranking = input.teamRanking ?? [];
+          if (ranking.length !== teamIds.length || !teamIds.every(t => ranking.includes(t))) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: `Rank all ${teamIds.length} teams from 1st to last` });
+          }
+          teamRanking = ranking;
+          winner = ranking[0];
+        } else if (!teamIds.includes(winner)) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: `Invalid team for ${format.name}` });
         }
         
-        // Store individual feedback
-        for (const indFb of feedbackData.individualFeedback) {
-          const participant = participants.find(p => p.speakerRole === indFb.speakerRole);
-          if (participant) {
-            await db.createFeedback({
-              roomId: input.roomId,
-              feedbackType: "individual",
-              participantId: participant.id,
-              strongestArguments: indFb.strongestArguments,
-              missedResponses: indFb.missedResponses,
-              improvements: indFb.improvements,
+        // Every speech that was given gets points within the format's scale
+        const participants = await db.getRoomParticipants(room.id);
+        const slots = getActiveSpeakingOrder(
+          format,
+          getSpeakingRoles(format, participants.map(p => p.speakerRole), room.aiOpponent)
+        );
+        for (const slot of slots) {
+          const points = input.speakerPoints[slot.role];
+          const { min, max } = getSpeakerPointRange(format, slot);
+          if (points === undefined || points < min || points > max) {
+            throw new TRPCError({
+              code: "BAD_REQUEST",
+              message: `${slot.label} needs speaker points between ${min} and ${max}`,
             });
           }
         }
+        const speakerPoints = Object.fromEntries(slots.map(slot => [slot.role, input.speakerPoints[slot.role]]));
+        
+        const ballotId = await db.upsertAdjudicatorBallot({
+          roomId: room.id,
+          participantId: participant.id,
+          winner,
+          teamRanking,
+          speakerPoints,
+          margin: input.margin,
+          reasonForDecision: input.reasonForDecision,
+        });
+        publishRoomEvent(room.id, { type: "room" });
+        return { ballotId };
+      }),
+    
+    list: protectedProcedure
+      .input(z.object({ roomId: z.number() }))
+      .query(async ({ input }) => {
+        const room = await db.getDebateRoomById(input.roomId);
+        if (!room) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Room not found" });
+        }
+        const format = await getRoomFormat(room);
+        const [ballots, participants, feedback] = await Promise.all([
+          db.getRoomBallots(room.id),
+          db.getRoomParticipants(room.id),
+          db.getRoomFeedback(room.id),
+        ]);
         
-        // Update room phase
-        await db.updateDebateRoom(input.roomId, { currentPhase: "completed" });
+        const ballotsWithAdjudicators = await Promise.all(ballots.map(async (ballot) => {
+          const adjudicator = participants.find(p => p.id === ballot.participantId);
+          const user = adjudicator ? await db.getUserById(adjudicator.userId) : undefined;
+          return {
+            ...ballot,
+            adjudicatorName: user?.name ?? "Adjudicator",
+            adjudicatorPosition: adjudicator?.adjudicatorPosition ?? null,
+          };
+        }));
+        
+        const decision = getPanelDecision(format, ballotsWithAdjudicators);
+        const overall = feedback.find(f => f.feedbackType === "overall");
+        const aiDisagreements = decision && overall
+          ? comparePanelWithAI(format, decision, overall)
+          : [];
+        
+        const aiVerdict = overall
+          ? { suggestedWinner: overall.suggestedWinner, teamRankings: overall.teamRankings }
+          : null;
+        
+        return { ballots: ballotsWithAdjudicators, decision, aiVerdict, aiDisagreements };
+      }),
+  }),
+
+  // Rubric-based AI scoring of individual speeches
+  scoring: router({
+    generate: protectedProcedure
+      .input(z.object({
+        roomId: z.number(),
+        weights: z.object({
+          matter: z.number().min(0).max(100),
+          manner: z.number().min(0).max(100),
+          method: z.number().min(0).max(100),
+          role_fulfilment: z.number().min(0).max(100),
+        }).optional(),
+      }))
+      .mutation(async ({ input }) => {
+        const room = await db.getDebateRoomById(input.roomId);
+        if (!room) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Room not found" });
+        }
+        const weights = input.weights ?? DEFAULT_RUBRIC_WEIGHTS;
+        if (!RUBRIC_CRITERIA.some(c => weights[c.id] > 0)) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "At least one criterion needs a weight above zero" });
+        }
         
-        // Increment debate count for all participants
-        for (const p of participants) {
-          await db.incrementUserDebates(p.userId);
+        const format = await getRoomFormat(room);
+        const motion = room.motionId ? await db.getMotionById(room.motionId) : null;
+        const speeches = await db.getRoomSpeeches(room.id);
+        if (!speeches.some(s => s.transcript)) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "No transcribed speeches to score" });
         }
         
-        return feedbackData;
+        try {
+          const scores = await scoreRoomSpeeches({ roomId: room.id, format, motion, speeches, weights, language: getRoomLanguage(room) });
+          return { scored: scores.length };
+        } catch (error) {
+          console.error("[Scoring] Failed to score speeches:", error);
+          throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Failed to score speeches" });
+        }
       }),
     
     get: protectedProcedure
       .input(z.object({ roomId: z.number() }))
       .query(async ({ input }) => {
-        return await db.getRoomFeedback(input.roomId);
+        return await db.getRoomSpeechScores(input.roomId);
+      }),
+    
+    myHistory: protectedProcedure
+      .query(async ({ ctx }) => {
+        return await db.getUserSpeechScores(ctx.user.id);
+      }),
+  }),
+
+  // Delivery analytics: pace, fillers, pauses, time used and repetition per speech
+  delivery: router({
+    analyze: protectedProcedure
+      .input(z.object({ roomId: z.number() }))
+      .mutation(async ({ input }) => {
+        const room = await db.getDebateRoomById(input.roomId);
+        if (!room) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Room not found" });
+        }
+        const speeches = await db.getRoomSpeeches(room.id);
+        const rows = await analyzeRoomDelivery({ roomId: room.id, format: await getRoomFormat(room), speeches });
+        if (rows.length === 0) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "No transcribed speeches to analyse" });
+        }
+        return { analyzed: rows.length };
+      }),
+    
+    get: protectedProcedure
+      .input(z.object({ roomId: z.number() }))
+      .query(async ({ input }) => {
+        return await db.getRoomSpeechDelivery(input.roomId);
+      }),
+    
+    myHistory: protectedProcedure
+      .query(async ({ ctx }) => {
+        return await db.getUserSpeechDelivery(ctx.user.id);
       }),
   }),
 
@@ -871,7 +2199,7 @@ Return a JSON object with:
       .input(z.object({
         roomId: z.number(),
         speechId: z.number().optional(),
-        violationType: z.enum(["time_exceeded", "new_argument_in_reply", "poi_outside_window", "speaking_out_of_turn"]),
+        violationType: z.enum(RULE_VIOLATION_TYPE_IDS),
         description: z.string().optional(),
         timestamp: z.number().optional(),
       }))
@@ -881,7 +2209,7 @@ Return a JSON object with:
           throw new TRPCError({ code: "NOT_FOUND", message: "You are not in this room" });
         }
         
-        await db.createRuleViolation({
+        await recordViolation({
           roomId: input.roomId,
           speechId: input.speechId,
           participantId: participant.id,
@@ -902,10 +2230,18 @@ Return a JSON object with:
 
   // Constants for frontend
   constants: router({
-    getDebateFormat: publicProcedure.query(() => ASIAN_PARLIAMENTARY_FORMAT),
+    getDebateFormat: publicProcedure
+      .input(z.object({ formatId: z.string().optional() }).optional())
+      .query(({ input }) => getDebateFormat(input?.formatId)),
+    getDebateFormats: publicProcedure.query(() => Object.values(DEBATE_FORMATS)),
     getTopicAreas: publicProcedure.query(() => TOPIC_AREAS),
     getDifficultyLevels: publicProcedure.query(() => DIFFICULTY_LEVELS),
     getExperienceLevels: publicProcedure.query(() => EXPERIENCE_LEVELS),
+    // What rooms get when they don't choose a transcription provider or language
+    getTranscriptionDefaults: publicProcedure.query(() => ({
+      provider: getDefaultTranscriptionProvider(),
+      language: ENV.transcriptionLanguage || "en",
+    })),
   }),
 });
 
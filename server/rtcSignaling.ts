@@ -0,0 +1,107 @@
+import { EventEmitter, on } from "events";
+
+// WebRTC signaling relay for room audio. Peers find each other through
+// presence (who has the audio stream open) and exchange SDP offers/answers
+// and ICE candidates addressed to a single user. Media never touches the
+// server; clients connect to each other directly.
+
+export type SessionDescription = { type: "offer" | "answer" | "pranswer" | "rollback"; sdp?: string };
+export type IceCandidate = {
+  candidate?: string;
+  sdpMid?: string | null;
+  sdpMLineIndex?: number | null;
+  usernameFragment?: string | null;
+};
+
+export type AudioPeer = { userId: number; muted: boolean };
+
+export type SignalEvent =
+  | { type: "peers"; peers: AudioPeer[] } // sent once on connect
+  | { type: "peer_joined"; peer: AudioPeer }
+  | { type: "peer_left"; userId: number }
+  | { type: "muted"; userId: number; muted: boolean }
+  | { type: "signal"; from: number; description?: SessionDescription; candidate?: IceCandidate };
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+// roomId -> userId -> peer state, for users currently connected to room audio
+const presence = new Map<number, Map<number, AudioPeer>>();
+
+const roomChannel = (roomId: number) => `audio:${roomId}`;
+const userChannel = (roomId: number, userId: number) => `audio:${roomId}:${userId}`;
+
+function getRoomPeers(roomId: number) {
+  let peers = presence.get(roomId);
+  if (!peers) {
+    peers = new Map();
+    presence.set(roomId, peers);
+  }
+  return peers;
+}
+
+// Broadcast to everyone in the room's audio except the sender
+function broadcast(roomId: number, from: number, event: SignalEvent) {
+  emitter.emit(roomChannel(roomId), { from, event });
+}
+
+export function sendSignal(
+  roomId: number,
+  from: number,
+  to: number,
+  payload: { description?: SessionDescription; candidate?: IceCandidate }
+) {
+  if (!getRoomPeers(roomId).has(to)) return false;
+  emitter.emit(userChannel(roomId, to), { type: "signal", from, ...payload } satisfies SignalEvent);
+  return true;
+}
+
+export function setPeerMuted(roomId: number, userId: number, muted: boolean) {
+  const peer = getRoomPeers(roomId).get(userId);
+  if (!peer) return false;
+  peer.muted = muted;
+  broadcast(roomId, userId, { type: "muted", userId, muted });
+  return true;
+}
+
+/**
+ * Join a room's audio mesh. Yields the current peer list, then presence
+ * changes and signals addressed to this user until the signal aborts, at
+ * which point the user is removed and the others are told.
+ */
+export async function* joinRoomAudio(roomId: number, userId: number, signal?: AbortSignal): AsyncGenerator<SignalEvent> {
+  const peers = getRoomPeers(roomId);
+  // A second tab for the same user replaces the first
+  const self: AudioPeer = { userId, muted: false };
+  const others = Array.from(peers.values()).filter(p => p.userId !== userId);
+  peers.set(userId, self);
+
+  // Start listening before announcing so no reply is missed
+  const merged = new EventEmitter();
+  const onRoom = ({ from, event }: { from: number; event: SignalEvent }) => {
+    if (from !== userId) merged.emit("event", event);
+  };
+  const onDirect = (event: SignalEvent) => merged.emit("event", event);
+  emitter.on(roomChannel(roomId), onRoom);
+  emitter.on(userChannel(roomId, userId), onDirect);
+  const events = on(merged, "event", { signal });
+
+  broadcast(roomId, userId, { type: "peer_joined", peer: self });
+
+  try {
+    yield { type: "peers", peers: others };
+    for await (const [event] of events) {
+      yield event as SignalEvent;
+    }
+  } catch (error) {
+    if (!signal?.aborted) throw error;
+  } finally {
+    emitter.off(roomChannel(roomId), onRoom);
+    emitter.off(userChannel(roomId, userId), onDirect);
+    if (peers.get(userId) === self) {
+      peers.delete(userId);
+      if (peers.size === 0) presence.delete(roomId);
+      broadcast(roomId, userId, { type: "peer_left", userId });
+    }
+  }
+}
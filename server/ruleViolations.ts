@@ -0,0 +1,186 @@
+import { invokeLLM } from "./_core/llm";
+import * as db from "./db";
+import { publishRoomEvent } from "./roomEvents";
+import { getRoomLanguage, languageInstruction } from "./roomLanguage";
+import type { DebateSpeech, InsertRuleViolation } from "../drizzle/schema";
+import {
+  formatTime,
+  getPOIWindowOverrun,
+  getRoleLabel,
+  type DebateFormat,
+  type SpeakingSlot,
+} from "@shared/debate";
+
+/**
+ * Store a violation and push it to everyone in the room.
+ */
+export async function recordViolation(violation: InsertRuleViolation) {
+  const id = await db.createRuleViolation(violation);
+  publishRoomEvent(violation.roomId, {
+    type: "violation",
+    violation: {
+      ...violation,
+      id,
+      speechId: violation.speechId ?? null,
+      description: violation.description ?? null,
+      timestamp: violation.timestamp ?? null,
+      createdAt: new Date(),
+    },
+  });
+  return id;
+}
+
+/**
+ * Flag every point of information in a finished speech that was offered in
+ * protected time or was still being made once protected time began. The
+ * member who offered the point is the one flagged.
+ */
+export async function detectPOIWindowViolations(speech: DebateSpeech, format: DebateFormat, slot: SpeakingSlot) {
+  const pois = await db.getSpeechPOIs(speech.id);
+  let flagged = 0;
+  for (const poi of pois) {
+    const overrun = getPOIWindowOverrun(poi, slot, format.poi);
+    if (overrun === null) continue;
+    await recordViolation({
+      roomId: speech.roomId,
+      speechId: speech.id,
+      participantId: poi.offeredById,
+      violationType: "poi_outside_window",
+      description: poi.timestamp === overrun
+        ? `Point of information offered at ${formatTime(overrun)}, inside protected time`
+        : `Point of information ran to ${formatTime(overrun)}, into protected time`,
+      timestamp: overrun,
+    });
+    flagged++;
+  }
+  return flagged;
+}
+
+/**
+ * Ask whether a reply speech brought in arguments its side never made
+ * earlier in the round. Compares against the room's argument nodes when the
+ * round has been mapped, otherwise against the earlier speeches themselves.
+ * Returns the new arguments found (empty when the reply stayed in bounds).
+ */
+export async function findNewArgumentsInReply({
+  format,
+  motion,
+  reply,
+  slot,
+  earlierSpeeches,
+  argumentNodes,
+  language,
+}: {
+  format: DebateFormat;
+  motion: string | null | undefined;
+  reply: string;
+  slot: SpeakingSlot;
+  earlierSpeeches: Array<{ speakerRole: string; transcript: string | null }>;
+  argumentNodes: Array<{ team: string; nodeType: string; content: string }>;
+  language?: string;
+}): Promise<string[]> {
+  const earlier = argumentNodes.length > 0
+    ? `Arguments made earlier in the round:\n${argumentNodes.map(n => `- [${n.team}, ${n.nodeType}] ${n.content}`).join("\n")}`
+    : `Earlier speeches:\n${earlierSpeeches
+      .filter(s => s.transcript)
+      .map(s => `[${getRoleLabel(format, s.speakerRole)}]: ${s.transcript}`)
+      .join("\n\n")}`;
+
+  const response = await invokeLLM({
+    task: "rules",
+    messages: [
+      {
+        role: "system",
+        content: `You are a ${format.name} adjudicator checking a reply speech. Reply speeches may summarise, weigh and compare the clashes of the round, and may answer points raised by the other side, but must not introduce new arguments (new mechanisms, impacts or lines of analysis the ${slot.team} side never made before the reply).
+
+List each genuinely new argument in the ${slot.label}, in one sentence each. Rewording, weighing or new examples for an existing argument are not new arguments. Return an empty list if there are none.${languageInstruction(language)}`
+      },
+      {
+        role: "user",
+        content: `Motion: ${motion || "Unknown"}\n\n${earlier}\n\n${slot.label}:\n${reply}`
+      }
+    ],
+    response_format: {
+      type: "json_schema",
+      json_schema: {
+        name: "reply_check",
+        strict: true,
+        schema: {
+          type: "object",
+          properties: {
+            newArguments: { type: "array", items: { type: "string" } },
+          },
+          required: ["newArguments"],
+          additionalProperties: false,
+        },
+      },
+    },
+  });
+
+  const content = response.choices[0]?.message?.content;
+  if (!content || typeof content !== "string") {
+    throw new Error("Failed to check reply speech");
+  }
+  const result = JSON.parse(content) as { newArguments: string[] };
+  return result.newArguments.map(a => a.trim()).filter(Boolean);
+}
+
+/**
+ * Check a finished reply speech for new arguments and flag each one found.
+ */
+export async function detectNewArgumentsInReply(speech: DebateSpeech, format: DebateFormat, slot: SpeakingSlot) {
+  if (!format.replyRules?.noNewArguments || !speech.transcript || speech.participantId === null) return 0;
+  const participantId = speech.participantId;
+
+  const room = await db.getDebateRoomById(speech.roomId);
+  const [speeches, argumentNodes, motion] = await Promise.all([
+    db.getRoomSpeeches(speech.roomId),
+    db.getRoomArgumentNodes(speech.roomId),
+    room?.motionId ? db.getMotionById(room.motionId) : undefined,
+  ]);
+
+  const newArguments = await findNewArgumentsInReply({
+    format,
+    motion: motion?.motion,
+    reply: speech.transcript,
+    slot,
+    earlierSpeeches: speeches.filter(s => s.id !== speech.id && s.speechType === "substantive"),
+    argumentNodes,
+    language: getRoomLanguage(room),
+  });
+
+  for (const argument of newArguments) {
+    await recordViolation({
+      roomId: speech.roomId,
+      speechId: speech.id,
+      participantId,
+      violationType: "new_argument_in_reply",
+      description: argument,
+      timestamp: speech.duration,
+    });
+  }
+  return newArguments.length;
+}
+
+/**
+ * Check each of a room's reply speeches for new arguments, unless an earlier
+ * check has already flagged it. Runs with the argument map, once the last
+ * chunk of the last reply has been transcribed and the map can stand for
+ * what each side said.
+ */
+export async function detectRoomReplyViolations(roomId: number, format: DebateFormat) {
+  if (!format.replyRules?.noNewArguments) return 0;
+  const [speeches, violations] = await Promise.all([
+    db.getRoomSpeeches(roomId),
+    db.getRoomViolations(roomId),
+  ]);
+
+  let flagged = 0;
+  for (const speech of speeches) {
+    if (speech.speechType !== "reply") continue;
+    if (violations.some(v => v.speechId === speech.id && v.violationType === "new_argument_in_reply")) continue;
+    const slot = format.speakingOrder.find(s => s.type === "reply" && s.role === speech.speakerRole);
+    if (slot) flagged += await detectNewArgumentsInReply(speech, format, slot);
+  }
+  return flagged;
+}
@@ -0,0 +1,131 @@
+import { invokeLLM } from "./_core/llm";
+import * as db from "./db";
+import { languageInstruction } from "./roomLanguage";
+import type { DebateMotion, DebateSpeech, InsertSpeechScore } from "../drizzle/schema";
+import {
+  rollUpSpeakerPoints,
+  RUBRIC_CRITERIA,
+  RUBRIC_SCORE_MAX,
+  type CriterionScore,
+  type DebateFormat,
+  type RubricWeights,
+} from "@shared/debate";
+
+const criterionSchema = {
+  type: "object",
+  properties: {
+    score: { type: "integer" },
+    justification: { type: "string" },
+  },
+  required: ["score", "justification"],
+  additionalProperties: false,
+};
+
+/**
+ * Score every transcribed speech in a room against the rubric and store the
+ * results, replacing any earlier scores. Speeches without a transcript are
+ * skipped; returns the rows that were stored.
+ */
+export async function scoreRoomSpeeches({
+  roomId,
+  format,
+  motion,
+  speeches,
+  weights,
+  language,
+}: {
+  roomId: number;
+  format: DebateFormat;
+  motion: DebateMotion | null | undefined;
+  speeches: DebateSpeech[];
+  weights: RubricWeights;
+  language?: string;
+}): Promise<InsertSpeechScore[]> {
+  const scored = speeches.filter(s => s.transcript);
+  if (scored.length === 0) return [];
+
+  const rubric = RUBRIC_CRITERIA
+    .map(c => `- ${c.id} (${c.label}, weight ${weights[c.id]}): ${c.description}`)
+    .join("\n");
+  const speechList = scored.map(s => {
+    const slot = format.speakingOrder.find(o => o.role === s.speakerRole);
+    return `[speech ${s.id} | ${slot?.label ?? s.speakerRole}${slot?.type === "reply" ? " (reply)" : ""}]\n${s.transcript}`;
+  }).join("\n\n");
+
+  const response = await invokeLLM({
+    task: "scoring",
+    messages: [
+      {
+        role: "system",
+        content: `You are an experienced ${format.name} adjudicator. Score each speech on this rubric, each criterion as a whole number from 0 to ${RUBRIC_SCORE_MAX}:
+${rubric}
+
+Judge role fulfilment against what that position is expected to do in ${format.name}. Give a one or two sentence justification per criterion that points at something the speaker actually said. Score every speech listed, using its speech id.${languageInstruction(language)}`
+      },
+      {
+        role: "user",
+        content: `Motion: ${motion?.motion || "Unknown"}\n\n${speechList}`
+      }
+    ],
+    response_format: {
+      type: "json_schema",
+      json_schema: {
+        name: "speech_scores",
+        strict: true,
+        schema: {
+          type: "object",
+          properties: {
+            scores: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  speechId: { type: "integer" },
+                  ...Object.fromEntries(RUBRIC_CRITERIA.map(c => [c.id, criterionSchema])),
+                },
+                required: ["speechId", ...RUBRIC_CRITERIA.map(c => c.id)],
+                additionalProperties: false
+              }
+            }
+          },
+          required: ["scores"],
+          additionalProperties: false
+        }
+      }
+    }
+  });
+
+  const content = response.choices[0]?.message?.content;
+  if (!content || typeof content !== "string") {
+    throw new Error("Failed to score speeches");
+  }
+  const result = JSON.parse(content) as {
+    scores: Array<{ speechId: number } & Record<string, { score: number; justification: string }>>;
+  };
+
+  const rows: InsertSpeechScore[] = [];
+  for (const speech of scored) {
+    const entry = result.scores.find(s => s.speechId === speech.id);
+    const slot = format.speakingOrder.find(o => o.role === speech.speakerRole);
+    if (!entry || !slot) continue;
+
+    const criteria: CriterionScore[] = RUBRIC_CRITERIA.map(c => ({
+      criterion: c.id,
+      score: Math.min(RUBRIC_SCORE_MAX, Math.max(0, Math.round(entry[c.id]?.score ?? 0))),
+      weight: weights[c.id],
+      justification: entry[c.id]?.justification ?? "",
+    }));
+
+    rows.push({
+      roomId,
+      speechId: speech.id,
+      participantId: speech.participantId,
+      speakerRole: speech.speakerRole,
+      criteria,
+      speakerPoints: rollUpSpeakerPoints(format, slot, criteria),
+    });
+  }
+
+  await db.replaceRoomSpeechScores(roomId, rows);
+  return rows;
+}
@@ -0,0 +1,71 @@
+import type { WhisperResponse } from "./_core/transcribeBuffer";
+import type { TranscriptSegment } from "../drizzle/schema";
+import type { TranscriptTimings } from "@shared/debate";
+
+// Words compared when finding a quote in the transcript
+const QUOTE_MATCH_WORDS = 5;
+
+const toCentiseconds = (seconds: number) => Math.round(seconds * 100) / 100;
+
+function normalizeWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[.,!?;:"“”‘’()[\]{}…—–\-。，！？、：；]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/**
+ * Phrase and word timings of a transcribed chunk, moved from the chunk's own
+ * clock onto the speech clock. `offset` is where the chunk starts in the speech,
+ * so every chunk is placed by its own start rather than by adding up chunk lengths.
+ */
+export function toSpeechTimings(result: WhisperResponse, offset: number): TranscriptTimings {
+  return {
+    phrases: result.segments
+      .map(s => ({ text: s.text.trim(), start: toCentiseconds(offset + s.start), end: toCentiseconds(offset + s.end) }))
+      .filter(p => p.text),
+    words: (result.words ?? [])
+      .map(w => ({ word: w.word.trim(), start: toCentiseconds(offset + w.start), end: toCentiseconds(offset + w.end) }))
+      .filter(w => w.word),
+  };
+}
+
+/**
+ * Where a quoted passage was said: its speech and the second it starts on the
+ * speech clock. Matched on word timings where the transcriber gave them, which
+ * also finds quotes running across chunks, and on phrase text otherwise.
+ */
+export function locateQuote(
+  quote: string,
+  segments: Pick<TranscriptSegment, "speechId" | "text" | "timestamp" | "timings">[]
+): { speechId: number; timestamp: number } | null {
+  const needle = normalizeWords(quote).slice(0, QUOTE_MATCH_WORDS);
+  if (needle.length === 0) return null;
+  const matchesAt = (tokens: string[], i: number) => needle.every((word, j) => tokens[i + j] === word);
+
+  const words = segments.flatMap(segment =>
+    (segment.timings?.words ?? []).flatMap(w =>
+      normalizeWords(w.word).map(token => ({ token, start: w.start, speechId: segment.speechId }))
+    )
+  );
+  const tokens = words.map(w => w.token);
+  for (let i = 0; i + needle.length <= words.length; i++) {
+    if (matchesAt(tokens, i) && words[i + needle.length - 1].speechId === words[i].speechId) {
+      return { speechId: words[i].speechId, timestamp: Math.floor(words[i].start) };
+    }
+  }
+
+  for (const segment of segments) {
+    const phrases = segment.timings?.phrases.length
+      ? segment.timings.phrases
+      : [{ text: segment.text, start: segment.timestamp }];
+    for (const phrase of phrases) {
+      const phraseTokens = normalizeWords(phrase.text);
+      for (let i = 0; i + needle.length <= phraseTokens.length; i++) {
+        if (matchesAt(phraseTokens, i)) return { speechId: segment.speechId, timestamp: Math.floor(phrase.start) };
+      }
+    }
+  }
+  return null;
+}
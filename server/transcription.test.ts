@@ -107,3 +107,50 @@ describe("transcription endpoint input validation", () => {
     expect(buffer.length).toBeGreaterThan(1000);
   });
 });
+
+describe("transcription providers", () => {
+  it("should use the hosted API by default when it has credentials", async () => {
+    const { getTranscriptionSettings } = await import('./transcription');
+
+    expect(getTranscriptionSettings(null)).toEqual({ provider: 'forge', language: 'en' });
+    expect(getTranscriptionSettings({ transcriptionProvider: 'local', transcriptionLanguage: 'zh' }))
+      .toEqual({ provider: 'local', language: 'zh' });
+  });
+
+  it("should parse whisper.cpp and faster-whisper output into segments", async () => {
+    const { parseWhisperCppOutput, parseFasterWhisperOutput } = await import('./localWhisper');
+
+    const cpp = parseWhisperCppOutput({
+      result: { language: 'en' },
+      transcription: [
+        { offsets: { from: 0, to: 2500 }, text: ' This house' },
+        {
+          offsets: { from: 2500, to: 4000 },
+          text: ' would ban zoos.',
+          tokens: [
+            { text: '[_BEG_]', offsets: { from: 2500, to: 2500 } },
+            { text: ' would', offsets: { from: 2500, to: 2900 } },
+            { text: ' ban', offsets: { from: 2900, to: 3300 } },
+            { text: ' zo', offsets: { from: 3300, to: 3600 } },
+            { text: 'os.', offsets: { from: 3600, to: 4000 } },
+          ],
+        },
+      ],
+    });
+    expect(cpp.text).toBe('This house would ban zoos.');
+    expect(cpp.segments[1]).toMatchObject({ id: 1, start: 2.5, end: 4 });
+    expect(cpp.duration).toBe(4);
+    expect(cpp.words).toEqual([
+      { word: 'would', start: 2.5, end: 2.9 },
+      { word: 'ban', start: 2.9, end: 3.3 },
+      { word: 'zoos.', start: 3.3, end: 4 },
+    ]);
+
+    const faster = parseFasterWhisperOutput({
+      text: ' Thank you, Madam Speaker.',
+      segments: [{ id: 0, start: 0, end: 1.8, text: ' Thank you, Madam Speaker.', avg_logprob: -0.2 }],
+    }, 'en');
+    expect(faster.language).toBe('en');
+    expect(faster.segments[0]).toMatchObject({ start: 0, end: 1.8, avg_logprob: -0.2 });
+  });
+});
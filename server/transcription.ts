@@ -0,0 +1,50 @@
+import { ENV } from "./_core/env";
+import {
+  transcribeBuffer,
+  type TranscribeBufferOptions,
+  type TranscriptionError,
+  type WhisperResponse,
+} from "./_core/transcribeBuffer";
+import { transcribeLocally } from "./localWhisper";
+import { getRoomLanguage } from "./roomLanguage";
+import type { DebateRoom } from "../drizzle/schema";
+import { TRANSCRIPTION_PROVIDER_IDS, type TranscriptionProviderId } from "@shared/debate";
+
+export type TranscriptionProvider = {
+  id: TranscriptionProviderId;
+  transcribe: (options: TranscribeBufferOptions) => Promise<WhisperResponse | TranscriptionError>;
+};
+
+const PROVIDERS: Record<TranscriptionProviderId, TranscriptionProvider> = {
+  forge: { id: "forge", transcribe: transcribeBuffer },
+  local: { id: "local", transcribe: transcribeLocally },
+};
+
+// The deployment's provider: TRANSCRIPTION_PROVIDER if set, otherwise the hosted
+// API when it has credentials and the local backend when it doesn't
+export function getDefaultTranscriptionProvider(): TranscriptionProviderId {
+  const configured = TRANSCRIPTION_PROVIDER_IDS.find(id => id === ENV.transcriptionProvider);
+  if (configured) return configured;
+  return ENV.forgeApiUrl && ENV.forgeApiKey ? "forge" : "local";
+}
+
+// Provider and language for a room, falling back to the deployment defaults
+export function getTranscriptionSettings(
+  room: Pick<DebateRoom, "transcriptionProvider" | "transcriptionLanguage"> | null | undefined
+): { provider: TranscriptionProviderId; language: string } {
+  return {
+    provider: room?.transcriptionProvider ?? getDefaultTranscriptionProvider(),
+    language: getRoomLanguage(room),
+  };
+}
+
+/**
+ * Transcribe audio recorded in a room with the room's provider and language.
+ */
+export async function transcribeForRoom(
+  room: Pick<DebateRoom, "transcriptionProvider" | "transcriptionLanguage"> | null | undefined,
+  options: Omit<TranscribeBufferOptions, "language">
+): Promise<WhisperResponse | TranscriptionError> {
+  const { provider, language } = getTranscriptionSettings(room);
+  return PROVIDERS[provider].transcribe({ ...options, language });
+}
@@ -0,0 +1,69 @@
+import * as db from "./db";
+import type { DebateRoom } from "../drizzle/schema";
+import { DEBATE_GLOSSARY } from "@shared/debate";
+
+// Whisper only reads the last 224 tokens of its prompt; stay well inside that
+const MAX_PROMPT_LENGTH = 800;
+
+export type TranscriptionVocabulary = {
+  motion: string | null;
+  keyStakeholders: string[];
+  names: string[];
+  glossary: string[]; // the club's terms, then the standard jargon
+};
+
+/**
+ * Prompt that biases the transcriber toward the words of this round. Terms are
+ * ranked most specific first (stakeholders, then names, then the glossary) and
+ * the least specific are dropped when the prompt would run too long.
+ */
+export function buildTranscriptionPrompt(vocabulary: TranscriptionVocabulary, kind: "speech" | "poi" = "speech"): string {
+  let prompt = kind === "poi"
+    ? "A point of information offered during a competitive debate speech."
+    : "A competitive debate speech.";
+  if (vocabulary.motion) prompt += ` Motion: ${vocabulary.motion.trim()}`;
+  if (prompt.length > MAX_PROMPT_LENGTH) return prompt.slice(0, MAX_PROMPT_LENGTH);
+
+  const seen = new Set<string>();
+  const terms = [...vocabulary.keyStakeholders, ...vocabulary.names, ...vocabulary.glossary]
+    .map(term => term.trim())
+    .filter(term => {
+      const key = term.toLowerCase();
+      if (!term || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+  const kept: string[] = [];
+  for (const term of terms) {
+    const next = `${prompt} Vocabulary: ${[...kept, term].join(", ")}.`;
+    if (next.length > MAX_PROMPT_LENGTH) break;
+    kept.push(term);
+  }
+  return kept.length > 0 ? `${prompt} Vocabulary: ${kept.join(", ")}.` : prompt;
+}
+
+// The room's motion and stakeholders, its debaters' names, and the glossary of
+// the club the room's creator belongs to
+export async function getTranscriptionVocabulary(room: DebateRoom | null | undefined): Promise<TranscriptionVocabulary> {
+  if (!room) {
+    return { motion: null, keyStakeholders: [], names: [], glossary: [...DEBATE_GLOSSARY] };
+  }
+  const [motion, participants, creator] = await Promise.all([
+    room.motionId ? db.getMotionById(room.motionId) : undefined,
+    db.getRoomParticipants(room.id),
+    db.getUserById(room.creatorId),
+  ]);
+  const users = await Promise.all(participants.map(p => db.getUserById(p.userId)));
+  const clubTerms = creator?.club ? await db.getClubGlossary(creator.club) : [];
+  return {
+    motion: motion?.motion ?? null,
+    keyStakeholders: motion?.keyStakeholders ?? [],
+    names: users.map(u => u?.name ?? "").filter(Boolean),
+    glossary: [...clubTerms.map(t => t.term), ...DEBATE_GLOSSARY],
+  };
+}
+
+export async function getTranscriptionPrompt(room: DebateRoom | null | undefined, kind: "speech" | "poi" = "speech") {
+  return buildTranscriptionPrompt(await getTranscriptionVocabulary(room), kind);
+}
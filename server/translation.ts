@@ -0,0 +1,133 @@
+import { invokeLLM } from "./_core/llm";
+import * as db from "./db";
+import type { InsertTranscriptTranslation, TranscriptSegment } from "../drizzle/schema";
+import { getLanguage } from "@shared/debate";
+
+// Segments per request, small enough to stay well inside the model's output
+const BATCH_SIZE = 40;
+
+type SegmentTranslation = { segmentId: number; text: string };
+
+// Every spectator reading a language asks again as each segment arrives;
+// requests for the same room and language share one run, and those arriving
+// mid-run share the one after it, which picks up whatever came in meanwhile
+const inFlight = new Map<string, Promise<SegmentTranslation[]>>();
+const followUps = new Map<string, Promise<SegmentTranslation[]>>();
+
+async function translateBatch(
+  segments: TranscriptSegment[],
+  sourceLanguage: string,
+  language: string
+): Promise<Map<number, string>> {
+  const from = getLanguage(sourceLanguage).label;
+  const to = getLanguage(language).label;
+  const response = await invokeLLM({
+    task: "translation",
+    messages: [
+      {
+        role: "system",
+        content: `You translate live debate transcripts from ${from} into ${to} for spectators. Translate each segment faithfully and naturally, keeping the speaker's register; translate "This House" and debate terms the way debaters in ${to} would say them. Segments are consecutive, so use the neighbouring ones for context, but translate each one on its own. Return every segment with its id.`
+      },
+      {
+        role: "user",
+        content: segments.map(s => `[${s.id}] ${s.text}`).join("\n")
+      }
+    ],
+    response_format: {
+      type: "json_schema",
+      json_schema: {
+        name: "transcript_translations",
+        strict: true,
+        schema: {
+          type: "object",
+          properties: {
+            translations: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  segmentId: { type: "integer" },
+                  text: { type: "string" },
+                },
+                required: ["segmentId", "text"],
+                additionalProperties: false
+              }
+            }
+          },
+          required: ["translations"],
+          additionalProperties: false
+        }
+      }
+    }
+  });
+
+  const content = response.choices[0]?.message?.content;
+  if (!content || typeof content !== "string") {
+    throw new Error("Failed to translate transcript");
+  }
+  const result = JSON.parse(content) as { translations: Array<{ segmentId: number; text: string }> };
+  return new Map(result.translations.map(t => [t.segmentId, t.text]));
+}
+
+async function translateStaleSegments(
+  roomId: number,
+  sourceLanguage: string,
+  language: string
+): Promise<SegmentTranslation[]> {
+  const segments = await db.getRoomTranscriptSegments(roomId);
+  if (language === sourceLanguage) {
+    return segments.map(s => ({ segmentId: s.id, text: s.text }));
+  }
+
+  const stored = new Map(
+    (await db.getRoomTranscriptTranslations(roomId, language)).map(t => [t.segmentId, t])
+  );
+  const stale = segments.filter(s => stored.get(s.id)?.sourceText !== s.text);
+
+  for (let i = 0; i < stale.length; i += BATCH_SIZE) {
+    const batch = stale.slice(i, i + BATCH_SIZE);
+    const translated = await translateBatch(batch, sourceLanguage, language);
+    const rows: InsertTranscriptTranslation[] = batch
+      .filter(s => translated.has(s.id))
+      .map(s => ({ segmentId: s.id, roomId, language, sourceText: s.text, text: translated.get(s.id)! }));
+    await db.saveTranscriptTranslations(language, rows);
+    for (const row of rows) {
+      stored.set(row.segmentId, { ...row, id: 0, createdAt: new Date() });
+    }
+  }
+
+  return segments
+    .filter(s => stored.has(s.id))
+    .map(s => ({ segmentId: s.id, text: stored.get(s.id)!.text }));
+}
+
+/**
+ * A room's transcript segments in another language, translating only the
+ * segments that have no translation yet or were corrected since theirs was
+ * made. Segments already in that language come back as they are.
+ */
+export function translateRoomTranscript(
+  roomId: number,
+  sourceLanguage: string,
+  language: string
+): Promise<SegmentTranslation[]> {
+  const key = `${roomId}:${language}`;
+  const running = inFlight.get(key);
+  if (running) {
+    let followUp = followUps.get(key);
+    if (!followUp) {
+      followUp = running
+        .catch(() => undefined)
+        .then(() => {
+          followUps.delete(key);
+          return translateRoomTranscript(roomId, sourceLanguage, language);
+        });
+      followUps.set(key, followUp);
+    }
+    return followUp;
+  }
+
+  const promise = translateStaleSegments(roomId, sourceLanguage, language).finally(() => inFlight.delete(key));
+  inFlight.set(key, promise);
+  return promise;
+}
@@ -1,9 +1,101 @@
+// Debate format registry
+//
+// Every format declares its teams, speaker roles, speaking order, POI window
+// and reply rules. Server routes and pages read from the room's format instead
+// of assuming Asian Parliamentary.
+
+export type TeamSide = "proposition" | "opposition";
+export type SpeechType = "substantive" | "reply";
+
+export type TeamDefinition = {
+  id: string;
+  label: string;
+  shortLabel: string;
+  side: TeamSide;
+  color: string;
+};
+
+export type SpeakerRoleDefinition = {
+  id: string;
+  team: string;
+  label: string;
+};
+
+export type SpeakingSlot = {
+  role: string;
+  team: string;
+  label: string;
+  time: number; // in seconds
+  type: SpeechType;
+  // Participant role that delivers this speech when it differs from `role` (e.g. replies)
+  deliveredBy?: string;
+};
+
+export type POIRules = {
+  allowed: boolean;
+  protectedTimeStart: number;
+  protectedTimeEnd: number;
+  minDuration: number;
+  maxDuration: number;
+};
+
+// "winner" formats pick one winning team; "ranking" formats rank every team 1st to last
+export type ResultType = "winner" | "ranking";
+
+export type ReplyRules = {
+  noNewArguments: boolean;
+  speakerMustBePreviousSpeaker: boolean;
+};
+
+export type MotionType = "prepared" | "impromptu";
+
+// Minimum time (in seconds) between a motion's release and the start of the debate
+export type MotionPrepRules = Record<MotionType, number>;
+
+// Range of speaker points for a substantive speech; reply speeches score on half the scale
+export type SpeakerPointScale = { min: number; max: number };
+
+export type DebateFormat = {
+  id: string;
+  name: string;
+  description: string;
+  teamsCount: number;
+  speakersPerTeam: number;
+  reservesPerTeam: number; // non-speaking team members
+  motionPrep: MotionPrepRules | null;
+  prepTime: number; // default length of the live prep phase, in seconds
+  teams: readonly TeamDefinition[];
+  speakerRoles: readonly SpeakerRoleDefinition[];
+  speakingOrder: readonly SpeakingSlot[];
+  poi: POIRules;
+  replyRules: ReplyRules | null;
+  resultType: ResultType;
+  speakerPoints: SpeakerPointScale;
+};
+
 // Asian Parliamentary Debate Format Configuration
 export const ASIAN_PARLIAMENTARY_FORMAT = {
+  id: "asian_parliamentary",
   name: "Asian Parliamentary",
+  description: "Two teams of three, 7-minute substantives and 4-minute replies",
   teamsCount: 2,
   speakersPerTeam: 3,
-  teams: ["government", "opposition"] as const,
+  reservesPerTeam: 0,
+  motionPrep: null,
+  prepTime: 30 * 60,
+  teams: [
+    { id: "government", label: "Government (Proposition)", shortLabel: "Government", side: "proposition", color: "#3B82F6" },
+    { id: "opposition", label: "Opposition", shortLabel: "Opposition", side: "opposition", color: "#EF4444" },
+  ],
+  
+  speakerRoles: [
+    { id: "prime_minister", team: "government", label: "Prime Minister" },
+    { id: "deputy_prime_minister", team: "government", label: "Deputy Prime Minister" },
+    { id: "government_whip", team: "government", label: "Government Whip" },
+    { id: "leader_of_opposition", team: "opposition", label: "Leader of Opposition" },
+    { id: "deputy_leader_of_opposition", team: "opposition", label: "Deputy Leader of Opposition" },
+    { id: "opposition_whip", team: "opposition", label: "Opposition Whip" },
+  ],
   
   // Speaking order with time limits (in seconds)
   speakingOrder: [
@@ -13,12 +105,13 @@ export const ASIAN_PARLIAMENTARY_FORMAT = {
     { role: "deputy_leader_of_opposition", team: "opposition", label: "Deputy Leader of Opposition", time: 420, type: "substantive" },
     { role: "government_whip", team: "government", label: "Government Whip", time: 420, type: "substantive" },
     { role: "opposition_whip", team: "opposition", label: "Opposition Whip", time: 420, type: "substantive" },
-    { role: "opposition_reply", team: "opposition", label: "Opposition Reply", time: 240, type: "reply" },
-    { role: "government_reply", team: "government", label: "Government Reply", time: 240, type: "reply" },
-  ] as const,
+    { role: "opposition_reply", team: "opposition", label: "Opposition Reply", time: 240, type: "reply", deliveredBy: "leader_of_opposition" },
+    { role: "government_reply", team: "government", label: "Government Reply", time: 240, type: "reply", deliveredBy: "prime_minister" },
+  ],
   
   // POI rules
   poi: {
+    allowed: true,
     protectedTimeStart: 60, // First minute protected
     protectedTimeEnd: 60, // Last minute protected
     minDuration: 15, // Minimum POI duration in seconds
@@ -29,11 +122,163 @@ export const ASIAN_PARLIAMENTARY_FORMAT = {
   replyRules: {
     noNewArguments: true,
     speakerMustBePreviousSpeaker: true, // First or second speaker only
-  }
+  },
+  
+  resultType: "winner",
+  speakerPoints: { min: 60, max: 80 },
+} as const satisfies DebateFormat;
+
+// British Parliamentary Debate Format Configuration
+export const BRITISH_PARLIAMENTARY_FORMAT = {
+  id: "british_parliamentary",
+  name: "British Parliamentary",
+  description: "Four teams of two, 7-minute speeches, teams ranked 1st to 4th",
+  teamsCount: 4,
+  speakersPerTeam: 2,
+  reservesPerTeam: 0,
+  motionPrep: null,
+  prepTime: 15 * 60,
+  teams: [
+    { id: "opening_government", label: "Opening Government (OG)", shortLabel: "Opening Government", side: "proposition", color: "#3B82F6" },
+    { id: "opening_opposition", label: "Opening Opposition (OO)", shortLabel: "Opening Opposition", side: "opposition", color: "#EF4444" },
+    { id: "closing_government", label: "Closing Government (CG)", shortLabel: "Closing Government", side: "proposition", color: "#1D4ED8" },
+    { id: "closing_opposition", label: "Closing Opposition (CO)", shortLabel: "Closing Opposition", side: "opposition", color: "#B91C1C" },
+  ],
+  
+  speakerRoles: [
+    { id: "prime_minister", team: "opening_government", label: "Prime Minister" },
+    { id: "deputy_prime_minister", team: "opening_government", label: "Deputy Prime Minister" },
+    { id: "leader_of_opposition", team: "opening_opposition", label: "Leader of Opposition" },
+    { id: "deputy_leader_of_opposition", team: "opening_opposition", label: "Deputy Leader of Opposition" },
+    { id: "member_of_government", team: "closing_government", label: "Member of Government" },
+    { id: "government_whip", team: "closing_government", label: "Government Whip" },
+    { id: "member_of_opposition", team: "closing_opposition", label: "Member of Opposition" },
+    { id: "opposition_whip", team: "closing_opposition", label: "Opposition Whip" },
+  ],
+  
+  // Speaking order with time limits (in seconds)
+  speakingOrder: [
+    { role: "prime_minister", team: "opening_government", label: "Prime Minister", time: 420, type: "substantive" },
+    { role: "leader_of_opposition", team: "opening_opposition", label: "Leader of Opposition", time: 420, type: "substantive" },
+    { role: "deputy_prime_minister", team: "opening_government", label: "Deputy Prime Minister", time: 420, type: "substantive" },
+    { role: "deputy_leader_of_opposition", team: "opening_opposition", label: "Deputy Leader of Opposition", time: 420, type: "substantive" },
+    { role: "member_of_government", team: "closing_government", label: "Member of Government", time: 420, type: "substantive" },
+    { role: "member_of_opposition", team: "closing_opposition", label: "Member of Opposition", time: 420, type: "substantive" },
+    { role: "government_whip", team: "closing_government", label: "Government Whip", time: 420, type: "substantive" },
+    { role: "opposition_whip", team: "closing_opposition", label: "Opposition Whip", time: 420, type: "substantive" },
+  ],
+  
+  // POI rules
+  poi: {
+    allowed: true,
+    protectedTimeStart: 60,
+    protectedTimeEnd: 60,
+    minDuration: 15,
+    maxDuration: 15,
+  },
+  
+  // No reply speeches in BP
+  replyRules: null,
+  
+  resultType: "ranking",
+  speakerPoints: { min: 50, max: 100 },
+} as const satisfies DebateFormat;
+
+// World Schools Debate Format Configuration
+export const WORLD_SCHOOLS_FORMAT = {
+  id: "world_schools",
+  name: "World Schools",
+  description: "Teams of 3-5 with 3 speakers, 8-minute substantives and 4-minute replies",
+  teamsCount: 2,
+  speakersPerTeam: 3,
+  reservesPerTeam: 2, // Teams of up to five, three of whom speak
+  motionPrep: {
+    prepared: 24 * 60 * 60, // Prepared motions are released days ahead; require at least a day
+    impromptu: 60 * 60, // One hour of prep
+  },
+  prepTime: 60 * 60,
+  teams: [
+    { id: "proposition", label: "Proposition", shortLabel: "Proposition", side: "proposition", color: "#3B82F6" },
+    { id: "opposition", label: "Opposition", shortLabel: "Opposition", side: "opposition", color: "#EF4444" },
+  ],
+  
+  speakerRoles: [
+    { id: "first_proposition", team: "proposition", label: "First Proposition" },
+    { id: "second_proposition", team: "proposition", label: "Second Proposition" },
+    { id: "third_proposition", team: "proposition", label: "Third Proposition" },
+    { id: "first_opposition", team: "opposition", label: "First Opposition" },
+    { id: "second_opposition", team: "opposition", label: "Second Opposition" },
+    { id: "third_opposition", team: "opposition", label: "Third Opposition" },
+  ],
+  
+  // Speaking order with time limits (in seconds)
+  speakingOrder: [
+    { role: "first_proposition", team: "proposition", label: "First Proposition", time: 480, type: "substantive" },
+    { role: "first_opposition", team: "opposition", label: "First Opposition", time: 480, type: "substantive" },
+    { role: "second_proposition", team: "proposition", label: "Second Proposition", time: 480, type: "substantive" },
+    { role: "second_opposition", team: "opposition", label: "Second Opposition", time: 480, type: "substantive" },
+    { role: "third_proposition", team: "proposition", label: "Third Proposition", time: 480, type: "substantive" },
+    { role: "third_opposition", team: "opposition", label: "Third Opposition", time: 480, type: "substantive" },
+    { role: "opposition_reply", team: "opposition", label: "Opposition Reply", time: 240, type: "reply", deliveredBy: "first_opposition" },
+    { role: "proposition_reply", team: "proposition", label: "Proposition Reply", time: 240, type: "reply", deliveredBy: "first_proposition" },
+  ],
+  
+  // POIs only in the middle of the speech
+  poi: {
+    allowed: true,
+    protectedTimeStart: 60,
+    protectedTimeEnd: 60,
+    minDuration: 15,
+    maxDuration: 15,
+  },
+  
+  replyRules: {
+    noNewArguments: true,
+    speakerMustBePreviousSpeaker: true, // First or second speaker only
+  },
+  
+  resultType: "winner",
+  speakerPoints: { min: 60, max: 80 },
+} as const satisfies DebateFormat;
+
+export const DEBATE_FORMATS = {
+  asian_parliamentary: ASIAN_PARLIAMENTARY_FORMAT,
+  british_parliamentary: BRITISH_PARLIAMENTARY_FORMAT,
+  world_schools: WORLD_SCHOOLS_FORMAT,
+} as const satisfies Record<string, DebateFormat>;
+
+export type DebateFormatId = keyof typeof DEBATE_FORMATS;
+export const DEBATE_FORMAT_IDS = Object.keys(DEBATE_FORMATS) as [DebateFormatId, ...DebateFormatId[]];
+
+// Structure of a coach-built drill format. Stored as JSON and expanded into a
+// full DebateFormat by buildCustomFormat so pages treat it like a built-in one.
+export type CustomFormatSpec = {
+  teamsCount: number;
+  speakersPerTeam: number;
+  speechTime: number; // in seconds
+  replyTime: number | null; // in seconds; only two-team formats have replies
+  poi: { allowed: boolean; protectedTime: number };
+};
+
+export const CUSTOM_FORMAT_LIMITS = {
+  minTeams: 2,
+  maxTeams: 4,
+  minSpeakersPerTeam: 1,
+  maxSpeakersPerTeam: 4,
+  minSpeechTime: 60,
+  maxSpeechTime: 900,
+} as const;
+
+// Bounds for the prep countdown a room creator can set, in minutes
+export const PREP_TIME_LIMITS = {
+  minMinutes: 1,
+  maxMinutes: 120,
 } as const;
 
-export type Team = typeof ASIAN_PARLIAMENTARY_FORMAT.teams[number];
-export type SpeakerRole = typeof ASIAN_PARLIAMENTARY_FORMAT.speakingOrder[number]["role"];
+const CUSTOM_TEAM_COLORS = ["#3B82F6", "#EF4444", "#1D4ED8", "#B91C1C"];
+
+export type Team = (typeof DEBATE_FORMATS)[DebateFormatId]["teams"][number]["id"];
+export type SpeakerRole = (typeof DEBATE_FORMATS)[DebateFormatId]["speakingOrder"][number]["role"];
 
 // Topic areas for motion generation
 export const TOPIC_AREAS = [
@@ -58,6 +303,12 @@ export const DIFFICULTY_LEVELS = [
 
 export type DifficultyLevel = typeof DIFFICULTY_LEVELS[number]["id"];
 
+// Motion types
+export const MOTION_TYPES = [
+  { id: "impromptu", label: "Impromptu", description: "Released shortly before the round" },
+  { id: "prepared", label: "Prepared", description: "Released days ahead for research" },
+] as const;
+
 // Experience levels for user profiles
 export const EXPERIENCE_LEVELS = [
   { id: "novice", label: "Novice", description: "New to competitive debating" },
@@ -68,6 +319,111 @@ export const EXPERIENCE_LEVELS = [
 
 export type ExperienceLevel = typeof EXPERIENCE_LEVELS[number]["id"];
 
+// Ways to take part in a room. Only debaters hold a team and speaker role;
+// everyone else watches the round and is left out of the readiness check.
+export const PARTICIPANT_ROLES = [
+  { id: "debater", label: "Debater", description: "Speaks for a team" },
+  { id: "adjudicator", label: "Adjudicator", description: "Judges the round and can pause the clock" },
+  { id: "spectator", label: "Spectator", description: "Watches the round" },
+  { id: "coach", label: "Coach", description: "Watches and takes notes for their team" },
+] as const;
+
+export type ParticipantRole = typeof PARTICIPANT_ROLES[number]["id"];
+export const PARTICIPANT_ROLE_IDS = PARTICIPANT_ROLES.map(r => r.id) as [ParticipantRole, ...ParticipantRole[]];
+
+// Adjudicator panel positions; a panel has at most one chair
+export const ADJUDICATOR_POSITIONS = [
+  { id: "chair", label: "Chair" },
+  { id: "panelist", label: "Panelist" },
+] as const;
+
+export type AdjudicatorPosition = typeof ADJUDICATOR_POSITIONS[number]["id"];
+
+// Where speech audio is transcribed. Rooms can override the deployment's default.
+export const TRANSCRIPTION_PROVIDERS = [
+  { id: "forge", label: "Hosted Whisper", description: "Sends audio to the hosted transcription API" },
+  { id: "local", label: "Local Whisper", description: "Transcribes on this server with whisper.cpp or faster-whisper; works offline" },
+] as const;
+
+export type TranscriptionProviderId = typeof TRANSCRIPTION_PROVIDERS[number]["id"];
+export const TRANSCRIPTION_PROVIDER_IDS = TRANSCRIPTION_PROVIDERS.map(p => p.id) as [TranscriptionProviderId, ...TranscriptionProviderId[]];
+
+// Languages a round can be held in (ISO 639-1 codes, as Whisper expects). The
+// room's language drives transcription, the moderator's voice and AI-written
+// motions and feedback; `voice` is the speech synthesis locale.
+export const TRANSCRIPTION_LANGUAGES = [
+  { id: "en", label: "English", voice: "en-GB" },
+  { id: "zh", label: "Chinese (Mandarin)", voice: "zh-CN" },
+  { id: "es", label: "Spanish", voice: "es-ES" },
+  { id: "fr", label: "French", voice: "fr-FR" },
+  { id: "de", label: "German", voice: "de-DE" },
+  { id: "id", label: "Indonesian", voice: "id-ID" },
+  { id: "ms", label: "Malay", voice: "ms-MY" },
+  { id: "ja", label: "Japanese", voice: "ja-JP" },
+  { id: "ko", label: "Korean", voice: "ko-KR" },
+  { id: "vi", label: "Vietnamese", voice: "vi-VN" },
+  { id: "th", label: "Thai", voice: "th-TH" },
+  { id: "ar", label: "Arabic", voice: "ar-SA" },
+] as const;
+
+export type TranscriptionLanguage = typeof TRANSCRIPTION_LANGUAGES[number]["id"];
+export const TRANSCRIPTION_LANGUAGE_IDS = TRANSCRIPTION_LANGUAGES.map(l => l.id) as [TranscriptionLanguage, ...TranscriptionLanguage[]];
+
+export function getLanguage(id: string | null | undefined) {
+  return TRANSCRIPTION_LANGUAGES.find(l => l.id === id) ?? TRANSCRIPTION_LANGUAGES[0];
+}
+
+// Debate jargon the transcriber is always told to expect; clubs add their own terms
+export const DEBATE_GLOSSARY = [
+  "motion",
+  "mechanism",
+  "burden",
+  "clash",
+  "POI",
+  "point of information",
+  "counterfactual",
+  "status quo",
+  "weighing",
+  "characterisation",
+  "counter-model",
+  "extension",
+  "rebuttal",
+  "whip",
+  "adjudicator",
+  "Madam Speaker",
+  "Prime Minister",
+  "Leader of the Opposition",
+] as const;
+
+// Timings of a transcript segment's phrases and words, in seconds on the speech clock
+export type TranscriptWordTiming = { word: string; start: number; end: number };
+export type TranscriptPhraseTiming = { text: string; start: number; end: number };
+export type TranscriptTimings = { phrases: TranscriptPhraseTiming[]; words: TranscriptWordTiming[] };
+
+// Imported recordings are uploaded in parts, each under the request body limit
+// once base64 encoded; a file may have up to IMPORT_MAX_CHUNKS of them (1 GB)
+export const IMPORT_CHUNK_BYTES = 8 * 1024 * 1024;
+export const IMPORT_MAX_CHUNKS = 128;
+
+// Filler words and phrases counted in delivery analytics. "like" only counts
+// when set off by commas, so "I like this model" isn't flagged
+export const FILLER_WORDS = ["um", "uh", "er", "erm", "like", "you know", "i mean", "sort of", "kind of", "basically"] as const;
+export const LONG_PAUSE_SECONDS = 3;
+export const PACE_WINDOW_SECONDS = 30;
+
+// Delivery of one speech, worked out from its transcript segments and their timings
+export type DeliveryMetrics = {
+  wordCount: number;
+  wordsPerMinute: number;
+  pace: Array<{ start: number; wordsPerMinute: number }>; // one entry per pace window of the speech clock
+  fillerCount: number;
+  fillers: Array<{ filler: string; count: number }>;
+  longPauses: Array<{ start: number; duration: number }>; // only found where word timings exist
+  timeUsed: number; // seconds
+  timeAllotted: number; // seconds
+  repeatedPhrases: Array<{ phrase: string; count: number }>;
+};
+
 // Debate room statuses
 export const ROOM_STATUSES = {
   waiting: "Waiting for participants",
@@ -79,6 +435,7 @@ export const ROOM_STATUSES = {
 // Debate phases
 export const DEBATE_PHASES = {
   setup: "Setting up debate",
+  prep: "Preparation",
   debate: "Debate in progress",
   feedback: "Generating feedback",
   completed: "Completed",
@@ -94,17 +451,490 @@ export function generateRoomCode(): string {
   return code;
 }
 
+// Expand a saved custom format into teams, roles and a speaking order.
+// Teams alternate proposition/opposition; speakers alternate across teams.
+export function buildCustomFormat(custom: {
+  id: number;
+  name: string;
+  description: string | null;
+  spec: CustomFormatSpec;
+}): DebateFormat {
+  const { spec } = custom;
+  const teams: TeamDefinition[] = Array.from({ length: spec.teamsCount }, (_, i) => {
+    const side: TeamSide = i % 2 === 0 ? "proposition" : "opposition";
+    const sideLabel = side === "proposition" ? "Proposition" : "Opposition";
+    const bench = Math.floor(i / 2) + 1;
+    const label = spec.teamsCount === 2 ? sideLabel : `${sideLabel} ${bench}`;
+    return {
+      id: spec.teamsCount === 2 ? side : `${side}_${bench}`,
+      label,
+      shortLabel: label,
+      side,
+      color: CUSTOM_TEAM_COLORS[i % CUSTOM_TEAM_COLORS.length],
+    };
+  });
+
+  const speakerRoles: SpeakerRoleDefinition[] = [];
+  for (let n = 1; n <= spec.speakersPerTeam; n++) {
+    for (const team of teams) {
+      speakerRoles.push({
+        id: `${team.id}_speaker_${n}`,
+        team: team.id,
+        label: spec.speakersPerTeam === 1 ? `${team.label} Speaker` : `${team.label} Speaker ${n}`,
+      });
+    }
+  }
+
+  const speakingOrder: SpeakingSlot[] = speakerRoles.map(role => ({
+    role: role.id,
+    team: role.team,
+    label: role.label,
+    time: spec.speechTime,
+    type: "substantive",
+  }));
+  const hasReplies = spec.replyTime !== null && spec.teamsCount === 2;
+  if (hasReplies) {
+    // Opposition replies first, each reply given by the team's first speaker
+    for (const team of [...teams].reverse()) {
+      speakingOrder.push({
+        role: `${team.id}_reply`,
+        team: team.id,
+        label: `${team.label} Reply`,
+        time: spec.replyTime!,
+        type: "reply",
+        deliveredBy: `${team.id}_speaker_1`,
+      });
+    }
+  }
+
+  return {
+    id: `custom_${custom.id}`,
+    name: custom.name,
+    description: custom.description ?? "",
+    teamsCount: spec.teamsCount,
+    speakersPerTeam: spec.speakersPerTeam,
+    reservesPerTeam: 0,
+    motionPrep: null,
+    prepTime: 30 * 60,
+    teams,
+    speakerRoles,
+    speakingOrder,
+    poi: {
+      allowed: spec.poi.allowed,
+      protectedTimeStart: spec.poi.protectedTime,
+      protectedTimeEnd: spec.poi.protectedTime,
+      minDuration: 15,
+      maxDuration: 15,
+    },
+    replyRules: hasReplies ? { noNewArguments: true, speakerMustBePreviousSpeaker: true } : null,
+    resultType: spec.teamsCount === 2 ? "winner" : "ranking",
+    speakerPoints: { min: 60, max: 80 },
+  };
+}
+
+// Look up a format in the registry, falling back to Asian Parliamentary
+export function getDebateFormat(formatId: string | null | undefined): DebateFormat {
+  return (formatId && DEBATE_FORMATS[formatId as DebateFormatId]) || ASIAN_PARLIAMENTARY_FORMAT;
+}
+
 // Get speaker info by index
-export function getSpeakerByIndex(index: number) {
-  return ASIAN_PARLIAMENTARY_FORMAT.speakingOrder[index] || null;
+export function getSpeakerByIndex(index: number, format: DebateFormat = ASIAN_PARLIAMENTARY_FORMAT) {
+  return format.speakingOrder[index] || null;
+}
+
+// Participant role that delivers a speech (reply speeches are given by an earlier speaker)
+export function getSlotSpeakerRole(slot: SpeakingSlot): string {
+  return slot.deliveredBy ?? slot.role;
+}
+
+// Speaker roles a participant can pick for a team
+export function getTeamRoles(format: DebateFormat, team: string) {
+  return format.speakerRoles.filter(r => r.team === team);
+}
+
+export function isValidTeamRole(format: DebateFormat, team: string, speakerRole: string): boolean {
+  return format.speakerRoles.some(r => r.team === team && r.id === speakerRole);
+}
+
+export function getRoleLabel(format: DebateFormat, role: string | null): string {
+  if (!role) return "Reserve";
+  return format.speakerRoles.find(r => r.id === role)?.label
+    || format.speakingOrder.find(s => s.role === role)?.label
+    || role;
+}
+
+// Debaters are the only members who speak or need to ready up
+export function isDebater(participant: { role: ParticipantRole }): boolean {
+  return participant.role === "debater";
+}
+
+// Display label for a member's place in the room
+export function getParticipantLabel(
+  format: DebateFormat,
+  participant: { role: ParticipantRole; speakerRole: string | null; adjudicatorPosition: AdjudicatorPosition | null }
+): string {
+  if (participant.role === "debater") return getRoleLabel(format, participant.speakerRole);
+  if (participant.role === "adjudicator") {
+    return participant.adjudicatorPosition === "chair" ? "Chair Adjudicator" : "Panelist";
+  }
+  return PARTICIPANT_ROLES.find(r => r.id === participant.role)?.label ?? participant.role;
+}
+
+// Speaking order restricted to the roles that actually joined (empty positions are skipped).
+// Reserves and other non-speaking members have no role and are ignored.
+export function getActiveSpeakingOrder(format: DebateFormat, participantRoles: Iterable<string | null>) {
+  const roles = new Set(participantRoles);
+  return format.speakingOrder.filter(slot => roles.has(getSlotSpeakerRole(slot)));
+}
+
+export const AI_SPEAKER_NAME = "AI Sparring Partner";
+
+// Speaker roles nobody joined; in an AI opponent room the AI speaks in these
+export function getAISpeakerRoles(format: DebateFormat, participantRoles: Iterable<string | null>): string[] {
+  const roles = new Set(participantRoles);
+  return format.speakerRoles.map(r => r.id).filter(id => !roles.has(id));
+}
+
+// Roles that speak in the round: the ones debaters joined, or every role when the AI fills the gaps
+export function getSpeakingRoles(
+  format: DebateFormat,
+  participantRoles: Iterable<string | null>,
+  aiOpponent: boolean
+): Array<string | null> {
+  return aiOpponent ? format.speakerRoles.map(r => r.id) : Array.from(participantRoles);
+}
+
+// Index in the full speaking order of the first speaker who has joined
+export function getFirstSpeakerIndex(format: DebateFormat, participantRoles: Iterable<string | null>): number {
+  const first = getActiveSpeakingOrder(format, participantRoles)[0];
+  return first ? format.speakingOrder.findIndex(s => s.role === first.role) : 0;
+}
+
+// Index in the full speaking order of the next present speaker, or null when the debate is over
+export function getNextSpeakerIndex(
+  format: DebateFormat,
+  currentIndex: number,
+  participantRoles: Iterable<string | null>
+): number | null {
+  const activeOrder = getActiveSpeakingOrder(format, participantRoles);
+  const currentSpeaker = format.speakingOrder[currentIndex];
+  const currentActiveIndex = activeOrder.findIndex(s => s.role === currentSpeaker?.role);
+  const nextSpeaker = activeOrder[currentActiveIndex + 1];
+  if (!nextSpeaker) return null;
+  return format.speakingOrder.findIndex(s => s.role === nextSpeaker.role);
+}
+
+// When the motion's prep window closes, or null if the format does not enforce one
+export function getPrepWindowEnd(
+  format: DebateFormat,
+  motion: { motionType: MotionType; createdAt: Date | string }
+): Date | null {
+  if (!format.motionPrep) return null;
+  const prepSeconds = format.motionPrep[motion.motionType];
+  return new Date(new Date(motion.createdAt).getTime() + prepSeconds * 1000);
+}
+
+// Seconds left in the room's live prep phase (0 once it is over or if it never started)
+export function getPrepRemaining(
+  room: { prepStartedAt: Date | string | null; prepSeconds: number | null },
+  now: number = Date.now()
+): number {
+  if (!room.prepStartedAt || !room.prepSeconds) return 0;
+  const endsAt = new Date(room.prepStartedAt).getTime() + room.prepSeconds * 1000;
+  return Math.max(0, Math.ceil((endsAt - now) / 1000));
 }
 
 // Check if POI is allowed at given time
-export function isPOIAllowed(elapsedSeconds: number, totalTime: number): boolean {
-  const { protectedTimeStart, protectedTimeEnd } = ASIAN_PARLIAMENTARY_FORMAT.poi;
+export function isPOIAllowed(
+  elapsedSeconds: number,
+  totalTime: number,
+  poi: POIRules = ASIAN_PARLIAMENTARY_FORMAT.poi
+): boolean {
+  if (!poi.allowed) return false;
+  const { protectedTimeStart, protectedTimeEnd } = poi;
   return elapsedSeconds >= protectedTimeStart && elapsedSeconds <= (totalTime - protectedTimeEnd);
 }
 
+export type POIStatus = "offered" | "accepted" | "declined" | "ended";
+
+// Why a debater on `offererTeam` can't offer a POI to the speaker in `slot` right now, or null if they can.
+// POIs come from the other side of the house (in BP, either opposing team).
+export function getPOIOfferError(
+  format: DebateFormat,
+  slot: SpeakingSlot,
+  offererTeam: string | null,
+  elapsedSeconds: number
+): string | null {
+  if (!format.poi.allowed) return "This format does not allow points of information";
+  if (slot.type === "reply") return "Points of information are not offered during reply speeches";
+  if (!offererTeam || getTeamSide(offererTeam, format) === getTeamSide(slot.team, format)) {
+    return "Points of information can only be offered to the other side";
+  }
+  if (!isPOIAllowed(elapsedSeconds, slot.time, format.poi)) {
+    return "Points of information are not allowed during protected time";
+  }
+  return null;
+}
+
+// Seconds into the speech at which a POI was still being made past the open window,
+// or null if it stayed inside it. Uses the offer time plus how long the point was held.
+export function getPOIWindowOverrun(
+  poi: { status: POIStatus; timestamp: number | null; createdAt: Date | string; respondedAt: Date | string | null; endedAt: Date | string | null },
+  slot: SpeakingSlot,
+  rules: POIRules
+): number | null {
+  if (poi.timestamp === null) return null;
+  if (!isPOIAllowed(poi.timestamp, slot.time, rules)) return poi.timestamp;
+  if (poi.status !== "accepted" && poi.status !== "ended") return null;
+  if (!poi.respondedAt) return null;
+  const respondedAt = new Date(poi.respondedAt).getTime();
+  const heldUntil = poi.endedAt ? new Date(poi.endedAt).getTime() : respondedAt + rules.maxDuration * 1000;
+  const startedAt = poi.timestamp + (respondedAt - new Date(poi.createdAt).getTime()) / 1000;
+  const finishedAt = Math.round(startedAt + Math.min(rules.maxDuration, (heldUntil - respondedAt) / 1000));
+  return finishedAt > slot.time - rules.protectedTimeEnd ? finishedAt : null;
+}
+
+// Seconds left for an accepted POI, capped at the format's maximum POI length
+export function getPOIRemaining(
+  poi: { status: POIStatus; respondedAt: Date | string | null; endedAt: Date | string | null },
+  rules: POIRules,
+  now: number = Date.now()
+): number {
+  if (poi.status !== "accepted" || !poi.respondedAt || poi.endedAt) return 0;
+  const endsAt = new Date(poi.respondedAt).getTime() + rules.maxDuration * 1000;
+  return Math.max(0, Math.ceil((endsAt - now) / 1000));
+}
+
+// Persisted state of the server-owned speech clock
+export type DebateClock = {
+  clockStartedAt: Date | string | null;
+  clockPausedAt: Date | string | null;
+  clockPausedSeconds: number;
+};
+
+export type ClockStatus = "idle" | "running" | "paused";
+
+export type TimeWarning = "one_minute" | "thirty_seconds" | "ten_seconds" | "time_up";
+
+// Warnings announced as the clock crosses each threshold (remaining seconds)
+export const TIME_WARNINGS: readonly { id: TimeWarning; remaining: number }[] = [
+  { id: "one_minute", remaining: 60 },
+  { id: "thirty_seconds", remaining: 30 },
+  { id: "ten_seconds", remaining: 10 },
+  { id: "time_up", remaining: 0 },
+];
+
+// What the moderator voice says, in each room language. Lines with {role},
+// {name} or {minutes} are filled in with `fillModeratorLine`.
+export type ModeratorLines = Record<TimeWarning, string> & {
+  callSpeaker: string;
+  callAISpeaker: string;
+  nextSpeakerName: string;
+  timeBegins: string;
+  pointOfInformation: string;
+  nextSpeaker: string;
+  concluded: string;
+};
+
+export const MODERATOR_LINES: Record<TranscriptionLanguage, ModeratorLines> = {
+  en: {
+    callSpeaker: "{role}, {name}, you have {minutes} minutes. Please begin when ready.",
+    callAISpeaker: "{role}, {name}.",
+    nextSpeakerName: "the next speaker",
+    timeBegins: "Your time begins now.",
+    pointOfInformation: "Point of information!",
+    nextSpeaker: "Thank you. Moving to the next speaker.",
+    concluded: "The debate has concluded. Thank you all for participating. Generating feedback now.",
+    one_minute: "One minute remaining.",
+    thirty_seconds: "Thirty seconds remaining.",
+    ten_seconds: "Ten seconds.",
+    time_up: "Time is up. Please conclude your speech.",
+  },
+  zh: {
+    callSpeaker: "{role}，{name}，你有{minutes}分钟。准备好后请开始。",
+    callAISpeaker: "{role}，{name}。",
+    nextSpeakerName: "下一位辩手",
+    timeBegins: "计时开始。",
+    pointOfInformation: "质询！",
+    nextSpeaker: "谢谢。请下一位辩手。",
+    concluded: "辩论结束。感谢各位的参与。正在生成点评。",
+    one_minute: "还剩一分钟。",
+    thirty_seconds: "还剩三十秒。",
+    ten_seconds: "还剩十秒。",
+    time_up: "时间到。请总结发言。",
+  },
+  es: {
+    callSpeaker: "{role}, {name}, tiene {minutes} minutos. Comience cuando esté listo.",
+    callAISpeaker: "{role}, {name}.",
+    nextSpeakerName: "el siguiente orador",
+    timeBegins: "Su tiempo comienza ahora.",
+    pointOfInformation: "¡Punto de información!",
+    nextSpeaker: "Gracias. Pasamos al siguiente orador.",
+    concluded: "El debate ha concluido. Gracias a todos por participar. Generando la retroalimentación.",
+    one_minute: "Queda un minuto.",
+    thirty_seconds: "Quedan treinta segundos.",
+    ten_seconds: "Diez segundos.",
+    time_up: "Se acabó el tiempo. Por favor, concluya su discurso.",
+  },
+  fr: {
+    callSpeaker: "{role}, {name}, vous avez {minutes} minutes. Commencez quand vous êtes prêt.",
+    callAISpeaker: "{role}, {name}.",
+    nextSpeakerName: "l'orateur suivant",
+    timeBegins: "Votre temps commence maintenant.",
+    pointOfInformation: "Point d'information !",
+    nextSpeaker: "Merci. Passons à l'orateur suivant.",
+    concluded: "Le débat est terminé. Merci à tous pour votre participation. Génération des retours en cours.",
+    one_minute: "Plus qu'une minute.",
+    thirty_seconds: "Plus que trente secondes.",
+    ten_seconds: "Dix secondes.",
+    time_up: "Le temps est écoulé. Veuillez conclure votre discours.",
+  },
+  de: {
+    callSpeaker: "{role}, {name}, Sie haben {minutes} Minuten. Bitte beginnen Sie, wenn Sie bereit sind.",
+    callAISpeaker: "{role}, {name}.",
+    nextSpeakerName: "die nächste Rednerin oder der nächste Redner",
+    timeBegins: "Ihre Zeit beginnt jetzt.",
+    pointOfInformation: "Zwischenfrage!",
+    nextSpeaker: "Danke. Weiter zur nächsten Rede.",
+    concluded: "Die Debatte ist beendet. Vielen Dank an alle. Das Feedback wird erstellt.",
+    one_minute: "Noch eine Minute.",
+    thirty_seconds: "Noch dreißig Sekunden.",
+    ten_seconds: "Zehn Sekunden.",
+    time_up: "Die Zeit ist um. Bitte kommen Sie zum Schluss.",
+  },
+  id: {
+    callSpeaker: "{role}, {name}, Anda memiliki waktu {minutes} menit. Silakan mulai jika sudah siap.",
+    callAISpeaker: "{role}, {name}.",
+    nextSpeakerName: "pembicara berikutnya",
+    timeBegins: "Waktu Anda dimulai sekarang.",
+    pointOfInformation: "Interupsi!",
+    nextSpeaker: "Terima kasih. Kita lanjut ke pembicara berikutnya.",
+    concluded: "Debat telah selesai. Terima kasih atas partisipasinya. Masukan sedang dibuat.",
+    one_minute: "Satu menit lagi.",
+    thirty_seconds: "Tiga puluh detik lagi.",
+    ten_seconds: "Sepuluh detik.",
+    time_up: "Waktu habis. Silakan akhiri pidato Anda.",
+  },
+  ms: {
+    callSpeaker: "{role}, {name}, anda mempunyai {minutes} minit. Sila mula apabila bersedia.",
+    callAISpeaker: "{role}, {name}.",
+    nextSpeakerName: "pembahas seterusnya",
+    timeBegins: "Masa anda bermula sekarang.",
+    pointOfInformation: "Usul pencelahan!",
+    nextSpeaker: "Terima kasih. Kita beralih kepada pembahas seterusnya.",
+    concluded: "Perbahasan telah tamat. Terima kasih atas penyertaan anda. Maklum balas sedang dijana.",
+    one_minute: "Satu minit lagi.",
+    thirty_seconds: "Tiga puluh saat lagi.",
+    ten_seconds: "Sepuluh saat.",
+    time_up: "Masa tamat. Sila rumuskan ucapan anda.",
+  },
+  ja: {
+    callSpeaker: "{role}、{name}さん、持ち時間は{minutes}分です。準備ができたら始めてください。",
+    callAISpeaker: "{role}、{name}。",
+    nextSpeakerName: "次のスピーカー",
+    timeBegins: "計時を開始します。",
+    pointOfInformation: "ポイント・オブ・インフォメーション！",
+    nextSpeaker: "ありがとうございました。次のスピーカーに移ります。",
+    concluded: "ディベートは終了しました。ご参加ありがとうございました。フィードバックを作成しています。",
+    one_minute: "残り1分です。",
+    thirty_seconds: "残り30秒です。",
+    ten_seconds: "残り10秒です。",
+    time_up: "時間です。スピーチをまとめてください。",
+  },
+  ko: {
+    callSpeaker: "{role}, {name}님, {minutes}분이 주어집니다. 준비되면 시작해 주세요.",
+    callAISpeaker: "{role}, {name}.",
+    nextSpeakerName: "다음 발언자",
+    timeBegins: "지금부터 시간이 시작됩니다.",
+    pointOfInformation: "보충 질의!",
+    nextSpeaker: "감사합니다. 다음 발언자로 넘어가겠습니다.",
+    concluded: "토론이 끝났습니다. 참여해 주셔서 감사합니다. 피드백을 생성하고 있습니다.",
+    one_minute: "1분 남았습니다.",
+    thirty_seconds: "30초 남았습니다.",
+    ten_seconds: "10초.",
+    time_up: "시간이 다 되었습니다. 발언을 마무리해 주세요.",
+  },
+  vi: {
+    callSpeaker: "{role}, {name}, bạn có {minutes} phút. Hãy bắt đầu khi sẵn sàng.",
+    callAISpeaker: "{role}, {name}.",
+    nextSpeakerName: "người nói tiếp theo",
+    timeBegins: "Thời gian của bạn bắt đầu.",
+    pointOfInformation: "Câu hỏi thông tin!",
+    nextSpeaker: "Cảm ơn. Chuyển sang người nói tiếp theo.",
+    concluded: "Cuộc tranh biện đã kết thúc. Cảm ơn mọi người đã tham gia. Đang tạo nhận xét.",
+    one_minute: "Còn một phút.",
+    thirty_seconds: "Còn ba mươi giây.",
+    ten_seconds: "Mười giây.",
+    time_up: "Hết giờ. Vui lòng kết thúc bài nói.",
+  },
+  th: {
+    callSpeaker: "{role} {name} คุณมีเวลา {minutes} นาที เริ่มได้เมื่อพร้อม",
+    callAISpeaker: "{role} {name}",
+    nextSpeakerName: "ผู้พูดคนถัดไป",
+    timeBegins: "เริ่มจับเวลา",
+    pointOfInformation: "ขอถามแทรก!",
+    nextSpeaker: "ขอบคุณ ต่อไปเป็นผู้พูดคนถัดไป",
+    concluded: "การโต้วาทีจบลงแล้ว ขอบคุณทุกคนที่เข้าร่วม กำลังสร้างคำแนะนำ",
+    one_minute: "เหลือเวลาหนึ่งนาที",
+    thirty_seconds: "เหลือเวลาสามสิบวินาที",
+    ten_seconds: "สิบวินาที",
+    time_up: "หมดเวลา กรุณาสรุปการพูด",
+  },
+  ar: {
+    callSpeaker: "{role}، {name}، لديك {minutes} دقائق. ابدأ عندما تكون مستعدًا.",
+    callAISpeaker: "{role}، {name}.",
+    nextSpeakerName: "المتحدث التالي",
+    timeBegins: "يبدأ وقتك الآن.",
+    pointOfInformation: "نقطة معلومات!",
+    nextSpeaker: "شكرًا. ننتقل إلى المتحدث التالي.",
+    concluded: "انتهت المناظرة. شكرًا لكم جميعًا على المشاركة. جارٍ إعداد الملاحظات.",
+    one_minute: "تبقّت دقيقة واحدة.",
+    thirty_seconds: "تبقّت ثلاثون ثانية.",
+    ten_seconds: "عشر ثوانٍ.",
+    time_up: "انتهى الوقت. يرجى اختتام كلمتك.",
+  },
+};
+
+export function fillModeratorLine(line: string, values: Record<string, string | number>): string {
+  return line.replace(/\{(\w+)\}/g, (match, key: string) => (key in values ? String(values[key]) : match));
+}
+
+// Seconds a speaker may run over before the speech counts as a time_exceeded violation
+export const OVERTIME_GRACE_SECONDS = 15;
+
+// Rule violations the server detects (and adjudicators can still report by hand)
+export const RULE_VIOLATION_TYPES = [
+  { id: "time_exceeded", label: "Time exceeded" },
+  { id: "poi_outside_window", label: "POI outside the window" },
+  { id: "speaking_out_of_turn", label: "Speaking out of turn" },
+  { id: "new_argument_in_reply", label: "New argument in reply" },
+] as const;
+
+export type RuleViolationType = typeof RULE_VIOLATION_TYPES[number]["id"];
+export const RULE_VIOLATION_TYPE_IDS = RULE_VIOLATION_TYPES.map(v => v.id) as [RuleViolationType, ...RuleViolationType[]];
+
+export function getClockStatus(clock: DebateClock): ClockStatus {
+  if (!clock.clockStartedAt) return "idle";
+  return clock.clockPausedAt ? "paused" : "running";
+}
+
+// Whole seconds the clock has run, excluding pauses. `now` is a server timestamp.
+export function getClockElapsed(clock: DebateClock, now: number = Date.now()): number {
+  if (!clock.clockStartedAt) return 0;
+  const end = clock.clockPausedAt ? new Date(clock.clockPausedAt).getTime() : now;
+  const elapsedMs = end - new Date(clock.clockStartedAt).getTime() - clock.clockPausedSeconds * 1000;
+  return Math.max(0, Math.floor(elapsedMs / 1000));
+}
+
+// Most recent warning threshold crossed, or null while the speaker has over a minute left
+export function getTimeWarning(remaining: number): TimeWarning | null {
+  let warning: TimeWarning | null = null;
+  for (const threshold of TIME_WARNINGS) {
+    if (remaining <= threshold.remaining) warning = threshold.id;
+  }
+  return warning;
+}
+
 // Format time as MM:SS
 export function formatTime(seconds: number): string {
   const mins = Math.floor(seconds / 60);
@@ -112,12 +942,203 @@ export function formatTime(seconds: number): string {
   return `${mins}:${secs.toString().padStart(2, "0")}`;
 }
 
+export type TeamRanking = { team: string; rank: number; reason: string };
+
+// Turn an LLM-produced ranking into a complete 1..N ranking of the format's teams.
+// Unknown and duplicate teams are dropped; missing teams are appended at the bottom.
+export function normalizeTeamRanking(format: DebateFormat, ranking: TeamRanking[] | null | undefined): TeamRanking[] {
+  const teamIds = new Set(format.teams.map(t => t.id));
+  const seen = new Set<string>();
+  const ordered = [...(ranking ?? [])]
+    .sort((a, b) => a.rank - b.rank)
+    .filter(entry => {
+      if (!teamIds.has(entry.team) || seen.has(entry.team)) return false;
+      seen.add(entry.team);
+      return true;
+    });
+  for (const team of format.teams) {
+    if (!seen.has(team.id)) {
+      ordered.push({ team: team.id, rank: ordered.length + 1, reason: "" });
+    }
+  }
+  return ordered.map((entry, index) => ({ ...entry, rank: index + 1 }));
+}
+
+// Format a team ranking position as 1st, 2nd, 3rd, 4th
+export function formatRank(rank: number): string {
+  const suffixes: Record<number, string> = { 1: "st", 2: "nd", 3: "rd" };
+  const suffix = rank % 100 >= 11 && rank % 100 <= 13 ? "th" : suffixes[rank % 10] ?? "th";
+  return `${rank}${suffix}`;
+}
+
+// Speaker point range for one speech in the speaking order
+export function getSpeakerPointRange(format: DebateFormat, slot: SpeakingSlot): SpeakerPointScale {
+  const { min, max } = format.speakerPoints;
+  return slot.type === "reply" ? { min: min / 2, max: max / 2 } : { min, max };
+}
+
+// Criteria the AI scores each speech on. Weights are relative and configurable;
+// every criterion is scored out of RUBRIC_SCORE_MAX.
+export const RUBRIC_CRITERIA = [
+  { id: "matter", label: "Matter", description: "Quality of argument, analysis, evidence and rebuttal" },
+  { id: "manner", label: "Manner", description: "Delivery: clarity, persuasiveness, confidence and pace" },
+  { id: "method", label: "Method", description: "Structure, signposting, time use and engagement with the other side" },
+  { id: "role_fulfilment", label: "Role Fulfilment", description: "Whether the speaker did what their position in the debate requires" },
+] as const;
+
+export type RubricCriterion = typeof RUBRIC_CRITERIA[number]["id"];
+export type RubricWeights = Record<RubricCriterion, number>;
+export type CriterionScore = { criterion: RubricCriterion; score: number; weight: number; justification: string };
+
+export const RUBRIC_SCORE_MAX = 10;
+export const DEFAULT_RUBRIC_WEIGHTS: RubricWeights = {
+  matter: 40,
+  manner: 30,
+  method: 20,
+  role_fulfilment: 10,
+};
+
+// Map weighted rubric scores onto the format's speaker point scale, to the nearest half point
+export function rollUpSpeakerPoints(format: DebateFormat, slot: SpeakingSlot, criteria: CriterionScore[]): number {
+  const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0);
+  const weighted = totalWeight > 0
+    ? criteria.reduce((sum, c) => sum + c.score * c.weight, 0) / totalWeight
+    : 0;
+  const fraction = Math.min(1, Math.max(0, weighted / RUBRIC_SCORE_MAX));
+  const { min, max } = getSpeakerPointRange(format, slot);
+  return Math.round((min + fraction * (max - min)) * 2) / 2;
+}
+
+// How far apart the adjudicator thinks the teams were
+export const BALLOT_MARGINS = [
+  { id: "close", label: "Close" },
+  { id: "clear", label: "Clear" },
+  { id: "decisive", label: "Decisive" },
+] as const;
+
+export type BallotMargin = typeof BALLOT_MARGINS[number]["id"];
+
+// The parts of an adjudicator's ballot that feed the panel decision
+export type BallotVote = {
+  adjudicatorPosition: AdjudicatorPosition | null;
+  winner: string;
+  teamRanking: string[] | null; // 1st to last, ranking formats only
+  speakerPoints: Record<string, number>; // keyed by speaking slot role
+};
+
+export type PanelDecision = {
+  winner: string | null; // null when an even panel splits with no chair to break the tie
+  ranking: string[]; // 1st to last; for winner formats the winner comes first
+  votes: Record<string, number>; // ballots placing each team first
+  split: string; // e.g. "2-1"
+  unanimous: boolean;
+  speakerPoints: Record<string, number>; // panel average per speaking slot
+  ballotCount: number;
+};
+
+/**
+ * Combine a panel's ballots into one decision. Winner formats take the
+ * majority; ranking formats order teams by their summed rank across
+ * ballots. Ties go the chair's way. Speaker points are averaged.
+ */
+export function getPanelDecision(format: DebateFormat, ballots: BallotVote[]): PanelDecision | null {
+  if (ballots.length === 0) return null;
+
+  const teamIds = format.teams.map(t => t.id);
+  const chair = ballots.find(b => b.adjudicatorPosition === "chair");
+  const rankingOf = (ballot: BallotVote) =>
+    ballot.teamRanking && ballot.teamRanking.length > 0
+      ? ballot.teamRanking
+      : [ballot.winner, ...teamIds.filter(t => t !== ballot.winner)];
+
+  const votes: Record<string, number> = Object.fromEntries(teamIds.map(t => [t, 0]));
+  for (const ballot of ballots) {
+    if (ballot.winner in votes) votes[ballot.winner]++;
+  }
+
+  let ranking: string[];
+  let winner: string | null;
+  if (format.resultType === "ranking") {
+    const rankSums: Record<string, number> = Object.fromEntries(teamIds.map(t => [t, 0]));
+    for (const ballot of ballots) {
+      rankingOf(ballot).forEach((team, index) => {
+        if (team in rankSums) rankSums[team] += index + 1;
+      });
+    }
+    const chairRanking = chair ? rankingOf(chair) : teamIds;
+    ranking = [...teamIds].sort((a, b) =>
+      rankSums[a] - rankSums[b] || chairRanking.indexOf(a) - chairRanking.indexOf(b)
+    );
+    winner = ranking[0];
+  } else {
+    const top = Math.max(...Object.values(votes));
+    const leaders = teamIds.filter(t => votes[t] === top);
+    winner = leaders.length === 1 ? leaders[0] : chair && leaders.includes(chair.winner) ? chair.winner : null;
+    ranking = winner ? [winner, ...teamIds.filter(t => t !== winner)] : [];
+  }
+
+  const pointTotals: Record<string, { sum: number; count: number }> = {};
+  for (const ballot of ballots) {
+    for (const [role, points] of Object.entries(ballot.speakerPoints)) {
+      const total = pointTotals[role] ?? (pointTotals[role] = { sum: 0, count: 0 });
+      total.sum += points;
+      total.count++;
+    }
+  }
+  const speakerPoints = Object.fromEntries(
+    Object.entries(pointTotals).map(([role, { sum, count }]) => [role, Math.round((sum / count) * 10) / 10])
+  );
+
+  const forWinner = winner ? votes[winner] : 0;
+  return {
+    winner,
+    ranking,
+    votes,
+    split: `${forWinner}-${ballots.length - forWinner}`,
+    unanimous: forWinner === ballots.length,
+    speakerPoints,
+    ballotCount: ballots.length,
+  };
+}
+
+// Where the human panel and the AI verdict part ways, as readable notes
+export function comparePanelWithAI(
+  format: DebateFormat,
+  decision: PanelDecision,
+  ai: { suggestedWinner: string | null; teamRankings: TeamRanking[] | null }
+): string[] {
+  const label = (team: string) => format.teams.find(t => t.id === team)?.shortLabel ?? team;
+  const differences: string[] = [];
+
+  if (ai.suggestedWinner && decision.winner && ai.suggestedWinner !== decision.winner) {
+    differences.push(
+      `The panel gave the debate to ${label(decision.winner)}; the AI picked ${label(ai.suggestedWinner)}.`
+    );
+  }
+  if (format.resultType === "ranking" && ai.teamRankings?.length) {
+    for (const entry of ai.teamRankings) {
+      const panelRank = decision.ranking.indexOf(entry.team) + 1;
+      if (panelRank > 0 && panelRank !== entry.rank) {
+        differences.push(
+          `${label(entry.team)}: ${formatRank(panelRank)} on the panel, ${formatRank(entry.rank)} from the AI.`
+        );
+      }
+    }
+  }
+  return differences;
+}
+
+// Get the side (proposition or opposition) a team argues for
+export function getTeamSide(team: string, format: DebateFormat = ASIAN_PARLIAMENTARY_FORMAT): TeamSide | undefined {
+  return format.teams.find(t => t.id === team)?.side;
+}
+
 // Get team color
-export function getTeamColor(team: Team): string {
-  return team === "government" ? "#3B82F6" : "#EF4444";
+export function getTeamColor(team: string, format: DebateFormat = ASIAN_PARLIAMENTARY_FORMAT): string {
+  return format.teams.find(t => t.id === team)?.color ?? "#6B7280";
 }
 
 // Get team label
-export function getTeamLabel(team: Team): string {
-  return team === "government" ? "Government (Proposition)" : "Opposition";
+export function getTeamLabel(team: string, format: DebateFormat = ASIAN_PARLIAMENTARY_FORMAT): string {
+  return format.teams.find(t => t.id === team)?.label ?? team;
 }